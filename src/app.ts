@@ -10,6 +10,7 @@
  * - Centralized error handling
  */
 
+import cookieParser from "cookie-parser";
 import cors from "cors";
 import express, { Application } from "express";
 import helmet from "helmet";
@@ -68,11 +69,12 @@ export const createApp = async (): Promise<Application> => {
 
   /**
    * ------------------------------------
-   * Body parsers
+   * Body & cookie parsers
    * ------------------------------------
    */
   app.use(express.json({ limit: "10mb" }));
   app.use(express.urlencoded({ extended: true, limit: "10mb" }));
+  app.use(cookieParser());
 
   /**
    * ------------------------------------
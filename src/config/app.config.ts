@@ -6,6 +6,8 @@
  * Controls general app behavior (NOT infra)
  */
 
+import { SigningAlgorithm } from "@constants/enum.constants";
+
 export const appConfig = {
   /* ----------------------------------
    * Application
@@ -17,6 +19,9 @@ export const appConfig = {
   APP_CLIENT_ENDPOINTS: {
     VERIFY_EMAIL: "/auth/verify",
     PASSWORD_VERIFY: "/auth/reset-password",
+    UNLOCK_ACCOUNT: "/auth/unlock",
+    MAGIC_LINK_SIGNIN: "/auth/magic-link",
+    ORGANIZATION_INVITATION: "/organizations/invitations",
   },
 
   /* ----------------------------------
@@ -45,6 +50,29 @@ export const appConfig = {
     SESSION_TTL_SECONDS: 1296000, // 15 days
   },
 
+  /* ----------------------------------
+   * Refresh Token Cookies (opt-in web transport)
+   * ---------------------------------- */
+  AUTH_COOKIES: {
+    TRANSPORT_HEADER: "x-token-transport", // "cookie" opts into cookie mode
+    REFRESH_TOKEN_NAME: "nfy_rt", // HttpOnly
+    REFRESH_TOKEN_PATH: "/api/v1/auth/token", // only sent to the refresh endpoints
+    CSRF_TOKEN_NAME: "nfy_csrf", // readable by the client (double-submit)
+    CSRF_HEADER: "x-csrf-token",
+    SAME_SITE: "strict" as "strict" | "lax" | "none",
+  },
+
+  /* ----------------------------------
+   * JWT Signing Keys (asymmetric, rotated)
+   * ---------------------------------- */
+  SIGNING_KEYS: {
+    ALGORITHM: SigningAlgorithm.RS256, // algorithm for newly generated keys
+    RSA_MODULUS_LENGTH: 2048,
+    ACTIVATION_DELAY_SECONDS: 900, // new keys are published (JWKS) before they sign
+    RELOAD_INTERVAL_SECONDS: 60, // how often each instance reloads the key set
+    JWKS_MAX_AGE_SECONDS: 300, // Cache-Control for /.well-known/jwks.json
+  },
+
   /* ----------------------------------
    * OTP Configuration
    * ---------------------------------- */
@@ -57,6 +85,131 @@ export const appConfig = {
     SESSION_TTL_SECONDS: 86400, // 24 hours
   },
 
+  /* ----------------------------------
+   * Account Lockout (failed signins, per account)
+   * ---------------------------------- */
+  ACCOUNT_LOCKOUT: {
+    MAX_FAILED_ATTEMPTS: 5, // consecutive wrong passwords before a lock
+    BASE_LOCK_SECONDS: 60, // doubles with every consecutive lock
+    MAX_LOCK_SECONDS: 86400, // 24 hours
+    TRACKING_TTL_SECONDS: 86400, // failures & lock level reset after a quiet day
+  },
+
+  /* ----------------------------------
+   * Suspicious Signin (OTP step-up)
+   * ---------------------------------- */
+  SUSPICIOUS_SIGNIN: {
+    ENABLED: true,
+    MAX_TRAVEL_SPEED_KMH: 1000, // faster than a commercial flight = impossible travel
+    MIN_TRAVEL_DISTANCE_KM: 500, // ignore geo-IP noise between nearby locations
+  },
+
+  /* ----------------------------------
+   * Two-Factor Authentication (TOTP)
+   * ---------------------------------- */
+  TWO_FACTOR: {
+    DIGITS: 6,
+    PERIOD_SECONDS: 30,
+    WINDOW: 1, // accept ±1 time step for clock drift
+    RECOVERY_CODES_COUNT: 10,
+    CHALLENGE_TTL_SECONDS: 300, // 5 minutes to complete the second step
+  },
+
+  /* ----------------------------------
+   * Re-authentication (sensitive account changes)
+   * Password when set, otherwise a recent signin on the session
+   * ---------------------------------- */
+  REAUTH: {
+    MAX_AGE_SECONDS: 600, // passwordless accounts must have signed in recently
+  },
+
+  /* ----------------------------------
+   * Passkeys (WebAuthn)
+   * ---------------------------------- */
+  PASSKEY: {
+    CHALLENGE_TTL_SECONDS: 300, // 5 minutes to complete a ceremony
+    MAX_PER_USER: 10,
+  },
+
+  /* ----------------------------------
+   * API Keys (integrations)
+   * ---------------------------------- */
+  API_KEYS: {
+    PREFIX: "nfy",
+    MAX_PER_OWNER: 25, // active keys per user / organization
+    MAX_EXPIRY_DAYS: 365,
+    LAST_USED_TOUCH_INTERVAL_SECONDS: 60, // throttles last-used writes
+  },
+
+  /* ----------------------------------
+   * OAuth / Social Signin
+   * ---------------------------------- */
+  OAUTH: {
+    STATE_TTL_SECONDS: 600, // 10 minutes to complete the provider round-trip
+    JWKS_CACHE_TTL_SECONDS: 3600, // 1 hour
+    GOOGLE_SCOPES: ["openid", "email", "profile"],
+  },
+
+  /* ----------------------------------
+   * Admin Impersonation (support)
+   * ---------------------------------- */
+  IMPERSONATION: {
+    SESSION_TTL_SECONDS: 900, // 15 minutes, not refreshable
+  },
+
+  /* ----------------------------------
+   * Admin Moderation
+   * ---------------------------------- */
+  MODERATION: {
+    MAX_SUSPENSION_DAYS: 365,
+    SUSPENSION_EXPIRY_INTERVAL_SECONDS: 300, // auto-unsuspend job
+    SUSPENSION_EXPIRY_BATCH_SIZE: 100,
+  },
+
+  /* ----------------------------------
+   * Organization Departments
+   * ---------------------------------- */
+  DEPARTMENTS: {
+    MAX_DEPTH: 6, // root departments are depth 1
+    MAX_PER_ORGANIZATION: 500,
+    MAX_HEADS: 5,
+  },
+
+  /* ----------------------------------
+   * Organization Roles (RBAC)
+   * ---------------------------------- */
+  ROLES: {
+    MAX_CUSTOM_PER_ORGANIZATION: 50,
+  },
+
+  /* ----------------------------------
+   * Organization Invitations
+   * ---------------------------------- */
+  INVITATIONS: {
+    EXPIRES_IN_DAYS: 7,
+    MAX_PENDING_PER_ORGANIZATION: 200,
+    MAX_RESENDS: 5,
+    RESEND_COOLDOWN_SECONDS: 60,
+  },
+
+  /* ----------------------------------
+   * Security Audit Log
+   * ---------------------------------- */
+  AUDIT_LOG: {
+    DEFAULT_PAGE_SIZE: 50,
+    MAX_PAGE_SIZE: 200,
+    MAX_EXPORT_ROWS: 50000, // per export request
+  },
+
+  /* ----------------------------------
+   * Account Self-Deletion
+   * ---------------------------------- */
+  ACCOUNT_DELETION: {
+    GRACE_PERIOD_DAYS: 30, // restorable window before permanent anonymization
+    PURGE_INTERVAL_SECONDS: 3600, // how often expired accounts are anonymized
+    PURGE_BATCH_SIZE: 100,
+  },
+
   /* ----------------------------------
    * Authentication Behavior Flags
    * ---------------------------------- */
@@ -67,7 +220,11 @@ export const appConfig = {
 
     ALLOW_LOGIN_BEFORE_EMAIL_VERIFIED: false,
 
-    ENABLE_SMS_OTP: false, // FUTURE (email only for now)
+    ENABLE_MAGIC_LINK_SIGNIN: true, // passwordless email link + OTP
+
+    ENABLE_SMS_OTP: true, // delivery provider is selected via SMS_PROVIDER
+
+    MAX_KNOWN_DEVICES: 20, // device fingerprints remembered for new-login alerts
   },
 
   /* ----------------------------------
@@ -28,6 +28,14 @@ const required = (key: string, defaultValue?: string): string => {
   return value;
 };
 
+/**
+ * Helper to read optional environment variables
+ */
+const optional = (key: string): string | undefined => {
+  const value = process.env[key];
+  return value === undefined || value === "" ? undefined : value;
+};
+
 /**
  * Helper to parse number env vars
  */
@@ -51,6 +59,26 @@ const boolean = (key: string, defaultValue = false): boolean => {
   return raw === "true" || raw === "1";
 };
 
+/**
+ * Helper to parse enum env vars (one of the allowed values)
+ */
+const oneOf = <T extends string, D extends T | undefined = undefined>(
+  key: string,
+  allowed: readonly T[],
+  defaultValue?: D
+): T | D => {
+  const value = optional(key) ?? defaultValue;
+  if (value === undefined) return value as D;
+
+  if (!allowed.includes(value as T)) {
+    throw new Error(
+      `❌ Environment variable ${key} must be one of: ${allowed.join(", ")}.`
+    );
+  }
+
+  return value as T;
+};
+
 /**
  * Application environment config
  */
@@ -61,6 +89,18 @@ export const env = {
   NODE_ENV: required("NODE_ENV", "development") as "development" | "production",
   PORT: number("PORT", 5000),
 
+  // --------------------------------
+  // Trusted edge / CDN
+  // Its geo headers (country, city, coordinates) are only read when set.
+  // Only set it when the origin is reachable through that edge alone,
+  // otherwise clients can forge their location.
+  // --------------------------------
+  TRUSTED_EDGE: oneOf("TRUSTED_EDGE", [
+    "cloudflare",
+    "vercel",
+    "cloudfront",
+  ] as const),
+
   // --------------------------------
   // CORS
   // --------------------------------
@@ -83,11 +123,49 @@ export const env = {
 
   // --------------------------------
   // JWT / Auth
+  // Tokens are signed with rotated asymmetric keys (see SigningKey model).
+  // The legacy HMAC secrets only verify tokens issued before the switch.
   // --------------------------------
-  JWT_ACCESS_SECRET: required("JWT_ACCESS_SECRET"),
-  JWT_REFRESH_SECRET: required("JWT_REFRESH_SECRET"),
+  JWT_ACCESS_SECRET: optional("JWT_ACCESS_SECRET"),
+  JWT_REFRESH_SECRET: optional("JWT_REFRESH_SECRET"),
   JWT_ACCESS_EXPIRES_IN: required("JWT_ACCESS_EXPIRES_IN", "15m"),
   JWT_REFRESH_EXPIRES_IN: required("JWT_REFRESH_EXPIRES_IN", "7d"),
+  AUTH_COOKIE_DOMAIN: optional("AUTH_COOKIE_DOMAIN"), // e.g. ".example.com" to share with the web client
+
+  // --------------------------------
+  // Encryption at rest (2FA secrets, JWT signing keys)
+  // At least 32 characters, e.g. 64 hex chars: `openssl rand -hex 32`.
+  // Changing it makes already encrypted data unreadable.
+  // --------------------------------
+  DATA_ENCRYPTION_KEY: required("DATA_ENCRYPTION_KEY"),
+
+  // --------------------------------
+  // Google OAuth (OIDC) - optional, feature disabled when unset
+  // Endpoints are overridable so tests can use a local stand-in issuer
+  // --------------------------------
+  GOOGLE_CLIENT_ID: optional("GOOGLE_CLIENT_ID"),
+  GOOGLE_CLIENT_SECRET: optional("GOOGLE_CLIENT_SECRET"),
+  GOOGLE_REDIRECT_URI: optional("GOOGLE_REDIRECT_URI"),
+  GOOGLE_ISSUER: required("GOOGLE_ISSUER", "https://accounts.google.com"),
+  GOOGLE_AUTHORIZATION_ENDPOINT: required(
+    "GOOGLE_AUTHORIZATION_ENDPOINT",
+    "https://accounts.google.com/o/oauth2/v2/auth"
+  ),
+  GOOGLE_TOKEN_ENDPOINT: required(
+    "GOOGLE_TOKEN_ENDPOINT",
+    "https://oauth2.googleapis.com/token"
+  ),
+  GOOGLE_JWKS_URI: required(
+    "GOOGLE_JWKS_URI",
+    "https://www.googleapis.com/oauth2/v3/certs"
+  ),
+
+  // --------------------------------
+  // Passkeys (WebAuthn)
+  // RP ID must be the registrable domain the client runs on
+  // --------------------------------
+  WEBAUTHN_RP_ID: required("WEBAUTHN_RP_ID", "localhost"),
+  WEBAUTHN_ORIGINS: optional("WEBAUTHN_ORIGINS"), // comma separated, defaults to APP_CLIENT_BASE_URL
 
   // --------------------------------
   // Cloudinary
@@ -107,13 +185,45 @@ export const env = {
   SMTP_FROM: required("SMTP_FROM"),
 
   // --------------------------------
-  // Twilio Service
+  // SMS Service
+  // "twilio" sends real messages, "fake" only logs them (local / tests,
+  // refused in production). Defaults to "twilio" when Twilio is configured.
+  // --------------------------------
+  SMS_PROVIDER: oneOf(
+    "SMS_PROVIDER",
+    ["twilio", "fake"] as const,
+    optional("TWILIO_ACCOUNT_SID") ? "twilio" : "fake"
+  ),
+
+  // --------------------------------
+  // Twilio Service (required when SMS_PROVIDER=twilio)
   // --------------------------------
-  TWILIO_ACCOUNT_SID: required("TWILIO_ACCOUNT_SID"),
-  TWILIO_AUTH_TOKEN: required("TWILIO_AUTH_TOKEN"),
-  TWILIO_FROM_NUMBER: required("TWILIO_FROM_NUMBER"),
+  TWILIO_ACCOUNT_SID: optional("TWILIO_ACCOUNT_SID"),
+  TWILIO_AUTH_TOKEN: optional("TWILIO_AUTH_TOKEN"),
+  TWILIO_FROM_NUMBER: optional("TWILIO_FROM_NUMBER"),
 };
 
+/**
+ * Value & cross-variable rules
+ */
+if (env.DATA_ENCRYPTION_KEY.length < 32) {
+  throw new Error(
+    "❌ Environment variable DATA_ENCRYPTION_KEY must be at least 32 characters (e.g. `openssl rand -hex 32`)."
+  );
+}
+
+if (env.SMS_PROVIDER === "fake" && env.NODE_ENV === "production") {
+  throw new Error(
+    "❌ SMS_PROVIDER=fake is not allowed in production (SMS would never be delivered). Set the TWILIO_* variables."
+  );
+}
+
+if (env.SMS_PROVIDER === "twilio") {
+  required("TWILIO_ACCOUNT_SID");
+  required("TWILIO_AUTH_TOKEN");
+  required("TWILIO_FROM_NUMBER");
+}
+
 /**
  * Freeze env to prevent runtime mutation
  */
@@ -79,6 +79,185 @@ export enum SessionType {
   RESET_PASSWORD = "RESET_PASSWORD",
   SIGNIN = "SIGNIN",
   SOCIAL_LOGIN = "SOCIAL_SIGNIN",
+  PHONE_VERIFY = "PHONE_VERIFY",
+  SIGNIN_2FA = "SIGNIN_2FA",
+  PASSKEY_REGISTER = "PASSKEY_REGISTER",
+  PASSKEY_SIGNIN = "PASSKEY_SIGNIN",
+  CHANGE_EMAIL = "CHANGE_EMAIL",
+  ACCOUNT_RESTORE = "ACCOUNT_RESTORE",
+  ACCOUNT_UNLOCK = "ACCOUNT_UNLOCK",
+  SIGNIN_STEP_UP = "SIGNIN_STEP_UP",
+  SIGNIN_MAGIC_LINK = "SIGNIN_MAGIC_LINK",
+}
+
+/**
+ * Delivery channel for one-time passwords
+ */
+export enum OtpChannel {
+  EMAIL = "EMAIL",
+  SMS = "SMS",
+}
+
+/**
+ * Method used to establish a signin session
+ */
+export enum SigninMethod {
+  PASSWORD = "PASSWORD",
+  GOOGLE = "GOOGLE",
+  PASSKEY = "PASSKEY",
+  EMAIL_OTP = "EMAIL_OTP",
+  MAGIC_LINK = "MAGIC_LINK",
+  INVITATION = "INVITATION", // accepting an organization invitation
+  IMPERSONATION = "IMPERSONATION", // support staff acting as the user
+}
+
+/**
+ * Why a signin was flagged for an OTP step-up
+ */
+export enum SigninRiskReason {
+  NEW_DEVICE = "NEW_DEVICE",
+  NEW_COUNTRY = "NEW_COUNTRY",
+  IMPOSSIBLE_TRAVEL = "IMPOSSIBLE_TRAVEL",
+}
+
+/**
+ * Why a username cannot be claimed
+ */
+export enum UsernameUnavailableReason {
+  INVALID = "INVALID",
+  RESERVED = "RESERVED",
+  TAKEN = "TAKEN",
+}
+
+/**
+ * Permissions grantable to an API key
+ */
+export enum ApiKeyScope {
+  PROFILE_READ = "profile:read",
+  PROFILE_WRITE = "profile:write",
+  ORGANIZATION_READ = "organization:read",
+  ORGANIZATION_WRITE = "organization:write",
+}
+
+/**
+ * Asymmetric algorithms used to sign our JWTs (published via JWKS)
+ */
+export enum SigningAlgorithm {
+  RS256 = "RS256",
+  EDDSA = "EdDSA", // Ed25519
+}
+
+/**
+ * Security audit events (append-only audit log)
+ */
+export enum AuditEventType {
+  SIGNUP_COMPLETED = "auth.signup_completed",
+  SIGNIN_SUCCEEDED = "auth.signin_succeeded",
+  SIGNIN_FAILED = "auth.signin_failed",
+  SIGNIN_STEP_UP = "auth.signin_step_up",
+  ACCOUNT_LOCKED = "auth.account_locked",
+  ACCOUNT_UNLOCKED = "auth.account_unlocked",
+  REFRESH_TOKEN_REUSE = "auth.refresh_token_reuse",
+  PASSWORD_RESET = "auth.password_reset",
+  PASSWORD_CHANGED = "auth.password_changed",
+  EMAIL_CHANGED = "auth.email_changed",
+  PHONE_VERIFIED = "auth.phone_verified",
+  PASSKEY_REGISTERED = "auth.passkey_registered",
+  LOGOUT = "auth.logout",
+  LOGOUT_ALL = "auth.logout_all",
+  ACCOUNT_DELETION_SCHEDULED = "account.deletion_scheduled",
+  ACCOUNT_RESTORED = "account.restored",
+  ACCOUNT_PURGED = "account.purged",
+  ACCOUNT_SUSPENDED = "admin.account_suspended",
+  ACCOUNT_BLOCKED = "admin.account_blocked",
+  ACCOUNT_UNBLOCKED = "admin.account_unblocked",
+  ACCOUNT_DELETED = "admin.account_deleted",
+  SUSPENSION_EXPIRED = "account.suspension_expired",
+  IMPERSONATION_STARTED = "admin.impersonation_started",
+  IMPERSONATION_ENDED = "admin.impersonation_ended",
+  MEMBER_ADDED = "organization.member_added",
+  MEMBER_UPDATED = "organization.member_updated",
+  MEMBER_REMOVED = "organization.member_removed",
+  MEMBER_LEFT = "organization.member_left",
+
+  // Organization roles
+  ROLE_CREATED = "organization.role_created",
+  ROLE_UPDATED = "organization.role_updated",
+  ROLE_DELETED = "organization.role_deleted",
+  ROLE_ASSIGNED = "organization.role_assigned",
+  ROLE_REVOKED = "organization.role_revoked",
+
+  // Organization invitations
+  INVITATION_SENT = "organization.invitation_sent",
+  INVITATION_RESENT = "organization.invitation_resent",
+  INVITATION_REVOKED = "organization.invitation_revoked",
+  INVITATION_ACCEPTED = "organization.invitation_accepted",
+  INVITATION_DECLINED = "organization.invitation_declined",
+}
+
+/**
+ * Moderation actions admins can take on users & business profiles
+ */
+export enum ModerationAction {
+  SUSPEND = "SUSPEND",
+  BLOCK = "BLOCK",
+  UNBLOCK = "UNBLOCK", // lifts a suspension or block
+  DELETE = "DELETE",
+}
+
+/**
+ * Audit log export formats
+ */
+export enum AuditExportFormat {
+  CSV = "csv",
+  JSONL = "jsonl",
+}
+
+/**
+ * Role of a user inside an organization (business profile)
+ */
+export enum OrganizationRole {
+  OWNER = "OWNER", // the business profile owner, exactly one
+  ADMIN = "ADMIN",
+  MANAGER = "MANAGER", // runs departments & their members
+  MEMBER = "MEMBER",
+  VIEWER = "VIEWER", // read-only, no member directory
+}
+
+/**
+ * Organization permission catalog (built-in & custom roles grant these)
+ */
+export enum Permission {
+  MEMBERS_READ = "members:read",
+  MEMBERS_MANAGE = "members:manage",
+  ADMINS_MANAGE = "admins:manage",
+  DEPARTMENTS_READ = "departments:read",
+  DEPARTMENTS_MANAGE = "departments:manage",
+  DEPARTMENT_MEMBERS_MANAGE = "department_members:manage",
+  ROLES_READ = "roles:read",
+  ROLES_MANAGE = "roles:manage",
+  API_KEYS_MANAGE = "api_keys:manage",
+}
+
+/**
+ * Organization membership lifecycle
+ */
+export enum MembershipStatus {
+  ACTIVE = "ACTIVE",
+  SUSPENDED = "SUSPENDED", // still a member, cannot act for the organization
+  LEFT = "LEFT",
+  REMOVED = "REMOVED",
+}
+
+/**
+ * Organization invitation lifecycle
+ */
+export enum InvitationStatus {
+  PENDING = "PENDING",
+  ACCEPTED = "ACCEPTED",
+  DECLINED = "DECLINED",
+  REVOKED = "REVOKED",
+  EXPIRED = "EXPIRED", // past `expiresAt` (stored lazily)
 }
 
 /**
@@ -0,0 +1,71 @@
+// ======================================
+// FILE: src/constants/permission.constants.ts
+// ======================================
+
+/**
+ * Organization RBAC
+ * -------------------------------------------------
+ * What each built-in role grants, and which permissions
+ * still apply when a role is granted on a single department.
+ */
+
+import { OrganizationRole, Permission } from "./enum.constants";
+
+/* ----------------------------------
+ CATALOG
+----------------------------------- */
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  [Permission.MEMBERS_READ]: "View the member directory",
+  [Permission.MEMBERS_MANAGE]: "Add, update, suspend & remove members",
+  [Permission.ADMINS_MANAGE]: "Grant, change & revoke the admin role",
+  [Permission.DEPARTMENTS_READ]: "View departments",
+  [Permission.DEPARTMENTS_MANAGE]:
+    "Create, rename, move, merge & delete departments",
+  [Permission.DEPARTMENT_MEMBERS_MANAGE]:
+    "Assign members, heads & department roles",
+  [Permission.ROLES_READ]: "View roles & permissions",
+  [Permission.ROLES_MANAGE]: "Create, update & delete custom roles",
+  [Permission.API_KEYS_MANAGE]: "Create, list & revoke organization API keys",
+};
+
+/* ----------------------------------
+ BUILT-IN ROLES
+----------------------------------- */
+export const BUILT_IN_ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> =
+  {
+    [OrganizationRole.OWNER]: Object.values(Permission),
+    [OrganizationRole.ADMIN]: Object.values(Permission).filter(
+      (permission) => permission !== Permission.ADMINS_MANAGE
+    ),
+    [OrganizationRole.MANAGER]: [
+      Permission.MEMBERS_READ,
+      Permission.DEPARTMENTS_READ,
+      Permission.DEPARTMENT_MEMBERS_MANAGE,
+      Permission.ROLES_READ,
+    ],
+    [OrganizationRole.MEMBER]: [
+      Permission.MEMBERS_READ,
+      Permission.DEPARTMENTS_READ,
+      Permission.ROLES_READ,
+    ],
+    [OrganizationRole.VIEWER]: [Permission.DEPARTMENTS_READ],
+  };
+
+/* ----------------------------------
+ DEPARTMENT SCOPE
+----------------------------------- */
+
+// Built-in roles that can be granted on a department (admin & owner are org-wide)
+export const DEPARTMENT_ROLES = [
+  OrganizationRole.MANAGER,
+  OrganizationRole.MEMBER,
+  OrganizationRole.VIEWER,
+];
+
+// Permissions a department role grants inside that department & its subtree
+export const DEPARTMENT_SCOPED_PERMISSIONS: ReadonlySet<Permission> = new Set([
+  Permission.MEMBERS_READ,
+  Permission.DEPARTMENTS_READ,
+  Permission.DEPARTMENTS_MANAGE,
+  Permission.DEPARTMENT_MEMBERS_MANAGE,
+]);
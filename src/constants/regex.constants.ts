@@ -21,4 +21,7 @@ export const PASSWORD_REGEX =
 
 export const PHONE_NUMBER_REGEX = /^[0-9]{7,15}$/;
 
+// International format: "+" and up to 15 digits (country code included)
+export const E164_REGEX = /^\+[1-9]\d{6,14}$/;
+
 export const OTP_REGEX = /^[0-9]{4,8}$/;
@@ -0,0 +1,84 @@
+// ======================================
+// FILE: src/constants/username.constants.ts
+// ======================================
+
+/**
+ * Reserved usernames
+ * -------------------------------------------------
+ * Names that could impersonate staff, the product or system routes.
+ * Matching ignores case, dots and underscores ("Ad.min" === "admin").
+ */
+
+/* ----------------------------------
+ RESERVED LIST
+----------------------------------- */
+export const RESERVED_USERNAMES: ReadonlySet<string> = new Set([
+  // Staff & trust
+  "admin",
+  "administrator",
+  "superadmin",
+  "root",
+  "sysadmin",
+  "moderator",
+  "mod",
+  "staff",
+  "support",
+  "help",
+  "helpdesk",
+  "security",
+  "abuse",
+  "official",
+  "verified",
+  "team",
+
+  // Product & brand
+  "notifyforyou",
+  "nfy",
+  "system",
+  "bot",
+  "noreply",
+  "postmaster",
+  "webmaster",
+  "billing",
+  "sales",
+  "info",
+  "contact",
+  "press",
+  "status",
+
+  // Routes & technical
+  "api",
+  "app",
+  "www",
+  "mail",
+  "auth",
+  "signin",
+  "signup",
+  "login",
+  "logout",
+  "register",
+  "account",
+  "accounts",
+  "settings",
+  "profile",
+  "me",
+  "user",
+  "users",
+  "business",
+  "graphql",
+  "health",
+  "null",
+  "undefined",
+  "anonymous",
+  "everyone",
+]);
+
+/* ----------------------------------
+ HELPERS
+----------------------------------- */
+
+/**
+ * Whether a username is reserved (case, dots & underscores ignored)
+ */
+export const isReservedUsername = (username: string): boolean =>
+  RESERVED_USERNAMES.has(username.toLowerCase().replace(/[._]/g, ""));
@@ -6,6 +6,7 @@
  * ---------------------------------------------
  * - Single GraphQL endpoint for logged-in APIs
  * - Authenticated context
+ * - Declarative authorization (@auth, @hasRole, @hasPermission)
  * - Centralized error handling
  * - Schema-first approach
  */
@@ -21,7 +22,10 @@ import { loadSchemaSync } from "@graphql-tools/load";
 import { makeExecutableSchema } from "@graphql-tools/schema";
 
 import { graphqlConfig } from "@config/index";
-import { createGraphQLContext } from "@graphql/graphql.context";
+import { createGraphQLContext, GraphQLContext } from "@graphql/graphql.context";
+import { applyAuthDirectives } from "@graphql/graphql.directives";
+import { formatGraphQLError } from "@graphql/graphql.errors";
+import { readOnlyImpersonationPlugin } from "@graphql/graphql.plugins";
 import { resolvers } from "@graphql/resolvers";
 import { logger } from "@logger/index";
 
@@ -36,19 +40,23 @@ export const applyGraphQL = async (app: Express): Promise<void> => {
     { loaders: [new GraphQLFileLoader()] }
   );
 
-  const schema = makeExecutableSchema({
-    typeDefs,
-    resolvers,
-  });
+  const schema = applyAuthDirectives(
+    makeExecutableSchema({
+      typeDefs,
+      resolvers,
+    })
+  );
 
-  const server = new ApolloServer({
+  const server = new ApolloServer<GraphQLContext>({
     schema,
     csrfPrevention: false,
     introspection: graphqlConfig.INTROSPECTION, // enable playground
+    formatError: formatGraphQLError,
     plugins: [
       ApolloServerPluginLandingPageLocalDefault({
         embed: true,
       }),
+      readOnlyImpersonationPlugin,
     ],
   });
 
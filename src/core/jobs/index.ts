@@ -0,0 +1,75 @@
+// ================================
+// FILE: src/core/jobs.ts
+// ================================
+/**
+ * Background jobs (in-process scheduler)
+ * - Interval based, started once the server is connected
+ * - A Redis lock keeps each run single across instances
+ */
+
+import { appConfig } from "@config/app.config";
+import { getRedisClient } from "@core/redis";
+import { logger } from "@logger/index";
+import { AccountService } from "@modules/account/account.service";
+import { AdminService } from "@modules/admin/admin.service";
+
+type Job = {
+  name: string;
+  intervalSeconds: number;
+  run: () => Promise<unknown>;
+};
+
+const jobs: Job[] = [
+  {
+    name: "account-purge",
+    intervalSeconds: appConfig.ACCOUNT_DELETION.PURGE_INTERVAL_SECONDS,
+    run: () => AccountService.purgeExpiredAccountsService(),
+  },
+  {
+    name: "suspension-expiry",
+    intervalSeconds: appConfig.MODERATION.SUSPENSION_EXPIRY_INTERVAL_SECONDS,
+    run: () => AdminService.liftExpiredSuspensionsService(),
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Runs a job unless another instance currently holds its lock
+ */
+const runJob = async (job: Job): Promise<void> => {
+  const lockKey = `jobs:lock:${job.name}`;
+
+  try {
+    const acquired = await getRedisClient().set(
+      lockKey,
+      String(process.pid),
+      "EX",
+      job.intervalSeconds,
+      "NX"
+    );
+
+    if (!acquired) return;
+
+    await job.run();
+  } catch (err) {
+    logger.error({ err }, `❌ Job ${job.name} failed`);
+  }
+};
+
+export const startJobs = (): void => {
+  for (const job of jobs) {
+    const timer = setInterval(() => runJob(job), job.intervalSeconds * 1000);
+    timer.unref();
+    timers.push(timer);
+
+    // First run right after boot
+    runJob(job);
+  }
+
+  logger.info(`🕒 ${jobs.length} background job(s) scheduled`);
+};
+
+export const stopJobs = (): void => {
+  timers.splice(0).forEach(clearInterval);
+};
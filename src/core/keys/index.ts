@@ -0,0 +1,177 @@
+// ================================
+// FILE: src/core/keys.ts
+// ================================
+/**
+ * JWT signing keys (MongoDB backed, shared by all instances)
+ * - Loads the key set into the in-memory key ring & keeps it fresh
+ * - Bootstraps a first key on an empty database
+ * - Rotation: new keys are published before they sign, and superseded
+ *   keys keep verifying until the tokens they signed have expired
+ */
+
+import crypto from "crypto";
+
+import { appConfig } from "@config/app.config";
+import { SigningAlgorithm } from "@constants/enum.constants";
+import { logger } from "@logger/index";
+import { SigningKeyModel } from "@models/SigningKey.model";
+import { decryptValue, encryptValue } from "@utils/encryption.util";
+import {
+  generateSigningKeyPair,
+  getCurrentSigningKey,
+  setSigningKeys,
+} from "@utils/signingKey.util";
+
+let reloadTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Load every non-expired key into the key ring
+ */
+export const loadSigningKeys = async (): Promise<void> => {
+  const keys = await SigningKeyModel.find({
+    $or: [
+      { expiresAt: { $exists: false } },
+      { expiresAt: { $gt: new Date() } },
+    ],
+  })
+    .select("+privateKey")
+    .lean();
+
+  setSigningKeys(
+    keys.map((key) => ({
+      kid: key.kid,
+      algorithm: key.algorithm,
+      publicKey: crypto.createPublicKey(key.publicKey),
+      privateKey: crypto.createPrivateKey(decryptValue(key.privateKey)),
+      activatesAt: key.activatesAt,
+      expiresAt: key.expiresAt,
+    }))
+  );
+};
+
+/**
+ * Create a key, superseding the ones currently signing
+ * - Scheduled: activates after ACTIVATION_DELAY_SECONDS so every instance and
+ *   JWKS consumer knows it before the first token it signs
+ * - Immediate: signs right away (suspected key compromise)
+ *   and revokes every other key, so tokens they signed stop verifying
+ *   (all users must sign in again)
+ */
+export const rotateSigningKeys = async (
+  options: { immediate?: boolean; algorithm?: SigningAlgorithm } = {}
+): Promise<{ kid: string; activatesAt: Date; revokedKeys: number }> => {
+  const algorithm = options.algorithm || appConfig.SIGNING_KEYS.ALGORITHM;
+  const { kid, publicKey, privateKey } = generateSigningKeyPair(algorithm);
+
+  const activatesAt = new Date(
+    Date.now() +
+      (options.immediate
+        ? 0
+        : appConfig.SIGNING_KEYS.ACTIVATION_DELAY_SECONDS) *
+        1000
+  );
+
+  await SigningKeyModel.create({
+    kid,
+    algorithm,
+    publicKey,
+    privateKey: encryptValue(privateKey),
+    activatesAt,
+  });
+
+  // Superseded keys verify until their longest-lived token (refresh) expires,
+  // unless revoked right away (immediate rotation: the old keys may be leaked)
+  const superseded = await SigningKeyModel.updateMany(
+    options.immediate
+      ? { kid: { $ne: kid } }
+      : { kid: { $ne: kid }, expiresAt: { $exists: false } },
+    {
+      $set: {
+        expiresAt: options.immediate
+          ? new Date()
+          : new Date(
+              activatesAt.getTime() +
+                appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS * 1000
+            ),
+      },
+    }
+  );
+  const revokedKeys = options.immediate ? superseded.modifiedCount : 0;
+
+  // Expired keys are no longer needed for anything
+  await SigningKeyModel.deleteMany({ expiresAt: { $lte: new Date() } });
+
+  await loadSigningKeys();
+
+  logger.info(
+    { kid, algorithm, activatesAt, revokedKeys },
+    "🔑 JWT signing key rotated"
+  );
+
+  return { kid, activatesAt, revokedKeys };
+};
+
+/**
+ * First key of an empty database. A unique index lets a single instance
+ * create it (the others load that one); existing keys are never revoked.
+ */
+const bootstrapSigningKey = async (): Promise<void> => {
+  const algorithm = appConfig.SIGNING_KEYS.ALGORITHM;
+  const { kid, publicKey, privateKey } = generateSigningKeyPair(algorithm);
+
+  // autoIndex is off: the unique bootstrap slot must exist before inserting
+  await SigningKeyModel.createIndexes();
+
+  // An expired bootstrap key would hold the slot
+  await SigningKeyModel.deleteMany({ expiresAt: { $lte: new Date() } });
+
+  try {
+    await SigningKeyModel.create({
+      kid,
+      algorithm,
+      publicKey,
+      privateKey: encryptValue(privateKey),
+      activatesAt: new Date(),
+      bootstrap: true,
+    });
+
+    logger.info({ kid, algorithm }, "🔑 JWT signing key bootstrapped");
+  } catch (err) {
+    if ((err as { code?: number }).code !== 11000) throw err;
+
+    logger.info("🔑 JWT signing key bootstrapped by another instance");
+  }
+
+  await loadSigningKeys();
+};
+
+/**
+ * Load the key ring at startup (bootstrap a key when none exists)
+ * and reload it periodically so rotations reach every instance
+ */
+export const initSigningKeys = async (): Promise<void> => {
+  await loadSigningKeys();
+
+  try {
+    getCurrentSigningKey();
+  } catch {
+    logger.warn("⚠️ No active JWT signing key found, generating one...");
+    await bootstrapSigningKey();
+
+    getCurrentSigningKey(); // fail fast if none is active still
+  }
+
+  reloadTimer = setInterval(() => {
+    loadSigningKeys().catch((err) =>
+      logger.error({ err }, "❌ JWT signing key reload failed")
+    );
+  }, appConfig.SIGNING_KEYS.RELOAD_INTERVAL_SECONDS * 1000);
+  reloadTimer.unref();
+
+  logger.info("🔑 JWT signing keys loaded");
+};
+
+export const stopSigningKeys = (): void => {
+  if (reloadTimer) clearInterval(reloadTimer);
+  reloadTimer = null;
+};
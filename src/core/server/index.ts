@@ -4,8 +4,10 @@
 /**
  * Server bootstrap
  * - DB connections
+ * - JWT signing keys
  * - HTTP server
  * - Socket.IO
+ * - Background jobs
  * - Graceful shutdown
  */
 
@@ -13,6 +15,8 @@ import http from "http";
 
 import { env } from "@config/env.config";
 import { connectDatabase } from "@core/database";
+import { startJobs, stopJobs } from "@core/jobs";
+import { initSigningKeys, stopSigningKeys } from "@core/keys";
 import { connectRedis } from "@core/redis";
 import { initSocket } from "@core/socket";
 import { logger } from "@logger/index";
@@ -23,6 +27,9 @@ export const startServer = async () => {
   await connectDatabase();
   await connectRedis();
 
+  // Load JWT signing keys before any token is issued or verified
+  await initSigningKeys();
+
   const app = await createApp(); // Inside we will setup Rest APIs and Graphql
   const server = http.createServer(app);
 
@@ -33,6 +40,9 @@ export const startServer = async () => {
     logger.info(`🚀 Server running on port ${env.PORT}`);
   });
 
+  // Start background jobs (account purge, ...)
+  startJobs();
+
   // Graceful shutdown
   process.on("SIGTERM", () => shutdown(server));
   process.on("SIGINT", () => shutdown(server));
@@ -41,6 +51,9 @@ export const startServer = async () => {
 const shutdown = (server: http.Server) => {
   logger.warn("⚠️ Shutting down server...");
 
+  stopJobs();
+  stopSigningKeys();
+
   server.close(() => {
     logger.info("✅ HTTP server closed");
     process.exit(0);
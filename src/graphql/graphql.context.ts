@@ -5,17 +5,53 @@
  * GraphQL Context Builder
  * ------------------------
  * - Injects user, session, requestId
+ * - Accepts signin access tokens (JWT) and API keys
  * - Used by all resolvers
  */
 
 import { Request, Response } from "express";
 
+import {
+  AccountStatus,
+  ApiKeyScope,
+  Permission,
+} from "@constants/enum.constants";
+import { forbiddenError, unauthenticatedError } from "@graphql/graphql.errors";
+import { IUser, UserModel } from "@models/User.model";
+import { ApiKeysService } from "@modules/apiKeys/apiKeys.service";
+import { AuthService } from "@modules/auth/auth.service";
+import { AuthContext } from "@modules/auth/auth.types";
+import { OrganizationActorInput } from "@modules/organizations/organizations.types";
+import { authorize } from "@modules/roles/roles.helpers";
+import { PolicyResource } from "@modules/roles/roles.types";
+import { isApiKey } from "@utils/apiKey.util";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta, getClientMeta } from "@utils/device.util";
+import { extractBearerToken } from "@utils/token.util";
+
 export interface GraphQLContext {
   requestId?: string;
+  client: ClientMeta; // ip, user agent... (audit events)
   userId?: string;
   sessionId?: string;
+
+  user?: IUser;
+  session?: AuthContext;
+
+  // Reason the bearer token was rejected (surfaced by requireAuth)
+  authError?: string;
 }
 
+/**
+ * Authenticated GraphQL context (after requireAuth)
+ */
+export type AuthenticatedGraphQLContext = GraphQLContext & {
+  userId: string;
+  sessionId: string;
+  user: IUser;
+  session: AuthContext;
+};
+
 export const createGraphQLContext = async ({
   request,
   response,
@@ -23,7 +59,7 @@ export const createGraphQLContext = async ({
   request: Request;
   response: Response;
 }): Promise<GraphQLContext> => {
-  const context: GraphQLContext = {};
+  const context: GraphQLContext = { client: {} };
 
   // Add requestId only if it exists (IMPORTANT for exactOptionalPropertyTypes)
   if (request.requestId) {
@@ -31,29 +67,123 @@ export const createGraphQLContext = async ({
   }
 
   try {
-    const authHeader = request.headers.authorization;
-    if (!authHeader) return context;
+    context.client = getClientMeta(request);
 
-    // const token = authHeader.replace("Bearer ", "");
+    const accessToken = extractBearerToken(request.headers.authorization);
+    if (!accessToken) return context;
 
-    // const payload = verifyAccessToken(token);
+    /* =====================================================
+     * 1️⃣ Resolve API key, or token against the Redis session store
+     * ===================================================== */
+    const session = isApiKey(accessToken)
+      ? await ApiKeysService.authenticateApiKeyService(
+          accessToken,
+          context.client
+        )
+      : await AuthService.authenticateAccessTokenService(accessToken);
 
-    // const session = await SessionModel.findOne({
-    //   _id: payload.sessionId,
-    //   status: SessionStatus.ACTIVE,
-    //   type: AuthSessionType.LOGIN,
-    // }).select("_id user expiresAt");
+    /* =====================================================
+     * 2️⃣ Load user & enforce account status
+     * ===================================================== */
+    const user = await UserModel.findById(session.userId).select(
+      "+accountType +status +statusMeta"
+    );
 
-    // if (!session) return context;
+    if (!user) {
+      context.authError = "User not found.";
+      return context;
+    }
 
-    // context.userId = session.user.toString();
-    // context.sessionId = session._id.toString();
+    if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
+      context.authError = "Your account is not active. Please contact support.";
+      return context;
+    }
 
-    context.userId = "Not available";
-    context.sessionId = "Not available";
-  } catch {
+    context.user = user;
+    context.session = session;
+    context.userId = session.userId;
+    context.sessionId = session.sessionId;
+  } catch (error) {
+    context.authError =
+      error instanceof AppError ? error.message : "Authentication failed.";
     return context;
   }
 
   return context;
 };
+
+/**
+ * Ensures the context is authenticated, otherwise throws UNAUTHENTICATED
+ * (resolvers behind @auth call it to narrow the context type)
+ */
+export function requireAuth(
+  ctx: GraphQLContext
+): asserts ctx is AuthenticatedGraphQLContext {
+  if (!ctx.user || !ctx.session || !ctx.userId || !ctx.sessionId) {
+    throw unauthenticatedError(ctx.authError);
+  }
+}
+
+/**
+ * Ensures the context comes from a signin session
+ * (API keys and impersonation sessions are rejected)
+ * Use for account-security operations (sessions, credentials...)
+ */
+export function requireSession(
+  ctx: GraphQLContext
+): asserts ctx is AuthenticatedGraphQLContext {
+  requireAuth(ctx);
+
+  if (ctx.session.apiKey) {
+    throw forbiddenError(
+      "API keys cannot be used for this operation. Please sign in."
+    );
+  }
+
+  if (ctx.session.impersonation) {
+    throw forbiddenError(
+      "Account security settings are not available while impersonating."
+    );
+  }
+}
+
+/**
+ * Ensures the context is authenticated and, for API keys, holds every scope
+ * (signin sessions act with the user's full permissions)
+ */
+export function requireScopes(
+  ctx: GraphQLContext,
+  ...scopes: ApiKeyScope[]
+): asserts ctx is AuthenticatedGraphQLContext {
+  requireAuth(ctx);
+
+  const apiKey = ctx.session.apiKey;
+
+  if (apiKey && !scopes.every((scope) => apiKey.scopes.includes(scope))) {
+    throw forbiddenError(
+      `This API key is missing the required scope: ${scopes.join(", ")}.`
+    );
+  }
+}
+
+/**
+ * Organization actor of an authenticated context
+ * (organization API keys only act on their own organization)
+ */
+export const toOrganizationActor = (
+  ctx: AuthenticatedGraphQLContext
+): OrganizationActorInput => ({
+  userId: ctx.userId,
+  apiKeyBusinessProfileId: ctx.session.apiKey?.businessProfileId,
+});
+
+/**
+ * Ensures the caller holds an organization permission (RBAC policy)
+ */
+export async function requirePermission(
+  ctx: AuthenticatedGraphQLContext,
+  permission: Permission,
+  resource: PolicyResource
+): Promise<void> {
+  await authorize(toOrganizationActor(ctx), permission, resource);
+}
@@ -0,0 +1,173 @@
+// ==========================================
+// FILE: src/graphql/graphql.directives.ts
+// ==========================================
+/**
+ * GraphQL Authorization Directives
+ * ------------------------
+ * - @auth: signed-in user, API key scopes, signin session only
+ * - @hasRole: platform roles (USER / ADMIN / SUPER_ADMIN)
+ * - @hasPermission: organization permissions (RBAC policy)
+ * - Declared on types or fields, enforced before the resolver runs
+ */
+
+import { getDirective, MapperKind, mapSchema } from "@graphql-tools/utils";
+import { defaultFieldResolver, GraphQLSchema } from "graphql";
+
+import {
+  AccountType,
+  ApiKeyScope,
+  Permission,
+} from "@constants/enum.constants";
+import {
+  GraphQLContext,
+  requireAuth,
+  requirePermission,
+  requireScopes,
+  requireSession,
+} from "@graphql/graphql.context";
+import { forbiddenError } from "@graphql/graphql.errors";
+import { DepartmentModel } from "@models/Department.model";
+import { getCurrentRoles } from "@modules/auth/auth.helpers";
+import { PolicyResource } from "@modules/roles/roles.types";
+import { AppError } from "@utils/AppError.util";
+
+interface AuthDirective {
+  scopes: (keyof typeof ApiKeyScope)[];
+  session: boolean;
+}
+
+interface HasRoleDirective {
+  roles: AccountType[];
+}
+
+interface HasPermissionDirective {
+  permission: keyof typeof Permission;
+  organization?: string;
+  department?: string;
+}
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+/**
+ * Reads a (dotted) argument path, e.g. "input.businessProfileId"
+ */
+const getArgument = (
+  args: Record<string, unknown>,
+  path: string
+): string | undefined => {
+  const value = path
+    .split(".")
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === "object"
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      args
+    );
+
+  return typeof value === "string" && value ? value : undefined;
+};
+
+/**
+ * Organization (and department) a @hasPermission field acts on
+ */
+const getPolicyResource = async (
+  directive: HasPermissionDirective,
+  args: Record<string, unknown>
+): Promise<PolicyResource> => {
+  const departmentId = directive.department
+    ? getArgument(args, directive.department)
+    : undefined;
+  let businessProfileId = directive.organization
+    ? getArgument(args, directive.organization)
+    : undefined;
+
+  if (!businessProfileId && departmentId) {
+    const department = await DepartmentModel.findById(departmentId)
+      .select("businessProfileId")
+      .lean()
+      .catch(() => null); // malformed ids read as missing
+
+    if (!department) throw new AppError("Department not found.", 404);
+
+    businessProfileId = String(department.businessProfileId);
+  }
+
+  if (!businessProfileId) {
+    throw new AppError("Business profile id is required.", 400);
+  }
+
+  return { businessProfileId, departmentId };
+};
+
+const enforceAuth = (ctx: GraphQLContext, directive: AuthDirective): void => {
+  if (directive.session) requireSession(ctx);
+
+  requireScopes(ctx, ...directive.scopes.map((scope) => ApiKeyScope[scope]));
+};
+
+const enforceRoles = (
+  ctx: GraphQLContext,
+  directive: HasRoleDirective
+): void => {
+  requireAuth(ctx);
+
+  // Current roles from the loaded user, not the ones copied at signin
+  const roles = getCurrentRoles(ctx.session, ctx.user);
+
+  if (!roles.some((role) => directive.roles.includes(role))) {
+    throw forbiddenError("You do not have permission to perform this action.");
+  }
+};
+
+/* ----------------------------------
+ * SCHEMA TRANSFORM
+ * ---------------------------------- */
+
+/**
+ * Wraps resolvers of fields (or types) carrying authorization directives
+ */
+export const applyAuthDirectives = (schema: GraphQLSchema): GraphQLSchema =>
+  mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, _fieldName, typeName) => {
+      const type = schema.getType(typeName);
+      const onType = (name: string) =>
+        (type && getDirective(schema, type, name)?.[0]) || undefined;
+      const onField = (name: string) =>
+        getDirective(schema, fieldConfig, name)?.[0];
+
+      const auth = [onType("auth"), onField("auth")].filter(
+        Boolean
+      ) as unknown as AuthDirective[];
+      const hasRole = [onType("hasRole"), onField("hasRole")].filter(
+        Boolean
+      ) as unknown as HasRoleDirective[];
+      const hasPermission = onField("hasPermission") as
+        HasPermissionDirective | undefined;
+
+      if (!auth.length && !hasRole.length && !hasPermission) return fieldConfig;
+
+      const { resolve = defaultFieldResolver } = fieldConfig;
+
+      return {
+        ...fieldConfig,
+        resolve: async (source, args, ctx: GraphQLContext, info) => {
+          for (const directive of auth) enforceAuth(ctx, directive);
+          for (const directive of hasRole) enforceRoles(ctx, directive);
+
+          if (hasPermission) {
+            requireAuth(ctx);
+            await requirePermission(
+              ctx,
+              Permission[hasPermission.permission],
+              await getPolicyResource(hasPermission, args)
+            );
+          }
+
+          return resolve(source, args, ctx, info);
+        },
+      };
+    },
+  });
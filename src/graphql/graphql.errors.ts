@@ -0,0 +1,99 @@
+// ==========================================
+// FILE: src/graphql/graphql.errors.ts
+// ==========================================
+/**
+ * GraphQL Error Helpers
+ * ------------------------
+ * - Standard error codes shared with clients (extensions.code)
+ * - Keeps resolver error handling consistent
+ * - Maps service errors (AppError / ZodError) to GraphQL codes
+ */
+
+import { GraphQLError, GraphQLFormattedError } from "graphql";
+import { ZodError } from "zod";
+
+import { AppError } from "@utils/AppError.util";
+
+export enum GraphQLErrorCode {
+  UNAUTHENTICATED = "UNAUTHENTICATED",
+  FORBIDDEN = "FORBIDDEN",
+  BAD_USER_INPUT = "BAD_USER_INPUT",
+  NOT_FOUND = "NOT_FOUND",
+  CONFLICT = "CONFLICT",
+  TOO_MANY_REQUESTS = "TOO_MANY_REQUESTS",
+}
+
+/**
+ * AppError status code → GraphQL error code
+ */
+const STATUS_TO_CODE: Record<number, GraphQLErrorCode> = {
+  400: GraphQLErrorCode.BAD_USER_INPUT,
+  401: GraphQLErrorCode.UNAUTHENTICATED,
+  403: GraphQLErrorCode.FORBIDDEN,
+  404: GraphQLErrorCode.NOT_FOUND,
+  409: GraphQLErrorCode.CONFLICT,
+  410: GraphQLErrorCode.BAD_USER_INPUT,
+  423: GraphQLErrorCode.FORBIDDEN,
+  429: GraphQLErrorCode.TOO_MANY_REQUESTS,
+};
+
+/**
+ * Raised when a resolver requires an authenticated user
+ */
+export const unauthenticatedError = (
+  message = "Authentication required."
+): GraphQLError =>
+  new GraphQLError(message, {
+    extensions: {
+      code: GraphQLErrorCode.UNAUTHENTICATED,
+      http: { status: 401 },
+    },
+  });
+
+/**
+ * Raised when the caller is authenticated but not allowed to perform an action
+ */
+export const forbiddenError = (message = "Forbidden."): GraphQLError =>
+  new GraphQLError(message, {
+    extensions: {
+      code: GraphQLErrorCode.FORBIDDEN,
+      http: { status: 403 },
+    },
+  });
+
+/**
+ * Apollo `formatError` hook
+ * Services throw AppError / ZodError (shared with REST); expose them with stable codes
+ */
+export const formatGraphQLError = (
+  formattedError: GraphQLFormattedError,
+  error: unknown
+): GraphQLFormattedError => {
+  const originalError =
+    error instanceof GraphQLError ? error.originalError : undefined;
+
+  if (originalError instanceof AppError) {
+    const code = STATUS_TO_CODE[originalError.statusCode];
+
+    if (code) {
+      return {
+        ...formattedError,
+        message: originalError.message,
+        extensions: { ...formattedError.extensions, code },
+      };
+    }
+  }
+
+  if (originalError instanceof ZodError) {
+    return {
+      ...formattedError,
+      message: originalError.issues[0]?.message || "Invalid request data",
+      extensions: {
+        ...formattedError.extensions,
+        code: GraphQLErrorCode.BAD_USER_INPUT,
+      },
+    };
+  }
+
+  return formattedError;
+};
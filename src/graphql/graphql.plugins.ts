@@ -0,0 +1,31 @@
+// ==========================================
+// FILE: src/graphql/graphql.plugins.ts
+// ==========================================
+/**
+ * GraphQL Server Plugins
+ * ------------------------
+ * - Request-level policies that apply to every operation
+ */
+
+import { ApolloServerPlugin } from "@apollo/server";
+
+import { GraphQLContext } from "@graphql/graphql.context";
+import { forbiddenError } from "@graphql/graphql.errors";
+
+/**
+ * Read-only impersonation: admins may query as the user, never mutate
+ */
+export const readOnlyImpersonationPlugin: ApolloServerPlugin<GraphQLContext> = {
+  async requestDidStart() {
+    return {
+      async didResolveOperation({ contextValue, operation }) {
+        if (
+          operation?.operation === "mutation" &&
+          contextValue.session?.impersonation?.readOnly
+        ) {
+          throw forbiddenError("This impersonation session is read-only.");
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,191 @@
+import {
+  GraphQLContext,
+  requireAuth,
+  toOrganizationActor,
+} from "@graphql/graphql.context";
+import { DepartmentsService } from "@modules/departments/departments.service";
+import { DepartmentSummary } from "@modules/departments/departments.types";
+import {
+  departmentCreateValidator,
+  departmentIdValidator,
+  departmentListValidator,
+  departmentMembersValidator,
+  departmentMembershipsValidator,
+  departmentMergeValidator,
+  departmentMoveValidator,
+  departmentUpdateValidator,
+} from "@modules/departments/departments.validator";
+
+type MembershipsArgs = { departmentId: string; membershipIds: string[] };
+
+export const departmentResolvers = {
+  Department: {
+    createdAt: (department: DepartmentSummary) =>
+      department.createdAt.toISOString(),
+  },
+
+  Query: {
+    departments: async (
+      _: unknown,
+      args: { businessProfileId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.listDepartmentsService({
+        ...toOrganizationActor(ctx),
+        ...departmentListValidator.parse(args),
+      });
+    },
+
+    departmentTree: async (
+      _: unknown,
+      args: { businessProfileId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.getDepartmentTreeService({
+        ...toOrganizationActor(ctx),
+        ...departmentListValidator.parse(args),
+      });
+    },
+
+    department: async (
+      _: unknown,
+      args: { departmentId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.getDepartmentService({
+        ...toOrganizationActor(ctx),
+        departmentId: departmentIdValidator.parse(args.departmentId),
+      });
+    },
+
+    departmentMembers: async (
+      _: unknown,
+      args: { departmentId: string; includeSubdepartments?: boolean | null },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.listDepartmentMembersService({
+        ...toOrganizationActor(ctx),
+        ...departmentMembersValidator.parse({
+          departmentId: args.departmentId,
+          includeSubdepartments: args.includeSubdepartments ?? undefined,
+        }),
+      });
+    },
+  },
+
+  Mutation: {
+    createDepartment: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.createDepartmentService({
+        ...toOrganizationActor(ctx),
+        ...departmentCreateValidator.parse(args.input),
+      });
+    },
+
+    updateDepartment: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.updateDepartmentService({
+        ...toOrganizationActor(ctx),
+        ...departmentUpdateValidator.parse(args.input),
+      });
+    },
+
+    moveDepartment: async (
+      _: unknown,
+      args: { departmentId: string; parentId?: string | null },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.moveDepartmentService({
+        ...toOrganizationActor(ctx),
+        ...departmentMoveValidator.parse(args),
+      });
+    },
+
+    mergeDepartments: async (
+      _: unknown,
+      args: { sourceDepartmentId: string; targetDepartmentId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.mergeDepartmentsService({
+        ...toOrganizationActor(ctx),
+        ...departmentMergeValidator.parse(args),
+      });
+    },
+
+    deleteDepartment: async (
+      _: unknown,
+      args: { departmentId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      await DepartmentsService.deleteDepartmentService({
+        ...toOrganizationActor(ctx),
+        departmentId: departmentIdValidator.parse(args.departmentId),
+      });
+
+      return true;
+    },
+
+    setDepartmentHeads: async (
+      _: unknown,
+      args: MembershipsArgs,
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.setDepartmentHeadsService({
+        ...toOrganizationActor(ctx),
+        ...departmentMembershipsValidator.parse(args),
+      });
+    },
+
+    assignDepartmentMembers: async (
+      _: unknown,
+      args: MembershipsArgs,
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.assignDepartmentMembersService({
+        ...toOrganizationActor(ctx),
+        ...departmentMembershipsValidator.parse(args),
+      });
+    },
+
+    unassignDepartmentMembers: async (
+      _: unknown,
+      args: MembershipsArgs,
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return DepartmentsService.unassignDepartmentMembersService({
+        ...toOrganizationActor(ctx),
+        ...departmentMembershipsValidator.parse(args),
+      });
+    },
+  },
+};
@@ -1,13 +1,33 @@
+import { departmentResolvers } from "./department.resolver";
+import { invitationResolvers } from "./invitation.resolver";
+import { organizationResolvers } from "./organization.resolver";
+import { roleResolvers } from "./role.resolver";
+import { sessionResolvers } from "./session.resolver";
 import { testResolvers } from "./test.resolver";
 
 export const resolvers = {
+  AuthSession: sessionResolvers.AuthSession,
+  OrganizationMember: organizationResolvers.OrganizationMember,
+  Department: departmentResolvers.Department,
+  Role: roleResolvers.Role,
+  OrganizationInvitation: invitationResolvers.OrganizationInvitation,
   Query: {
     health: () => {
       return "GraphQL server is healthy 🚀";
     },
     ...testResolvers.Query,
+    ...sessionResolvers.Query,
+    ...organizationResolvers.Query,
+    ...departmentResolvers.Query,
+    ...roleResolvers.Query,
+    ...invitationResolvers.Query,
   },
   Mutation: {
     ...testResolvers.Mutation,
+    ...sessionResolvers.Mutation,
+    ...organizationResolvers.Mutation,
+    ...departmentResolvers.Mutation,
+    ...roleResolvers.Mutation,
+    ...invitationResolvers.Mutation,
   },
 };
@@ -0,0 +1,115 @@
+import {
+  GraphQLContext,
+  requireAuth,
+  toOrganizationActor,
+} from "@graphql/graphql.context";
+import { InvitationsService } from "@modules/invitations/invitations.service";
+import { InvitationSummary } from "@modules/invitations/invitations.types";
+import {
+  invitationCreateValidator,
+  invitationIdValidator,
+  invitationListValidator,
+  invitationTokenValidator,
+} from "@modules/invitations/invitations.validator";
+
+export const invitationResolvers = {
+  OrganizationInvitation: {
+    expiresAt: (invitation: InvitationSummary) =>
+      invitation.expiresAt.toISOString(),
+    lastSentAt: (invitation: InvitationSummary) =>
+      invitation.lastSentAt.toISOString(),
+    respondedAt: (invitation: InvitationSummary) =>
+      invitation.respondedAt?.toISOString() ?? null,
+    createdAt: (invitation: InvitationSummary) =>
+      invitation.createdAt.toISOString(),
+  },
+
+  Query: {
+    organizationInvitations: async (
+      _: unknown,
+      args: { businessProfileId: string; status?: string | null },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = invitationListValidator.parse({
+        businessProfileId: args.businessProfileId,
+        status: args.status ?? undefined,
+      });
+
+      return InvitationsService.listInvitationsService({
+        ...toOrganizationActor(ctx),
+        ...input,
+      });
+    },
+  },
+
+  Mutation: {
+    inviteOrganizationMember: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = invitationCreateValidator.parse({
+        ...args.input,
+        role: args.input.role ?? undefined,
+        departmentId: args.input.departmentId ?? undefined,
+      });
+
+      return InvitationsService.createInvitationService(
+        { ...toOrganizationActor(ctx), ...input },
+        ctx.client
+      );
+    },
+
+    resendOrganizationInvitation: async (
+      _: unknown,
+      args: { invitationId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return InvitationsService.resendInvitationService(
+        {
+          ...toOrganizationActor(ctx),
+          invitationId: invitationIdValidator.parse(args.invitationId),
+        },
+        ctx.client
+      );
+    },
+
+    revokeOrganizationInvitation: async (
+      _: unknown,
+      args: { invitationId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return InvitationsService.revokeInvitationService(
+        {
+          ...toOrganizationActor(ctx),
+          invitationId: invitationIdValidator.parse(args.invitationId),
+        },
+        ctx.client
+      );
+    },
+
+    acceptOrganizationInvitation: async (
+      _: unknown,
+      args: { token: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return InvitationsService.joinInvitationService(
+        {
+          ...toOrganizationActor(ctx),
+          token: invitationTokenValidator.parse(args.token),
+        },
+        ctx.client
+      );
+    },
+  },
+};
@@ -0,0 +1,118 @@
+import {
+  GraphQLContext,
+  requireAuth,
+  toOrganizationActor,
+} from "@graphql/graphql.context";
+import { OrganizationsService } from "@modules/organizations/organizations.service";
+import { OrganizationMemberSummary } from "@modules/organizations/organizations.types";
+import {
+  businessProfileIdValidator,
+  memberAddValidator,
+  memberListValidator,
+  membershipIdValidator,
+  memberUpdateValidator,
+} from "@modules/organizations/organizations.validator";
+
+export const organizationResolvers = {
+  OrganizationMember: {
+    joinedAt: (member: OrganizationMemberSummary) =>
+      member.joinedAt.toISOString(),
+    leftAt: (member: OrganizationMemberSummary) =>
+      member.leftAt?.toISOString() ?? null,
+  },
+
+  Query: {
+    myOrganizations: async (_: unknown, __: unknown, ctx: GraphQLContext) => {
+      requireAuth(ctx);
+
+      return OrganizationsService.listMyOrganizationsService(
+        toOrganizationActor(ctx)
+      );
+    },
+
+    organizationMembers: async (
+      _: unknown,
+      args: { businessProfileId: string; status?: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = memberListValidator.parse(args);
+
+      return OrganizationsService.listMembersService({
+        ...toOrganizationActor(ctx),
+        ...input,
+      });
+    },
+  },
+
+  Mutation: {
+    addOrganizationMember: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = memberAddValidator.parse(args.input);
+
+      return OrganizationsService.addMemberService(
+        { ...toOrganizationActor(ctx), ...input },
+        ctx.client
+      );
+    },
+
+    updateOrganizationMember: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = memberUpdateValidator.parse(args.input);
+
+      return OrganizationsService.updateMemberService(
+        { ...toOrganizationActor(ctx), ...input },
+        ctx.client
+      );
+    },
+
+    removeOrganizationMember: async (
+      _: unknown,
+      args: { membershipId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      await OrganizationsService.removeMemberService(
+        {
+          ...toOrganizationActor(ctx),
+          membershipId: membershipIdValidator.parse(args.membershipId),
+        },
+        ctx.client
+      );
+
+      return true;
+    },
+
+    leaveOrganization: async (
+      _: unknown,
+      args: { businessProfileId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      await OrganizationsService.leaveOrganizationService(
+        {
+          ...toOrganizationActor(ctx),
+          businessProfileId: businessProfileIdValidator.parse(
+            args.businessProfileId
+          ),
+        },
+        ctx.client
+      );
+
+      return true;
+    },
+  },
+};
@@ -0,0 +1,140 @@
+import {
+  GraphQLContext,
+  requireAuth,
+  toOrganizationActor,
+} from "@graphql/graphql.context";
+import { getPermissionCatalog } from "@modules/roles/roles.helpers";
+import { RolesService } from "@modules/roles/roles.service";
+import { RoleSummary } from "@modules/roles/roles.types";
+import {
+  customRoleCreateValidator,
+  customRoleIdValidator,
+  customRoleUpdateValidator,
+  departmentRoleAssignValidator,
+  departmentRoleRevokeValidator,
+  myPermissionsValidator,
+  roleListValidator,
+} from "@modules/roles/roles.validator";
+
+export const roleResolvers = {
+  Role: {
+    createdAt: (role: RoleSummary) => role.createdAt?.toISOString() ?? null,
+  },
+
+  Query: {
+    permissionCatalog: () => getPermissionCatalog(),
+
+    organizationRoles: async (
+      _: unknown,
+      args: { businessProfileId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = roleListValidator.parse(args);
+
+      return RolesService.listRolesService({
+        ...toOrganizationActor(ctx),
+        ...input,
+      });
+    },
+
+    myPermissions: async (
+      _: unknown,
+      args: { businessProfileId: string; departmentId?: string | null },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = myPermissionsValidator.parse({
+        businessProfileId: args.businessProfileId,
+        departmentId: args.departmentId ?? undefined,
+      });
+
+      return RolesService.getMyPermissionsService({
+        ...toOrganizationActor(ctx),
+        ...input,
+      });
+    },
+  },
+
+  Mutation: {
+    createCustomRole: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = customRoleCreateValidator.parse(args.input);
+
+      return RolesService.createCustomRoleService(
+        { ...toOrganizationActor(ctx), ...input },
+        ctx.client
+      );
+    },
+
+    updateCustomRole: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = customRoleUpdateValidator.parse(args.input);
+
+      return RolesService.updateCustomRoleService(
+        { ...toOrganizationActor(ctx), ...input },
+        ctx.client
+      );
+    },
+
+    deleteCustomRole: async (
+      _: unknown,
+      args: { roleId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      await RolesService.deleteCustomRoleService(
+        {
+          ...toOrganizationActor(ctx),
+          roleId: customRoleIdValidator.parse(args.roleId),
+        },
+        ctx.client
+      );
+
+      return true;
+    },
+
+    assignDepartmentRole: async (
+      _: unknown,
+      args: { input: Record<string, unknown> },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = departmentRoleAssignValidator.parse(args.input);
+
+      return RolesService.assignDepartmentRoleService(
+        { ...toOrganizationActor(ctx), ...input },
+        ctx.client
+      );
+    },
+
+    revokeDepartmentRole: async (
+      _: unknown,
+      args: { departmentId: string; membershipId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const input = departmentRoleRevokeValidator.parse(args);
+
+      return RolesService.revokeDepartmentRoleService(
+        { ...toOrganizationActor(ctx), ...input },
+        ctx.client
+      );
+    },
+  },
+};
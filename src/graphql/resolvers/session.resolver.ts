@@ -0,0 +1,70 @@
+import { GraphQLContext, requireAuth } from "@graphql/graphql.context";
+import { SessionsService } from "@modules/sessions/sessions.service";
+import { ActiveSessionSummary } from "@modules/sessions/sessions.types";
+import {
+  sessionIdValidator,
+  sessionRenameValidator,
+} from "@modules/sessions/sessions.validator";
+
+export const sessionResolvers = {
+  AuthSession: {
+    createdAt: (session: ActiveSessionSummary) =>
+      session.createdAt.toISOString(),
+    lastActivityAt: (session: ActiveSessionSummary) =>
+      session.lastActivityAt?.toISOString() ?? null,
+  },
+
+  Query: {
+    mySessions: async (_: unknown, __: unknown, ctx: GraphQLContext) => {
+      requireAuth(ctx);
+
+      return SessionsService.listSessionsService(ctx);
+    },
+  },
+
+  Mutation: {
+    renameSession: async (
+      _: unknown,
+      args: { sessionId: string; name: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      const targetSessionId = sessionIdValidator.parse(args.sessionId);
+      const { name } = sessionRenameValidator.parse({ name: args.name });
+
+      return SessionsService.renameSessionService({
+        userId: ctx.userId,
+        sessionId: ctx.sessionId,
+        targetSessionId,
+        name,
+      });
+    },
+
+    revokeSession: async (
+      _: unknown,
+      args: { sessionId: string },
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      await SessionsService.revokeSessionService({
+        userId: ctx.userId,
+        sessionId: ctx.sessionId,
+        targetSessionId: sessionIdValidator.parse(args.sessionId),
+      });
+
+      return true;
+    },
+
+    revokeOtherSessions: async (
+      _: unknown,
+      __: unknown,
+      ctx: GraphQLContext
+    ) => {
+      requireAuth(ctx);
+
+      return SessionsService.revokeOtherSessionsService(ctx);
+    },
+  },
+};
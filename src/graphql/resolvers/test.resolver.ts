@@ -23,8 +23,6 @@ export const testResolvers = {
       }: { input: { firstName?: string; lastName?: string; bio?: string } },
       ctx: GraphQLContext
     ) => {
-      if (!ctx.userId) throw new Error("UNAUTHENTICATED");
-
       // TEMP: replace with userService later
       return {
         id: "7hjnfj",
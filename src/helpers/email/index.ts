@@ -1,14 +1,31 @@
 import { appConfig } from "@config/app.config";
 import { env } from "@config/env.config";
 import { logger } from "@logger/index";
+import { maskEmail } from "@utils/index";
 import {
+  accountDeletionScheduledTemplate,
+  accountLockedTemplate,
+  accountRestoredTemplate,
+  accountRestoreTemplate,
+  accountStatusChangedTemplate,
+  changeEmailVerificationTemplate,
+  emailChangedTemplate,
+  emailChangeRequestedTemplate,
   forgotPasswordTemplate,
   loginNotificationTemplate,
+  magicLinkSigninTemplate,
   logoutNotificationTemplate,
+  organizationInvitationTemplate,
+  passkeyAddedTemplate,
+  recoveryCodesRegeneratedTemplate,
+  refreshTokenReuseTemplate,
   resendForgotPasswordTemplate,
   resendVerificationTemplate,
   resetPasswordSuccessTemplate,
+  signinStepUpTemplate,
   signupVerificationTemplate,
+  twoFactorDisabledTemplate,
+  twoFactorEnabledTemplate,
   verificationConfirmedTemplate,
 } from "./templates";
 import { transporter } from "./transporter";
@@ -16,6 +33,7 @@ import {
   type ForgotPasswordEmailOptions,
   type LoginNotificationOptions,
   type LogoutNotificationOptions,
+  type SecurityAlertEmailOptions,
   type VerificationEmailOptions,
 } from "./types";
 
@@ -214,3 +232,368 @@ export const sendResetPasswordSuccessEmail = async (email: string) => {
     logger.error(`sendResetPasswordSuccessEmail ${err}`);
   }
 };
+
+export const sendTwoFactorEnabledEmail = async (email: string) => {
+  try {
+    const tpl = twoFactorEnabledTemplate();
+
+    await transporter.sendMail({
+      from: FROM,
+      to: email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendTwoFactorEnabledEmail ${err}`);
+  }
+};
+
+export const sendTwoFactorDisabledEmail = async (email: string) => {
+  try {
+    const tpl = twoFactorDisabledTemplate();
+
+    await transporter.sendMail({
+      from: FROM,
+      to: email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendTwoFactorDisabledEmail ${err}`);
+  }
+};
+
+export const sendRecoveryCodesRegeneratedEmail = async (email: string) => {
+  try {
+    const tpl = recoveryCodesRegeneratedTemplate();
+
+    await transporter.sendMail({
+      from: FROM,
+      to: email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendRecoveryCodesRegeneratedEmail ${err}`);
+  }
+};
+
+export const sendRefreshTokenReuseEmail = async (
+  opts: SecurityAlertEmailOptions
+) => {
+  try {
+    const tpl = refreshTokenReuseTemplate({
+      device: opts.device,
+      ip: opts.ip,
+      location: opts.location,
+      time: opts.time,
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendRefreshTokenReuseEmail ${err}`);
+  }
+};
+
+export const sendChangeEmailVerificationEmail = async (opts: {
+  email: string;
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  try {
+    const tpl = changeEmailVerificationTemplate({
+      otp: opts.otp,
+      otpExpiryMinutes: opts.otpExpiryMinutes,
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendChangeEmailVerificationEmail ${err}`);
+  }
+};
+
+export const sendEmailChangeRequestedEmail = async (
+  email: string,
+  newEmail: string
+) => {
+  try {
+    const tpl = emailChangeRequestedTemplate({ newEmail: maskEmail(newEmail) });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendEmailChangeRequestedEmail ${err}`);
+  }
+};
+
+export const sendEmailChangedEmail = async (
+  email: string,
+  newEmail: string
+) => {
+  try {
+    const tpl = emailChangedTemplate({ newEmail: maskEmail(newEmail) });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendEmailChangedEmail ${err}`);
+  }
+};
+
+export const sendAccountDeletionScheduledEmail = async (
+  email: string,
+  scheduledFor: Date
+) => {
+  try {
+    const tpl = accountDeletionScheduledTemplate({
+      scheduledFor: scheduledFor.toUTCString(),
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendAccountDeletionScheduledEmail ${err}`);
+  }
+};
+
+export const sendAccountRestoreEmail = async (opts: {
+  email: string;
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  try {
+    const tpl = accountRestoreTemplate({
+      otp: opts.otp,
+      otpExpiryMinutes: opts.otpExpiryMinutes,
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendAccountRestoreEmail ${err}`);
+  }
+};
+
+export const sendAccountRestoredEmail = async (email: string) => {
+  try {
+    const tpl = accountRestoredTemplate();
+
+    await transporter.sendMail({
+      from: FROM,
+      to: email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendAccountRestoredEmail ${err}`);
+  }
+};
+
+export const sendAccountLockedEmail = async (opts: {
+  email: string;
+  otp: string;
+  sessionId: string;
+  lockedFor: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  try {
+    const unlockUrl = buildVerifyUrl(
+      env.APP_CLIENT_BASE_URL,
+      appConfig.APP_CLIENT_ENDPOINTS.UNLOCK_ACCOUNT,
+      opts.sessionId,
+      opts.otp
+    );
+
+    const tpl = accountLockedTemplate({
+      otp: opts.otp,
+      unlockUrl,
+      lockedFor: opts.lockedFor,
+      otpExpiryMinutes: opts.otpExpiryMinutes,
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendAccountLockedEmail ${err}`);
+  }
+};
+
+export const sendSigninStepUpEmail = async (opts: {
+  email: string;
+  otp: string;
+  reasons: string[];
+  device?: string | undefined;
+  location?: string | undefined;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  try {
+    const tpl = signinStepUpTemplate({
+      otp: opts.otp,
+      reasons: opts.reasons,
+      device: opts.device,
+      location: opts.location,
+      otpExpiryMinutes: opts.otpExpiryMinutes,
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendSigninStepUpEmail ${err}`);
+  }
+};
+
+export const sendMagicLinkSigninEmail = async (opts: {
+  email: string;
+  otp: string;
+  sessionId: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  try {
+    const signinUrl = buildVerifyUrl(
+      env.APP_CLIENT_BASE_URL,
+      appConfig.APP_CLIENT_ENDPOINTS.MAGIC_LINK_SIGNIN,
+      opts.sessionId,
+      opts.otp
+    );
+
+    const tpl = magicLinkSigninTemplate({
+      otp: opts.otp,
+      signinUrl,
+      otpExpiryMinutes: opts.otpExpiryMinutes,
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendMagicLinkSigninEmail ${err}`);
+  }
+};
+
+export const sendAccountStatusChangedEmail = async (opts: {
+  email: string;
+  action: "suspended" | "blocked" | "reinstated" | "deleted";
+  businessName?: string | undefined; // business profile actions
+  reason?: string | undefined;
+  until?: Date | undefined;
+}) => {
+  try {
+    const tpl = accountStatusChangedTemplate({
+      action: opts.action,
+      target: opts.businessName
+        ? `Your business profile "${opts.businessName}"`
+        : "Your account",
+      reason: opts.reason,
+      until: opts.until?.toUTCString(),
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendAccountStatusChangedEmail ${err}`);
+  }
+};
+
+export const sendOrganizationInvitationEmail = async (opts: {
+  email: string;
+  token: string;
+  businessName: string;
+  inviterName?: string | undefined;
+  role: string;
+  departmentName?: string | undefined;
+  expiresAt: Date;
+}) => {
+  try {
+    const buildInvitationUrl = (action: "accept" | "decline") => {
+      const url = new URL(
+        appConfig.APP_CLIENT_ENDPOINTS.ORGANIZATION_INVITATION,
+        env.APP_CLIENT_BASE_URL
+      );
+      url.searchParams.set("token", opts.token);
+      url.searchParams.set("action", action);
+      return url.toString();
+    };
+
+    const tpl = organizationInvitationTemplate({
+      businessName: opts.businessName,
+      inviterName: opts.inviterName,
+      role: opts.role,
+      departmentName: opts.departmentName,
+      acceptUrl: buildInvitationUrl("accept"),
+      declineUrl: buildInvitationUrl("decline"),
+      expiresAt: opts.expiresAt.toUTCString(),
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendOrganizationInvitationEmail ${err}`);
+  }
+};
+
+export const sendPasskeyAddedEmail = async (
+  opts: SecurityAlertEmailOptions
+) => {
+  try {
+    const tpl = passkeyAddedTemplate({
+      device: opts.device,
+      ip: opts.ip,
+      location: opts.location,
+      time: opts.time,
+    });
+
+    await transporter.sendMail({
+      from: FROM,
+      to: opts.email,
+      subject: tpl.subject,
+      html: tpl.html,
+    });
+  } catch (err) {
+    logger.error(`sendPasskeyAddedEmail ${err}`);
+  }
+};
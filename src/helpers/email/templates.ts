@@ -192,3 +192,333 @@ export const resetPasswordSuccessTemplate = () => {
   `;
   return { subject, html };
 };
+
+// 9. Two-factor authentication enabled
+export const twoFactorEnabledTemplate = () => {
+  const subject = `${APP_NAME} — Two-factor authentication enabled`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Two-factor authentication enabled</h3>
+      <p>Two-factor authentication is now active on your account. You will be asked for a code from your authenticator app each time you sign in.</p>
+      <p style="font-size:13px;color:#666">Keep your recovery codes somewhere safe. If you did not perform this action, please contact ${env.SMTP_FROM} immediately.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 10. Two-factor authentication disabled
+export const twoFactorDisabledTemplate = () => {
+  const subject = `${APP_NAME} — Two-factor authentication disabled`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Two-factor authentication disabled</h3>
+      <p>Two-factor authentication has been turned off for your account. Your existing recovery codes no longer work.</p>
+      <p style="font-size:13px;color:#666">If you did not perform this action, please reset your password and contact ${env.SMTP_FROM} immediately.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 11. Recovery codes regenerated
+export const recoveryCodesRegeneratedTemplate = () => {
+  const subject = `${APP_NAME} — New recovery codes generated`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Recovery codes regenerated</h3>
+      <p>A new set of two-factor recovery codes was generated for your account. Your previous recovery codes no longer work.</p>
+      <p style="font-size:13px;color:#666">If you did not perform this action, please contact ${env.SMTP_FROM} immediately.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 12. Refresh token reuse (possible session theft)
+export const refreshTokenReuseTemplate = (opts: {
+  device?: string | undefined;
+  ip?: string | undefined;
+  location?: string | undefined;
+  time?: string | undefined;
+}) => {
+  const subject = `${APP_NAME} — Suspicious sign-in activity`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>We signed out one of your sessions</h3>
+      <p>An old sign-in token for your account was used again. This can mean the token was copied from your device, so we signed that session out as a precaution.</p>
+      <ul>
+        ${opts.device ? `<li><strong>Device:</strong> ${opts.device}</li>` : ""}
+        ${opts.ip ? `<li><strong>IP address:</strong> ${opts.ip}</li>` : ""}
+        ${
+          opts.location
+            ? `<li><strong>Location:</strong> ${opts.location}</li>`
+            : ""
+        }
+        ${opts.time ? `<li><strong>Time:</strong> ${opts.time}</li>` : ""}
+      </ul>
+      <p>Please sign in again on that device. If you don't recognize this activity, change your password and contact <a href="mailto:${
+        env.SMTP_FROM
+      }">${env.SMTP_FROM}</a>.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 13. Change email: OTP sent to the new address
+export const changeEmailVerificationTemplate = (opts: {
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, otpExpiryMinutes = 15 } = opts;
+  const subject = `${APP_NAME} — Confirm your new email address`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Confirm your new email address</h3>
+      <p>Use the following code to confirm this address as the new email for your account:</p>
+      <div style="text-align:center;margin:20px 0;"><strong style="font-size:20px">${otp}</strong></div>
+      <p style="font-size:13px;color:#666">This code will expire in ${otpExpiryMinutes} minutes. If you did not request this change, ignore this email.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 14. Change email: notice sent to the current address
+export const emailChangeRequestedTemplate = (opts: { newEmail: string }) => {
+  const subject = `${APP_NAME} — Email change requested`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Email change requested</h3>
+      <p>A request was made to change the email address on your account to <strong>${opts.newEmail}</strong>. The change takes effect once the new address is confirmed.</p>
+      <p style="font-size:13px;color:#666">If you did not request this, change your password immediately and contact ${env.SMTP_FROM}.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 15. Change email: completed (sent to the previous address)
+export const emailChangedTemplate = (opts: { newEmail: string }) => {
+  const subject = `${APP_NAME} — Your email address was changed`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Email address changed</h3>
+      <p>The email address on your account was changed to <strong>${opts.newEmail}</strong>. This address will no longer receive account emails.</p>
+      <p style="font-size:13px;color:#666">If you did not perform this action, please contact ${env.SMTP_FROM} immediately.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 16. Account deletion scheduled (grace period started)
+export const accountDeletionScheduledTemplate = (opts: {
+  scheduledFor: string;
+}) => {
+  const subject = `${APP_NAME} — Your account is scheduled for deletion`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Account scheduled for deletion</h3>
+      <p>Your account has been deactivated and all devices were signed out. It will be permanently deleted on <strong>${opts.scheduledFor}</strong>.</p>
+      <p>Changed your mind? Restore your account before that date by signing in with a verification code sent to this address.</p>
+      <p style="font-size:13px;color:#666">If you did not request this, restore your account, change your password and contact ${env.SMTP_FROM}.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 17. Account restore: OTP
+export const accountRestoreTemplate = (opts: {
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, otpExpiryMinutes = 15 } = opts;
+  const subject = `${APP_NAME} — Restore your account`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Restore your account</h3>
+      <p>Use the following code to cancel the deletion of your account and sign in:</p>
+      <div style="text-align:center;margin:20px 0;"><strong style="font-size:20px">${otp}</strong></div>
+      <p style="font-size:13px;color:#666">This code will expire in ${otpExpiryMinutes} minutes. If you did not request this, ignore this email and your account will be deleted as scheduled.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 18. Account restored
+export const accountRestoredTemplate = () => {
+  const subject = `${APP_NAME} — Your account has been restored`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Welcome back</h3>
+      <p>Your account has been restored and is no longer scheduled for deletion.</p>
+      <p style="font-size:13px;color:#666">If you did not perform this action, change your password and contact ${env.SMTP_FROM}.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 19. Account locked after repeated failed signins (OTP + unlock link)
+export const accountLockedTemplate = (opts: {
+  otp: string;
+  unlockUrl?: string | undefined;
+  lockedFor: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, unlockUrl, lockedFor, otpExpiryMinutes = 15 } = opts;
+  const subject = `${APP_NAME} — Your account has been temporarily locked`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Too many failed sign-in attempts</h3>
+      <p>We locked sign-in to your account for <strong>${lockedFor}</strong> after several incorrect passwords. If this was you, unlock it now with the code below or the button.</p>
+      <div style="text-align:center;margin:20px 0;"><strong style="font-size:20px">${otp}</strong></div>
+      ${unlockUrl ? ctaButton(unlockUrl, "Unlock account") : ""}
+      <p style="font-size:13px;color:#666">This code will expire in ${otpExpiryMinutes} minutes. If you don't recognize these attempts, change your password once you are signed in and contact ${env.SMTP_FROM}.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 20. Sign-in step-up: OTP for an unusual sign-in
+export const signinStepUpTemplate = (opts: {
+  otp: string;
+  reasons: string[];
+  device?: string | undefined;
+  location?: string | undefined;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, otpExpiryMinutes = 15 } = opts;
+  const subject = `${APP_NAME} — Confirm it's you`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Unusual sign-in attempt</h3>
+      <p>Someone entered your password from a sign-in that looks different from usual:</p>
+      <ul>
+        ${opts.reasons.map((reason) => `<li>${reason}</li>`).join("")}
+        ${opts.device ? `<li><strong>Device:</strong> ${opts.device}</li>` : ""}
+        ${
+          opts.location
+            ? `<li><strong>Location:</strong> ${opts.location}</li>`
+            : ""
+        }
+      </ul>
+      <p>If this was you, enter the following code to finish signing in:</p>
+      <div style="text-align:center;margin:20px 0;"><strong style="font-size:20px">${otp}</strong></div>
+      <p style="font-size:13px;color:#666">This code will expire in ${otpExpiryMinutes} minutes. If this wasn't you, change your password immediately.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 21. Magic-link sign-in: link + OTP
+export const magicLinkSigninTemplate = (opts: {
+  otp: string;
+  signinUrl?: string | undefined;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, signinUrl, otpExpiryMinutes = 15 } = opts;
+  const subject = `${APP_NAME} — Your sign-in link`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Sign in without a password</h3>
+      <p>Use the button below to sign in, or enter this code on the sign-in page:</p>
+      <div style="text-align:center;margin:20px 0;"><strong style="font-size:20px">${otp}</strong></div>
+      ${signinUrl ? ctaButton(signinUrl, "Sign in") : ""}
+      <p style="font-size:13px;color:#666">This link and code can be used once and expire in ${otpExpiryMinutes} minutes. If you didn't request them, you can ignore this email.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 22. Moderation: account / business profile status changed by our team
+export const accountStatusChangedTemplate = (opts: {
+  action: "suspended" | "blocked" | "reinstated" | "deleted";
+  target: string; // "Your account" / "Your business profile \"Acme\""
+  reason?: string | undefined;
+  until?: string | undefined; // suspensions with an end date
+}) => {
+  const isReinstated = opts.action === "reinstated";
+  const subject = isReinstated
+    ? `${APP_NAME} — Your access has been restored`
+    : `${APP_NAME} — ${opts.target} has been ${opts.action}`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>${opts.target} has been ${opts.action}</h3>
+      ${
+        isReinstated
+          ? "<p>You can sign in and use it again as usual.</p>"
+          : "<p>Our team took this action and all devices were signed out.</p>"
+      }
+      ${opts.reason ? `<p><strong>Reason:</strong> ${opts.reason}</p>` : ""}
+      ${opts.until ? `<p>The suspension ends on <strong>${opts.until}</strong>.</p>` : ""}
+      <p style="font-size:13px;color:#666">If you believe this is a mistake, contact ${env.SMTP_FROM}.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 23. Organization invitation: accept / decline links
+export const organizationInvitationTemplate = (opts: {
+  businessName: string;
+  inviterName?: string | undefined;
+  role: string;
+  departmentName?: string | undefined;
+  acceptUrl: string;
+  declineUrl: string;
+  expiresAt: string;
+}) => {
+  const subject = `${APP_NAME} — You're invited to join ${opts.businessName}`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>Join ${opts.businessName}</h3>
+      <p>${opts.inviterName || "A member"} invited you to join <strong>${opts.businessName}</strong> as <strong>${opts.role}</strong>${
+        opts.departmentName ? ` in the <strong>${opts.departmentName}</strong> department` : ""
+      }.</p>
+      <p>Sign in with this email address, or create your account, to accept.</p>
+      ${ctaButton(opts.acceptUrl, "Accept invitation")}
+      <p style="font-size:13px;color:#666">This invitation can be used once and expires on ${opts.expiresAt}. Not interested? <a href="${opts.declineUrl}">Decline it</a>, or simply ignore this email.</p>
+    </div>
+  `;
+  return { subject, html };
+};
+
+// 24. Passkey added to the account
+export const passkeyAddedTemplate = (opts: {
+  device?: string | undefined;
+  ip?: string | undefined;
+  location?: string | undefined;
+  time?: string | undefined;
+}) => {
+  const subject = `${APP_NAME} — A passkey was added to your account`;
+  const html = `
+    <div style="font-family:Inter, sans-serif; max-width:600px;margin:0 auto;padding:24px;color:#222">
+      <h2 style="color:#0d6efd">${APP_NAME}</h2>
+      <h3>New passkey added</h3>
+      <p>A passkey was added to your account. It can be used to sign in without your password or authenticator code.</p>
+      <ul>
+        ${opts.device ? `<li><strong>Device:</strong> ${opts.device}</li>` : ""}
+        ${opts.ip ? `<li><strong>IP address:</strong> ${opts.ip}</li>` : ""}
+        ${
+          opts.location
+            ? `<li><strong>Location:</strong> ${opts.location}</li>`
+            : ""
+        }
+        ${opts.time ? `<li><strong>Time:</strong> ${opts.time}</li>` : ""}
+      </ul>
+      <p>If you did not add it, remove it from your security settings, change your password and contact <a href="mailto:${
+        env.SMTP_FROM
+      }">${env.SMTP_FROM}</a>.</p>
+    </div>
+  `;
+  return { subject, html };
+};
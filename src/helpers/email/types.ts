@@ -31,3 +31,11 @@ export type LogoutNotificationOptions = {
   time?: string | undefined;
   device?: string | undefined;
 };
+
+export type SecurityAlertEmailOptions = {
+  email: string;
+  ip?: string | undefined;
+  device?: string | undefined;
+  location?: string | undefined;
+  time?: string | undefined;
+};
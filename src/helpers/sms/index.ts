@@ -0,0 +1,69 @@
+import { appConfig } from "@config/app.config";
+import { logger } from "@logger/index";
+import { toE164 } from "@utils/phone.util";
+import { getSmsSender } from "./sender";
+import {
+  forgotPasswordSmsTemplate,
+  phoneVerificationSmsTemplate,
+  signinStepUpSmsTemplate,
+  signupVerificationSmsTemplate,
+} from "./templates";
+import { type OtpSmsOptions } from "./types";
+
+const DEFAULT_EXPIRY_MINUTES = Math.round(appConfig.OTP.EXPIRES_IN_SECONDS / 60);
+
+export const sendSignupVerificationSms = async (opts: OtpSmsOptions) => {
+  try {
+    await getSmsSender().send({
+      to: toE164(opts.dialCode, opts.phoneNumber),
+      body: signupVerificationSmsTemplate({
+        otp: opts.otp,
+        otpExpiryMinutes: opts.otpExpiryMinutes ?? DEFAULT_EXPIRY_MINUTES,
+      }),
+    });
+  } catch (err) {
+    logger.error(`sendSignupVerificationSms ${err}`);
+  }
+};
+
+export const sendPhoneVerificationSms = async (opts: OtpSmsOptions) => {
+  try {
+    await getSmsSender().send({
+      to: toE164(opts.dialCode, opts.phoneNumber),
+      body: phoneVerificationSmsTemplate({
+        otp: opts.otp,
+        otpExpiryMinutes: opts.otpExpiryMinutes ?? DEFAULT_EXPIRY_MINUTES,
+      }),
+    });
+  } catch (err) {
+    logger.error(`sendPhoneVerificationSms ${err}`);
+  }
+};
+
+export const sendForgotPasswordSms = async (opts: OtpSmsOptions) => {
+  try {
+    await getSmsSender().send({
+      to: toE164(opts.dialCode, opts.phoneNumber),
+      body: forgotPasswordSmsTemplate({
+        otp: opts.otp,
+        otpExpiryMinutes: opts.otpExpiryMinutes ?? DEFAULT_EXPIRY_MINUTES,
+      }),
+    });
+  } catch (err) {
+    logger.error(`sendForgotPasswordSms ${err}`);
+  }
+};
+
+export const sendSigninStepUpSms = async (opts: OtpSmsOptions) => {
+  try {
+    await getSmsSender().send({
+      to: toE164(opts.dialCode, opts.phoneNumber),
+      body: signinStepUpSmsTemplate({
+        otp: opts.otp,
+        otpExpiryMinutes: opts.otpExpiryMinutes ?? DEFAULT_EXPIRY_MINUTES,
+      }),
+    });
+  } catch (err) {
+    logger.error(`sendSigninStepUpSms ${err}`);
+  }
+};
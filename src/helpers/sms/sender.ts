@@ -0,0 +1,59 @@
+import { env } from "@config/env.config";
+import { logger } from "@logger/index";
+import twilio from "twilio";
+import { type SmsMessage, type SmsSender } from "./types";
+
+/**
+ * Twilio implementation (production)
+ */
+export const createTwilioSender = (): SmsSender => {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = env;
+
+  if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+    throw new Error(
+      "❌ TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER are required when SMS_PROVIDER=twilio."
+    );
+  }
+
+  const client = twilio(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN);
+
+  return {
+    name: "twilio",
+    async send(message: SmsMessage) {
+      await client.messages.create({
+        from: TWILIO_FROM_NUMBER,
+        to: message.to,
+        body: message.body,
+      });
+    },
+  };
+};
+
+/**
+ * Local fake (development / tests) - never leaves the process
+ * Sent messages are kept in memory so they can be inspected.
+ */
+export const fakeSmsOutbox: SmsMessage[] = [];
+
+export const createFakeSender = (): SmsSender => ({
+  name: "fake",
+  async send(message: SmsMessage) {
+    fakeSmsOutbox.push(message);
+    logger.info({ to: message.to, body: message.body }, "📱 [fake-sms] sent");
+  },
+});
+
+let sender: SmsSender | null = null;
+
+/**
+ * Lazily resolve the configured sender (one Twilio client per process)
+ */
+export const getSmsSender = (): SmsSender => {
+  if (sender) return sender;
+
+  // SMS_PROVIDER is validated at startup ("fake" is refused in production)
+  sender =
+    env.SMS_PROVIDER === "twilio" ? createTwilioSender() : createFakeSender();
+
+  return sender;
+};
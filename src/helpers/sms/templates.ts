@@ -0,0 +1,41 @@
+import { appConfig } from "@config/app.config";
+
+const { APP_NAME } = appConfig;
+
+// SMS bodies are plain text; keep them short (single segment where possible)
+
+// 1. Signup verification
+export const signupVerificationSmsTemplate = (opts: {
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, otpExpiryMinutes = 10 } = opts;
+  return `${otp} is your ${APP_NAME} verification code. It expires in ${otpExpiryMinutes} minutes. Do not share it with anyone.`;
+};
+
+// 2. Phone number verification (existing account)
+export const phoneVerificationSmsTemplate = (opts: {
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, otpExpiryMinutes = 10 } = opts;
+  return `${otp} is your ${APP_NAME} code to verify this phone number. It expires in ${otpExpiryMinutes} minutes.`;
+};
+
+// 3. Forgot password
+export const forgotPasswordSmsTemplate = (opts: {
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, otpExpiryMinutes = 10 } = opts;
+  return `${otp} is your ${APP_NAME} password reset code. It expires in ${otpExpiryMinutes} minutes. If you did not request this, ignore this message.`;
+};
+
+// 4. Sign-in step-up: OTP for an unusual sign-in
+export const signinStepUpSmsTemplate = (opts: {
+  otp: string;
+  otpExpiryMinutes?: number | undefined;
+}) => {
+  const { otp, otpExpiryMinutes = 10 } = opts;
+  return `${otp} is your ${APP_NAME} code to confirm an unusual sign-in. It expires in ${otpExpiryMinutes} minutes. If this wasn't you, change your password.`;
+};
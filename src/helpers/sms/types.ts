@@ -0,0 +1,20 @@
+// sms/types.ts
+export type SmsMessage = {
+  to: string; // E.164, e.g. +919876543210
+  body: string;
+};
+
+/**
+ * Delivery abstraction so flows never depend on a specific provider
+ */
+export interface SmsSender {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+export type OtpSmsOptions = {
+  dialCode: string; // e.g. +91
+  phoneNumber: string; // national number, digits only
+  otp: string;
+  otpExpiryMinutes?: number | undefined; // used in copy
+};
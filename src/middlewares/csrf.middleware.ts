@@ -0,0 +1,44 @@
+// ================================
+// FILE: src/middlewares/csrf.middleware.ts
+// ================================
+/**
+ * CSRF Protection Middleware (double-submit)
+ * - Only applies when the request carries the refresh token cookie
+ * - The `X-CSRF-Token` header must match the CSRF cookie
+ * - JSON-body (non-cookie) clients send no ambient credentials and pass through
+ */
+
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+
+import { AppError } from "@utils/AppError.util";
+import { getCsrfTokens, getRefreshTokenCookie } from "@utils/authCookie.util";
+
+export const csrfProtection = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!getRefreshTokenCookie(req)) return next();
+
+  const { cookieToken, headerToken } = getCsrfTokens(req);
+
+  const expected = Buffer.from(cookieToken || "");
+  const received = Buffer.from(headerToken || "");
+
+  const isValid =
+    expected.length > 0 &&
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received);
+
+  if (!isValid) {
+    return next(
+      new AppError(
+        "Invalid or missing CSRF token.",
+        403 // Forbidden
+      )
+    );
+  }
+
+  next();
+};
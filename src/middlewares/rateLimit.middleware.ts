@@ -158,6 +158,49 @@ export const passwordResetRateLimiter = createRateLimiter({
   },
 });
 
+/**
+ * SMS OTP rate limiter: 5 requests per hour
+ * Keeps SMS costs bounded per user / phone number
+ */
+export const smsOtpRateLimiter = createRateLimiter({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  message: "Too many SMS requests. Please try again in 1 hour.",
+  keyGenerator: (req: Request) => {
+    const ip = req.ip || req.socket.remoteAddress || "unknown";
+    const subject = req.auth?.userId || req.body?.phoneNumber || "";
+    return subject ? `${ip}:smsOtp:${subject}` : `${ip}:smsOtp`;
+  },
+});
+
+/**
+ * Username availability rate limiter: 30 requests per minute
+ * Allows as-you-type checks while slowing down account enumeration
+ */
+export const usernameAvailabilityRateLimiter = createRateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  message: "Too many username checks. Please try again in a minute.",
+  keyGenerator: (req: Request) => {
+    const ip = req.ip || req.socket.remoteAddress || "unknown";
+    return `${ip}:usernameAvailability`;
+  },
+});
+
+/**
+ * Organization invitation rate limiter: 20 requests per 15 minutes
+ * Covers preview / accept / decline of an emailed invitation link
+ */
+export const invitationRateLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: "Too many invitation requests. Please try again in 15 minutes.",
+  keyGenerator: (req: Request) => {
+    const ip = req.ip || req.socket.remoteAddress || "unknown";
+    return `${ip}:invitation`;
+  },
+});
+
 /**
  * General auth rate limiter: 10 requests per minute
  */
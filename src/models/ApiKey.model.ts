@@ -0,0 +1,88 @@
+import { ApiKeyScope } from "@constants/enum.constants";
+import { Document, Schema, Types, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+export interface IApiKey extends Document {
+  userId: Types.ObjectId; // creator; requests act as this user
+  businessProfileId?: Types.ObjectId; // organization-scoped keys only
+
+  name: string;
+
+  prefix: string; // public identifier, e.g. "nfy_1a2b3c4d5e6f"
+  keyHash: string; // HMAC of the full key
+
+  scopes: ApiKeyScope[];
+
+  expiresAt?: Date;
+  revokedAt?: Date;
+
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+
+    businessProfileId: {
+      type: Schema.Types.ObjectId,
+      ref: "BusinessProfile",
+      index: true,
+      sparse: true,
+    },
+
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+
+    prefix: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+
+    keyHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+
+    scopes: {
+      type: [String],
+      enum: Object.values(ApiKeyScope),
+      default: [],
+    },
+
+    expiresAt: { type: Date },
+    revokedAt: { type: Date },
+
+    lastUsedAt: { type: Date },
+    lastUsedIp: { type: String },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const ApiKeyModel = model<IApiKey>("ApiKey", ApiKeySchema);
@@ -0,0 +1,96 @@
+import { AuditEventType } from "@constants/enum.constants";
+import { Document, Schema, Types, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+export interface IAuditEvent extends Document {
+  type: AuditEventType;
+
+  actorId?: Types.ObjectId; // who performed the action (user or admin)
+  userId?: Types.ObjectId; // subject account
+  businessProfileId?: Types.ObjectId; // organization, when relevant
+
+  ip?: string;
+  userAgent?: string;
+  requestId?: string; // `x-request-id` of the originating request
+
+  metadata?: Record<string, unknown>; // event specific details (no secrets)
+
+  createdAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    type: {
+      type: String,
+      enum: Object.values(AuditEventType),
+      required: true,
+      index: true,
+    },
+
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      index: true,
+      sparse: true,
+    },
+
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      index: true,
+      sparse: true,
+    },
+
+    businessProfileId: {
+      type: Schema.Types.ObjectId,
+      ref: "BusinessProfile",
+      index: true,
+      sparse: true,
+    },
+
+    ip: { type: String },
+    userAgent: { type: String },
+    requestId: { type: String },
+
+    metadata: { type: Schema.Types.Mixed },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+AuditEventSchema.index({ createdAt: -1 });
+
+/* ----------------------------------
+ APPEND-ONLY GUARD
+-----------------------------------*/
+AuditEventSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  function () {
+    throw new Error("Audit events are append-only.");
+  }
+);
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const AuditEventModel = model<IAuditEvent>(
+  "AuditEvent",
+  AuditEventSchema
+);
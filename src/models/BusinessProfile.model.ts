@@ -75,6 +75,7 @@ const BusinessStatusMetaSchema = new Schema<IUserStatusMeta>(
     },
     reason: { type: String, trim: true, maxlength: 500 },
     actionAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date },
   },
   { _id: false }
 );
@@ -0,0 +1,75 @@
+import { Permission } from "@constants/enum.constants";
+import { Document, Schema, Types, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+export interface ICustomRole extends Document {
+  businessProfileId: Types.ObjectId; // the organization
+
+  name: string;
+  description?: string;
+  permissions: Permission[];
+
+  createdBy: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const CustomRoleSchema = new Schema<ICustomRole>(
+  {
+    businessProfileId: {
+      type: Schema.Types.ObjectId,
+      ref: "BusinessProfile",
+      required: true,
+      index: true,
+    },
+
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 40,
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+
+    permissions: {
+      type: [{ type: String, enum: Object.values(Permission) }],
+      default: [],
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Role names are unique per organization (case-insensitive)
+CustomRoleSchema.index(
+  { businessProfileId: 1, name: 1 },
+  { unique: true, collation: { locale: "en", strength: 2 } }
+);
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const CustomRoleModel = model<ICustomRole>(
+  "CustomRole",
+  CustomRoleSchema
+);
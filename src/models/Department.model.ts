@@ -0,0 +1,89 @@
+import { Document, Schema, Types, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+export interface IDepartment extends Document {
+  businessProfileId: Types.ObjectId; // the organization
+
+  name: string;
+  description?: string;
+
+  parentId?: Types.ObjectId; // root departments have none
+  ancestors: Types.ObjectId[]; // root → parent, for subtree queries
+
+  headUserIds: Types.ObjectId[]; // department heads (always members too)
+
+  createdBy: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const DepartmentSchema = new Schema<IDepartment>(
+  {
+    businessProfileId: {
+      type: Schema.Types.ObjectId,
+      ref: "BusinessProfile",
+      required: true,
+      index: true,
+    },
+
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 60,
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 300,
+    },
+
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Department",
+    },
+
+    ancestors: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Department" }],
+      default: [],
+      index: true,
+    },
+
+    headUserIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Sibling names are unique (case-insensitive)
+DepartmentSchema.index(
+  { businessProfileId: 1, parentId: 1, name: 1 },
+  { unique: true, collation: { locale: "en", strength: 2 } }
+);
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const DepartmentModel = model<IDepartment>(
+  "Department",
+  DepartmentSchema
+);
@@ -0,0 +1,115 @@
+import { InvitationStatus, OrganizationRole } from "@constants/enum.constants";
+import { Document, Schema, Types, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+export interface IOrganizationInvitation extends Document {
+  businessProfileId: Types.ObjectId; // the organization
+  email: string; // lowercased
+
+  role: OrganizationRole; // never OWNER
+  departmentId?: Types.ObjectId; // assigned on accept (if it still exists)
+
+  status: InvitationStatus; // PENDING past `expiresAt` reads as EXPIRED
+  tokenHash: string; // HMAC of the emailed token (replaced on resend)
+  expiresAt: Date;
+
+  invitedBy: Types.ObjectId;
+  resendCount: number;
+  lastSentAt: Date;
+
+  acceptedBy?: Types.ObjectId; // ACCEPTED only
+  respondedAt?: Date; // ACCEPTED / DECLINED / REVOKED
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const OrganizationInvitationSchema = new Schema<IOrganizationInvitation>(
+  {
+    businessProfileId: {
+      type: Schema.Types.ObjectId,
+      ref: "BusinessProfile",
+      required: true,
+      index: true,
+    },
+
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+
+    role: {
+      type: String,
+      enum: Object.values(OrganizationRole),
+      default: OrganizationRole.MEMBER,
+      required: true,
+    },
+
+    departmentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Department",
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(InvitationStatus),
+      default: InvitationStatus.PENDING,
+      index: true,
+    },
+
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+
+    expiresAt: { type: Date, required: true },
+
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    resendCount: { type: Number, default: 0 },
+
+    lastSentAt: { type: Date, default: Date.now },
+
+    acceptedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+
+    respondedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// One open invitation per email & organization (resend reuses it)
+OrganizationInvitationSchema.index(
+  { businessProfileId: 1, email: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: InvitationStatus.PENDING },
+  }
+);
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const OrganizationInvitationModel = model<IOrganizationInvitation>(
+  "OrganizationInvitation",
+  OrganizationInvitationSchema
+);
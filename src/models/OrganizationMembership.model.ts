@@ -0,0 +1,136 @@
+import { MembershipStatus, OrganizationRole } from "@constants/enum.constants";
+import { Document, Schema, Types, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+
+// A role granted on one department (and its sub-departments)
+export interface IDepartmentRoleAssignment {
+  departmentId: Types.ObjectId;
+  role?: OrganizationRole; // MANAGER | MEMBER | VIEWER
+  customRoleId?: Types.ObjectId; // ...or a custom role (exactly one is set)
+}
+
+export interface IOrganizationMembership extends Document {
+  userId: Types.ObjectId;
+  businessProfileId: Types.ObjectId; // the organization
+
+  role: OrganizationRole;
+  status: MembershipStatus;
+  customRoleId?: Types.ObjectId; // organization-wide, on top of `role`
+
+  departmentIds: Types.ObjectId[]; // departments the member is assigned to
+  departmentRoles: IDepartmentRoleAssignment[];
+
+  joinedAt: Date; // last (re)join
+  invitedBy?: Types.ObjectId; // member who added this user (none for the owner)
+  leftAt?: Date; // LEFT / REMOVED only
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const DepartmentRoleAssignmentSchema = new Schema<IDepartmentRoleAssignment>(
+  {
+    departmentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Department",
+      required: true,
+    },
+
+    role: {
+      type: String,
+      enum: Object.values(OrganizationRole),
+    },
+
+    customRoleId: {
+      type: Schema.Types.ObjectId,
+      ref: "CustomRole",
+    },
+  },
+  { _id: false }
+);
+
+const OrganizationMembershipSchema = new Schema<IOrganizationMembership>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+
+    businessProfileId: {
+      type: Schema.Types.ObjectId,
+      ref: "BusinessProfile",
+      required: true,
+      index: true,
+    },
+
+    role: {
+      type: String,
+      enum: Object.values(OrganizationRole),
+      default: OrganizationRole.MEMBER,
+      required: true,
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(MembershipStatus),
+      default: MembershipStatus.ACTIVE,
+      index: true,
+    },
+
+    customRoleId: {
+      type: Schema.Types.ObjectId,
+      ref: "CustomRole",
+      index: true,
+    },
+
+    departmentIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Department" }],
+      default: [],
+      index: true,
+    },
+
+    departmentRoles: {
+      type: [DepartmentRoleAssignmentSchema],
+      default: [],
+    },
+
+    joinedAt: { type: Date, default: Date.now },
+
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+
+    leftAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// One membership per user & organization (re-joining reuses it)
+OrganizationMembershipSchema.index(
+  { businessProfileId: 1, userId: 1 },
+  { unique: true }
+);
+
+// Custom roles in use (a role cannot be deleted while assigned)
+OrganizationMembershipSchema.index({ "departmentRoles.customRoleId": 1 });
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const OrganizationMembershipModel = model<IOrganizationMembership>(
+  "OrganizationMembership",
+  OrganizationMembershipSchema
+);
@@ -0,0 +1,102 @@
+import { Document, Schema, Types, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+export type PasskeyTransport =
+  | "ble"
+  | "cable"
+  | "hybrid"
+  | "internal"
+  | "nfc"
+  | "smart-card"
+  | "usb";
+
+export interface IPasskeyCredential extends Document {
+  userId: Types.ObjectId;
+
+  credentialId: string; // base64url
+  publicKey: string; // base64url COSE public key
+  counter: number;
+  transports: PasskeyTransport[];
+
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean;
+
+  name: string;
+  lastUsedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const PasskeyCredentialSchema = new Schema<IPasskeyCredential>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+
+    credentialId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+
+    publicKey: {
+      type: String,
+      required: true,
+      select: false,
+    },
+
+    counter: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+
+    transports: {
+      type: [String],
+      enum: ["ble", "cable", "hybrid", "internal", "nfc", "smart-card", "usb"],
+      default: [],
+    },
+
+    deviceType: {
+      type: String,
+      enum: ["singleDevice", "multiDevice"],
+      required: true,
+    },
+
+    backedUp: {
+      type: Boolean,
+      default: false,
+    },
+
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 50,
+      default: "Passkey",
+    },
+
+    lastUsedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const PasskeyCredentialModel = model<IPasskeyCredential>(
+  "PasskeyCredential",
+  PasskeyCredentialSchema
+);
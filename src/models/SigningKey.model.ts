@@ -0,0 +1,81 @@
+import { SigningAlgorithm } from "@constants/enum.constants";
+import { Document, Schema, model } from "mongoose";
+
+/* ----------------------------------
+ INTERFACE
+-----------------------------------*/
+export interface ISigningKey extends Document {
+  kid: string; // JWT header `kid`
+
+  algorithm: SigningAlgorithm;
+
+  publicKey: string; // SPKI PEM (published via JWKS)
+  privateKey: string; // PKCS8 PEM, encrypted at rest
+
+  activatesAt: Date; // starts signing once published long enough
+  expiresAt?: Date; // set when superseded; verification stops afterwards
+
+  bootstrap?: boolean; // first key of an empty database (one at a time)
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/* ----------------------------------
+ SCHEMA
+-----------------------------------*/
+const SigningKeySchema = new Schema<ISigningKey>(
+  {
+    kid: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+
+    algorithm: {
+      type: String,
+      enum: Object.values(SigningAlgorithm),
+      required: true,
+    },
+
+    publicKey: {
+      type: String,
+      required: true,
+    },
+
+    privateKey: {
+      type: String,
+      required: true,
+      select: false,
+    },
+
+    activatesAt: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+
+    expiresAt: { type: Date },
+
+    bootstrap: { type: Boolean },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Instances booting together on an empty database create a single key
+SigningKeySchema.index(
+  { bootstrap: 1 },
+  { unique: true, partialFilterExpression: { bootstrap: true } }
+);
+
+/* ----------------------------------
+ MODEL
+-----------------------------------*/
+
+export const SigningKeyModel = model<ISigningKey>(
+  "SigningKey",
+  SigningKeySchema
+);
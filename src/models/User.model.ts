@@ -2,6 +2,7 @@ import { DialCode } from "@constants/country.constants";
 import {
   AccountActionBy,
   AccountStatus,
+  AccountType,
   AuthProvider,
   Gender,
 } from "@constants/enum.constants";
@@ -11,6 +12,7 @@ import {
   PASSWORD_REGEX,
   USERNAME_REGEX,
 } from "@constants/regex.constants";
+import { toE164 } from "@utils/phone.util";
 import { Document, Schema, Types, model } from "mongoose";
 
 /* ----------------------------------
@@ -37,10 +39,51 @@ export interface IUserStatusMeta {
   actionByUserId: Types.ObjectId;
   reason?: string;
   actionAt: Date;
+  expiresAt?: Date; // suspensions only: lifted automatically afterwards
+}
+
+export interface ILinkedProvider {
+  provider: AuthProvider;
+  providerId: string;
+  linkedAt: Date;
+}
+
+export interface IUserTwoFactor {
+  enabled: boolean;
+  secret?: string; // encrypted TOTP seed
+  pendingSecret?: string; // encrypted seed awaiting confirmation
+  recoveryCodes: string[]; // HMAC hashes, single use
+  lastUsedStep?: number; // replay protection
+  enabledAt?: Date;
+}
+
+export interface IKnownDevice {
+  fingerprint: string;
+  device?: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface IUserLastSignin {
+  at: Date;
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface IUserDeletion {
+  requestedAt: Date;
+  scheduledFor: Date; // permanent anonymization after this date
+  reason?: string;
+}
+
+export interface IUserNotificationPreferences {
+  loginAlerts: boolean; // email on sign-in from a new device
+  logoutAlerts: boolean; // email when other devices are signed out
 }
 
 export interface IUser extends Document {
-  username?: string;
+  username?: string; // stored lowercase (case-insensitive uniqueness)
   firstName?: string;
   lastName?: string;
 
@@ -48,7 +91,8 @@ export interface IUser extends Document {
   emailIsVerified: boolean;
 
   dialCode?: DialCode;
-  phoneNumber?: string;
+  phoneNumber?: string; // national number, digits only
+  phoneE164?: string; // dialCode + phoneNumber, unique
   phoneIsVerified: boolean;
 
   profilePicture?: IUserAssestMedia;
@@ -63,12 +107,23 @@ export interface IUser extends Document {
 
   provider: AuthProvider;
   providerId?: string;
+  linkedProviders?: ILinkedProvider[];
 
   businessProfileId?: Types.ObjectId;
   otherBusinessProfileIds?: Types.ObjectId[];
 
+  accountType: AccountType;
+
+  twoFactor?: IUserTwoFactor;
+
+  knownDevices?: IKnownDevice[];
+  knownCountries?: string[];
+  lastSignin?: IUserLastSignin;
+  notificationPreferences: IUserNotificationPreferences;
+
   status: AccountStatus;
   statusMeta?: IUserStatusMeta;
+  deletion?: IUserDeletion;
 
   createdAt: Date;
   updatedAt: Date;
@@ -101,6 +156,69 @@ const StatusMetaSchema = new Schema<IUserStatusMeta>(
     },
     reason: { type: String, trim: true, maxlength: 500 },
     actionAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const LinkedProviderSchema = new Schema<ILinkedProvider>(
+  {
+    provider: {
+      type: String,
+      enum: Object.values(AuthProvider),
+      required: true,
+    },
+    providerId: { type: String, required: true, trim: true },
+    linkedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const TwoFactorSchema = new Schema<IUserTwoFactor>(
+  {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String },
+    pendingSecret: { type: String },
+    recoveryCodes: { type: [String], default: [] },
+    lastUsedStep: { type: Number },
+    enabledAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const KnownDeviceSchema = new Schema<IKnownDevice>(
+  {
+    fingerprint: { type: String, required: true },
+    device: { type: String, trim: true },
+    firstSeenAt: { type: Date, default: Date.now },
+    lastSeenAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const NotificationPreferencesSchema = new Schema<IUserNotificationPreferences>(
+  {
+    loginAlerts: { type: Boolean, default: true },
+    logoutAlerts: { type: Boolean, default: true },
+  },
+  { _id: false }
+);
+
+const LastSigninSchema = new Schema<IUserLastSignin>(
+  {
+    at: { type: Date, required: true },
+    country: { type: String, uppercase: true, trim: true },
+    latitude: { type: Number },
+    longitude: { type: Number },
+  },
+  { _id: false }
+);
+
+const DeletionSchema = new Schema<IUserDeletion>(
+  {
+    requestedAt: { type: Date, required: true },
+    scheduledFor: { type: Date, required: true },
+    reason: { type: String, trim: true, maxlength: 500 },
   },
   { _id: false }
 );
@@ -111,6 +229,7 @@ const UserSchema = new Schema<IUser>(
       type: String,
       unique: true,
       trim: true,
+      lowercase: true,
       index: true,
       sparse: true,
       set: (value?: string) => (value?.trim() === "" ? undefined : value),
@@ -169,9 +288,10 @@ const UserSchema = new Schema<IUser>(
       enum: Object.values(DialCode),
     },
 
+    // National numbers repeat across countries: uniqueness is on phoneE164
     phoneNumber: {
       type: String,
-      unique: true,
+      index: true,
       sparse: true,
       validate: {
         validator: function (value: string) {
@@ -182,6 +302,12 @@ const UserSchema = new Schema<IUser>(
       },
     },
 
+    phoneE164: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+
     phoneIsVerified: {
       type: Boolean,
       default: false,
@@ -233,6 +359,12 @@ const UserSchema = new Schema<IUser>(
       trim: true,
     },
 
+    // Social identities linked to an account created with another provider
+    linkedProviders: {
+      type: [LinkedProviderSchema],
+      select: false,
+    },
+
     businessProfileId: {
       type: Schema.Types.ObjectId,
       ref: "BusinessProfile",
@@ -246,6 +378,42 @@ const UserSchema = new Schema<IUser>(
       },
     ],
 
+    accountType: {
+      type: String,
+      enum: Object.values(AccountType),
+      default: AccountType.USER,
+      index: true,
+      select: false,
+    },
+
+    // TOTP two-factor authentication (never selected by default)
+    twoFactor: {
+      type: TwoFactorSchema,
+      select: false,
+    },
+
+    // Devices seen at signin (new-device login alerts)
+    knownDevices: {
+      type: [KnownDeviceSchema],
+      select: false,
+    },
+
+    // Signin geography (suspicious-signin heuristics)
+    knownCountries: {
+      type: [String],
+      select: false,
+    },
+
+    lastSignin: {
+      type: LastSigninSchema,
+      select: false,
+    },
+
+    notificationPreferences: {
+      type: NotificationPreferencesSchema,
+      default: () => ({}),
+    },
+
     status: {
       type: String,
       enum: Object.values(AccountStatus),
@@ -258,6 +426,12 @@ const UserSchema = new Schema<IUser>(
       type: StatusMetaSchema,
       select: false,
     },
+
+    // Self-deletion grace period (SOFT_DELETED accounts only)
+    deletion: {
+      type: DeletionSchema,
+      select: false,
+    },
   },
   {
     timestamps: true,
@@ -265,11 +439,26 @@ const UserSchema = new Schema<IUser>(
   }
 );
 
+UserSchema.index({ provider: 1, providerId: 1 }, { sparse: true });
+UserSchema.index({ "deletion.scheduledFor": 1 }, { sparse: true });
+UserSchema.index(
+  { "linkedProviders.provider": 1, "linkedProviders.providerId": 1 },
+  { sparse: true }
+);
+
 /* ----------------------------------
  CONDITIONAL VALIDATION
 -----------------------------------*/
 
 UserSchema.pre("validate", function (this: IUser) {
+  if (this.isModified("dialCode") || this.isModified("phoneNumber")) {
+    if (this.dialCode && this.phoneNumber) {
+      this.phoneE164 = toE164(this.dialCode, this.phoneNumber);
+    } else {
+      this.set("phoneE164", undefined);
+    }
+  }
+
   if (this.provider === AuthProvider.LOCAL) {
     if (!this.password) {
       throw new Error("Password is required.");
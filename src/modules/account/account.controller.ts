@@ -0,0 +1,119 @@
+// ==========================================
+// FILE: src/rest/account/account.controller.ts
+// ==========================================
+/**
+ * Account Controller
+ * ------------------------------------------
+ * - Delete own account (soft delete)
+ * - Restore during the grace period
+ */
+
+import { AppError } from "@utils/AppError.util";
+import { applyTokenTransport } from "@utils/authCookie.util";
+import { getClientMeta } from "@utils/device.util";
+import { Request, Response } from "express";
+import { AccountService } from "./account.service";
+import {
+  accountDeleteValidator,
+  accountRestoreRequestValidator,
+  accountRestoreResendValidator,
+  accountRestoreVerifyValidator,
+} from "./account.validator";
+
+export class AccountController {
+  /**
+   * DELETE /auth/account
+   */
+  static async deleteAccountController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = accountDeleteValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await AccountService.deleteAccountService(
+      {
+        userId: req.auth.userId,
+        sessionId: req.auth.sessionId,
+        ...parsedData,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "Your account has been scheduled for deletion. You can restore it by signing in with a verification code before the scheduled date.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/account/restore
+   */
+  static async requestRestoreController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = accountRestoreRequestValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await AccountService.requestRestoreService(parsedData);
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "If a restorable account exists with the provided identifier, a verification code has been sent to its email.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/account/restore/resend
+   */
+  static async resendRestoreController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = accountRestoreResendValidator.parse({
+      sessionToken: req.body?.sessionToken || req.query?.sessionToken,
+    });
+
+    // 2. Call Service
+    const result = await AccountService.resendRestoreService(parsedData);
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "A new verification code has been sent to your email.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/account/restore/verify
+   */
+  static async verifyRestoreController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = accountRestoreVerifyValidator.parse({
+      sessionToken: req.body?.sessionToken || req.query?.sessionToken,
+      otp: req.body?.otp,
+    });
+
+    // 2. Call Service
+    const result = await AccountService.verifyRestoreService(
+      parsedData,
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "twoFactorRequired" in result
+          ? "Account restored. Two-factor authentication required. Enter the code from your authenticator app."
+          : "Account restored. Signed in successfully.",
+      data: applyTokenTransport(req, res, result),
+    });
+  }
+}
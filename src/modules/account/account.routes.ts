@@ -0,0 +1,51 @@
+// ================================
+// FILE: src/rest/account/account.routes.ts
+// ================================
+/**
+ * Account lifecycle REST routes
+ * - Delete own account (authenticated)
+ * - Restore a soft-deleted account (public, email OTP)
+ */
+
+import { authenticateSession } from "@middlewares/auth.middleware";
+import {
+  otpVerificationRateLimiter,
+  passwordResetRateLimiter,
+  signinRateLimiter,
+} from "@middlewares/rateLimit.middleware";
+import { Router } from "express";
+import { AccountController } from "./account.controller";
+
+const router = Router();
+
+/**
+ * Self-deletion
+ */
+router.delete(
+  "/",
+  authenticateSession,
+  signinRateLimiter,
+  AccountController.deleteAccountController
+);
+
+/**
+ * Restore (grace period)
+ */
+router.post(
+  "/restore",
+  passwordResetRateLimiter,
+  AccountController.requestRestoreController
+);
+router.post(
+  "/restore/resend",
+  passwordResetRateLimiter,
+  AccountController.resendRestoreController
+);
+router.post(
+  "/restore/verify",
+  signinRateLimiter,
+  otpVerificationRateLimiter,
+  AccountController.verifyRestoreController
+);
+
+export default router;
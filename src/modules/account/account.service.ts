@@ -0,0 +1,472 @@
+// ==========================================
+// FILE: src/rest/account/account.service.ts
+// ==========================================
+/**
+ * Account Service
+ * ------------------------------------------
+ * Self-service account lifecycle
+ * - Delete own account (soft delete + grace period)
+ * - Restore during the grace period (email OTP → signin)
+ * - Permanent anonymization once the grace period has elapsed
+ */
+
+import { v4 as uuidv4 } from "uuid";
+
+import { appConfig } from "@config/app.config";
+import {
+  AccountStatus,
+  AuditEventType,
+  OtpChannel,
+  SessionType,
+  SigninMethod,
+} from "@constants/enum.constants";
+import { getRedisClient } from "@core/redis";
+import { logger } from "@logger/index";
+import { PasskeyCredentialModel } from "@models/PasskeyCredential.model";
+import { UserModel } from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import {
+  assertReauthenticated,
+  completeSignin,
+  enforceOtpResendLimit,
+  getIdentifierFilter,
+  getSessionKey,
+  registerOtpAttempt,
+  revokeUserSessions,
+} from "@modules/auth/auth.helpers";
+import { RedisAuthSession, SigninResult } from "@modules/auth/auth.types";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import { generateOtp, hashOtp, verifyOtp } from "@utils/otp.util";
+import {
+  sendAccountDeletionScheduledEmail,
+  sendAccountRestoredEmail,
+  sendAccountRestoreEmail,
+} from "helpers/email";
+import {
+  AccountDeleteInput,
+  AccountDeleteResult,
+  AccountPurgeResult,
+  AccountRestoreRequestInput,
+  AccountRestoreResendInput,
+  AccountRestoreVerifyInput,
+} from "./account.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+// userId → active restore session (reused so resend limits apply)
+const getUserRestoreKey = (userId: string) => `auth:restore:${userId}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Placeholder address for anonymized accounts (unique, never deliverable)
+ */
+const getAnonymizedEmail = (userId: string) =>
+  `deleted-${userId}@deleted.invalid`;
+
+/**
+ * Resolve & validate an account restore session
+ */
+const getRestoreSession = async (
+  sessionToken: string
+): Promise<{ redisKey: string; session: RedisAuthSession }> => {
+  const redisKey = getSessionKey(sessionToken);
+  const sessionData = await getRedisClient().get(redisKey);
+
+  if (!sessionData) {
+    throw new AppError(
+      "Restore session has expired. Please request a new code.",
+      410 // Gone
+    );
+  }
+
+  const session: RedisAuthSession = JSON.parse(sessionData);
+
+  if (
+    session.type !== SessionType.ACCOUNT_RESTORE ||
+    !session.userId ||
+    !session.email
+  ) {
+    throw new AppError("Invalid restore session.", 400);
+  }
+
+  return { redisKey, session };
+};
+
+/* ----------------------------------
+ * ACCOUNT SERVICE
+ * ---------------------------------- */
+
+export class AccountService {
+  /**
+   * DELETE ACCOUNT SERVICE - Soft-deletes the account and schedules anonymization
+   */
+  static async deleteAccountService(
+    input: AccountDeleteInput,
+    client: ClientMeta = {}
+  ): Promise<AccountDeleteResult> {
+    /* =====================================================
+     * 1️⃣ Resolve user & ensure the account is active
+     * ===================================================== */
+    const user = await UserModel.findById(input.userId).select(
+      "+password +status +statusMeta"
+    );
+
+    if (!user) throw new AppError("User not found.", 404);
+
+    if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
+      throw new AppError(
+        "Your account is not active. Please contact support.",
+        403 // Forbidden
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Re-authenticate
+     * Password when set, otherwise a recent signin on this session
+     * ===================================================== */
+    await assertReauthenticated(user, input, "deleting your account", client);
+
+    /* =====================================================
+     * 3️⃣ Soft delete & schedule anonymization
+     * ===================================================== */
+    const requestedAt = new Date();
+    const scheduledFor = new Date(
+      requestedAt.getTime() +
+        appConfig.ACCOUNT_DELETION.GRACE_PERIOD_DAYS * DAY_MS
+    );
+
+    await UserModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          status: AccountStatus.SOFT_DELETED,
+          deletion: {
+            requestedAt,
+            scheduledFor,
+            ...(input.reason && { reason: input.reason }),
+          },
+        },
+      }
+    );
+
+    /* =====================================================
+     * 4️⃣ Sign out every device & notify user
+     * ===================================================== */
+    await revokeUserSessions(input.userId);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.ACCOUNT_DELETION_SCHEDULED,
+        userId: input.userId,
+        metadata: { scheduledFor },
+      },
+      client
+    );
+
+    sendAccountDeletionScheduledEmail(user.email, scheduledFor);
+
+    return { scheduledFor };
+  }
+
+  /**
+   * REQUEST RESTORE SERVICE - Sends an OTP to the email of a soft-deleted account
+   * Responds the same whether or not a restorable account exists (no enumeration)
+   */
+  static async requestRestoreService(
+    input: AccountRestoreRequestInput
+  ): Promise<{ sessionToken: string }> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve a restorable account
+     * ===================================================== */
+    const user = await UserModel.findOne({
+      ...getIdentifierFilter(input.identifier),
+      status: AccountStatus.SOFT_DELETED,
+      "deletion.scheduledFor": { $gt: new Date() },
+    }).lean();
+
+    // Unknown, active or purged accounts get an unusable token and no email
+    if (!user) return { sessionToken: uuidv4() };
+
+    const userId = String(user._id);
+
+    /* =====================================================
+     * 2️⃣ Reuse an active restore session (resend limits)
+     * ===================================================== */
+    const restoreKey = getUserRestoreKey(userId);
+    const previousSessionId = await redisClient.get(restoreKey);
+    const previousData = previousSessionId
+      ? await redisClient.get(getSessionKey(previousSessionId))
+      : null;
+
+    const previous: RedisAuthSession | null = previousData
+      ? JSON.parse(previousData)
+      : null;
+
+    if (previous) enforceOtpResendLimit(previous);
+
+    /* =====================================================
+     * 3️⃣ Create restore session (Redis)
+     * ===================================================== */
+    const sessionId = uuidv4();
+    const otp = generateOtp();
+
+    const session: RedisAuthSession = {
+      type: SessionType.ACCOUNT_RESTORE,
+
+      email: user.email,
+      userId,
+
+      channel: OtpChannel.EMAIL,
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
+      otpAttempts: previous?.otpAttempts || 0,
+      otpResendCount: previous?.otpResendCount || 0,
+
+      used: false,
+      verified: false,
+
+      createdAt: previous?.createdAt || Date.now(),
+    };
+
+    const redisTransaction = redisClient.multi();
+
+    if (previousSessionId) {
+      redisTransaction.del(getSessionKey(previousSessionId));
+    }
+
+    redisTransaction.setex(
+      getSessionKey(sessionId),
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      JSON.stringify(session)
+    );
+    redisTransaction.setex(
+      restoreKey,
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      sessionId
+    );
+
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 4️⃣ Dispatch restore OTP
+     * ===================================================== */
+    sendAccountRestoreEmail({
+      email: user.email,
+      otp,
+      otpExpiryMinutes: appConfig.OTP.EXPIRES_IN_SECONDS / 60,
+    });
+
+    return { sessionToken: sessionId };
+  }
+
+  /**
+   * RESEND RESTORE SERVICE - Re-sends the OTP for an active restore session
+   */
+  static async resendRestoreService(
+    input: AccountRestoreResendInput
+  ): Promise<{ sessionToken: string }> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve session & enforce resend limit
+     * ===================================================== */
+    const { redisKey, session } = await getRestoreSession(input.sessionToken);
+
+    enforceOtpResendLimit(session);
+
+    /* =====================================================
+     * 2️⃣ Rotate session with a fresh OTP
+     * ===================================================== */
+    const newSessionId = uuidv4();
+    const otp = generateOtp();
+
+    const updatedSession: RedisAuthSession = {
+      ...session,
+
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
+    };
+
+    const redisTransaction = redisClient.multi();
+    redisTransaction.del(redisKey);
+    redisTransaction.setex(
+      getSessionKey(newSessionId),
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      JSON.stringify(updatedSession)
+    );
+    redisTransaction.setex(
+      getUserRestoreKey(String(session.userId)),
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      newSessionId
+    );
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 3️⃣ Dispatch restore OTP
+     * ===================================================== */
+    sendAccountRestoreEmail({
+      email: session.email!,
+      otp,
+      otpExpiryMinutes: appConfig.OTP.EXPIRES_IN_SECONDS / 60,
+    });
+
+    return { sessionToken: newSessionId };
+  }
+
+  /**
+   * VERIFY RESTORE SERVICE - Validates the OTP, restores the account & signs in
+   */
+  static async verifyRestoreService(
+    input: AccountRestoreVerifyInput,
+    client: ClientMeta = {}
+  ): Promise<SigninResult> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve session, enforce limits & validate OTP
+     * ===================================================== */
+    const { redisKey, session } = await getRestoreSession(input.sessionToken);
+
+    await registerOtpAttempt(redisKey, session);
+
+    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
+    if (!isValidOtp) throw new AppError("Invalid verification code.", 400);
+
+    const userId = String(session.userId);
+
+    /* =====================================================
+     * 2️⃣ Restore account (only while still inside the grace period)
+     * ===================================================== */
+    const user = await UserModel.findOneAndUpdate(
+      {
+        _id: userId,
+        status: AccountStatus.SOFT_DELETED,
+        "deletion.scheduledFor": { $gt: new Date() },
+      },
+      {
+        $set: { status: AccountStatus.ACTIVE },
+        $unset: { deletion: 1 },
+      },
+      { new: true }
+    ).select("+provider +accountType +status");
+
+    const redisTransaction = redisClient.multi();
+    redisTransaction.del(redisKey);
+    redisTransaction.del(getUserRestoreKey(userId));
+    await redisTransaction.exec();
+
+    if (!user) {
+      throw new AppError(
+        "This account can no longer be restored.",
+        410 // Gone
+      );
+    }
+
+    await recordAuditEvent(
+      { type: AuditEventType.ACCOUNT_RESTORED, userId },
+      client
+    );
+
+    sendAccountRestoredEmail(user.email);
+
+    /* =====================================================
+     * 3️⃣ Issue tokens, or a 2FA challenge when enabled
+     * ===================================================== */
+    return completeSignin(user, SigninMethod.EMAIL_OTP, client);
+  }
+
+  /**
+   * PURGE EXPIRED ACCOUNTS SERVICE - Anonymizes accounts past their grace period
+   */
+  static async purgeExpiredAccountsService(): Promise<AccountPurgeResult> {
+    /* =====================================================
+     * 1️⃣ Resolve a batch of expired soft-deleted accounts
+     * ===================================================== */
+    const expired = await UserModel.find({
+      status: AccountStatus.SOFT_DELETED,
+      "deletion.scheduledFor": { $lte: new Date() },
+    })
+      .select("_id")
+      .limit(appConfig.ACCOUNT_DELETION.PURGE_BATCH_SIZE)
+      .lean();
+
+    let anonymized = 0;
+
+    for (const { _id } of expired) {
+      const userId = String(_id);
+
+      /* =====================================================
+       * 2️⃣ Strip personal data (re-checked to avoid racing a restore)
+       * ===================================================== */
+      const result = await UserModel.updateOne(
+        {
+          _id,
+          status: AccountStatus.SOFT_DELETED,
+          "deletion.scheduledFor": { $lte: new Date() },
+        },
+        {
+          $set: {
+            status: AccountStatus.DELETED,
+            email: getAnonymizedEmail(userId),
+            emailIsVerified: false,
+            phoneIsVerified: false,
+            notificationPreferences: {
+              loginAlerts: false,
+              logoutAlerts: false,
+            },
+          },
+          $unset: {
+            username: 1,
+            firstName: 1,
+            lastName: 1,
+            dialCode: 1,
+            phoneNumber: 1,
+            phoneE164: 1,
+            profilePicture: 1,
+            coverPicture: 1,
+            introVideo: 1,
+            gender: 1,
+            dateOfBirth: 1,
+            bio: 1,
+            password: 1,
+            providerId: 1,
+            linkedProviders: 1,
+            twoFactor: 1,
+            knownDevices: 1,
+            knownCountries: 1,
+            lastSignin: 1,
+            "deletion.reason": 1,
+          },
+        }
+      );
+
+      if (!result.modifiedCount) continue;
+
+      /* =====================================================
+       * 3️⃣ Remove credentials & any remaining sessions
+       * ===================================================== */
+      await PasskeyCredentialModel.deleteMany({ userId: _id });
+      await revokeUserSessions(userId);
+
+      await recordAuditEvent({
+        type: AuditEventType.ACCOUNT_PURGED,
+        actorId: null, // system job
+        userId,
+      });
+
+      anonymized += 1;
+    }
+
+    if (anonymized) {
+      logger.info({ anonymized }, "Anonymized expired soft-deleted accounts");
+    }
+
+    return { anonymized };
+  }
+}
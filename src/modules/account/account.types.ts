@@ -0,0 +1,57 @@
+// ==========================================
+// FILE: src/rest/account/account.types.ts
+// ==========================================
+/**
+ * Account lifecycle types & contracts
+ * Used by controller, service, validators
+ */
+
+/* =====================================================
+ * ACCOUNT – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Delete own account (re-authentication required)
+ * - Password for accounts that have one
+ * - Otherwise a recent signin on the current session
+ */
+export interface AccountDeleteInput {
+  userId: string;
+  sessionId: string;
+  password?: string | undefined;
+  reason?: string | undefined;
+}
+
+/**
+ * Start restoring a soft-deleted account (OTP sent by email)
+ */
+export interface AccountRestoreRequestInput {
+  identifier: string;
+}
+
+/**
+ * Re-send the restore OTP
+ */
+export interface AccountRestoreResendInput {
+  sessionToken: string;
+}
+
+/**
+ * Confirm restore OTP (restores & signs in)
+ */
+export interface AccountRestoreVerifyInput {
+  sessionToken: string;
+  otp: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface AccountDeleteResult {
+  scheduledFor: Date;
+}
+
+export interface AccountPurgeResult {
+  anonymized: number;
+}
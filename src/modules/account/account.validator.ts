@@ -0,0 +1,48 @@
+// ==========================================
+// FILE: src/rest/account/account.validator.ts
+// ==========================================
+/**
+ * Account lifecycle validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB / Redis logic
+ */
+
+import { z } from "zod";
+
+import {
+  identifierValidator,
+  sessionTokenValidator,
+  signupVerifyOtpValidator,
+} from "@modules/auth/auth.validator";
+
+/* ----------------------------------
+ * DELETE
+ * ---------------------------------- */
+
+export const accountDeleteValidator = z.object({
+  password: z
+    .string({ error: "Password must be a string." })
+    .min(1, "Password is required.")
+    .optional(),
+
+  reason: z
+    .string({ error: "Reason must be a string." })
+    .trim()
+    .max(500, "Reason must be at most 500 characters.")
+    .optional(),
+});
+
+/* ----------------------------------
+ * RESTORE
+ * ---------------------------------- */
+
+export const accountRestoreRequestValidator = z.object({
+  identifier: identifierValidator,
+});
+
+export const accountRestoreResendValidator = z.object({
+  sessionToken: sessionTokenValidator,
+});
+
+export const accountRestoreVerifyValidator = signupVerifyOtpValidator;
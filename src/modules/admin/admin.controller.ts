@@ -0,0 +1,169 @@
+// ==========================================
+// FILE: src/rest/admin/admin.controller.ts
+// ==========================================
+/**
+ * Admin Controller
+ * ------------------------------------------
+ * - Start / end impersonation sessions
+ * - Moderate users & business profiles
+ */
+
+import { ModerationAction } from "@constants/enum.constants";
+import { sessionIdValidator } from "@modules/sessions/sessions.validator";
+import { AppError } from "@utils/AppError.util";
+import { getClientMeta } from "@utils/device.util";
+import { Request, Response } from "express";
+import { AdminService } from "./admin.service";
+import {
+  businessProfileIdParamValidator,
+  impersonationStartValidator,
+  moderationReasonValidator,
+  moderationSuspendValidator,
+  moderationUnblockValidator,
+  userIdParamValidator,
+} from "./admin.validator";
+
+/**
+ * Body validator per moderation action
+ */
+const parseModerationBody = (action: ModerationAction, body: unknown) => {
+  switch (action) {
+    case ModerationAction.SUSPEND:
+      return moderationSuspendValidator.parse(body);
+    case ModerationAction.UNBLOCK:
+      return moderationUnblockValidator.parse(body);
+    default:
+      return moderationReasonValidator.parse(body);
+  }
+};
+
+export class AdminController {
+  /**
+   * POST /admin/impersonation
+   */
+  static async startImpersonationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const input = impersonationStartValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await AdminService.startImpersonationService(
+      {
+        ...input,
+        actorId: req.auth.userId,
+        actorRoles: req.auth.roles,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(201).json({
+      success: true,
+      message: "Impersonation session started.",
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /admin/impersonation/:sessionId
+   */
+  static async endImpersonationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const sessionId = sessionIdValidator.parse(req.params.sessionId);
+
+    // 2. Call Service
+    await AdminService.endImpersonationService(
+      {
+        actorId: req.auth.userId,
+        actorRoles: req.auth.roles,
+        sessionId,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Impersonation session ended.",
+      data: null,
+    });
+  }
+
+  /**
+   * POST /admin/users/:userId/{suspend|block|unblock}, DELETE /admin/users/:userId
+   */
+  static moderateUserController(action: ModerationAction) {
+    return async (req: Request, res: Response) => {
+      if (!req.auth) {
+        throw new AppError("Authentication required.", 401);
+      }
+
+      // 1. Validate request
+      const targetId = userIdParamValidator.parse(req.params.userId);
+      const parsedData = parseModerationBody(action, req.body || {});
+
+      // 2. Call Service
+      const result = await AdminService.moderateUserService(
+        {
+          ...parsedData,
+          actorId: req.auth.userId,
+          actorRoles: req.auth.roles,
+          targetId,
+          action,
+        },
+        getClientMeta(req)
+      );
+
+      // 3. Respond
+      res.status(200).json({
+        success: true,
+        message: "User status updated successfully.",
+        data: result,
+      });
+    };
+  }
+
+  /**
+   * POST /admin/business-profiles/:businessProfileId/{suspend|block|unblock},
+   * DELETE /admin/business-profiles/:businessProfileId
+   */
+  static moderateBusinessProfileController(action: ModerationAction) {
+    return async (req: Request, res: Response) => {
+      if (!req.auth) {
+        throw new AppError("Authentication required.", 401);
+      }
+
+      // 1. Validate request
+      const targetId = businessProfileIdParamValidator.parse(
+        req.params.businessProfileId
+      );
+      const parsedData = parseModerationBody(action, req.body || {});
+
+      // 2. Call Service
+      const result = await AdminService.moderateBusinessProfileService(
+        {
+          ...parsedData,
+          actorId: req.auth.userId,
+          actorRoles: req.auth.roles,
+          targetId,
+          action,
+        },
+        getClientMeta(req)
+      );
+
+      // 3. Respond
+      res.status(200).json({
+        success: true,
+        message: "Business profile status updated successfully.",
+        data: result,
+      });
+    };
+  }
+}
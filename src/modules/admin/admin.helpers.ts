@@ -0,0 +1,161 @@
+// ==========================================
+// FILE: src/rest/admin/admin.helpers.ts
+// ==========================================
+/**
+ * Admin helpers
+ * - Moderation status transitions (shared by users & business profiles)
+ * - Staff hierarchy rules
+ */
+
+import {
+  AccountActionBy,
+  AccountStatus,
+  AccountType,
+  AuditEventType,
+  ModerationAction,
+} from "@constants/enum.constants";
+import { IUserStatusMeta } from "@models/User.model";
+import { AppError } from "@utils/AppError.util";
+
+/* ----------------------------------
+ * STATUS GROUPS
+ * ---------------------------------- */
+
+const SUSPENDED_STATUSES = [
+  AccountStatus.SUSPENDED,
+  AccountStatus.SUSPENDED_BY_ADMIN,
+  AccountStatus.SUSPENDED_BY_SUPER_ADMIN,
+];
+
+const BLOCKED_STATUSES = [
+  AccountStatus.BLOCKED_BY_ADMIN,
+  AccountStatus.BLOCKED_BY_SUPER_ADMIN,
+];
+
+const DELETED_STATUSES = [
+  AccountStatus.DELETED,
+  AccountStatus.DELETED_BY_ADMIN,
+  AccountStatus.DELETED_BY_SUPER_ADMIN,
+];
+
+export const isSuspendedStatus = (status: AccountStatus): boolean =>
+  SUSPENDED_STATUSES.includes(status);
+
+/**
+ * Statuses each action may be applied from
+ */
+const ALLOWED_FROM: Record<ModerationAction, AccountStatus[]> = {
+  [ModerationAction.SUSPEND]: [AccountStatus.ACTIVE],
+  [ModerationAction.BLOCK]: [AccountStatus.ACTIVE, ...SUSPENDED_STATUSES],
+  [ModerationAction.UNBLOCK]: [...SUSPENDED_STATUSES, ...BLOCKED_STATUSES],
+  [ModerationAction.DELETE]: [
+    AccountStatus.ACTIVE,
+    AccountStatus.SOFT_DELETED,
+    ...SUSPENDED_STATUSES,
+    ...BLOCKED_STATUSES,
+  ],
+};
+
+const ACTION_STATUS: Record<
+  Exclude<ModerationAction, ModerationAction.UNBLOCK>,
+  Record<AccountActionBy, AccountStatus>
+> = {
+  [ModerationAction.SUSPEND]: {
+    [AccountActionBy.ADMIN]: AccountStatus.SUSPENDED_BY_ADMIN,
+    [AccountActionBy.SUPER_ADMIN]: AccountStatus.SUSPENDED_BY_SUPER_ADMIN,
+  },
+  [ModerationAction.BLOCK]: {
+    [AccountActionBy.ADMIN]: AccountStatus.BLOCKED_BY_ADMIN,
+    [AccountActionBy.SUPER_ADMIN]: AccountStatus.BLOCKED_BY_SUPER_ADMIN,
+  },
+  [ModerationAction.DELETE]: {
+    [AccountActionBy.ADMIN]: AccountStatus.DELETED_BY_ADMIN,
+    [AccountActionBy.SUPER_ADMIN]: AccountStatus.DELETED_BY_SUPER_ADMIN,
+  },
+};
+
+export const MODERATION_AUDIT_EVENT: Record<ModerationAction, AuditEventType> =
+  {
+    [ModerationAction.SUSPEND]: AuditEventType.ACCOUNT_SUSPENDED,
+    [ModerationAction.BLOCK]: AuditEventType.ACCOUNT_BLOCKED,
+    [ModerationAction.UNBLOCK]: AuditEventType.ACCOUNT_UNBLOCKED,
+    [ModerationAction.DELETE]: AuditEventType.ACCOUNT_DELETED,
+  };
+
+export const MODERATION_EMAIL_ACTION = {
+  [ModerationAction.SUSPEND]: "suspended",
+  [ModerationAction.BLOCK]: "blocked",
+  [ModerationAction.UNBLOCK]: "reinstated",
+  [ModerationAction.DELETE]: "deleted",
+} as const;
+
+/* ----------------------------------
+ * RULES
+ * ---------------------------------- */
+
+export const getActionBy = (roles: AccountType[]): AccountActionBy =>
+  roles.includes(AccountType.SUPER_ADMIN)
+    ? AccountActionBy.SUPER_ADMIN
+    : AccountActionBy.ADMIN;
+
+/**
+ * Resolves the status an action leads to, or throws when the current status
+ * does not allow it. Admins cannot override a super admin's decision.
+ */
+export const resolveModerationStatus = (
+  action: ModerationAction,
+  current: { status: AccountStatus; statusMeta?: IUserStatusMeta | undefined },
+  actionBy: AccountActionBy
+): AccountStatus => {
+  if (DELETED_STATUSES.includes(current.status)) {
+    throw new AppError("This account has already been deleted.", 410); // Gone
+  }
+
+  if (!ALLOWED_FROM[action].includes(current.status)) {
+    throw new AppError(
+      `This action is not available while the status is ${current.status}.`,
+      409 // Conflict
+    );
+  }
+
+  if (
+    current.statusMeta?.actionBy === AccountActionBy.SUPER_ADMIN &&
+    actionBy !== AccountActionBy.SUPER_ADMIN
+  ) {
+    throw new AppError(
+      "Only a super admin can change a status set by a super admin.",
+      403 // Forbidden
+    );
+  }
+
+  return action === ModerationAction.UNBLOCK
+    ? AccountStatus.ACTIVE
+    : ACTION_STATUS[action][actionBy];
+};
+
+/**
+ * Staff hierarchy: nobody moderates themselves or a super admin,
+ * and only super admins moderate admins
+ */
+export const assertCanModerateUser = (
+  actorId: string,
+  actionBy: AccountActionBy,
+  target: { _id: unknown; accountType?: AccountType | undefined }
+): void => {
+  if (String(target._id) === actorId) {
+    throw new AppError("You cannot moderate your own account.", 400);
+  }
+
+  const accountType = target.accountType || AccountType.USER;
+
+  if (
+    accountType === AccountType.SUPER_ADMIN ||
+    (accountType === AccountType.ADMIN &&
+      actionBy !== AccountActionBy.SUPER_ADMIN)
+  ) {
+    throw new AppError(
+      "You do not have permission to moderate this account.",
+      403 // Forbidden
+    );
+  }
+};
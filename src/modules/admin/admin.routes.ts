@@ -0,0 +1,72 @@
+// ================================
+// FILE: src/rest/admin/admin.routes.ts
+// ================================
+/**
+ * Admin REST routes
+ * - Signin session of a platform admin required (no API keys)
+ */
+
+import { AccountType, ModerationAction } from "@constants/enum.constants";
+import {
+  authenticateSession,
+  requireRoles,
+} from "@middlewares/auth.middleware";
+import { Router } from "express";
+import { AdminController } from "./admin.controller";
+
+const router = Router();
+
+router.use(
+  authenticateSession,
+  requireRoles(AccountType.ADMIN, AccountType.SUPER_ADMIN)
+);
+
+/* ----------------------------------
+ * IMPERSONATION
+ * ---------------------------------- */
+
+router.post("/impersonation", AdminController.startImpersonationController);
+router.delete(
+  "/impersonation/:sessionId",
+  AdminController.endImpersonationController
+);
+
+/* ----------------------------------
+ * MODERATION
+ * ---------------------------------- */
+
+router.post(
+  "/users/:userId/suspend",
+  AdminController.moderateUserController(ModerationAction.SUSPEND)
+);
+router.post(
+  "/users/:userId/block",
+  AdminController.moderateUserController(ModerationAction.BLOCK)
+);
+router.post(
+  "/users/:userId/unblock",
+  AdminController.moderateUserController(ModerationAction.UNBLOCK)
+);
+router.delete(
+  "/users/:userId",
+  AdminController.moderateUserController(ModerationAction.DELETE)
+);
+
+router.post(
+  "/business-profiles/:businessProfileId/suspend",
+  AdminController.moderateBusinessProfileController(ModerationAction.SUSPEND)
+);
+router.post(
+  "/business-profiles/:businessProfileId/block",
+  AdminController.moderateBusinessProfileController(ModerationAction.BLOCK)
+);
+router.post(
+  "/business-profiles/:businessProfileId/unblock",
+  AdminController.moderateBusinessProfileController(ModerationAction.UNBLOCK)
+);
+router.delete(
+  "/business-profiles/:businessProfileId",
+  AdminController.moderateBusinessProfileController(ModerationAction.DELETE)
+);
+
+export default router;
@@ -0,0 +1,576 @@
+// ==========================================
+// FILE: src/rest/admin/admin.service.ts
+// ==========================================
+/**
+ * Admin Service
+ * ------------------------------------------
+ * Support & moderation actions for platform staff (ADMIN / SUPER_ADMIN)
+ * - Impersonation: time-boxed, read-only by default, visible to the user
+ * - Moderation: suspend / block / unblock / delete users & business profiles
+ */
+
+import { Types } from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+
+import { appConfig } from "@config/app.config";
+import {
+  AccountStatus,
+  AccountType,
+  AuditEventType,
+  ModerationAction,
+  SessionType,
+  SigninMethod,
+} from "@constants/enum.constants";
+import { getRedisClient } from "@core/redis";
+import { logger } from "@logger/index";
+import { BusinessProfileModel } from "@models/BusinessProfile.model";
+import { IUserStatusMeta, UserModel } from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import {
+  getSessionKey,
+  getUserSessionsKey,
+  revokeUserSessions,
+} from "@modules/auth/auth.helpers";
+import { RedisAuthSession } from "@modules/auth/auth.types";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import { generateAccessToken } from "@utils/token.util";
+import { sendAccountStatusChangedEmail } from "helpers/email";
+import {
+  assertCanModerateUser,
+  getActionBy,
+  MODERATION_AUDIT_EVENT,
+  MODERATION_EMAIL_ACTION,
+  resolveModerationStatus,
+} from "./admin.helpers";
+import {
+  ImpersonationEndInput,
+  ImpersonationStartInput,
+  ImpersonationStartResult,
+  ModerationInput,
+  ModerationResult,
+  SuspensionExpiryResult,
+} from "./admin.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+const buildStatusMeta = (input: ModerationInput): IUserStatusMeta => ({
+  actionBy: getActionBy(input.actorRoles),
+  actionByUserId: new Types.ObjectId(input.actorId),
+  ...(input.reason && { reason: input.reason }),
+  actionAt: new Date(),
+  ...(input.action === ModerationAction.SUSPEND &&
+    input.suspendedUntil && { expiresAt: input.suspendedUntil }),
+});
+
+// UNBLOCK clears statusMeta; every other action records it
+const buildStatusUpdate = (
+  status: AccountStatus,
+  statusMeta: IUserStatusMeta,
+  action: ModerationAction
+) =>
+  action === ModerationAction.UNBLOCK
+    ? { $set: { status }, $unset: { statusMeta: 1 } }
+    : { $set: { status, statusMeta } };
+
+/* ----------------------------------
+ * ADMIN SERVICE
+ * ---------------------------------- */
+
+export class AdminService {
+  /**
+   * START IMPERSONATION SERVICE - Issues a short-lived session acting as a user
+   */
+  static async startImpersonationService(
+    input: ImpersonationStartInput,
+    client: ClientMeta = {}
+  ): Promise<ImpersonationStartResult> {
+    /* =====================================================
+     * 1️⃣ Authorize actor & requested access level
+     * ===================================================== */
+    if (input.actorId === input.userId) {
+      throw new AppError("You cannot impersonate yourself.", 400);
+    }
+
+    if (
+      !input.readOnly &&
+      !input.actorRoles.includes(AccountType.SUPER_ADMIN)
+    ) {
+      throw new AppError(
+        "Only super admins can start an impersonation session with write access.",
+        403 // Forbidden
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Resolve subject (staff accounts cannot be impersonated)
+     * ===================================================== */
+    const user = await UserModel.findById(input.userId)
+      .select("+accountType +status")
+      .lean();
+
+    if (!user || user.status === AccountStatus.DELETED) {
+      throw new AppError("User not found.", 404);
+    }
+
+    if ((user.accountType || AccountType.USER) !== AccountType.USER) {
+      throw new AppError(
+        "Admin accounts cannot be impersonated.",
+        403 // Forbidden
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Create subject session (listed with the user's sessions)
+     * ===================================================== */
+    const ttlSeconds = appConfig.IMPERSONATION.SESSION_TTL_SECONDS;
+    const sessionId = uuidv4();
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    const session: RedisAuthSession = {
+      type: SessionType.SIGNIN,
+      method: SigninMethod.IMPERSONATION,
+
+      email: user.email,
+      username: user.username,
+      userId: input.userId,
+
+      // Never the actor's admin roles
+      roles: [AccountType.USER],
+
+      impersonation: {
+        actorId: input.actorId,
+        reason: input.reason,
+        readOnly: input.readOnly,
+        expiresAt: expiresAt.getTime(),
+      },
+
+      device: client.device,
+      userAgent: client.userAgent,
+      ip: client.ip,
+      location: client.location,
+
+      verified: true,
+      used: false,
+
+      lastActivityAt: Date.now(),
+      authenticatedAt: Date.now(),
+      createdAt: Date.now(),
+    };
+
+    const redisTransaction = getRedisClient().multi();
+    redisTransaction.setex(
+      getSessionKey(sessionId),
+      ttlSeconds,
+      JSON.stringify(session)
+    );
+    redisTransaction.sadd(getUserSessionsKey(input.userId), sessionId);
+    redisTransaction.expire(
+      getUserSessionsKey(input.userId),
+      appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS
+    );
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 4️⃣ Audit & issue access token (actor + subject, no refresh)
+     * ===================================================== */
+    logger.warn(
+      {
+        event: "admin.impersonation_started",
+        actorId: input.actorId,
+        userId: input.userId,
+        sessionId,
+        readOnly: input.readOnly,
+        reason: input.reason,
+        ip: client.ip,
+        userAgent: client.userAgent,
+      },
+      "Admin impersonation session started"
+    );
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.IMPERSONATION_STARTED,
+        actorId: input.actorId,
+        userId: input.userId,
+        metadata: {
+          sessionId,
+          readOnly: input.readOnly,
+          reason: input.reason,
+          expiresAt,
+        },
+      },
+      client
+    );
+
+    const accessToken = generateAccessToken(
+      {
+        sub: input.userId,
+        act: { sub: input.actorId },
+        sessionId,
+        type: "ACCESS",
+      },
+      ttlSeconds
+    );
+
+    return {
+      accessToken,
+      sessionId,
+      userId: input.userId,
+      readOnly: input.readOnly,
+      expiresAt,
+      expiresInSeconds: ttlSeconds,
+    };
+  }
+
+  /**
+   * END IMPERSONATION SERVICE - Revokes an impersonation session early
+   */
+  static async endImpersonationService(
+    input: ImpersonationEndInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
+    const redisClient = getRedisClient();
+    const redisKey = getSessionKey(input.sessionId);
+
+    /* =====================================================
+     * 1️⃣ Resolve impersonation session
+     * ===================================================== */
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError("Session not found or already expired.", 404);
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (!session.impersonation || !session.userId) {
+      throw new AppError("Session not found or already expired.", 404);
+    }
+
+    /* =====================================================
+     * 2️⃣ Only the actor (or a super admin) may end it
+     * ===================================================== */
+    if (
+      session.impersonation.actorId !== input.actorId &&
+      !input.actorRoles.includes(AccountType.SUPER_ADMIN)
+    ) {
+      throw new AppError(
+        "You can only end impersonation sessions you started.",
+        403 // Forbidden
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Revoke & audit
+     * ===================================================== */
+    const userId = String(session.userId);
+
+    await redisClient
+      .multi()
+      .del(redisKey)
+      .srem(getUserSessionsKey(userId), input.sessionId)
+      .exec();
+
+    logger.warn(
+      {
+        event: "admin.impersonation_ended",
+        actorId: input.actorId,
+        impersonatorId: session.impersonation.actorId,
+        userId,
+        sessionId: input.sessionId,
+        ip: client.ip,
+      },
+      "Admin impersonation session ended"
+    );
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.IMPERSONATION_ENDED,
+        actorId: input.actorId,
+        userId,
+        metadata: {
+          sessionId: input.sessionId,
+          impersonatorId: session.impersonation.actorId,
+        },
+      },
+      client
+    );
+  }
+
+  /**
+   * MODERATE USER SERVICE - Suspends, blocks, unblocks or deletes a user
+   */
+  static async moderateUserService(
+    input: ModerationInput,
+    client: ClientMeta = {}
+  ): Promise<ModerationResult> {
+    /* =====================================================
+     * 1️⃣ Resolve target & enforce staff hierarchy
+     * ===================================================== */
+    const user = await UserModel.findById(input.targetId)
+      .select("+accountType +status +statusMeta")
+      .lean();
+
+    if (!user) throw new AppError("User not found.", 404);
+
+    const statusMeta = buildStatusMeta(input);
+
+    assertCanModerateUser(input.actorId, statusMeta.actionBy, user);
+
+    /* =====================================================
+     * 2️⃣ Apply status (guarded against concurrent changes)
+     * ===================================================== */
+    const status = resolveModerationStatus(
+      input.action,
+      user,
+      statusMeta.actionBy
+    );
+
+    const result = await UserModel.updateOne(
+      { _id: user._id, status: user.status },
+      buildStatusUpdate(status, statusMeta, input.action)
+    );
+
+    if (!result.modifiedCount) {
+      throw new AppError(
+        "The account status changed in the meantime. Please try again.",
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Sign out every device immediately
+     * ===================================================== */
+    const revokedSessions =
+      input.action === ModerationAction.UNBLOCK
+        ? 0
+        : await revokeUserSessions(input.targetId);
+
+    /* =====================================================
+     * 4️⃣ Audit & notify the user
+     * ===================================================== */
+    await recordAuditEvent(
+      {
+        type: MODERATION_AUDIT_EVENT[input.action],
+        actorId: input.actorId,
+        userId: input.targetId,
+        metadata: {
+          previousStatus: user.status,
+          status,
+          reason: input.reason,
+          suspendedUntil: statusMeta.expiresAt,
+          revokedSessions,
+        },
+      },
+      client
+    );
+
+    sendAccountStatusChangedEmail({
+      email: user.email,
+      action: MODERATION_EMAIL_ACTION[input.action],
+      reason: input.reason,
+      until: statusMeta.expiresAt,
+    });
+
+    return {
+      id: input.targetId,
+      status,
+      actionBy: statusMeta.actionBy,
+      reason: input.reason,
+      suspendedUntil: statusMeta.expiresAt,
+      revokedSessions,
+    };
+  }
+
+  /**
+   * MODERATE BUSINESS PROFILE SERVICE - Suspends, blocks, unblocks or deletes a business profile
+   * (its organization API keys stop working while it is not active)
+   */
+  static async moderateBusinessProfileService(
+    input: ModerationInput,
+    client: ClientMeta = {}
+  ): Promise<ModerationResult> {
+    /* =====================================================
+     * 1️⃣ Resolve target
+     * ===================================================== */
+    const businessProfile = await BusinessProfileModel.findById(input.targetId)
+      .select("+statusMeta")
+      .lean();
+
+    if (!businessProfile) {
+      throw new AppError("Business profile not found.", 404);
+    }
+
+    /* =====================================================
+     * 2️⃣ Apply status (guarded against concurrent changes)
+     * ===================================================== */
+    const statusMeta = buildStatusMeta(input);
+
+    const status = resolveModerationStatus(
+      input.action,
+      businessProfile,
+      statusMeta.actionBy
+    );
+
+    const result = await BusinessProfileModel.updateOne(
+      { _id: businessProfile._id, status: businessProfile.status },
+      buildStatusUpdate(status, statusMeta, input.action)
+    );
+
+    if (!result.modifiedCount) {
+      throw new AppError(
+        "The business profile status changed in the meantime. Please try again.",
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Audit & notify the owner
+     * ===================================================== */
+    const ownerUserId = String(businessProfile.ownerUserId);
+
+    await recordAuditEvent(
+      {
+        type: MODERATION_AUDIT_EVENT[input.action],
+        actorId: input.actorId,
+        userId: ownerUserId,
+        businessProfileId: input.targetId,
+        metadata: {
+          previousStatus: businessProfile.status,
+          status,
+          reason: input.reason,
+          suspendedUntil: statusMeta.expiresAt,
+        },
+      },
+      client
+    );
+
+    const owner = await UserModel.findById(ownerUserId).lean();
+
+    if (owner) {
+      sendAccountStatusChangedEmail({
+        email: owner.email,
+        action: MODERATION_EMAIL_ACTION[input.action],
+        businessName: businessProfile.businessName,
+        reason: input.reason,
+        until: statusMeta.expiresAt,
+      });
+    }
+
+    return {
+      id: input.targetId,
+      status,
+      actionBy: statusMeta.actionBy,
+      reason: input.reason,
+      suspendedUntil: statusMeta.expiresAt,
+      revokedSessions: 0,
+    };
+  }
+
+  /**
+   * LIFT EXPIRED SUSPENSIONS SERVICE - Reactivates suspensions past their end date
+   */
+  static async liftExpiredSuspensionsService(): Promise<SuspensionExpiryResult> {
+    const { SUSPENSION_EXPIRY_BATCH_SIZE } = appConfig.MODERATION;
+
+    const expiredQuery = {
+      status: {
+        $in: [
+          AccountStatus.SUSPENDED_BY_ADMIN,
+          AccountStatus.SUSPENDED_BY_SUPER_ADMIN,
+        ],
+      },
+      "statusMeta.expiresAt": { $lte: new Date() },
+    };
+
+    const reactivate = { $set: { status: AccountStatus.ACTIVE } };
+    const clearMeta = { $unset: { statusMeta: 1 } };
+
+    /* =====================================================
+     * 1️⃣ Users (re-checked per row to avoid racing a moderator)
+     * ===================================================== */
+    const users = await UserModel.find(expiredQuery)
+      .select("_id email")
+      .limit(SUSPENSION_EXPIRY_BATCH_SIZE)
+      .lean();
+
+    let reactivatedUsers = 0;
+
+    for (const user of users) {
+      const result = await UserModel.updateOne(
+        { _id: user._id, ...expiredQuery },
+        { ...reactivate, ...clearMeta }
+      );
+
+      if (!result.modifiedCount) continue;
+
+      await recordAuditEvent({
+        type: AuditEventType.SUSPENSION_EXPIRED,
+        actorId: null, // system job
+        userId: String(user._id),
+      });
+
+      sendAccountStatusChangedEmail({
+        email: user.email,
+        action: MODERATION_EMAIL_ACTION[ModerationAction.UNBLOCK],
+      });
+
+      reactivatedUsers += 1;
+    }
+
+    /* =====================================================
+     * 2️⃣ Business profiles
+     * ===================================================== */
+    const businessProfiles = await BusinessProfileModel.find(expiredQuery)
+      .select("_id ownerUserId businessName")
+      .limit(SUSPENSION_EXPIRY_BATCH_SIZE)
+      .lean();
+
+    let reactivatedBusinessProfiles = 0;
+
+    for (const businessProfile of businessProfiles) {
+      const result = await BusinessProfileModel.updateOne(
+        { _id: businessProfile._id, ...expiredQuery },
+        { ...reactivate, ...clearMeta }
+      );
+
+      if (!result.modifiedCount) continue;
+
+      await recordAuditEvent({
+        type: AuditEventType.SUSPENSION_EXPIRED,
+        actorId: null, // system job
+        userId: String(businessProfile.ownerUserId),
+        businessProfileId: String(businessProfile._id),
+      });
+
+      const owner = await UserModel.findById(businessProfile.ownerUserId)
+        .select("email")
+        .lean();
+
+      if (owner) {
+        sendAccountStatusChangedEmail({
+          email: owner.email,
+          action: MODERATION_EMAIL_ACTION[ModerationAction.UNBLOCK],
+          businessName: businessProfile.businessName,
+        });
+      }
+
+      reactivatedBusinessProfiles += 1;
+    }
+
+    if (reactivatedUsers || reactivatedBusinessProfiles) {
+      logger.info(
+        { reactivatedUsers, reactivatedBusinessProfiles },
+        "Lifted expired suspensions"
+      );
+    }
+
+    return {
+      users: reactivatedUsers,
+      businessProfiles: reactivatedBusinessProfiles,
+    };
+  }
+}
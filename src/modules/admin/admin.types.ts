@@ -0,0 +1,85 @@
+// ==========================================
+// FILE: src/rest/admin/admin.types.ts
+// ==========================================
+/**
+ * Admin (support & moderation) types & contracts
+ * Used by controller, service, validators
+ */
+
+import {
+  AccountActionBy,
+  AccountStatus,
+  AccountType,
+  ModerationAction,
+} from "@constants/enum.constants";
+
+/* =====================================================
+ * IMPERSONATION – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Start acting as a user (support investigation)
+ */
+export interface ImpersonationStartInput {
+  actorId: string;
+  actorRoles: AccountType[];
+  userId: string; // subject
+  reason: string;
+  readOnly: boolean; // write access is SUPER_ADMIN only
+}
+
+/**
+ * End an impersonation session early
+ */
+export interface ImpersonationEndInput {
+  actorId: string;
+  actorRoles: AccountType[];
+  sessionId: string;
+}
+
+/**
+ * Impersonation session issued to the actor
+ * Access token only: the session cannot be refreshed
+ */
+export interface ImpersonationStartResult {
+  accessToken: string;
+  sessionId: string;
+  userId: string;
+  readOnly: boolean;
+  expiresAt: Date;
+  expiresInSeconds: number;
+}
+
+/* =====================================================
+ * MODERATION – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Suspend / block / unblock / delete a user or business profile
+ */
+export interface ModerationInput {
+  actorId: string;
+  actorRoles: AccountType[];
+  targetId: string; // user id or business profile id
+  action: ModerationAction;
+  reason?: string | undefined; // required except for UNBLOCK
+  suspendedUntil?: Date | undefined; // SUSPEND only, indefinite when omitted
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface ModerationResult {
+  id: string;
+  status: AccountStatus;
+  actionBy: AccountActionBy;
+  reason?: string | undefined;
+  suspendedUntil?: Date | undefined;
+  revokedSessions: number;
+}
+
+export interface SuspensionExpiryResult {
+  users: number;
+  businessProfiles: number;
+}
@@ -0,0 +1,78 @@
+// ==========================================
+// FILE: src/rest/admin/admin.validator.ts
+// ==========================================
+/**
+ * Admin validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB / Redis logic
+ */
+
+import { z } from "zod";
+
+import { appConfig } from "@config/app.config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const objectIdValidator = (label: string) =>
+  z
+    .string({ error: `${label} is required.` })
+    .regex(/^[a-f\d]{24}$/i, `Invalid ${label.toLowerCase()}.`);
+
+const reasonValidator = z
+  .string({ error: "A reason is required." })
+  .trim()
+  .min(10, "Reason must be at least 10 characters.")
+  .max(500, "Reason must be at most 500 characters.");
+
+export const userIdParamValidator = objectIdValidator("User id");
+
+export const businessProfileIdParamValidator = objectIdValidator(
+  "Business profile id"
+);
+
+/* ----------------------------------
+ * IMPERSONATION
+ * ---------------------------------- */
+
+export const impersonationStartValidator = z.object({
+  userId: objectIdValidator("User id"),
+
+  reason: reasonValidator,
+
+  readOnly: z
+    .boolean({ error: "readOnly must be a boolean." })
+    .optional()
+    .default(true),
+});
+
+/* ----------------------------------
+ * MODERATION
+ * ---------------------------------- */
+
+export const moderationSuspendValidator = z.object({
+  reason: reasonValidator,
+
+  suspendedUntil: z.coerce
+    .date({ error: "Invalid suspendedUntil date." })
+    .refine((date) => date.getTime() > Date.now(), {
+      message: "suspendedUntil must be in the future.",
+    })
+    .refine(
+      (date) =>
+        date.getTime() <=
+        Date.now() + appConfig.MODERATION.MAX_SUSPENSION_DAYS * DAY_MS,
+      {
+        message: `Suspensions can last at most ${appConfig.MODERATION.MAX_SUSPENSION_DAYS} days.`,
+      }
+    )
+    .optional(),
+});
+
+export const moderationReasonValidator = z.object({
+  reason: reasonValidator,
+});
+
+export const moderationUnblockValidator = z.object({
+  reason: reasonValidator.optional(),
+});
@@ -0,0 +1,96 @@
+// ==========================================
+// FILE: src/rest/apiKeys/apiKeys.controller.ts
+// ==========================================
+/**
+ * API Keys Controller
+ * ------------------------------------------
+ * - Create a key (personal / organization)
+ * - List keys
+ * - Revoke a key
+ */
+
+import { AppError } from "@utils/AppError.util";
+import { Request, Response } from "express";
+import { ApiKeysService } from "./apiKeys.service";
+import {
+  apiKeyCreateValidator,
+  apiKeyIdValidator,
+  apiKeyListValidator,
+} from "./apiKeys.validator";
+
+export class ApiKeysController {
+  /**
+   * GET /auth/api-keys
+   */
+  static async listController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = apiKeyListValidator.parse(req.query || {});
+
+    // 2. Call Service
+    const result = await ApiKeysService.listService({
+      userId: req.auth.userId,
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "API keys fetched successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/api-keys
+   */
+  static async createController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = apiKeyCreateValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await ApiKeysService.createService({
+      userId: req.auth.userId,
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(201).json({
+      success: true,
+      message: "API key created. Copy it now, it will not be shown again.",
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /auth/api-keys/:apiKeyId
+   */
+  static async revokeController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const apiKeyId = apiKeyIdValidator.parse(req.params.apiKeyId);
+
+    // 2. Call Service
+    await ApiKeysService.revokeService({
+      userId: req.auth.userId,
+      apiKeyId,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "API key revoked.",
+      data: null,
+    });
+  }
+}
@@ -0,0 +1,21 @@
+// ================================
+// FILE: src/rest/apiKeys/apiKeys.routes.ts
+// ================================
+/**
+ * API key management REST routes
+ * - Signed-in users only (an API key cannot mint or revoke keys)
+ */
+
+import { authenticateSession } from "@middlewares/auth.middleware";
+import { Router } from "express";
+import { ApiKeysController } from "./apiKeys.controller";
+
+const router = Router();
+
+router.use(authenticateSession);
+
+router.get("/", ApiKeysController.listController);
+router.post("/", ApiKeysController.createController);
+router.delete("/:apiKeyId", ApiKeysController.revokeController);
+
+export default router;
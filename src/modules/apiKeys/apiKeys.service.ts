@@ -0,0 +1,309 @@
+// ==========================================
+// FILE: src/rest/apiKeys/apiKeys.service.ts
+// ==========================================
+/**
+ * API Keys Service
+ * ------------------------------------------
+ * Long-lived credentials for scripts & integrations
+ * - Personal or organization (business profile) scoped
+ * - Hashed at rest, identified by a public prefix
+ * - Scoped permissions, optional expiry, last-used tracking
+ * - Resolves `Bearer <api key>` into an AuthContext
+ */
+
+import { appConfig } from "@config/app.config";
+import {
+  AccountStatus,
+  AccountType,
+  MembershipStatus,
+  Permission,
+} from "@constants/enum.constants";
+import { ApiKeyModel, IApiKey } from "@models/ApiKey.model";
+import { BusinessProfileModel } from "@models/BusinessProfile.model";
+import { OrganizationMembershipModel } from "@models/OrganizationMembership.model";
+import { UserModel } from "@models/User.model";
+import { AuthContext } from "@modules/auth/auth.types";
+import { authorize } from "@modules/roles/roles.helpers";
+import {
+  generateApiKey,
+  getApiKeyPrefix,
+  hashApiKey,
+  verifyApiKey,
+} from "@utils/apiKey.util";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import {
+  ApiKeyCreateInput,
+  ApiKeyCreateResult,
+  ApiKeyListInput,
+  ApiKeyRevokeInput,
+  ApiKeySummary,
+} from "./apiKeys.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toApiKeySummary = (apiKey: IApiKey): ApiKeySummary => ({
+  id: String(apiKey._id),
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  businessProfileId: apiKey.businessProfileId
+    ? String(apiKey.businessProfileId)
+    : undefined,
+  expiresAt: apiKey.expiresAt,
+  revokedAt: apiKey.revokedAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  createdAt: apiKey.createdAt,
+});
+
+/**
+ * Organization keys require `api_keys:manage` (owners & admins by default)
+ */
+const assertCanManageOrganizationKeys = async (
+  userId: string,
+  businessProfileId: string
+): Promise<void> => {
+  await authorize({ userId }, Permission.API_KEYS_MANAGE, {
+    businessProfileId,
+  });
+};
+
+/**
+ * Filter for keys that can still authenticate
+ */
+const activeKeyFilter = () => ({
+  revokedAt: { $exists: false },
+  $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+});
+
+/* ----------------------------------
+ * API KEYS SERVICE
+ * ---------------------------------- */
+
+export class ApiKeysService {
+  /**
+   * CREATE SERVICE - Issues a new key (the full key is returned only once)
+   */
+  static async createService(
+    input: ApiKeyCreateInput
+  ): Promise<ApiKeyCreateResult> {
+    /* =====================================================
+     * 1️⃣ Authorize organization scope (if requested)
+     * ===================================================== */
+    if (input.businessProfileId) {
+      await assertCanManageOrganizationKeys(
+        input.userId,
+        input.businessProfileId
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce active key limit (per user / organization)
+     * ===================================================== */
+    const ownerFilter = input.businessProfileId
+      ? { businessProfileId: input.businessProfileId }
+      : { userId: input.userId, businessProfileId: { $exists: false } };
+
+    const activeKeys = await ApiKeyModel.countDocuments({
+      ...ownerFilter,
+      ...activeKeyFilter(),
+    });
+
+    if (activeKeys >= appConfig.API_KEYS.MAX_PER_OWNER) {
+      throw new AppError(
+        `You can have at most ${appConfig.API_KEYS.MAX_PER_OWNER} active API keys. Revoke an unused key first.`,
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Generate & store hashed key
+     * ===================================================== */
+    const { key, prefix } = generateApiKey();
+
+    const apiKey = await ApiKeyModel.create({
+      userId: input.userId,
+      ...(input.businessProfileId && {
+        businessProfileId: input.businessProfileId,
+      }),
+      name: input.name,
+      prefix,
+      keyHash: hashApiKey(key),
+      scopes: input.scopes,
+      ...(input.expiresInDays && {
+        expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+      }),
+    });
+
+    return { apiKey: toApiKeySummary(apiKey), key };
+  }
+
+  /**
+   * LIST SERVICE - Personal keys, or the keys of one organization
+   */
+  static async listService(input: ApiKeyListInput): Promise<ApiKeySummary[]> {
+    if (input.businessProfileId) {
+      await assertCanManageOrganizationKeys(
+        input.userId,
+        input.businessProfileId
+      );
+    }
+
+    const apiKeys = await ApiKeyModel.find(
+      input.businessProfileId
+        ? { businessProfileId: input.businessProfileId }
+        : { userId: input.userId, businessProfileId: { $exists: false } }
+    ).sort({ createdAt: -1 });
+
+    return apiKeys.map(toApiKeySummary);
+  }
+
+  /**
+   * REVOKE SERVICE - Permanently disables a key
+   */
+  static async revokeService(input: ApiKeyRevokeInput): Promise<void> {
+    const apiKey = await ApiKeyModel.findById(input.apiKeyId);
+
+    if (!apiKey) throw new AppError("API key not found.", 404);
+
+    if (apiKey.businessProfileId) {
+      await assertCanManageOrganizationKeys(
+        input.userId,
+        String(apiKey.businessProfileId)
+      );
+    } else if (String(apiKey.userId) !== input.userId) {
+      throw new AppError("API key not found.", 404);
+    }
+
+    if (apiKey.revokedAt) return;
+
+    await ApiKeyModel.updateOne(
+      { _id: apiKey._id },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * AUTHENTICATE API KEY SERVICE - Resolves an API key into an authenticated context
+   */
+  static async authenticateApiKeyService(
+    key: string,
+    client: ClientMeta = {}
+  ): Promise<AuthContext> {
+    /* =====================================================
+     * 1️⃣ Resolve key by its public prefix
+     * ===================================================== */
+    const prefix = getApiKeyPrefix(key);
+    if (!prefix) throw new AppError("Invalid API key.", 401);
+
+    const apiKey = await ApiKeyModel.findOne({ prefix }).select("+keyHash");
+
+    if (!apiKey || !verifyApiKey(key, apiKey.keyHash)) {
+      throw new AppError("Invalid API key.", 401);
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce revocation & expiry
+     * ===================================================== */
+    if (apiKey.revokedAt) {
+      throw new AppError("This API key has been revoked.", 401);
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new AppError("This API key has expired.", 401);
+    }
+
+    /* =====================================================
+     * 3️⃣ Ensure the acting user (and organization) is still active
+     * ===================================================== */
+    const user = await UserModel.findById(apiKey.userId)
+      .select("+status +statusMeta")
+      .lean();
+
+    if (!user || user.status !== AccountStatus.ACTIVE || user.statusMeta) {
+      throw new AppError(
+        "The account that owns this API key is not active.",
+        403 // Forbidden
+      );
+    }
+
+    if (apiKey.businessProfileId) {
+      const organization = await BusinessProfileModel.findOne({
+        _id: apiKey.businessProfileId,
+        status: AccountStatus.ACTIVE,
+        statusMeta: { $exists: false },
+      })
+        .select("ownerUserId")
+        .lean();
+
+      if (!organization) {
+        throw new AppError(
+          "The organization that owns this API key is not active.",
+          403 // Forbidden
+        );
+      }
+
+      // Keys stop working once their creator leaves or is suspended
+      const isOwner =
+        String(organization.ownerUserId) === String(apiKey.userId);
+
+      const isActiveMember =
+        isOwner ||
+        (await OrganizationMembershipModel.exists({
+          businessProfileId: apiKey.businessProfileId,
+          userId: apiKey.userId,
+          status: MembershipStatus.ACTIVE,
+        }));
+
+      if (!isActiveMember) {
+        throw new AppError(
+          "The creator of this API key is no longer an active member of the organization.",
+          403 // Forbidden
+        );
+      }
+    }
+
+    /* =====================================================
+     * 4️⃣ Track last use (throttled)
+     * ===================================================== */
+    const touchBefore = new Date(
+      Date.now() - appConfig.API_KEYS.LAST_USED_TOUCH_INTERVAL_SECONDS * 1000
+    );
+
+    await ApiKeyModel.updateOne(
+      {
+        _id: apiKey._id,
+        $or: [
+          { lastUsedAt: { $exists: false } },
+          { lastUsedAt: { $lt: touchBefore } },
+        ],
+      },
+      {
+        $set: {
+          lastUsedAt: new Date(),
+          ...(client.ip && { lastUsedIp: client.ip }),
+        },
+      }
+    );
+
+    // Keys never carry platform admin roles
+    return {
+      userId: String(apiKey.userId),
+      sessionId: `api-key:${String(apiKey._id)}`,
+      roles: [AccountType.USER],
+      apiKey: {
+        id: String(apiKey._id),
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        businessProfileId: apiKey.businessProfileId
+          ? String(apiKey.businessProfileId)
+          : undefined,
+      },
+    };
+  }
+}
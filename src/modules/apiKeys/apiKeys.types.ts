@@ -0,0 +1,62 @@
+// ==========================================
+// FILE: src/rest/apiKeys/apiKeys.types.ts
+// ==========================================
+/**
+ * API key types & contracts
+ * Used by controller, service, validators
+ */
+
+import { ApiKeyScope } from "@constants/enum.constants";
+
+/* =====================================================
+ * API KEYS – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Create a personal or organization-scoped key
+ */
+export interface ApiKeyCreateInput {
+  userId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number | undefined; // no expiry when omitted
+  businessProfileId?: string | undefined; // organization-scoped key
+}
+
+/**
+ * List keys (personal, or of one organization)
+ */
+export interface ApiKeyListInput {
+  userId: string;
+  businessProfileId?: string | undefined;
+}
+
+/**
+ * Revoke a key
+ */
+export interface ApiKeyRevokeInput {
+  userId: string;
+  apiKeyId: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  businessProfileId?: string | undefined;
+  expiresAt?: Date | undefined;
+  revokedAt?: Date | undefined;
+  lastUsedAt?: Date | undefined;
+  lastUsedIp?: string | undefined;
+  createdAt: Date;
+}
+
+export interface ApiKeyCreateResult {
+  apiKey: ApiKeySummary;
+  key: string; // full key, shown once
+}
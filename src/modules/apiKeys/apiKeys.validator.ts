@@ -0,0 +1,60 @@
+// ==========================================
+// FILE: src/rest/apiKeys/apiKeys.validator.ts
+// ==========================================
+/**
+ * API key validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB logic
+ */
+
+import { z } from "zod";
+
+import { appConfig } from "@config/app.config";
+import { ApiKeyScope } from "@constants/enum.constants";
+
+const objectIdValidator = (label: string) =>
+  z
+    .string({ error: `${label} is required.` })
+    .regex(/^[a-f\d]{24}$/i, `Invalid ${label.toLowerCase()}.`);
+
+/* ----------------------------------
+ * CREATE
+ * ---------------------------------- */
+
+export const apiKeyCreateValidator = z.object({
+  name: z
+    .string({ error: "Key name is required." })
+    .trim()
+    .min(1, "Key name cannot be empty.")
+    .max(50, "Key name must be at most 50 characters."),
+
+  scopes: z
+    .array(z.enum(ApiKeyScope, { error: "Invalid scope." }), {
+      error: "Scopes are required.",
+    })
+    .min(1, "Select at least one scope.")
+    .transform((scopes) => [...new Set(scopes)]),
+
+  expiresInDays: z
+    .number({ error: "expiresInDays must be a number." })
+    .int("expiresInDays must be a whole number.")
+    .min(1, "expiresInDays must be at least 1.")
+    .max(
+      appConfig.API_KEYS.MAX_EXPIRY_DAYS,
+      `expiresInDays must be at most ${appConfig.API_KEYS.MAX_EXPIRY_DAYS}.`
+    )
+    .optional(),
+
+  businessProfileId: objectIdValidator("Business profile id").optional(),
+});
+
+/* ----------------------------------
+ * LIST / REVOKE
+ * ---------------------------------- */
+
+export const apiKeyListValidator = z.object({
+  businessProfileId: objectIdValidator("Business profile id").optional(),
+});
+
+export const apiKeyIdValidator = objectIdValidator("API key id");
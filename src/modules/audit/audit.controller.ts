@@ -0,0 +1,77 @@
+// ==========================================
+// FILE: src/rest/audit/audit.controller.ts
+// ==========================================
+/**
+ * Audit Controller
+ * ------------------------------------------
+ * - List audit events
+ * - Export audit events (CSV / JSONL)
+ */
+
+import { AuditExportFormat } from "@constants/enum.constants";
+import { AppError } from "@utils/AppError.util";
+import { Request, Response } from "express";
+import { AuditService } from "./audit.service";
+import { auditExportValidator, auditListValidator } from "./audit.validator";
+
+export class AuditController {
+  /**
+   * GET /admin/audit-events
+   */
+  static async listEventsController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const { type, ...filters } = auditListValidator.parse(req.query);
+
+    // 2. Call Service
+    const result = await AuditService.listEventsService({
+      ...filters,
+      types: type,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Audit events fetched successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * GET /admin/audit-events/export
+   */
+  static async exportEventsController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const { type, ...filters } = auditExportValidator.parse(req.query);
+
+    // 2. Call Service
+    const lines = AuditService.exportEventsService({ ...filters, types: type });
+
+    // 3. Respond (streamed)
+    const isCsv = filters.format === AuditExportFormat.CSV;
+    const fileName = `audit-events-${new Date().toISOString().slice(0, 10)}`;
+
+    res.status(200);
+    res.setHeader(
+      "Content-Type",
+      isCsv ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${fileName}.${filters.format}"`
+    );
+
+    for await (const line of lines) {
+      res.write(line);
+    }
+
+    res.end();
+  }
+}
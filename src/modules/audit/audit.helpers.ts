@@ -0,0 +1,110 @@
+// ==========================================
+// FILE: src/rest/audit/audit.helpers.ts
+// ==========================================
+/**
+ * Audit log helpers
+ * - `recordAuditEvent`: append-only writer used by services
+ * - Mapping & export serialization
+ */
+
+import { logger } from "@logger/index";
+import { AuditEventModel, IAuditEvent } from "@models/AuditEvent.model";
+import { ClientMeta } from "@utils/device.util";
+import { AuditEventInput, AuditEventSummary } from "./audit.types";
+
+/**
+ * Appends a security audit event
+ * - Never fails the calling flow: write errors are logged
+ */
+export const recordAuditEvent = async (
+  input: AuditEventInput,
+  client: ClientMeta = {}
+): Promise<void> => {
+  try {
+    const actorId = input.actorId === undefined ? input.userId : input.actorId;
+
+    await AuditEventModel.create({
+      type: input.type,
+      ...(actorId && { actorId }),
+      ...(input.userId && { userId: input.userId }),
+      ...(input.businessProfileId && {
+        businessProfileId: input.businessProfileId,
+      }),
+      ...(client.ip && { ip: client.ip }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+      ...(client.requestId && { requestId: client.requestId }),
+      ...(input.metadata && { metadata: input.metadata }),
+    });
+  } catch (err) {
+    logger.error(
+      { err, event: input.type, userId: input.userId },
+      "Failed to write audit event"
+    );
+  }
+};
+
+export const toAuditEventSummary = (
+  event: Pick<
+    IAuditEvent,
+    | "type"
+    | "actorId"
+    | "userId"
+    | "businessProfileId"
+    | "ip"
+    | "userAgent"
+    | "requestId"
+    | "metadata"
+    | "createdAt"
+  > & { _id: unknown }
+): AuditEventSummary => ({
+  id: String(event._id),
+  type: event.type,
+  actorId: event.actorId?.toString(),
+  userId: event.userId?.toString(),
+  businessProfileId: event.businessProfileId?.toString(),
+  ip: event.ip,
+  userAgent: event.userAgent,
+  requestId: event.requestId,
+  metadata: event.metadata,
+  createdAt: event.createdAt,
+});
+
+/* ----------------------------------
+ * EXPORT SERIALIZATION
+ * ---------------------------------- */
+
+export const AUDIT_CSV_COLUMNS: (keyof AuditEventSummary)[] = [
+  "id",
+  "createdAt",
+  "type",
+  "actorId",
+  "userId",
+  "businessProfileId",
+  "ip",
+  "userAgent",
+  "requestId",
+  "metadata",
+];
+
+// RFC 4180 quoting; leading formula characters are neutralized for spreadsheets
+const toCsvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toAuditCsvRow = (event: AuditEventSummary): string =>
+  AUDIT_CSV_COLUMNS.map((column) => toCsvCell(event[column])).join(",") +
+  "\r\n";
+
+export const toAuditJsonLine = (event: AuditEventSummary): string =>
+  JSON.stringify(event) + "\n";
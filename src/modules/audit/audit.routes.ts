@@ -0,0 +1,27 @@
+// ================================
+// FILE: src/rest/audit/audit.routes.ts
+// ================================
+/**
+ * Security audit log REST routes
+ * - Signin session of a platform admin required (no API keys)
+ */
+
+import { AccountType } from "@constants/enum.constants";
+import {
+  authenticateSession,
+  requireRoles,
+} from "@middlewares/auth.middleware";
+import { Router } from "express";
+import { AuditController } from "./audit.controller";
+
+const router = Router();
+
+router.use(
+  authenticateSession,
+  requireRoles(AccountType.ADMIN, AccountType.SUPER_ADMIN)
+);
+
+router.get("/", AuditController.listEventsController);
+router.get("/export", AuditController.exportEventsController);
+
+export default router;
@@ -0,0 +1,118 @@
+// ==========================================
+// FILE: src/rest/audit/audit.service.ts
+// ==========================================
+/**
+ * Audit Service
+ * ------------------------------------------
+ * Read side of the security audit log (admins only)
+ * - Filtered, cursor-paginated listing
+ * - Streaming export (CSV / JSONL)
+ */
+
+import { QueryFilter, Types } from "mongoose";
+
+import { appConfig } from "@config/app.config";
+import { AuditExportFormat } from "@constants/enum.constants";
+import { AuditEventModel, IAuditEvent } from "@models/AuditEvent.model";
+import {
+  AUDIT_CSV_COLUMNS,
+  toAuditCsvRow,
+  toAuditEventSummary,
+  toAuditJsonLine,
+} from "./audit.helpers";
+import {
+  AuditEventExportInput,
+  AuditEventFilter,
+  AuditEventListInput,
+  AuditEventListResult,
+} from "./audit.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+const buildAuditQuery = (
+  filter: AuditEventFilter
+): QueryFilter<IAuditEvent> => {
+  const query: QueryFilter<IAuditEvent> = {};
+
+  if (filter.userId) {
+    const userId = new Types.ObjectId(filter.userId);
+    query.$or = [{ userId }, { actorId: userId }];
+  }
+
+  if (filter.businessProfileId) {
+    query.businessProfileId = new Types.ObjectId(filter.businessProfileId);
+  }
+
+  if (filter.types?.length) {
+    query.type = { $in: filter.types };
+  }
+
+  if (filter.from || filter.to) {
+    query.createdAt = {
+      ...(filter.from && { $gte: filter.from }),
+      ...(filter.to && { $lte: filter.to }),
+    };
+  }
+
+  return query;
+};
+
+/* ----------------------------------
+ * AUDIT SERVICE
+ * ---------------------------------- */
+
+export class AuditService {
+  /**
+   * LIST EVENTS SERVICE - Newest first, cursor paginated
+   */
+  static async listEventsService(
+    input: AuditEventListInput
+  ): Promise<AuditEventListResult> {
+    const query = buildAuditQuery(input);
+
+    if (input.cursor) {
+      query._id = { $lt: new Types.ObjectId(input.cursor) };
+    }
+
+    // One extra row tells whether another page exists
+    const events = await AuditEventModel.find(query)
+      .sort({ _id: -1 })
+      .limit(input.limit + 1)
+      .lean();
+
+    const page = events.slice(0, input.limit);
+    const last = page[page.length - 1];
+
+    return {
+      events: page.map(toAuditEventSummary),
+      nextCursor: events.length > input.limit && last ? String(last._id) : null,
+    };
+  }
+
+  /**
+   * EXPORT EVENTS SERVICE - Streams matching events as CSV rows / JSON lines
+   */
+  static async *exportEventsService(
+    input: AuditEventExportInput
+  ): AsyncGenerator<string> {
+    if (input.format === AuditExportFormat.CSV) {
+      yield AUDIT_CSV_COLUMNS.join(",") + "\r\n";
+    }
+
+    const cursor = AuditEventModel.find(buildAuditQuery(input))
+      .sort({ _id: -1 })
+      .limit(appConfig.AUDIT_LOG.MAX_EXPORT_ROWS)
+      .lean()
+      .cursor();
+
+    for await (const event of cursor) {
+      const summary = toAuditEventSummary(event);
+
+      yield input.format === AuditExportFormat.CSV
+        ? toAuditCsvRow(summary)
+        : toAuditJsonLine(summary);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// ==========================================
+// FILE: src/rest/audit/audit.types.ts
+// ==========================================
+/**
+ * Security audit log types & contracts
+ * Used by controller, service, validators and event writers
+ */
+
+import { AuditEventType, AuditExportFormat } from "@constants/enum.constants";
+
+/* =====================================================
+ * AUDIT – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Event written by services (see `recordAuditEvent`)
+ */
+export interface AuditEventInput {
+  type: AuditEventType;
+  actorId?: string | null | undefined; // defaults to the subject; null for system actions
+  userId?: string | undefined;
+  businessProfileId?: string | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Query filters (all optional, combined with AND)
+ */
+export interface AuditEventFilter {
+  userId?: string | undefined; // subject or actor
+  businessProfileId?: string | undefined;
+  types?: AuditEventType[] | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
+
+/**
+ * Paginated listing, newest first
+ */
+export interface AuditEventListInput extends AuditEventFilter {
+  limit: number;
+  cursor?: string | undefined; // id of the last event of the previous page
+}
+
+/**
+ * Export of every matching event
+ */
+export interface AuditEventExportInput extends AuditEventFilter {
+  format: AuditExportFormat;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface AuditEventSummary {
+  id: string;
+  type: AuditEventType;
+  actorId?: string | undefined;
+  userId?: string | undefined;
+  businessProfileId?: string | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  requestId?: string | undefined;
+  metadata?: Record<string, unknown> | undefined;
+  createdAt: Date;
+}
+
+export interface AuditEventListResult {
+  events: AuditEventSummary[];
+  nextCursor: string | null;
+}
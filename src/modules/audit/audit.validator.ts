@@ -0,0 +1,91 @@
+// ==========================================
+// FILE: src/rest/audit/audit.validator.ts
+// ==========================================
+/**
+ * Audit log validators
+ * ------------------------------------------
+ * - Request-level validation only (query string)
+ * - No DB logic
+ */
+
+import { z } from "zod";
+
+import { appConfig } from "@config/app.config";
+import { AuditEventType, AuditExportFormat } from "@constants/enum.constants";
+
+const { AUDIT_LOG } = appConfig;
+
+const objectIdValidator = (label: string) =>
+  z
+    .string({ error: `${label} is required.` })
+    .regex(/^[a-f\d]{24}$/i, `Invalid ${label.toLowerCase()}.`);
+
+/* ----------------------------------
+ * FILTERS
+ * ---------------------------------- */
+
+const auditFilterValidator = z
+  .object({
+    userId: objectIdValidator("User id").optional(),
+
+    businessProfileId: objectIdValidator("Business profile id").optional(),
+
+    // `?type=a,b` or repeated `?type=a&type=b`
+    type: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .transform((value) =>
+        value === undefined
+          ? undefined
+          : [value].flat().flatMap((item) => item.split(","))
+      )
+      .pipe(
+        z
+          .array(z.enum(AuditEventType, { error: "Invalid event type." }))
+          .optional()
+      ),
+
+    from: z.coerce.date({ error: "Invalid from date." }).optional(),
+
+    to: z.coerce.date({ error: "Invalid to date." }).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to.",
+    path: ["from"],
+  });
+
+/* ----------------------------------
+ * LIST
+ * ---------------------------------- */
+
+export const auditListValidator = z.intersection(
+  auditFilterValidator,
+  z.object({
+    limit: z.coerce
+      .number({ error: "limit must be a number." })
+      .int("limit must be a whole number.")
+      .min(1, "limit must be at least 1.")
+      .max(
+        AUDIT_LOG.MAX_PAGE_SIZE,
+        `limit must be at most ${AUDIT_LOG.MAX_PAGE_SIZE}.`
+      )
+      .optional()
+      .default(AUDIT_LOG.DEFAULT_PAGE_SIZE),
+
+    cursor: objectIdValidator("Cursor").optional(),
+  })
+);
+
+/* ----------------------------------
+ * EXPORT
+ * ---------------------------------- */
+
+export const auditExportValidator = z.intersection(
+  auditFilterValidator,
+  z.object({
+    format: z
+      .enum(AuditExportFormat, { error: "format must be csv or jsonl." })
+      .optional()
+      .default(AuditExportFormat.CSV),
+  })
+);
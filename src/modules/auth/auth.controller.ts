@@ -7,13 +7,25 @@
  * Validations for services
  * - Signup
  * - OTP verification
- * - Signin
+ * - Signin (step-up & account unlock)
+ * - Magic-link signin
  * - Token refresh
  * - Forgot / Reset password
+ * - Phone verification (SMS)
+ * - Change password / email (authenticated)
+ * - Notification preferences
  * - Logout (single & all devices)
  */
 
+import { OtpChannel } from "@constants/enum.constants";
 import { AppError } from "@utils/AppError.util";
+import {
+  applyTokenTransport,
+  clearAuthCookies,
+  getRefreshTokenCookie,
+  setAuthCookies,
+} from "@utils/authCookie.util";
+import { getClientMeta } from "@utils/device.util";
 import { Request, Response } from "express";
 import { AuthService } from "./auth.service";
 import {
@@ -21,12 +33,18 @@ import {
   SignupResendVerificationInput,
 } from "./auth.types";
 import {
+  changeEmailRequestValidator,
+  changePasswordValidator,
   identifierValidator,
+  notificationPreferencesValidator,
+  otpChannelValidator,
+  phoneVerificationRequestValidator,
   refreshTokenValidator,
   resetPasswordValidator,
   sessionTokenBodyOrQueryValidator,
   sessionTokenValidator,
   signupVerifyOtpValidator,
+  usernameAvailabilityValidator,
 } from "./auth.validator";
 
 export class AuthController {
@@ -35,13 +53,37 @@ export class AuthController {
    */
   static async signupController(req: Request, res: Response) {
     // 1. Call Service
-    const result = await AuthService.signupService(req.body);
+    const { sessionToken } = await AuthService.signupService(req.body);
 
     // 2. Respond
     res.status(201).json({
       success: true,
       message:
         "Your account has been created. A verification code has been sent to your email. Please verify to continue.",
+      data: { sessionToken },
+    });
+  }
+
+  /**
+   * GET /auth/username/availability?username=
+   */
+  static async usernameAvailabilityController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = usernameAvailabilityValidator.parse({
+      username: req.query?.username,
+    });
+
+    // 2. Call Service
+    const result = await AuthService.checkUsernameAvailabilityService(
+      parsedData
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: result.available
+        ? "Username is available."
+        : "Username is not available.",
       data: result,
     });
   }
@@ -120,7 +162,7 @@ export class AuthController {
     });
 
     // 2. Call Service
-    await AuthService.signupVerifyOtpService(parsedData);
+    await AuthService.signupVerifyOtpService(parsedData, getClientMeta(req));
 
     // 3. Respond
     res.status(200).json({
@@ -135,26 +177,182 @@ export class AuthController {
    */
   static async signinController(req: Request, res: Response) {
     // 1. Call Service
-    const result = await AuthService.signinService(req.body);
+    const result = await AuthService.signinService(
+      req.body,
+      getClientMeta(req)
+    );
 
     // 2. Respond
     res.status(200).json({
       success: true,
-      message: "Signed in successfully.",
+      message:
+        "twoFactorRequired" in result
+          ? "Two-factor authentication required. Enter the code from your authenticator app."
+          : "stepUpRequired" in result
+          ? `We noticed an unusual sign-in. Enter the verification code sent to your ${
+              result.channel === OtpChannel.SMS ? "phone" : "email"
+            } to continue.`
+          : "Signed in successfully.",
+      data: applyTokenTransport(req, res, result),
+    });
+  }
+
+  /**
+   * POST /auth/signin/step-up/verify
+   */
+  static async verifySigninStepUpController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = signupVerifyOtpValidator.parse({
+      sessionToken: req.body?.sessionToken || req.query?.sessionToken,
+      otp: req.body?.otp,
+    });
+
+    // 2. Call Service
+    const result = await AuthService.verifySigninStepUpService(
+      parsedData,
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "twoFactorRequired" in result
+          ? "Two-factor authentication required. Enter the code from your authenticator app."
+          : "Signed in successfully.",
+      data: applyTokenTransport(req, res, result),
+    });
+  }
+
+  /**
+   * POST /auth/signin/step-up/resend
+   */
+  static async resendSigninStepUpController(req: Request, res: Response) {
+    // 1. Validate request
+    const sessionToken = sessionTokenValidator.parse(
+      req.body?.sessionToken || req.query?.sessionToken
+    );
+
+    // 2. Call Service
+    const result = await AuthService.resendSigninStepUpService({
+      sessionToken,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: `A new verification code has been sent to your ${
+        result.channel === OtpChannel.SMS ? "phone" : "email"
+      }.`,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/signin/magic-link
+   */
+  static async requestMagicLinkController(req: Request, res: Response) {
+    // 1. Validate request
+    const identifier = identifierValidator.parse(req.body?.identifier);
+
+    // 2. Call Service
+    const result = await AuthService.requestMagicLinkService({ identifier });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "If an account matches, a sign-in link and code have been sent to its email.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/signin/magic-link/verify
+   */
+  static async verifyMagicLinkController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = signupVerifyOtpValidator.parse({
+      sessionToken: req.body?.sessionToken || req.query?.sessionToken,
+      otp: req.body?.otp || req.query?.otp,
+    });
+
+    // 2. Call Service
+    const result = await AuthService.verifyMagicLinkService(
+      parsedData,
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "twoFactorRequired" in result
+          ? "Two-factor authentication required. Enter the code from your authenticator app."
+          : "Signed in successfully.",
+      data: applyTokenTransport(req, res, result),
+    });
+  }
+
+  /**
+   * POST /auth/signin/magic-link/resend
+   */
+  static async resendMagicLinkController(req: Request, res: Response) {
+    // 1. Validate request
+    const sessionToken = sessionTokenValidator.parse(
+      req.body?.sessionToken || req.query?.sessionToken
+    );
+
+    // 2. Call Service
+    const result = await AuthService.resendMagicLinkService({ sessionToken });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "A new sign-in link and code have been sent to your email.",
       data: result,
     });
   }
 
+  /**
+   * POST /auth/unlock
+   */
+  static async unlockAccountController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = signupVerifyOtpValidator.parse({
+      sessionToken: req.body?.sessionToken || req.query?.sessionToken,
+      otp: req.body?.otp || req.query?.otp,
+    });
+
+    // 2. Call Service
+    await AuthService.unlockAccountService(parsedData, getClientMeta(req));
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Your account has been unlocked. You can now sign in.",
+      data: null,
+    });
+  }
+
   /**
    * Refresh Access Token
    */
   static async refreshAccessTokenController(req: Request, res: Response) {
-    // 1. Validate request
-    const parsedData = refreshTokenValidator.parse(req.body || req.query || {});
+    // 1. Validate request (JSON body, or the cookie transport)
+    const parsedData = refreshTokenValidator.parse(
+      req.body?.refreshToken
+        ? req.body
+        : {
+            refreshToken:
+              getRefreshTokenCookie(req) ?? req.query?.refreshToken,
+          }
+    );
 
     // 2. Call Service
     const result = await AuthService.refreshAccessTokenService(
-      parsedData.refreshToken
+      parsedData.refreshToken,
+      getClientMeta(req)
     );
 
     // 3. Respond
@@ -169,19 +367,31 @@ export class AuthController {
    * Rotate Refresh Token
    */
   static async rotateRefreshTokenController(req: Request, res: Response) {
-    // 1. Validate request
-    const input = refreshTokenValidator.parse(req.body);
+    // 1. Validate request (JSON body, or the cookie transport)
+    const cookieRefreshToken = req.body?.refreshToken
+      ? undefined
+      : getRefreshTokenCookie(req);
+
+    const input = refreshTokenValidator.parse(
+      cookieRefreshToken ? { refreshToken: cookieRefreshToken } : req.body
+    );
 
     // 2. Call Service
     const result = await AuthService.rotateRefreshTokenService(
-      input.refreshToken
+      input.refreshToken,
+      getClientMeta(req)
     );
 
-    // 3. Respond
+    // 3. Respond (the rotated refresh token stays in the cookie)
     res.status(200).json({
       success: true,
       message: "Session refreshed successfully.",
-      data: result,
+      data: cookieRefreshToken
+        ? {
+            newAccessToken: result.newAccessToken,
+            csrfToken: setAuthCookies(res, result.newRefreshToken),
+          }
+        : result,
     });
   }
 
@@ -191,9 +401,13 @@ export class AuthController {
   static async forgotPasswordController(req: Request, res: Response) {
     // 1. Validate request
     const identifier = identifierValidator.parse(req.body?.identifier);
+    const channel = otpChannelValidator.optional().parse(req.body?.channel);
 
     // 2. Call Service
-    const result = await AuthService.forgotPasswordService({ identifier });
+    const result = await AuthService.forgotPasswordService({
+      identifier,
+      ...(channel && { channel }),
+    });
 
     // 3. Respond
     res.status(200).json({
@@ -222,8 +436,10 @@ export class AuthController {
       parsedData.sessionToken = sessionToken;
     } else if ("identifier" in _body) {
       const identifier = identifierValidator.parse(_body.identifier);
+      const channel = otpChannelValidator.optional().parse(_body.channel);
 
       parsedData.identifier = identifier;
+      if (channel) parsedData.channel = channel;
     } else {
       throw new AppError(
         "Please provide a session token or a valid email, username, or phone number as a identifier.",
@@ -279,7 +495,7 @@ export class AuthController {
     });
 
     // 2. Call Service
-    await AuthService.resetPasswordService(input);
+    await AuthService.resetPasswordService(input, getClientMeta(req));
 
     // 3. Respond
     res.status(200).json({
@@ -289,21 +505,273 @@ export class AuthController {
     });
   }
 
+  /**
+   * POST /auth/phone/verify
+   */
+  static async requestPhoneVerificationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = phoneVerificationRequestValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await AuthService.requestPhoneVerificationService({
+      userId: req.auth.userId,
+      dialCode: parsedData.dialCode,
+      phoneNumber: parsedData.phoneNumber,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "A verification code has been sent to your phone.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/phone/verify/resend
+   */
+  static async resendPhoneVerificationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const sessionToken = sessionTokenValidator.parse(
+      req.body?.sessionToken || req.query?.sessionToken
+    );
+
+    // 2. Call Service
+    const result = await AuthService.resendPhoneVerificationService({
+      userId: req.auth.userId,
+      sessionToken,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "A new verification code has been sent to your phone.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/phone/verify/confirm
+   */
+  static async confirmPhoneVerificationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = signupVerifyOtpValidator.parse({
+      sessionToken: req.body?.sessionToken || req.query?.sessionToken,
+      otp: req.body?.otp,
+    });
+
+    // 2. Call Service
+    await AuthService.confirmPhoneVerificationService(
+      {
+        userId: req.auth.userId,
+        ...parsedData,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Phone number verified successfully.",
+      data: null,
+    });
+  }
+
+  /**
+   * POST /auth/password/change
+   */
+  static async changePasswordController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = changePasswordValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await AuthService.changePasswordService(
+      {
+        userId: req.auth.userId,
+        sessionId: req.auth.sessionId,
+        ...parsedData,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Password changed successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/email/change
+   */
+  static async requestEmailChangeController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = changeEmailRequestValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await AuthService.requestEmailChangeService(
+      {
+        userId: req.auth.userId,
+        sessionId: req.auth.sessionId,
+        ...parsedData,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "A verification code has been sent to your new email address.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/email/change/resend
+   */
+  static async resendEmailChangeController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const sessionToken = sessionTokenValidator.parse(
+      req.body?.sessionToken || req.query?.sessionToken
+    );
+
+    // 2. Call Service
+    const result = await AuthService.resendEmailChangeService({
+      userId: req.auth.userId,
+      sessionToken,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "A new verification code has been sent to your new email address.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/email/change/confirm
+   */
+  static async confirmEmailChangeController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = signupVerifyOtpValidator.parse({
+      sessionToken: req.body?.sessionToken || req.query?.sessionToken,
+      otp: req.body?.otp,
+    });
+
+    // 2. Call Service
+    await AuthService.confirmEmailChangeService(
+      {
+        userId: req.auth.userId,
+        ...parsedData,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Email address changed successfully.",
+      data: null,
+    });
+  }
+
+  /**
+   * GET /auth/preferences/notifications
+   */
+  static async getNotificationPreferencesController(
+    req: Request,
+    res: Response
+  ) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Call Service
+    const result = await AuthService.getNotificationPreferencesService(
+      req.auth.userId
+    );
+
+    // 2. Respond
+    res.status(200).json({
+      success: true,
+      message: "Notification preferences fetched successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * PATCH /auth/preferences/notifications
+   */
+  static async updateNotificationPreferencesController(
+    req: Request,
+    res: Response
+  ) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = notificationPreferencesValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await AuthService.updateNotificationPreferencesService({
+      userId: req.auth.userId,
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Notification preferences updated successfully.",
+      data: result,
+    });
+  }
+
   /**
    * Logout - Logout current session
    */
   static async logoutController(req: Request, res: Response) {
-    // Session ID and user ID should come from authenticated request
-    // This will be set by auth middleware
-    const sessionId = (req as any).sessionId;
-    const userId = (req as any).userId;
-
-    if (!sessionId || !userId) {
+    // Session ID and user ID come from the authenticate middleware
+    if (!req.auth) {
       throw new AppError("Authentication required.", 401);
     }
 
+    const { sessionId, userId } = req.auth;
+
     // Call Service
-    await AuthService.logoutService({ sessionId, userId });
+    await AuthService.logoutService({ sessionId, userId }, getClientMeta(req));
+    clearAuthCookies(res);
 
     // Respond
     res.status(200).json({
@@ -317,15 +785,17 @@ export class AuthController {
    * Logout All - Logout all user sessions
    */
   static async logoutAllController(req: Request, res: Response) {
-    // User ID should come from authenticated request
-    const userId = (req as any).userId;
-
-    if (!userId) {
+    // User ID comes from the authenticate middleware
+    if (!req.auth) {
       throw new AppError("Authentication required.", 401);
     }
 
     // Call Service
-    await AuthService.logoutAllSessionsService({ userId });
+    await AuthService.logoutAllSessionsService(
+      { userId: req.auth.userId },
+      getClientMeta(req)
+    );
+    clearAuthCookies(res);
 
     // Respond
     res.status(200).json({
@@ -0,0 +1,1076 @@
+// ==========================================
+// FILE: src/rest/auth/auth.helpers.ts
+// ==========================================
+/**
+ * Authentication helpers
+ * ------------------------------------------
+ * Shared by every flow that issues or inspects auth sessions
+ * - Identifier normalization & lookup filters
+ * - Redis key builders
+ * - Signin session creation & token issuance
+ * - Known-device tracking & new-login alerts
+ * - Current platform roles (read from the user record)
+ * - Per-account lockout after failed signins
+ * - Suspicious signin detection & email OTP step-up
+ * - Two-factor signin challenge
+ * - Refresh token family reuse detection
+ * - Inactivity rule
+ * - OTP attempt / resend accounting
+ */
+
+import { QueryFilter } from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+
+import { appConfig } from "@config/app.config";
+import {
+  AccountStatus,
+  AccountType,
+  AuditEventType,
+  OtpChannel,
+  SessionType,
+  SigninMethod,
+  SigninRiskReason,
+} from "@constants/enum.constants";
+import { getRedisClient } from "@core/redis";
+import { logger } from "@logger/index";
+import { EMAIL_REGEX, PHONE_NUMBER_REGEX } from "@constants/regex.constants";
+import { IKnownDevice, IUser, UserModel } from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import { AppError } from "@utils/AppError.util";
+import {
+  ClientMeta,
+  getDeviceFingerprint,
+  getDistanceKm,
+  UNKNOWN_DEVICE,
+} from "@utils/device.util";
+import {
+  sendAccountLockedEmail,
+  sendLoginNotificationEmail,
+  sendRefreshTokenReuseEmail,
+  sendSigninStepUpEmail,
+} from "helpers/email";
+import { sendSigninStepUpSms } from "helpers/sms";
+import { formatRemainingTime } from "@utils/index";
+import { generateOtp, hashOtp } from "@utils/otp.util";
+import { verifyPassword } from "@utils/password.util";
+import { parseE164 } from "@utils/phone.util";
+import {
+  generateAccessToken,
+  generateRefreshToken,
+} from "@utils/token.util";
+import {
+  AuthContext,
+  AuthTokens,
+  NormalizedIdentifier,
+  RedisAuthSession,
+  RedisRotatedToken,
+  SigninResult,
+  SigninStepUpChallenge,
+  TwoFactorChallenge,
+} from "./auth.types";
+
+/* ----------------------------------
+ * IDENTIFIERS
+ * ---------------------------------- */
+
+/**
+ * Canonical form of a signin identifier (email / username / phone).
+ * Emails & usernames are lowercased, "+<country><number>" becomes E.164.
+ */
+export const normalizeIdentifier = (
+  identifier: string
+): NormalizedIdentifier => {
+  const value = identifier.trim();
+
+  if (EMAIL_REGEX.test(value)) {
+    return { type: "email", value: value.toLowerCase() };
+  }
+
+  if (value.startsWith("+")) {
+    const phone = parseE164(value);
+    return {
+      type: "phone",
+      value: phone ? phone.e164 : value.replace(/[\s().-]/g, ""),
+    };
+  }
+
+  if (PHONE_NUMBER_REGEX.test(value)) {
+    return { type: "phone", value };
+  }
+
+  return { type: "username", value: value.toLowerCase() };
+};
+
+/**
+ * User lookup filter for a signin identifier.
+ * A bare national number is ambiguous (no country code), and
+ * digits-only usernames are valid, so both are matched.
+ */
+export const getIdentifierFilter = (identifier: string): QueryFilter<IUser> => {
+  const { type, value } = normalizeIdentifier(identifier);
+
+  if (type === "email") return { email: value };
+  if (type === "username") return { username: value };
+  if (value.startsWith("+")) return { phoneE164: value };
+
+  return { $or: [{ phoneNumber: value }, { username: value }] };
+};
+
+/* ----------------------------------
+ * REDIS KEYS
+ * ---------------------------------- */
+
+export const getSessionKey = (sessionId: string) => `auth:session:${sessionId}`;
+export const getUserAccountKey = (userKey: string) => `auth:signup:${userKey}`;
+export const getUserForgotKey = (userKey: string) => `auth:forgot:${userKey}`;
+export const getUserSessionsKey = (userId: string) =>
+  `auth:user:${userId}:sessions`;
+export const getSessionFamilyKey = (familyId: string) =>
+  `auth:family:${familyId}`;
+export const getRotatedSessionKey = (sessionId: string) =>
+  `auth:rotated:${sessionId}`;
+export const getAccountLockoutKey = (userId: string) =>
+  `auth:lockout:${userId}`;
+export const getMagicLinkKey = (userId: string) => `auth:magic:${userId}`;
+
+/* ----------------------------------
+ * SESSION RULES
+ * ---------------------------------- */
+
+/**
+ * Whether a signin session has exceeded the configured inactivity window
+ */
+export const isSessionInactive = (session: RedisAuthSession): boolean =>
+  appConfig.AUTH_FEATURES.ENABLE_INACTIVITY_LOGOUT &&
+  !!session.lastActivityAt &&
+  Date.now() - session.lastActivityAt >
+    appConfig.AUTH_FEATURES.INACTIVITY_LOGOUT_DAYS * 24 * 60 * 60 * 1000;
+
+/* ----------------------------------
+ * OTP ACCOUNTING
+ * ---------------------------------- */
+
+/**
+ * Enforces OTP expiry & attempt limits for a verification session.
+ * The incremented counter is persisted BEFORE the OTP is compared,
+ * so every guess is counted even when the comparison fails.
+ */
+export const registerOtpAttempt = async (
+  redisKey: string,
+  session: RedisAuthSession
+): Promise<void> => {
+  if (!session.otpExpiresAt || Date.now() > session.otpExpiresAt) {
+    throw new AppError(
+      "Verification code has expired. Please request a new one.",
+      410 // Gone
+    );
+  }
+
+  session.otpAttempts = (session.otpAttempts || 0) + 1;
+
+  if (session.otpAttempts > appConfig.OTP.MAX_ATTEMPTS) {
+    throw new AppError(
+      "Maximum OTP verification attempts exceeded. Please request a new code.",
+      429 // Too Many Requests
+    );
+  }
+
+  await getRedisClient().set(redisKey, JSON.stringify(session), "KEEPTTL");
+};
+
+/**
+ * Increments the resend counter and enforces `OTP.MAX_RESENDS`.
+ * The counter resets once the original OTP window has elapsed.
+ */
+export const enforceOtpResendLimit = (session: RedisAuthSession): void => {
+  session.otpResendCount = (session.otpResendCount ?? 0) + 1;
+
+  const expiryMs = session.createdAt + appConfig.OTP.EXPIRES_IN_SECONDS * 1000;
+  const remainingMs = Math.max(expiryMs - Date.now(), 0);
+
+  if (session.otpResendCount > appConfig.OTP.MAX_RESENDS) {
+    if (remainingMs) {
+      throw new AppError(
+        `OTP resend limit reached. Try again after ${formatRemainingTime(
+          remainingMs
+        )}.`,
+        429 // Too Many Requests
+      );
+    }
+
+    session.otpResendCount = 1;
+  }
+};
+
+/**
+ * Revokes every signin session of a user, optionally keeping one (the caller's)
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const redisClient = getRedisClient();
+  const userSessionsKey = getUserSessionsKey(userId);
+
+  const sessionIds = (await redisClient.smembers(userSessionsKey)).filter(
+    (sessionId) => sessionId !== exceptSessionId
+  );
+
+  if (!sessionIds.length) return 0;
+
+  const redisTransaction = redisClient.multi();
+
+  for (const sessionId of sessionIds) {
+    redisTransaction.del(getSessionKey(sessionId));
+  }
+
+  redisTransaction.srem(userSessionsKey, ...sessionIds);
+
+  await redisTransaction.exec();
+
+  return sessionIds.length;
+};
+
+/* ----------------------------------
+ * KNOWN DEVICES
+ * ---------------------------------- */
+
+/**
+ * Whether the client is a remembered device. Devices remembered before
+ * fingerprints ignored browser versions still match by their label.
+ */
+const isKnownDevice = (
+  knownDevices: IKnownDevice[],
+  fingerprint: string,
+  client: ClientMeta
+): boolean =>
+  knownDevices.some(
+    (known) =>
+      known.fingerprint === fingerprint ||
+      (!!client.device &&
+        client.device !== UNKNOWN_DEVICE &&
+        known.device === client.device)
+  );
+
+/**
+ * Remembers the signin device and emails the user when it is new.
+ * The very first device of an account is not alerted on, and users
+ * can opt out via `notificationPreferences.loginAlerts`.
+ */
+export const recordSigninDevice = async (
+  user: IUser,
+  client: ClientMeta
+): Promise<void> => {
+  const fingerprint = getDeviceFingerprint(client);
+  if (!fingerprint) return;
+
+  const now = new Date();
+
+  // Known device → refresh last seen (devices remembered under a
+  // version-specific fingerprint match by label and are upgraded in place)
+  const matchesLabel = !!client.device && client.device !== UNKNOWN_DEVICE;
+  const known = await UserModel.updateOne(
+    {
+      _id: user._id,
+      knownDevices: {
+        $elemMatch: {
+          $or: [
+            { fingerprint },
+            ...(matchesLabel ? [{ device: client.device }] : []),
+          ],
+        },
+      },
+    },
+    {
+      $set: {
+        "knownDevices.$.fingerprint": fingerprint,
+        "knownDevices.$.lastSeenAt": now,
+        ...(client.device && { "knownDevices.$.device": client.device }),
+      },
+    }
+  );
+
+  if (known.matchedCount) return;
+
+  // New device → remember it (bounded list), returns the previous state
+  const previous = await UserModel.findByIdAndUpdate(user._id, {
+    $push: {
+      knownDevices: {
+        $each: [
+          {
+            fingerprint,
+            ...(client.device && { device: client.device }),
+            firstSeenAt: now,
+            lastSeenAt: now,
+          },
+        ],
+        $slice: -appConfig.AUTH_FEATURES.MAX_KNOWN_DEVICES,
+      },
+    },
+  }).select("+knownDevices");
+
+  if (
+    !previous?.knownDevices?.length ||
+    previous.notificationPreferences?.loginAlerts === false
+  ) {
+    return;
+  }
+
+  await sendLoginNotificationEmail({
+    email: previous.email,
+    device: client.device,
+    ip: client.ip,
+    location: client.location,
+    time: now.toUTCString(),
+  });
+};
+
+/**
+ * Remembers where the user signed in from (country & coordinates)
+ * for the suspicious-signin heuristics
+ */
+export const recordSigninLocation = async (
+  user: IUser,
+  client: ClientMeta
+): Promise<void> => {
+  const hasCoordinates =
+    client.latitude !== undefined && client.longitude !== undefined;
+
+  await UserModel.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        lastSignin: {
+          at: new Date(),
+          ...(client.country && { country: client.country }),
+          ...(hasCoordinates && {
+            latitude: client.latitude,
+            longitude: client.longitude,
+          }),
+        },
+      },
+      ...(client.country && {
+        $addToSet: { knownCountries: client.country },
+      }),
+    }
+  );
+};
+
+/* ----------------------------------
+ * SIGNIN ELIGIBILITY
+ * ---------------------------------- */
+
+/**
+ * Account verification & status rules shared by every first-factor signin
+ * (user must be loaded with `+status +statusMeta`)
+ */
+export const assertAccountCanSignin = (user: IUser): void => {
+  if (!user.emailIsVerified && !user.phoneIsVerified) {
+    throw new AppError(
+      "Please verify your email address or phone number before signing in.",
+      403 // Forbidden
+    );
+  }
+
+  if (user.status === AccountStatus.SOFT_DELETED) {
+    throw new AppError(
+      "This account is scheduled for deletion. Restore it with a verification code to sign in again.",
+      403 // Forbidden
+    );
+  }
+
+  if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
+    throw new AppError(
+      "Your account is not active. Please contact support.",
+      403 // Forbidden
+    );
+  }
+};
+
+/* ----------------------------------
+ * PLATFORM ROLES
+ * ---------------------------------- */
+
+/**
+ * Platform roles of an authenticated request, taken from the user record so
+ * role changes apply to live sessions (API keys & impersonation sessions
+ * keep the user-only roles they were issued with)
+ */
+export const getCurrentRoles = (
+  auth: AuthContext,
+  user: Pick<IUser, "accountType"> | null
+): AccountType[] => {
+  if (auth.apiKey || auth.impersonation) return auth.roles;
+
+  return user ? [user.accountType || AccountType.USER] : [];
+};
+
+/* ----------------------------------
+ * ACCOUNT LOCKOUT
+ * ---------------------------------- */
+
+/**
+ * Rejects signins while the account is locked
+ */
+export const assertAccountNotLocked = async (userId: string): Promise<void> => {
+  const lockedUntil = Number(
+    await getRedisClient().hget(getAccountLockoutKey(userId), "lockedUntil")
+  );
+
+  const remainingMs = lockedUntil - Date.now();
+  if (!lockedUntil || remainingMs <= 0) return;
+
+  throw new AppError(
+    `Too many failed sign-in attempts. Try again after ${formatRemainingTime(
+      remainingMs
+    )}, or unlock your account with the link sent to your email.`,
+    423 // Locked
+  );
+};
+
+/**
+ * Counts a failed password for the account (not the IP, so distributed
+ * guessing is slowed too). Every `MAX_FAILED_ATTEMPTS` consecutive failures
+ * lock the account for an exponentially growing period and email the user
+ * an unlock OTP / link. Returns the lock duration when a lock was applied.
+ */
+export const registerFailedSignin = async (
+  user: IUser,
+  client: ClientMeta = {}
+): Promise<number | null> => {
+  const {
+    MAX_FAILED_ATTEMPTS,
+    BASE_LOCK_SECONDS,
+    MAX_LOCK_SECONDS,
+    TRACKING_TTL_SECONDS,
+  } = appConfig.ACCOUNT_LOCKOUT;
+
+  const redisClient = getRedisClient();
+  const userId = String(user._id);
+  const lockoutKey = getAccountLockoutKey(userId);
+
+  const [[, failedAttempts] = []] =
+    (await redisClient
+      .multi()
+      .hincrby(lockoutKey, "failedAttempts", 1)
+      .expire(lockoutKey, TRACKING_TTL_SECONDS)
+      .exec()) || [];
+
+  await recordAuditEvent(
+    {
+      type: AuditEventType.SIGNIN_FAILED,
+      userId,
+      metadata: { failedAttempts: Number(failedAttempts) },
+    },
+    client
+  );
+
+  if (Number(failedAttempts) < MAX_FAILED_ATTEMPTS) return null;
+
+  /* ----------------------------------
+   * 1️⃣ Apply lock (doubles with each consecutive lock)
+   * ---------------------------------- */
+  const lockCount = await redisClient.hincrby(lockoutKey, "lockCount", 1);
+  const lockSeconds = Math.min(
+    BASE_LOCK_SECONDS * 2 ** (lockCount - 1),
+    MAX_LOCK_SECONDS
+  );
+
+  const lockTransaction = redisClient.multi();
+  lockTransaction.hset(lockoutKey, {
+    failedAttempts: 0,
+    lockedUntil: Date.now() + lockSeconds * 1000,
+  });
+  lockTransaction.expire(
+    lockoutKey,
+    Math.max(TRACKING_TTL_SECONDS, lockSeconds)
+  );
+
+  /* ----------------------------------
+   * 2️⃣ Create unlock session (Redis)
+   * ---------------------------------- */
+  const sessionId = uuidv4();
+  const otp = generateOtp();
+
+  const session: RedisAuthSession = {
+    type: SessionType.ACCOUNT_UNLOCK,
+
+    email: user.email,
+    userId,
+
+    channel: OtpChannel.EMAIL,
+    otpHash: hashOtp(otp),
+    otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
+    otpAttempts: 0,
+
+    used: false,
+    verified: false,
+
+    createdAt: Date.now(),
+  };
+
+  lockTransaction.setex(
+    getSessionKey(sessionId),
+    appConfig.OTP.EXPIRES_IN_SECONDS,
+    JSON.stringify(session)
+  );
+
+  await lockTransaction.exec();
+
+  /* ----------------------------------
+   * 3️⃣ Log & email unlock OTP / link
+   * ---------------------------------- */
+  logger.warn(
+    { event: "auth.account_locked", userId, lockCount, lockSeconds },
+    "Account locked after repeated failed signins"
+  );
+
+  await recordAuditEvent(
+    {
+      type: AuditEventType.ACCOUNT_LOCKED,
+      userId,
+      metadata: { lockCount, lockSeconds },
+    },
+    client
+  );
+
+  sendAccountLockedEmail({
+    email: user.email,
+    otp,
+    sessionId,
+    lockedFor: formatRemainingTime(lockSeconds * 1000),
+    otpExpiryMinutes: appConfig.OTP.EXPIRES_IN_SECONDS / 60,
+  });
+
+  return lockSeconds * 1000;
+};
+
+/**
+ * Forgets failed attempts & lock level (successful signin or unlock)
+ */
+export const clearFailedSignins = async (userId: string): Promise<void> => {
+  await getRedisClient().del(getAccountLockoutKey(userId));
+};
+
+/* ----------------------------------
+ * RE-AUTHENTICATION
+ * ---------------------------------- */
+
+/**
+ * Confirms it's the account owner before a sensitive change: the current
+ * password when set (failures count towards the lockout), otherwise a
+ * recent signin on this session (passwordless accounts).
+ * `user` must be loaded with `+password`.
+ */
+export const assertReauthenticated = async (
+  user: IUser,
+  input: { sessionId: string; password?: string | undefined },
+  action: string, // e.g. "deleting your account"
+  client: ClientMeta = {}
+): Promise<void> => {
+  const userId = String(user._id);
+
+  if (user.password) {
+    await assertAccountNotLocked(userId);
+
+    if (!input.password) throw new AppError("Password is required.", 401);
+
+    if (!(await verifyPassword(input.password, user.password))) {
+      const lockedForMs = await registerFailedSignin(user, client);
+
+      // The attempt that triggers a lock reports it straight away
+      if (lockedForMs) await assertAccountNotLocked(userId);
+
+      throw new AppError("Invalid password.", 401);
+    }
+
+    await clearFailedSignins(userId);
+    return;
+  }
+
+  const sessionData = await getRedisClient().get(
+    getSessionKey(input.sessionId)
+  );
+  const session: RedisAuthSession | null = sessionData
+    ? JSON.parse(sessionData)
+    : null;
+
+  if (
+    !session?.authenticatedAt ||
+    Date.now() - session.authenticatedAt >
+      appConfig.REAUTH.MAX_AGE_SECONDS * 1000
+  ) {
+    throw new AppError(
+      `Please sign in again to confirm it's you before ${action}.`,
+      401 // Unauthorized
+    );
+  }
+};
+
+/* ----------------------------------
+ * SUSPICIOUS SIGNIN
+ * ---------------------------------- */
+
+const RISK_REASON_LABELS: Record<SigninRiskReason, string> = {
+  [SigninRiskReason.NEW_DEVICE]: "A device we haven't seen before",
+  [SigninRiskReason.NEW_COUNTRY]: "A country you haven't signed in from",
+  [SigninRiskReason.IMPOSSIBLE_TRAVEL]:
+    "A location too far from your last sign-in to have travelled there",
+};
+
+/**
+ * Compares the signin against the account's history.
+ * Accounts without history (first signin) are never flagged.
+ */
+export const assessSigninRisk = async (
+  user: IUser,
+  client: ClientMeta
+): Promise<SigninRiskReason[]> => {
+  const { ENABLED, MAX_TRAVEL_SPEED_KMH, MIN_TRAVEL_DISTANCE_KM } =
+    appConfig.SUSPICIOUS_SIGNIN;
+
+  if (!ENABLED) return [];
+
+  const history = await UserModel.findById(user._id)
+    .select("+knownDevices +knownCountries +lastSignin")
+    .lean();
+
+  const reasons: SigninRiskReason[] = [];
+
+  // New device
+  const fingerprint = getDeviceFingerprint(client);
+  const knownDevices = history?.knownDevices || [];
+
+  if (
+    fingerprint &&
+    knownDevices.length &&
+    !isKnownDevice(knownDevices, fingerprint, client)
+  ) {
+    reasons.push(SigninRiskReason.NEW_DEVICE);
+  }
+
+  // New country
+  const knownCountries = history?.knownCountries || [];
+
+  if (
+    client.country &&
+    knownCountries.length &&
+    !knownCountries.includes(client.country)
+  ) {
+    reasons.push(SigninRiskReason.NEW_COUNTRY);
+  }
+
+  // Impossible travel (distance / time since last signin)
+  const last = history?.lastSignin;
+
+  if (
+    last?.latitude !== undefined &&
+    last.longitude !== undefined &&
+    client.latitude !== undefined &&
+    client.longitude !== undefined
+  ) {
+    const distanceKm = getDistanceKm(
+      { latitude: last.latitude, longitude: last.longitude },
+      { latitude: client.latitude, longitude: client.longitude }
+    );
+    const elapsedHours = Math.max(
+      (Date.now() - new Date(last.at).getTime()) / (60 * 60 * 1000),
+      1 / 60
+    );
+
+    if (
+      distanceKm >= MIN_TRAVEL_DISTANCE_KM &&
+      distanceKm / elapsedHours > MAX_TRAVEL_SPEED_KMH
+    ) {
+      reasons.push(SigninRiskReason.IMPOSSIBLE_TRAVEL);
+    }
+  }
+
+  return reasons;
+};
+
+/**
+ * Sends a step-up OTP for a suspicious signin over the session's channel.
+ * The OTP proves access to a verified email / phone before tokens are issued.
+ */
+export const sendSigninStepUpOtp = (
+  session: RedisAuthSession,
+  otp: string
+): void => {
+  if (session.channel === OtpChannel.SMS) {
+    if (!session.dialCode || !session.phoneNumber) return;
+
+    sendSigninStepUpSms({
+      dialCode: session.dialCode,
+      phoneNumber: session.phoneNumber,
+      otp,
+      otpExpiryMinutes: appConfig.OTP.EXPIRES_IN_SECONDS / 60,
+    });
+    return;
+  }
+
+  if (!session.email) return;
+
+  sendSigninStepUpEmail({
+    email: session.email,
+    otp,
+    reasons: (session.riskReasons || []).map(
+      (reason) => RISK_REASON_LABELS[reason]
+    ),
+    device: session.device,
+    location: session.location,
+    otpExpiryMinutes: appConfig.OTP.EXPIRES_IN_SECONDS / 60,
+  });
+};
+
+/**
+ * Creates an OTP step-up session instead of issuing tokens.
+ * The code only goes to a verified channel (email first, then phone):
+ * accounts with neither are refused.
+ */
+export const createSigninStepUpChallenge = async (
+  user: IUser,
+  method: SigninMethod,
+  reasons: SigninRiskReason[],
+  client: ClientMeta = {}
+): Promise<SigninStepUpChallenge> => {
+  const channel = user.emailIsVerified
+    ? OtpChannel.EMAIL
+    : appConfig.AUTH_FEATURES.ENABLE_SMS_OTP &&
+      user.phoneIsVerified &&
+      user.dialCode &&
+      user.phoneNumber
+    ? OtpChannel.SMS
+    : undefined;
+
+  if (!channel) {
+    throw new AppError(
+      "We couldn't confirm this sign-in because your account has no verified email address or phone number. Please contact support.",
+      403 // Forbidden
+    );
+  }
+
+  const sessionToken = uuidv4();
+  const otp = generateOtp();
+  const ttlSeconds = appConfig.OTP.EXPIRES_IN_SECONDS;
+
+  const session: RedisAuthSession = {
+    type: SessionType.SIGNIN_STEP_UP,
+    method,
+
+    userId: String(user._id),
+    ...(channel === OtpChannel.EMAIL
+      ? { email: user.email }
+      : { dialCode: user.dialCode, phoneNumber: user.phoneNumber }),
+
+    riskReasons: reasons,
+    device: client.device,
+    ip: client.ip,
+    location: client.location,
+
+    channel,
+    otpHash: hashOtp(otp),
+    otpExpiresAt: Date.now() + ttlSeconds * 1000,
+    otpAttempts: 0,
+    otpResendCount: 0,
+
+    verified: false,
+    used: false,
+
+    createdAt: Date.now(),
+  };
+
+  await getRedisClient().setex(
+    getSessionKey(sessionToken),
+    ttlSeconds,
+    JSON.stringify(session)
+  );
+
+  logger.warn(
+    {
+      event: "auth.signin_step_up",
+      userId: session.userId,
+      reasons,
+      channel,
+      ip: client.ip,
+      location: client.location,
+    },
+    "Suspicious signin requires OTP verification"
+  );
+
+  await recordAuditEvent(
+    {
+      type: AuditEventType.SIGNIN_STEP_UP,
+      userId: String(user._id),
+      metadata: { method, reasons, channel, location: client.location },
+    },
+    client
+  );
+
+  sendSigninStepUpOtp(session, otp);
+
+  return {
+    stepUpRequired: true,
+    sessionToken,
+    reasons,
+    channel,
+    expiresInSeconds: ttlSeconds,
+  };
+};
+
+/* ----------------------------------
+ * SESSION ISSUANCE
+ * ---------------------------------- */
+
+/**
+ * Creates a signin session (Redis) for the user and issues the token pair.
+ * Every signin flow (password, social, ...) must go through here so that
+ * sessions and tokens stay identical across providers.
+ */
+export const createSigninSession = async (
+  user: IUser,
+  method: SigninMethod,
+  client: ClientMeta = {}
+): Promise<{ sessionId: string; tokens: AuthTokens }> => {
+  const userId = String(user._id);
+
+  /* ----------------------------------
+   * 1️⃣ Create auth session (Redis)
+   * ---------------------------------- */
+  const sessionId = uuidv4();
+  const familyId = uuidv4();
+
+  const session: RedisAuthSession = {
+    type: SessionType.SIGNIN,
+    method,
+    familyId,
+
+    email: user.email,
+    username: user.username,
+    phoneNumber: user.phoneNumber,
+    userId,
+
+    roles: [user.accountType || AccountType.USER],
+
+    device: client.device,
+    userAgent: client.userAgent,
+    ip: client.ip,
+    location: client.location,
+
+    verified: true,
+    used: false,
+
+    lastActivityAt: Date.now(),
+    authenticatedAt: Date.now(),
+    createdAt: Date.now(),
+  };
+
+  const redisTransaction = getRedisClient().multi();
+
+  // Store Refresh session
+  redisTransaction.setex(
+    getSessionKey(sessionId),
+    appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS,
+    JSON.stringify(session)
+  );
+
+  // Track session in user's sessions set
+  redisTransaction.sadd(getUserSessionsKey(userId), sessionId);
+  redisTransaction.expire(
+    getUserSessionsKey(userId),
+    appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS
+  );
+
+  // Start a new refresh token family
+  redisTransaction.setex(
+    getSessionFamilyKey(familyId),
+    appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS,
+    sessionId
+  );
+
+  await redisTransaction.exec();
+
+  await recordSigninDevice(user, client);
+  await recordSigninLocation(user, client);
+
+  await recordAuditEvent(
+    {
+      type: AuditEventType.SIGNIN_SUCCEEDED,
+      userId,
+      metadata: { method, sessionId, location: client.location },
+    },
+    client
+  );
+
+  /* ----------------------------------
+   * 2️⃣ Issue access & refresh tokens
+   * ---------------------------------- */
+  const accessToken = generateAccessToken({
+    sub: userId,
+    sessionId,
+    type: "ACCESS",
+  });
+
+  const refreshToken = generateRefreshToken({
+    sub: userId,
+    sessionId,
+    type: "REFRESH",
+  });
+
+  return { sessionId, tokens: { accessToken, refreshToken } };
+};
+
+/* ----------------------------------
+ * TWO-FACTOR CHALLENGE
+ * ---------------------------------- */
+
+/**
+ * Creates a short-lived second-step session (Redis).
+ * The signin method is kept so the final session reflects how the user signed in.
+ */
+export const createTwoFactorChallenge = async (
+  user: IUser,
+  method: SigninMethod
+): Promise<TwoFactorChallenge> => {
+  const sessionToken = uuidv4();
+  const ttlSeconds = appConfig.TWO_FACTOR.CHALLENGE_TTL_SECONDS;
+
+  const session: RedisAuthSession = {
+    type: SessionType.SIGNIN_2FA,
+    method,
+
+    email: user.email,
+    userId: String(user._id),
+
+    otpExpiresAt: Date.now() + ttlSeconds * 1000,
+    otpAttempts: 0,
+
+    verified: false,
+    used: false,
+
+    createdAt: Date.now(),
+  };
+
+  await getRedisClient().setex(
+    getSessionKey(sessionToken),
+    ttlSeconds,
+    JSON.stringify(session)
+  );
+
+  return {
+    twoFactorRequired: true,
+    sessionToken,
+    expiresInSeconds: ttlSeconds,
+  };
+};
+
+/**
+ * Final step of every first-factor signin:
+ * issues tokens, or a 2FA challenge when the account has 2FA enabled
+ */
+export const completeSignin = async (
+  user: IUser,
+  method: SigninMethod,
+  client: ClientMeta = {}
+): Promise<SigninResult> => {
+  const twoFactorEnabled = await UserModel.exists({
+    _id: user._id,
+    "twoFactor.enabled": true,
+  });
+
+  if (twoFactorEnabled) return createTwoFactorChallenge(user, method);
+
+  const { tokens } = await createSigninSession(user, method, client);
+
+  return { user, tokens };
+};
+
+/* ----------------------------------
+ * REFRESH TOKEN REUSE DETECTION
+ * ---------------------------------- */
+
+/**
+ * Called when a refresh token's session no longer exists.
+ * If the token was already rotated, it is being replayed: the whole family
+ * (its current live session) is revoked, the event is logged and the user
+ * is alerted by email, once per rotated token. Returns silently for plainly
+ * expired sessions (and replays already handled).
+ */
+export const detectRefreshTokenReuse = async (
+  sessionId: string,
+  client: ClientMeta = {}
+): Promise<void> => {
+  const redisClient = getRedisClient();
+
+  // Consumed atomically: a replayed token revokes & alerts once, not per replay
+  const rotatedKey = getRotatedSessionKey(sessionId);
+  const [[, rotatedData] = []] =
+    (await redisClient.multi().get(rotatedKey).del(rotatedKey).exec()) || [];
+
+  if (!rotatedData) return;
+
+  const rotated: RedisRotatedToken = JSON.parse(rotatedData as string);
+  const familyKey = getSessionFamilyKey(rotated.familyId);
+
+  /* ----------------------------------
+   * 1️⃣ Revoke the family's live session
+   * ---------------------------------- */
+  const currentSessionId = await redisClient.get(familyKey);
+
+  const redisTransaction = redisClient.multi();
+
+  if (currentSessionId) {
+    redisTransaction.del(getSessionKey(currentSessionId));
+    redisTransaction.srem(getUserSessionsKey(rotated.userId), currentSessionId);
+  }
+
+  redisTransaction.del(familyKey);
+
+  await redisTransaction.exec();
+
+  /* ----------------------------------
+   * 2️⃣ Log security event & alert user
+   * ---------------------------------- */
+  logger.warn(
+    {
+      event: "auth.refresh_token_reuse",
+      userId: rotated.userId,
+      familyId: rotated.familyId,
+      reusedSessionId: sessionId,
+      revokedSessionId: currentSessionId,
+      ip: client.ip,
+      userAgent: client.userAgent,
+    },
+    "Refresh token reuse detected, token family revoked"
+  );
+
+  await recordAuditEvent(
+    {
+      type: AuditEventType.REFRESH_TOKEN_REUSE,
+      userId: rotated.userId,
+      metadata: {
+        familyId: rotated.familyId,
+        reusedSessionId: sessionId,
+        revokedSessionId: currentSessionId,
+      },
+    },
+    client
+  );
+
+  const user = await UserModel.findById(rotated.userId);
+
+  if (user) {
+    await sendRefreshTokenReuseEmail({
+      email: user.email,
+      device: client.device,
+      ip: client.ip,
+      location: client.location,
+      time: new Date().toUTCString(),
+    });
+  }
+
+  throw new AppError(
+    "This session is no longer valid. Please sign in again.",
+    401 // Unauthorized
+  );
+};
@@ -8,11 +8,15 @@
  * - Central place to register Auth REST routes
  */
 
+import { authenticateSession } from "@middlewares/auth.middleware";
+import { csrfProtection } from "@middlewares/csrf.middleware";
 import {
   otpVerificationRateLimiter,
   passwordResetRateLimiter,
   signinRateLimiter,
   signupRateLimiter,
+  smsOtpRateLimiter,
+  usernameAvailabilityRateLimiter,
 } from "@middlewares/rateLimit.middleware";
 import { validatorMiddleware } from "@middlewares/validator.middleware";
 import { Router } from "express";
@@ -46,6 +50,15 @@ router.post(
   AuthController.signupVerifyOtpController
 );
 
+/**
+ * Username availability (public)
+ */
+router.get(
+  "/username/availability",
+  usernameAvailabilityRateLimiter,
+  AuthController.usernameAvailabilityController
+);
+
 /**
  * Signin & Refresh token
  */
@@ -55,9 +68,46 @@ router.post(
   signinRateLimiter,
   AuthController.signinController
 );
-router.post("/token/refresh", AuthController.refreshAccessTokenController);
+router.post(
+  "/signin/step-up/verify",
+  signinRateLimiter,
+  otpVerificationRateLimiter,
+  AuthController.verifySigninStepUpController
+);
+router.post(
+  "/signin/step-up/resend",
+  passwordResetRateLimiter,
+  AuthController.resendSigninStepUpController
+);
+router.post(
+  "/signin/magic-link",
+  passwordResetRateLimiter,
+  AuthController.requestMagicLinkController
+);
+router.post(
+  "/signin/magic-link/verify",
+  signinRateLimiter,
+  otpVerificationRateLimiter,
+  AuthController.verifyMagicLinkController
+);
+router.post(
+  "/signin/magic-link/resend",
+  passwordResetRateLimiter,
+  AuthController.resendMagicLinkController
+);
+router.post(
+  "/unlock",
+  otpVerificationRateLimiter,
+  AuthController.unlockAccountController
+);
+router.post(
+  "/token/refresh",
+  csrfProtection,
+  AuthController.refreshAccessTokenController
+);
 router.post(
   "/token/refresh/rotate",
+  csrfProtection,
   AuthController.rotateRefreshTokenController
 );
 
@@ -84,7 +134,78 @@ router.post(
   AuthController.resetPasswordController
 );
 
-// router.post("/logout", authenticate, AuthController.logoutController);
-// router.post("/logout/all", authenticate, AuthController.logoutAllController);
+/**
+ * Phone verification (SMS)
+ */
+router.post(
+  "/phone/verify",
+  authenticateSession,
+  smsOtpRateLimiter,
+  AuthController.requestPhoneVerificationController
+);
+router.post(
+  "/phone/verify/resend",
+  authenticateSession,
+  smsOtpRateLimiter,
+  AuthController.resendPhoneVerificationController
+);
+router.post(
+  "/phone/verify/confirm",
+  authenticateSession,
+  otpVerificationRateLimiter,
+  AuthController.confirmPhoneVerificationController
+);
+
+/**
+ * Change password & email (authenticated)
+ */
+router.post(
+  "/password/change",
+  authenticateSession,
+  passwordResetRateLimiter,
+  AuthController.changePasswordController
+);
+router.post(
+  "/email/change",
+  authenticateSession,
+  passwordResetRateLimiter,
+  AuthController.requestEmailChangeController
+);
+router.post(
+  "/email/change/resend",
+  authenticateSession,
+  passwordResetRateLimiter,
+  AuthController.resendEmailChangeController
+);
+router.post(
+  "/email/change/confirm",
+  authenticateSession,
+  otpVerificationRateLimiter,
+  AuthController.confirmEmailChangeController
+);
+
+/**
+ * Notification preferences
+ */
+router.get(
+  "/preferences/notifications",
+  authenticateSession,
+  AuthController.getNotificationPreferencesController
+);
+router.patch(
+  "/preferences/notifications",
+  authenticateSession,
+  AuthController.updateNotificationPreferencesController
+);
+
+/**
+ * Logout
+ */
+router.post("/logout", authenticateSession, AuthController.logoutController);
+router.post(
+  "/logout/all",
+  authenticateSession,
+  AuthController.logoutAllController
+);
 
 export default router;
@@ -7,9 +7,11 @@
  * Core business logic for authentication
  * - Signup
  * - OTP verification
- * - Signin
+ * - Signin (lockout & suspicious-signin step-up)
+ * - Magic-link signin (passwordless email link + OTP)
  * - Token refresh
  * - Forgot / Reset password
+ * - Change password / email (authenticated)
  * - Logout (single & all devices)
  */
 
@@ -18,16 +20,30 @@ import { v4 as uuidv4 } from "uuid";
 import { generateOtp, hashOtp, verifyOtp } from "@utils/otp.util";
 
 import { hashPassword, verifyPassword } from "@utils/password.util";
+import { toE164 } from "@utils/phone.util";
 
 import { appConfig } from "@config/app.config";
 import {
   AccountStatus,
+  AccountType,
+  AuditEventType,
   AuthProvider,
+  OtpChannel,
   SessionType,
+  SigninMethod,
+  UsernameUnavailableReason,
 } from "@constants/enum.constants";
+import { USERNAME_REGEX } from "@constants/regex.constants";
+import { isReservedUsername } from "@constants/username.constants";
 import { getRedisClient } from "@core/redis";
-import { IUser, UserModel } from "@models/User.model";
+import {
+  IUser,
+  IUserNotificationPreferences,
+  UserModel,
+} from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
 import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
 import {
   cleanObject,
   formatRemainingTime,
@@ -36,37 +52,93 @@ import {
 import {
   generateAccessToken,
   generateRefreshToken,
+  verifyAccessToken,
   verifyRefreshToken,
 } from "@utils/token.util";
 import {
+  sendChangeEmailVerificationEmail,
+  sendEmailChangedEmail,
+  sendEmailChangeRequestedEmail,
   sendForgotPasswordEmail,
+  sendLogoutNotificationEmail,
+  sendMagicLinkSigninEmail,
   sendResendVerificationEmail,
   sendResetPasswordSuccessEmail,
   sendSignupVerificationEmail,
   sendVerificationConfirmedEmail,
 } from "helpers/email";
 import {
-  AuthTokens,
+  sendForgotPasswordSms,
+  sendPhoneVerificationSms,
+  sendSignupVerificationSms,
+} from "helpers/sms";
+import {
+  assertAccountCanSignin,
+  assertAccountNotLocked,
+  assertReauthenticated,
+  assessSigninRisk,
+  clearFailedSignins,
+  completeSignin,
+  createSigninStepUpChallenge,
+  detectRefreshTokenReuse,
+  enforceOtpResendLimit,
+  getAccountLockoutKey,
+  getCurrentRoles,
+  getIdentifierFilter,
+  getMagicLinkKey,
+  getRotatedSessionKey,
+  getSessionFamilyKey,
+  getSessionKey,
+  getUserAccountKey,
+  getUserForgotKey,
+  getUserSessionsKey,
+  isSessionInactive,
+  normalizeIdentifier,
+  registerFailedSignin,
+  registerOtpAttempt,
+  revokeUserSessions,
+  sendSigninStepUpOtp,
+} from "./auth.helpers";
+import {
+  AccountUnlockInput,
+  AuthContext,
+  ChangeEmailConfirmInput,
+  ChangeEmailRequestInput,
+  ChangeEmailResendInput,
+  ChangePasswordInput,
   ForgotPasswordInput,
   LogoutAllInput,
   LogoutInput,
+  MagicLinkRequestInput,
+  MagicLinkResendInput,
+  MagicLinkVerifyInput,
+  NotificationPreferencesInput,
+  PhoneVerificationConfirmInput,
+  PhoneVerificationRequestInput,
+  PhoneVerificationResendInput,
   RedisAuthSession,
+  RedisRotatedToken,
   ResetPasswordInput,
   SigninInput,
+  SigninResult,
+  SigninStepUpResendInput,
+  SigninStepUpVerifyInput,
   SignupInput,
+  SignupOptions,
   SignupResendVerificationInput,
+  SignupResult,
   SignupValidateSessionInput,
   SignupVerifyOtpInput,
+  UsernameAvailabilityInput,
+  UsernameAvailabilityResult,
 } from "./auth.types";
 
 /* ----------------------------------
  * INTERNAL HELPERS
  * ---------------------------------- */
 
-const getSessionKey = (sessionId: string) => `auth:session:${sessionId}`;
-const getUserAccountKey = (userKey: string) => `auth:signup:${userKey}`;
-const getUserForgotKey = (userKey: string) => `auth:forgot:${userKey}`;
-const getUserSessionsKey = (userId: string) => `auth:user:${userId}:sessions`;
+// Minimum gap between two activity writes for the same session
+const ACTIVITY_TOUCH_INTERVAL_MS = 60 * 1000;
 
 /* ----------------------------------
  * AUTH SERVICE
@@ -75,18 +147,30 @@ const getUserSessionsKey = (userId: string) => `auth:user:${userId}:sessions`;
 export class AuthService {
   /**
    * SIGNUP SERVICE - Creates a user and initiates signup verification flow
+   * (skipped when the email is pre-verified, e.g. by an invitation link)
    */
   static async signupService(
-    input: SignupInput
-  ): Promise<{ sessionToken: string }> {
+    input: SignupInput,
+    options: SignupOptions = {},
+    client: ClientMeta = {}
+  ): Promise<SignupResult> {
+    const channel = input.verificationChannel || OtpChannel.EMAIL;
+
+    if (channel === OtpChannel.SMS && !appConfig.AUTH_FEATURES.ENABLE_SMS_OTP) {
+      throw new AppError("SMS verification is not available right now.", 400);
+    }
+
     /* =====================================================
      * 1️⃣ Ensure account does not already exist
      * ===================================================== */
     const orConditions: any[] = [{ email: input.email }];
 
     if (input.username) orConditions.push({ username: input.username });
-    if (input.phoneNumber)
-      orConditions.push({ phoneNumber: input.phoneNumber });
+    if (input.dialCode && input.phoneNumber) {
+      orConditions.push({
+        phoneE164: toE164(input.dialCode, input.phoneNumber),
+      });
+    }
 
     const existingUser = await UserModel.findOne({
       $or: orConditions,
@@ -120,10 +204,26 @@ export class AuthService {
       bio: input.bio,
 
       password: passwordHash,
+
+      ...(options.emailVerified && { emailIsVerified: true }),
     });
 
     const user = await UserModel.create(payload);
 
+    // Pre-verified email: no OTP session, the account is ready to sign in
+    if (options.emailVerified) {
+      await recordAuditEvent(
+        {
+          type: AuditEventType.SIGNUP_COMPLETED,
+          userId: String(user._id),
+          metadata: { channel: OtpChannel.EMAIL, preVerified: true },
+        },
+        client
+      );
+
+      return { user };
+    }
+
     const sessionId = uuidv4();
     const otp = generateOtp();
     const otpHash = hashOtp(otp);
@@ -134,7 +234,12 @@ export class AuthService {
     const redisTransaction = getRedisClient()?.multi();
 
     // Map identifiers → session for quick lookup
-    removeDuplicates([user.email, user.phoneNumber, user.username]).map((x) => {
+    removeDuplicates([
+      user.email,
+      user.phoneE164,
+      user.phoneNumber,
+      user.username,
+    ]).map((x) => {
       if (x) {
         redisTransaction.setex(
           getUserAccountKey(x),
@@ -151,10 +256,12 @@ export class AuthService {
       type: SessionType.SIGNUP_VERIFY,
 
       email: user.email,
+      dialCode: user.dialCode,
       phoneNumber: user.phoneNumber,
       username: user.username,
       userId: user._id,
 
+      channel,
       otp,
       otpHash,
       otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
@@ -176,9 +283,15 @@ export class AuthService {
     await redisTransaction.exec();
 
     /* =====================================================
-     * 6️⃣ Dispatch verification OTP
+     * 6️⃣ Dispatch verification OTP (email or SMS)
      * ===================================================== */
-    if (user.email) {
+    if (channel === OtpChannel.SMS && user.dialCode && user.phoneNumber) {
+      sendSignupVerificationSms({
+        dialCode: user.dialCode,
+        phoneNumber: user.phoneNumber,
+        otp,
+      });
+    } else if (user.email) {
       sendSignupVerificationEmail({
         email: user.email,
         otp,
@@ -186,7 +299,44 @@ export class AuthService {
       });
     }
 
-    return { sessionToken: sessionId };
+    return { user, sessionToken: sessionId };
+  }
+
+  /**
+   * USERNAME AVAILABILITY SERVICE - Reports whether a username can be claimed
+   */
+  static async checkUsernameAvailabilityService(
+    input: UsernameAvailabilityInput
+  ): Promise<UsernameAvailabilityResult> {
+    const username = input.username.trim().toLowerCase();
+
+    /* =====================================================
+     * 1️⃣ Format & reserved names (no database lookup)
+     * ===================================================== */
+    if (!USERNAME_REGEX.test(username)) {
+      return {
+        username,
+        available: false,
+        reason: UsernameUnavailableReason.INVALID,
+      };
+    }
+
+    if (isReservedUsername(username)) {
+      return {
+        username,
+        available: false,
+        reason: UsernameUnavailableReason.RESERVED,
+      };
+    }
+
+    /* =====================================================
+     * 2️⃣ Existing accounts (unverified & deleted included)
+     * ===================================================== */
+    const isTaken = await UserModel.exists({ username });
+
+    return isTaken
+      ? { username, available: false, reason: UsernameUnavailableReason.TAKEN }
+      : { username, available: true };
   }
 
   /**
@@ -267,7 +417,9 @@ export class AuthService {
      * 2️⃣ Resolve session via identifier (email / username / phone)
      * ===================================================== */
     if (!session && input.identifier) {
-      const redisUserKey = getUserAccountKey(input.identifier);
+      const redisUserKey = getUserAccountKey(
+        normalizeIdentifier(input.identifier).value
+      );
       const storedSessionId = await redisClient.get(redisUserKey);
 
       if (storedSessionId) {
@@ -333,11 +485,7 @@ export class AuthService {
       }
 
       user = await UserModel.findOne({
-        $or: [
-          { email: input.identifier.toLowerCase() },
-          { username: input.identifier },
-          { phoneNumber: input.identifier },
-        ],
+        ...getIdentifierFilter(input.identifier),
       })
         .select("+status +statusMeta")
         .lean();
@@ -356,7 +504,7 @@ export class AuthService {
         );
       }
 
-      if (user.emailIsVerified) {
+      if (user.emailIsVerified || user.phoneIsVerified) {
         throw new AppError(
           "This account is already verified.",
           409 // Conflict
@@ -374,7 +522,7 @@ export class AuthService {
 
     // Map identifiers → session for quick lookup
     removeDuplicates([
-      input.identifier,
+      input.identifier && normalizeIdentifier(input.identifier).value,
       session?.email,
       user?.email,
       session?.phoneNumber,
@@ -398,10 +546,12 @@ export class AuthService {
       type: session?.type || SessionType.SIGNUP_VERIFY,
 
       email: session?.email || user?.email,
+      dialCode: session?.dialCode || user?.dialCode,
       phoneNumber: session?.phoneNumber || user?.phoneNumber,
       username: session?.username || user?.username,
       userId: session?.userId || user?._id,
 
+      channel: session?.channel || OtpChannel.EMAIL,
       otp,
       otpHash,
       otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
@@ -426,9 +576,19 @@ export class AuthService {
     await redisTransaction.exec();
 
     /* =====================================================
-     * 7️⃣ Dispatch verification OTP
+     * 7️⃣ Dispatch verification OTP (same channel as signup)
      * ===================================================== */
-    if (updatedSession.email) {
+    if (
+      updatedSession.channel === OtpChannel.SMS &&
+      updatedSession.dialCode &&
+      updatedSession.phoneNumber
+    ) {
+      sendSignupVerificationSms({
+        dialCode: updatedSession.dialCode,
+        phoneNumber: updatedSession.phoneNumber,
+        otp,
+      });
+    } else if (updatedSession.email) {
       sendResendVerificationEmail({
         email: updatedSession.email,
         otp,
@@ -442,7 +602,10 @@ export class AuthService {
   /**
    * SIGNUP OTP VERIFICATION SERVICE - Verifies OTP and activates user email
    */
-  static async signupVerifyOtpService(input: SignupVerifyOtpInput) {
+  static async signupVerifyOtpService(
+    input: SignupVerifyOtpInput,
+    client: ClientMeta = {}
+  ) {
     const redisClient = getRedisClient();
 
     /* =====================================================
@@ -503,11 +666,14 @@ export class AuthService {
     if (!isValidOtp) throw new AppError("Invalid verification code.", 400);
 
     /* =====================================================
-     * 5️⃣ Mark user email as verified
+     * 5️⃣ Mark the verified channel (email or phone)
      * ===================================================== */
+    const verifiedField =
+      session.channel === OtpChannel.SMS ? "phoneIsVerified" : "emailIsVerified";
+
     const updatedUser = await UserModel.findByIdAndUpdate(
       session.userId,
-      { $set: { emailIsVerified: true } },
+      { $set: { [verifiedField]: true } },
       { new: true }
     ).lean();
 
@@ -537,10 +703,19 @@ export class AuthService {
 
     await redisTransaction.exec();
 
+    await recordAuditEvent(
+      {
+        type: AuditEventType.SIGNUP_COMPLETED,
+        userId: String(updatedUser._id),
+        metadata: { channel: session.channel },
+      },
+      client
+    );
+
     /* =====================================================
      * 7️⃣ Send verification confirmation notification
      * ===================================================== */
-    if (updatedUser?.email) {
+    if (updatedUser?.email && session.channel !== OtpChannel.SMS) {
       sendVerificationConfirmedEmail(updatedUser.email);
     }
 
@@ -551,18 +726,15 @@ export class AuthService {
    * SIGNIN SERVICE - Authenticates user and issues access & refresh tokens
    */
   static async signinService(
-    input: SigninInput
-  ): Promise<{ user: IUser; tokens: AuthTokens }> {
+    input: SigninInput,
+    client: ClientMeta = {}
+  ): Promise<SigninResult> {
     /* =====================================================
      * 1️⃣ Resolve user by identifier (email / username / phone)
      * ===================================================== */
     const user = await UserModel.findOne({
-      $or: [
-        { email: input.identifier.toLowerCase() },
-        { username: input.identifier },
-        { phoneNumber: input.identifier },
-      ],
-    }).select("+password +provider +status +statusMeta");
+      ...getIdentifierFilter(input.identifier),
+    }).select("+password +provider +accountType +status +statusMeta");
 
     if (!user) throw new AppError("Invalid credentials.", 401);
 
@@ -577,311 +749,822 @@ export class AuthService {
     }
 
     /* =====================================================
-     * 3️⃣ Enforce account verification & status
+     * 3️⃣ Enforce per-account lockout
      * ===================================================== */
-    if (!user.emailIsVerified) {
-      throw new AppError(
-        "Please verify your email address before signing in.",
-        403 // Forbidden
-      );
-    }
+    const userId = String(user._id);
 
-    if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
-      throw new AppError(
-        "Your account is not active. Please contact support.",
-        403 // Forbidden
-      );
-    }
+    await assertAccountNotLocked(userId);
 
     /* =====================================================
-     * 4️⃣ Validate user password
+     * 4️⃣ Validate user password (failures count towards a lock)
      * ===================================================== */
     const isValidPassword = await verifyPassword(
       input.password,
       user.password!
     );
 
-    if (!isValidPassword) throw new AppError("Invalid credentials.", 401);
-
-    /* ----------------------------------
-     * 3️⃣ Create auth session (Redis)
-     * ---------------------------------- */
-    const sessionId = uuidv4();
-
-    const session: RedisAuthSession = {
-      type: SessionType.SIGNIN,
-
-      email: user.email,
-      username: user.username,
-      phoneNumber: user.phoneNumber,
-      userId: user.id,
-
-      verified: true,
-      used: false,
-
-      lastActivityAt: Date.now(),
-      createdAt: Date.now(),
-    };
-
-    const redisTransaction = getRedisClient().multi();
+    if (!isValidPassword) {
+      const lockedForMs = await registerFailedSignin(user, client);
 
-    // Store Refresh session
-    redisTransaction.setex(
-      getSessionKey(sessionId),
-      appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS,
-      JSON.stringify(session)
-    );
+      // The attempt that triggers a lock reports it straight away
+      if (lockedForMs) await assertAccountNotLocked(userId);
 
-    // Track session in user's sessions set
-    redisTransaction.sadd(getUserSessionsKey(user.id), sessionId);
-    redisTransaction.expire(
-      getUserSessionsKey(user.id),
-      appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS
-    );
+      throw new AppError("Invalid credentials.", 401);
+    }
 
-    await redisTransaction.exec();
+    await clearFailedSignins(userId);
 
     /* =====================================================
-     * 6️⃣ Issue access & refresh tokens
+     * 5️⃣ Enforce account verification & status
      * ===================================================== */
-    const accessToken = generateAccessToken({
-      sub: user.id,
-      sessionId,
-      type: "ACCESS",
-    });
-
-    const refreshToken = generateRefreshToken({
-      sub: user.id,
-      sessionId,
-      type: "REFRESH",
-    });
-
-    return { user, tokens: { accessToken, refreshToken } };
-  }
+    // Only once the password is valid, so account state never leaks
+    assertAccountCanSignin(user);
 
-  /**
-   * REFRESH ACCESS TOKEN SERVICE - Issues a new access token using a valid refresh token
-   */
-  static async refreshAccessTokenService(
-    refreshToken: string
-  ): Promise<{ newAccessToken: string }> {
     /* =====================================================
-     * 1️⃣ Validate refresh token and extract payload
+     * 6️⃣ Suspicious signin → OTP step-up before tokens
      * ===================================================== */
-    const payload = verifyRefreshToken(refreshToken);
-
-    if (payload.type !== "REFRESH") {
-      throw new AppError("Invalid refresh token.", 401);
+    const riskReasons = await assessSigninRisk(user, client);
+
+    if (riskReasons.length) {
+      return createSigninStepUpChallenge(
+        user,
+        SigninMethod.PASSWORD,
+        riskReasons,
+        client
+      );
     }
 
     /* =====================================================
-     * 2️⃣ Resolve authentication session from Redis
+     * 7️⃣ Issue tokens, or a 2FA challenge when enabled
      * ===================================================== */
+    return completeSignin(user, SigninMethod.PASSWORD, client);
+  }
+
+  /**
+   * SIGNIN STEP-UP VERIFY SERVICE - Completes a suspicious signin with the OTP
+   */
+  static async verifySigninStepUpService(
+    input: SigninStepUpVerifyInput,
+    client: ClientMeta = {}
+  ): Promise<SigninResult> {
     const redisClient = getRedisClient();
-    const redisKey = getSessionKey(payload.sessionId);
 
+    /* =====================================================
+     * 1️⃣ Resolve step-up session from Redis
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
     const sessionData = await redisClient.get(redisKey);
 
     if (!sessionData) {
       throw new AppError(
-        "Session has expired. Please sign in again.",
-        401 // Unauthorized
+        "Sign-in session has expired. Please sign in again.",
+        410 // Gone
       );
     }
 
     const session: RedisAuthSession = JSON.parse(sessionData);
 
-    /* =====================================================
-     * 3️⃣ Enforce inactivity-based logout (if enabled)
-     * ===================================================== */
-
-    if (
-      appConfig.AUTH_FEATURES.ENABLE_INACTIVITY_LOGOUT &&
-      session.lastActivityAt &&
-      Date.now() - session.lastActivityAt >
-        appConfig.AUTH_FEATURES.INACTIVITY_LOGOUT_DAYS * 24 * 60 * 60 * 1000
-    ) {
-      throw new AppError(
-        "Session expired due to inactivity. Please sign in again.",
-        401 // Unauthorized
-      );
+    if (session.type !== SessionType.SIGNIN_STEP_UP || !session.userId) {
+      throw new AppError("Invalid sign-in session.", 400);
     }
 
     /* =====================================================
-     * 4️⃣ Update session activity timestamp
+     * 2️⃣ Enforce expiry & attempt limits, then validate OTP
      * ===================================================== */
-    session.lastActivityAt = Date.now();
-
-    await redisClient.setex(
-      redisKey,
-      appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS,
-      JSON.stringify(session)
-    );
+    await registerOtpAttempt(redisKey, session);
 
-    /* =====================================================
-     * 5️⃣ Issue new access token
-     * ===================================================== */
-    const newAccessToken = generateAccessToken({
-      sub: payload.sub,
-      sessionId: payload.sessionId,
-      type: "ACCESS",
-    });
+    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
+    if (!isValidOtp) throw new AppError("Invalid verification code.", 400);
 
-    return { newAccessToken };
-  }
+    await redisClient.del(redisKey);
 
-  /**
-   * ROTATE REFRESH TOKEN SERVICE - Invalidates the old session and issues a new token pair
-   */
-  static async rotateRefreshTokenService(
-    refreshToken: string
-  ): Promise<{ newAccessToken: string; newRefreshToken: string }> {
     /* =====================================================
-     * 1️⃣ Validate refresh token and extract payload
+     * 3️⃣ Resolve user & enforce account status
      * ===================================================== */
-    const payload = verifyRefreshToken(refreshToken);
+    const user = await UserModel.findById(session.userId).select(
+      "+provider +accountType +status +statusMeta"
+    );
 
-    if (payload.type !== "REFRESH") {
+    if (!user) throw new AppError("User not found.", 404);
+
+    if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
       throw new AppError(
-        "Invalid refresh token.",
-        401 // Unauthorized
+        "Your account is not active. Please contact support.",
+        403 // Forbidden
       );
     }
 
     /* =====================================================
-     * 2️⃣ Resolve existing session from Redis
+     * 4️⃣ Issue tokens, or a 2FA challenge when enabled
      * ===================================================== */
+    return completeSignin(
+      user,
+      session.method || SigninMethod.PASSWORD,
+      client
+    );
+  }
+
+  /**
+   * SIGNIN STEP-UP RESEND SERVICE - Re-sends the step-up OTP
+   */
+  static async resendSigninStepUpService(
+    input: SigninStepUpResendInput
+  ): Promise<{
+    sessionToken: string;
+    channel: OtpChannel;
+    expiresInSeconds: number;
+  }> {
     const redisClient = getRedisClient();
-    const oldKey = getSessionKey(payload.sessionId);
 
-    const sessionData = await redisClient.get(oldKey);
+    /* =====================================================
+     * 1️⃣ Resolve & validate existing session
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await redisClient.get(redisKey);
 
     if (!sessionData) {
       throw new AppError(
-        "Session has expired. Please sign in again.",
-        401 // Unauthorized
+        "Sign-in session has expired. Please sign in again.",
+        410 // Gone
       );
     }
 
-    const oldSession: RedisAuthSession = JSON.parse(sessionData);
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (session.type !== SessionType.SIGNIN_STEP_UP || !session.userId) {
+      throw new AppError("Invalid sign-in session.", 400);
+    }
 
     /* =====================================================
-     * 3️⃣ Create a new authenticated session
+     * 2️⃣ Enforce resend limit & rotate session
      * ===================================================== */
+    enforceOtpResendLimit(session);
+
     const newSessionId = uuidv4();
+    const otp = generateOtp();
+    const ttlSeconds = appConfig.OTP.EXPIRES_IN_SECONDS;
 
-    const newSession: RedisAuthSession = {
-      ...oldSession,
-      createdAt: Date.now(),
-      lastActivityAt: Date.now(),
-    };
+    const updatedSession: RedisAuthSession = {
+      ...session,
 
-    const userId = oldSession.userId?.toString() || payload.sub;
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + ttlSeconds * 1000,
+    };
 
     const redisTransaction = redisClient.multi();
-
-    // Store new session
+    redisTransaction.del(redisKey);
     redisTransaction.setex(
       getSessionKey(newSessionId),
-      appConfig.TOKEN_EXPIRY.REFRESH,
-      JSON.stringify(newSession)
-    );
-
-    // Add new session to user's sessions set
-    redisTransaction.sadd(getUserSessionsKey(userId), newSessionId);
-    redisTransaction.expire(
-      getUserSessionsKey(userId),
-      appConfig.TOKEN_EXPIRY.REFRESH
+      ttlSeconds,
+      JSON.stringify(updatedSession)
     );
-
-    /* =====================================================
-     * 4️⃣ Invalidate previous session
-     * ===================================================== */
-    redisTransaction.del(oldKey);
-    redisTransaction.srem(getUserSessionsKey(userId), payload.sessionId);
-
     await redisTransaction.exec();
 
     /* =====================================================
-     * 5️⃣ Issue new access & refresh tokens
+     * 3️⃣ Dispatch OTP
      * ===================================================== */
-    const newAccessToken = generateAccessToken({
-      sub: payload.sub,
-      sessionId: newSessionId,
-      type: "ACCESS",
-    });
-
-    const newRefreshToken = generateRefreshToken({
-      sub: payload.sub,
-      sessionId: newSessionId,
-      type: "REFRESH",
-    });
+    sendSigninStepUpOtp(updatedSession, otp);
 
     return {
-      newAccessToken,
-      newRefreshToken,
+      sessionToken: newSessionId,
+      channel: updatedSession.channel || OtpChannel.EMAIL,
+      expiresInSeconds: ttlSeconds,
     };
   }
 
   /**
-   * FORGOT PASSWORD SERVICE - Initiates or reuses a password reset verification session
+   * MAGIC LINK REQUEST SERVICE - Emails a single-use sign-in link + OTP
+   * Responds the same whether or not the account exists (no enumeration)
    */
-  static async forgotPasswordService(
-    input: ForgotPasswordInput
-  ): Promise<{ sessionToken: string }> {
-    let sessionId: string | null = null;
-    let session: RedisAuthSession | null = null;
+  static async requestMagicLinkService(
+    input: MagicLinkRequestInput
+  ): Promise<{ sessionToken: string; expiresInSeconds: number }> {
+    if (!appConfig.AUTH_FEATURES.ENABLE_MAGIC_LINK_SIGNIN) {
+      throw new AppError("Magic-link sign-in is not available right now.", 400);
+    }
 
-    const redisClient = getRedisClient();
+    const sessionToken = uuidv4();
+    const ttlSeconds = appConfig.OTP.EXPIRES_IN_SECONDS;
 
     /* =====================================================
-     * 1️⃣ Resolve existing reset session via sessionToken
+     * 1️⃣ Resolve user by identifier (email / username / phone)
      * ===================================================== */
-    if (input.sessionToken) {
-      const redisKey = getSessionKey(input.sessionToken);
-      const sessionData = await redisClient.get(redisKey);
+    const user = await UserModel.findOne({
+      ...getIdentifierFilter(input.identifier),
+    }).select("+status +statusMeta");
 
-      if (!sessionData) {
-        throw new AppError(
-          "Password reset session has expired. Please request a new code.",
-          410 // Gone
-        );
-      }
+    // Unknown or ineligible accounts get an unusable token and no email
+    if (!user?.email) return { sessionToken, expiresInSeconds: ttlSeconds };
 
-      sessionId = input.sessionToken;
-      session = JSON.parse(sessionData);
+    try {
+      assertAccountCanSignin(user);
+    } catch {
+      return { sessionToken, expiresInSeconds: ttlSeconds };
     }
 
     /* =====================================================
-     * 2️⃣ Resolve session via identifier (email / username / phone)
+     * 2️⃣ Create OTP session (replaces any previous link)
      * ===================================================== */
-    if (!session && input.identifier) {
-      const redisUserKey = getUserForgotKey(input.identifier);
-      const storedSessionId = await redisClient.get(redisUserKey);
-
-      if (storedSessionId) {
-        const redisSessionKey = getSessionKey(storedSessionId);
-        const sessionData = await redisClient.get(redisSessionKey);
+    const redisClient = getRedisClient();
+    const userId = String(user._id);
+    const otp = generateOtp();
 
-        if (sessionData) {
-          sessionId = storedSessionId;
-          session = JSON.parse(sessionData);
-        }
-      }
-    }
+    const session: RedisAuthSession = {
+      type: SessionType.SIGNIN_MAGIC_LINK,
+      method: SigninMethod.MAGIC_LINK,
 
-    /* =====================================================
-     * 3️⃣ Validate resolved session (if present)
-     * ===================================================== */
-    if (session) {
-      if (session.type !== SessionType.RESET_PASSWORD) {
-        throw new AppError("Invalid password reset session.", 400);
-      }
+      email: user.email,
+      userId,
 
-      /* -----------------------------------------------------
-       * Enforce OTP resend rate limit
-       * ----------------------------------------------------- */
-      session.otpResendCount = (session.otpResendCount ?? 0) + 1;
+      channel: OtpChannel.EMAIL,
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + ttlSeconds * 1000,
+      otpAttempts: 0,
+      otpResendCount: 0,
+
+      verified: false,
+      used: false,
+
+      createdAt: Date.now(),
+    };
+
+    const previousSessionId = await redisClient.get(getMagicLinkKey(userId));
+
+    const redisTransaction = redisClient.multi();
+    if (previousSessionId) {
+      redisTransaction.del(getSessionKey(previousSessionId));
+    }
+    redisTransaction.setex(
+      getSessionKey(sessionToken),
+      ttlSeconds,
+      JSON.stringify(session)
+    );
+    redisTransaction.setex(getMagicLinkKey(userId), ttlSeconds, sessionToken);
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 3️⃣ Dispatch link + OTP
+     * ===================================================== */
+    sendMagicLinkSigninEmail({
+      email: user.email,
+      otp,
+      sessionId: sessionToken,
+      otpExpiryMinutes: ttlSeconds / 60,
+    });
+
+    return { sessionToken, expiresInSeconds: ttlSeconds };
+  }
+
+  /**
+   * MAGIC LINK VERIFY SERVICE - Exchanges the emailed link / OTP for a signin
+   */
+  static async verifyMagicLinkService(
+    input: MagicLinkVerifyInput,
+    client: ClientMeta = {}
+  ): Promise<SigninResult> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve magic-link session from Redis
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Sign-in link has expired or was already used. Please request a new one.",
+        410 // Gone
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (session.type !== SessionType.SIGNIN_MAGIC_LINK || !session.userId) {
+      throw new AppError("Invalid sign-in session.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce expiry & attempt limits, then validate OTP
+     * ===================================================== */
+    await registerOtpAttempt(redisKey, session);
+
+    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
+    if (!isValidOtp) throw new AppError("Invalid verification code.", 400);
+
+    // Single use: the link dies with its first successful exchange
+    await redisClient
+      .multi()
+      .del(redisKey)
+      .del(getMagicLinkKey(String(session.userId)))
+      .exec();
+
+    /* =====================================================
+     * 3️⃣ Resolve user & enforce account status
+     * ===================================================== */
+    const user = await UserModel.findById(session.userId).select(
+      "+provider +accountType +status +statusMeta"
+    );
+
+    if (!user) throw new AppError("User not found.", 404);
+
+    assertAccountCanSignin(user);
+
+    /* =====================================================
+     * 4️⃣ Issue tokens, or a 2FA challenge when enabled
+     * ===================================================== */
+    return completeSignin(user, SigninMethod.MAGIC_LINK, client);
+  }
+
+  /**
+   * MAGIC LINK RESEND SERVICE - Re-sends the sign-in link + OTP
+   */
+  static async resendMagicLinkService(
+    input: MagicLinkResendInput
+  ): Promise<{ sessionToken: string; expiresInSeconds: number }> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve & validate existing session
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Sign-in link has expired or was already used. Please request a new one.",
+        410 // Gone
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (
+      session.type !== SessionType.SIGNIN_MAGIC_LINK ||
+      !session.userId ||
+      !session.email
+    ) {
+      throw new AppError("Invalid sign-in session.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce resend limit & rotate session
+     * ===================================================== */
+    enforceOtpResendLimit(session);
+
+    const newSessionId = uuidv4();
+    const otp = generateOtp();
+    const ttlSeconds = appConfig.OTP.EXPIRES_IN_SECONDS;
+
+    const updatedSession: RedisAuthSession = {
+      ...session,
+
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + ttlSeconds * 1000,
+    };
+
+    const redisTransaction = redisClient.multi();
+    redisTransaction.del(redisKey);
+    redisTransaction.setex(
+      getSessionKey(newSessionId),
+      ttlSeconds,
+      JSON.stringify(updatedSession)
+    );
+    redisTransaction.setex(
+      getMagicLinkKey(String(session.userId)),
+      ttlSeconds,
+      newSessionId
+    );
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 3️⃣ Dispatch link + OTP
+     * ===================================================== */
+    sendMagicLinkSigninEmail({
+      email: session.email,
+      otp,
+      sessionId: newSessionId,
+      otpExpiryMinutes: ttlSeconds / 60,
+    });
+
+    return { sessionToken: newSessionId, expiresInSeconds: ttlSeconds };
+  }
+
+  /**
+   * UNLOCK ACCOUNT SERVICE - Lifts a failed-signin lock with the emailed OTP
+   */
+  static async unlockAccountService(
+    input: AccountUnlockInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve unlock session from Redis
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Unlock link has expired. Your account unlocks automatically once the lock period ends.",
+        410 // Gone
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (session.type !== SessionType.ACCOUNT_UNLOCK || !session.userId) {
+      throw new AppError("Invalid unlock session.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce expiry & attempt limits, then validate OTP
+     * ===================================================== */
+    await registerOtpAttempt(redisKey, session);
+
+    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
+    if (!isValidOtp) throw new AppError("Invalid verification code.", 400);
+
+    /* =====================================================
+     * 3️⃣ Lift lock & reset lock level
+     * ===================================================== */
+    await redisClient.del(redisKey);
+    await clearFailedSignins(String(session.userId));
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.ACCOUNT_UNLOCKED,
+        userId: String(session.userId),
+      },
+      client
+    );
+  }
+
+  /**
+   * REFRESH ACCESS TOKEN SERVICE - Issues a new access token using a valid refresh token
+   */
+  static async refreshAccessTokenService(
+    refreshToken: string,
+    client: ClientMeta = {}
+  ): Promise<{ newAccessToken: string }> {
+    /* =====================================================
+     * 1️⃣ Validate refresh token and extract payload
+     * ===================================================== */
+    const payload = verifyRefreshToken(refreshToken);
+
+    if (payload.type !== "REFRESH") {
+      throw new AppError("Invalid refresh token.", 401);
+    }
+
+    /* =====================================================
+     * 2️⃣ Resolve authentication session from Redis
+     * ===================================================== */
+    const redisClient = getRedisClient();
+    const redisKey = getSessionKey(payload.sessionId);
+
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      // A rotated token being replayed revokes its whole family
+      await detectRefreshTokenReuse(payload.sessionId, client);
+
+      throw new AppError(
+        "Session has expired. Please sign in again.",
+        401 // Unauthorized
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    /* =====================================================
+     * 3️⃣ Enforce inactivity-based logout (if enabled)
+     * ===================================================== */
+
+    if (isSessionInactive(session)) {
+      throw new AppError(
+        "Session expired due to inactivity. Please sign in again.",
+        401 // Unauthorized
+      );
+    }
+
+    /* =====================================================
+     * 4️⃣ Update session activity timestamp
+     * ===================================================== */
+    session.lastActivityAt = Date.now();
+
+    await redisClient.setex(
+      redisKey,
+      appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS,
+      JSON.stringify(session)
+    );
+
+    /* =====================================================
+     * 5️⃣ Issue new access token
+     * ===================================================== */
+    const newAccessToken = generateAccessToken({
+      sub: payload.sub,
+      sessionId: payload.sessionId,
+      type: "ACCESS",
+    });
+
+    return { newAccessToken };
+  }
+
+  /**
+   * AUTHENTICATE ACCESS TOKEN SERVICE - Resolves an access token into an authenticated context
+   */
+  static async authenticateAccessTokenService(
+    accessToken: string
+  ): Promise<AuthContext> {
+    /* =====================================================
+     * 1️⃣ Validate access token and extract payload
+     * ===================================================== */
+    let payload: any;
+
+    try {
+      payload = verifyAccessToken(accessToken);
+    } catch {
+      throw new AppError(
+        "Invalid or expired access token.",
+        401 // Unauthorized
+      );
+    }
+
+    if (payload?.type !== "ACCESS" || !payload.sessionId || !payload.sub) {
+      throw new AppError("Invalid access token.", 401);
+    }
+
+    /* =====================================================
+     * 2️⃣ Ensure the signin session still exists (Redis)
+     * ===================================================== */
+    const redisClient = getRedisClient();
+    const redisKey = getSessionKey(payload.sessionId);
+
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Session has expired. Please sign in again.",
+        401 // Unauthorized
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (
+      session.type !== SessionType.SIGNIN ||
+      session.userId?.toString() !== payload.sub ||
+      session.impersonation?.actorId !== payload.act?.sub
+    ) {
+      throw new AppError("Invalid session.", 401);
+    }
+
+    /* =====================================================
+     * 3️⃣ Enforce inactivity-based logout (if enabled)
+     * ===================================================== */
+    if (isSessionInactive(session)) {
+      const redisTransaction = redisClient.multi();
+      redisTransaction.del(redisKey);
+      redisTransaction.srem(getUserSessionsKey(payload.sub), payload.sessionId);
+      await redisTransaction.exec();
+
+      throw new AppError(
+        "Session expired due to inactivity. Please sign in again.",
+        401 // Unauthorized
+      );
+    }
+
+    /* =====================================================
+     * 4️⃣ Update session activity timestamp (throttled)
+     * ===================================================== */
+    if (
+      !session.lastActivityAt ||
+      Date.now() - session.lastActivityAt > ACTIVITY_TOUCH_INTERVAL_MS
+    ) {
+      session.lastActivityAt = Date.now();
+
+      await redisClient.set(redisKey, JSON.stringify(session), "KEEPTTL");
+    }
+
+    return {
+      userId: payload.sub,
+      sessionId: payload.sessionId,
+      roles: session.roles?.length ? session.roles : [AccountType.USER],
+      ...(session.impersonation && {
+        impersonation: {
+          actorId: session.impersonation.actorId,
+          readOnly: session.impersonation.readOnly,
+        },
+      }),
+    };
+  }
+
+  /**
+   * CURRENT ROLES SERVICE - Re-reads the platform roles of an authenticated request
+   */
+  static async getCurrentRolesService(
+    auth: AuthContext
+  ): Promise<AccountType[]> {
+    const user = await UserModel.findById(auth.userId).select("+accountType");
+
+    return getCurrentRoles(auth, user);
+  }
+
+  /**
+   * ROTATE REFRESH TOKEN SERVICE - Invalidates the old session and issues a new token pair
+   */
+  static async rotateRefreshTokenService(
+    refreshToken: string,
+    client: ClientMeta = {}
+  ): Promise<{ newAccessToken: string; newRefreshToken: string }> {
+    /* =====================================================
+     * 1️⃣ Validate refresh token and extract payload
+     * ===================================================== */
+    const payload = verifyRefreshToken(refreshToken);
+
+    if (payload.type !== "REFRESH") {
+      throw new AppError(
+        "Invalid refresh token.",
+        401 // Unauthorized
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Consume existing session (read & delete atomically)
+     * A refresh token can be rotated exactly once
+     * ===================================================== */
+    const redisClient = getRedisClient();
+    const oldKey = getSessionKey(payload.sessionId);
+
+    const [[, sessionData] = []] =
+      (await redisClient.multi().get(oldKey).del(oldKey).exec()) || [];
+
+    if (!sessionData) {
+      // A rotated token being replayed revokes its whole family
+      await detectRefreshTokenReuse(payload.sessionId, client);
+
+      throw new AppError(
+        "Session has expired. Please sign in again.",
+        401 // Unauthorized
+      );
+    }
+
+    const oldSession: RedisAuthSession = JSON.parse(sessionData as string);
+
+    const userId = oldSession.userId?.toString() || payload.sub;
+
+    if (
+      oldSession.type !== SessionType.SIGNIN ||
+      userId !== payload.sub ||
+      isSessionInactive(oldSession)
+    ) {
+      await redisClient.srem(getUserSessionsKey(userId), payload.sessionId);
+
+      throw new AppError(
+        "Session has expired. Please sign in again.",
+        401 // Unauthorized
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Create a new authenticated session (same family)
+     * ===================================================== */
+    const newSessionId = uuidv4();
+    const familyId = oldSession.familyId || uuidv4();
+
+    // Keep the device label, refresh client metadata from the rotating request
+    const newSession: RedisAuthSession = {
+      ...oldSession,
+      familyId,
+      ...(client.device && { device: client.device }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+      ...(client.ip && { ip: client.ip }),
+      ...(client.location && { location: client.location }),
+      createdAt: Date.now(),
+      lastActivityAt: Date.now(),
+    };
+
+    const sessionTtl = appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS;
+    const redisTransaction = redisClient.multi();
+
+    // Store new session
+    redisTransaction.setex(
+      getSessionKey(newSessionId),
+      sessionTtl,
+      JSON.stringify(newSession)
+    );
+
+    // Add new session to user's sessions set
+    redisTransaction.sadd(getUserSessionsKey(userId), newSessionId);
+    redisTransaction.expire(getUserSessionsKey(userId), sessionTtl);
+
+    // Family now points at the new session
+    redisTransaction.setex(
+      getSessionFamilyKey(familyId),
+      sessionTtl,
+      newSessionId
+    );
+
+    /* =====================================================
+     * 4️⃣ Retire previous session (remember it was rotated)
+     * ===================================================== */
+    const rotated: RedisRotatedToken = {
+      familyId,
+      userId,
+      rotatedAt: Date.now(),
+    };
+
+    redisTransaction.srem(getUserSessionsKey(userId), payload.sessionId);
+    redisTransaction.setex(
+      getRotatedSessionKey(payload.sessionId),
+      sessionTtl,
+      JSON.stringify(rotated)
+    );
+
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 5️⃣ Issue new access & refresh tokens
+     * ===================================================== */
+    const newAccessToken = generateAccessToken({
+      sub: payload.sub,
+      sessionId: newSessionId,
+      type: "ACCESS",
+    });
+
+    const newRefreshToken = generateRefreshToken({
+      sub: payload.sub,
+      sessionId: newSessionId,
+      type: "REFRESH",
+    });
+
+    return {
+      newAccessToken,
+      newRefreshToken,
+    };
+  }
+
+  /**
+   * FORGOT PASSWORD SERVICE - Initiates or reuses a password reset verification session
+   */
+  static async forgotPasswordService(
+    input: ForgotPasswordInput
+  ): Promise<{ sessionToken: string }> {
+    let sessionId: string | null = null;
+    let session: RedisAuthSession | null = null;
+
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve existing reset session via sessionToken
+     * ===================================================== */
+    if (input.sessionToken) {
+      const redisKey = getSessionKey(input.sessionToken);
+      const sessionData = await redisClient.get(redisKey);
+
+      if (!sessionData) {
+        throw new AppError(
+          "Password reset session has expired. Please request a new code.",
+          410 // Gone
+        );
+      }
+
+      sessionId = input.sessionToken;
+      session = JSON.parse(sessionData);
+    }
+
+    /* =====================================================
+     * 2️⃣ Resolve session via identifier (email / username / phone)
+     * ===================================================== */
+    if (!session && input.identifier) {
+      const redisUserKey = getUserForgotKey(
+        normalizeIdentifier(input.identifier).value
+      );
+      const storedSessionId = await redisClient.get(redisUserKey);
+
+      if (storedSessionId) {
+        const redisSessionKey = getSessionKey(storedSessionId);
+        const sessionData = await redisClient.get(redisSessionKey);
+
+        if (sessionData) {
+          sessionId = storedSessionId;
+          session = JSON.parse(sessionData);
+        }
+      }
+    }
+
+    /* =====================================================
+     * 3️⃣ Validate resolved session (if present)
+     * ===================================================== */
+    if (session) {
+      if (session.type !== SessionType.RESET_PASSWORD) {
+        throw new AppError("Invalid password reset session.", 400);
+      }
+
+      /* -----------------------------------------------------
+       * Enforce OTP resend rate limit
+       * ----------------------------------------------------- */
+      session.otpResendCount = (session.otpResendCount ?? 0) + 1;
 
       let remainingMs: number | undefined;
       if (session.createdAt) {
@@ -901,93 +1584,700 @@ export class AuthService {
           );
         }
 
-        session.otpResendCount = 1;
-      }
+        session.otpResendCount = 1;
+      }
+    }
+
+    const redisTransaction = redisClient.multi();
+
+    /* =====================================================
+     * 4️⃣ No active session → fallback to DB validation
+     * ===================================================== */
+    let user: IUser | null = null;
+
+    if (!session) {
+      if (!input.identifier) {
+        throw new AppError(
+          "An email, username, or phone number is required.",
+          400 // Bad Request
+        );
+      }
+
+      user = await UserModel.findOne({
+        ...getIdentifierFilter(input.identifier),
+      })
+        .select("+status +statusMeta")
+        .lean();
+
+      if (!user) {
+        throw new AppError(
+          "No account found with the provided identifier.",
+          404 // Not Found
+        );
+      }
+
+      if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
+        throw new AppError(
+          "Your account is not active. Please contact support.",
+          403 // Forbidden
+        );
+      }
+
+      if (input.channel === OtpChannel.SMS) {
+        if (!appConfig.AUTH_FEATURES.ENABLE_SMS_OTP) {
+          throw new AppError("SMS verification is not available right now.", 400);
+        }
+
+        if (!user.dialCode || !user.phoneNumber || !user.phoneIsVerified) {
+          throw new AppError(
+            "This account has no verified phone number. Please reset your password by email.",
+            400 // Bad Request
+          );
+        }
+      }
+    }
+
+    /* =====================================================
+     * 5️⃣ Generate and update password reset OTP
+     * ===================================================== */
+    if (sessionId) redisClient.del(getSessionKey(sessionId));
+
+    // Create new session ID
+    const newSessionId: string = uuidv4();
+
+    // Map identifiers → session for quick lookup
+    removeDuplicates([
+      input.identifier && normalizeIdentifier(input.identifier).value,
+      session?.email,
+      user?.email,
+      session?.phoneNumber,
+      user?.phoneNumber,
+      session?.username,
+      user?.username,
+    ]).map((x) => {
+      if (x) {
+        redisTransaction.setex(
+          getUserForgotKey(x),
+          appConfig.OTP.SESSION_TTL_SECONDS,
+          newSessionId
+        );
+      }
+    });
+
+    const otp = generateOtp();
+    const otpHash = hashOtp(otp);
+
+    const updatedSession: RedisAuthSession = {
+      type: session?.type || SessionType.RESET_PASSWORD,
+
+      email: session?.email || user?.email,
+      username: session?.username || user?.username,
+      dialCode: session?.dialCode || user?.dialCode,
+      phoneNumber: session?.phoneNumber || user?.phoneNumber,
+      userId: session?.userId || user?._id,
+
+      channel: session?.channel || input.channel || OtpChannel.EMAIL,
+      otp,
+      otpHash,
+      otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
+      otpAttempts: session?.otpAttempts || 0,
+      otpResendCount: session?.otpResendCount || 1,
+
+      used: false,
+      verified: false,
+
+      createdAt: Date.now(),
+    };
+
+    /* =====================================================
+     * 6️⃣ Persist reset session (Redis)
+     * ===================================================== */
+    redisTransaction.setex(
+      getSessionKey(newSessionId),
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      JSON.stringify(updatedSession)
+    );
+
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 7️⃣ Dispatch password reset OTP (email or SMS)
+     * ===================================================== */
+    if (
+      updatedSession.channel === OtpChannel.SMS &&
+      updatedSession.dialCode &&
+      updatedSession.phoneNumber
+    ) {
+      sendForgotPasswordSms({
+        dialCode: updatedSession.dialCode,
+        phoneNumber: updatedSession.phoneNumber,
+        otp,
+      });
+    } else if (updatedSession.email) {
+      sendForgotPasswordEmail({
+        email: updatedSession.email,
+        otp,
+        resetToken: newSessionId,
+      });
+    }
+
+    return { sessionToken: newSessionId };
+  }
+
+  /**
+   * VALIDATE FORGOT PASSWORD SESSION SERVICE - Confirms whether a password reset session is active
+   */
+  static async validateForgotPasswordSessionService(
+    input: SignupValidateSessionInput
+  ): Promise<{
+    email?: string;
+    phoneNumber?: string;
+    username?: string;
+  }> {
+    /* =====================================================
+     * 1️⃣ Retrieve password reset session from Redis
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await getRedisClient().get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Password reset session has expired. Please request a new code.",
+        410 // Gone
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Validate session type
+     * ===================================================== */
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (session.type !== SessionType.RESET_PASSWORD) {
+      throw new AppError("Invalid password reset session.", 400);
+    }
+
+    /* =====================================================
+     * 3️⃣ Validate OTP expiration window
+     * ===================================================== */
+    if (!session.otpExpiresAt || Date.now() > session.otpExpiresAt) {
+      throw new AppError(
+        "Password reset code has expired. Please request a new one.",
+        410
+      );
+    }
+
+    const filteredData = cleanObject({
+      email: session.email,
+      phoneNumber: session.email ? undefined : session.phoneNumber,
+      username:
+        session.email || session.phoneNumber ? undefined : session.username,
+    });
+
+    return filteredData;
+  }
+
+  /**
+   * RESET PASSWORD SERVICE - Verifies reset OTP and updates user password
+   */
+  static async resetPasswordService(
+    input: ResetPasswordInput,
+    client: ClientMeta = {}
+  ) {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Retrieve password reset session from Redis
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Password reset session has expired. Please request a new code.",
+        410 // Gone
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    /* =====================================================
+     * 2️⃣ Validate session type
+     * ===================================================== */
+    if (session.type !== SessionType.RESET_PASSWORD) {
+      throw new AppError("Invalid password reset session.", 400);
+    }
+
+    // /* =====================================================
+    //  * 3️⃣ Validate OTP expiration
+    //  * ===================================================== */
+    // if (!session.otpExpiresAt || Date.now() > session.otpExpiresAt) {
+    //   throw new AppError(
+    //     "Password reset code has expired. Please request a new one.",
+    //     410 // Gone
+    //   );
+    // }
+
+    // /* =====================================================
+    //  * 3️⃣.1️⃣ Check and increment OTP attempt counter
+    //  * ===================================================== */
+    // session.otpAttempts = (session.otpAttempts || 0) + 1;
+
+    // if (session.otpAttempts > appConfig.OTP.MAX_ATTEMPTS) {
+    //   throw new AppError(
+    //     "Maximum OTP verification attempts exceeded. Please request a new code.",
+    //     429 // Too Many Requests
+    //   );
+    // }
+
+    // // Update session with incremented attempts
+    // await redisClient.setex(
+    //   redisKey,
+    //   appConfig.OTP.SESSION_TTL_SECONDS,
+    //   JSON.stringify(session)
+    // );
+
+    /* =====================================================
+     * 4️⃣ Validate OTP value
+     * ===================================================== */
+    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
+    if (!isValidOtp) throw new AppError("Invalid password reset code.", 400);
+
+    /* =====================================================
+     * 5️⃣ Securely hash new password
+     * ===================================================== */
+    const passwordHash = await hashPassword(input.newPassword);
+
+    /* =====================================================
+     * 6️⃣ Update user password
+     * ===================================================== */
+    const updatedUser = await UserModel.findByIdAndUpdate(
+      session.userId,
+      { $set: { password: passwordHash } },
+      { new: true }
+    ).lean();
+
+    if (!updatedUser) {
+      throw new AppError(
+        "Password reset session is no longer valid. Please request a new code.",
+        410 // Gone
+      );
     }
 
+    /* =====================================================
+     * 7️⃣ Clean up password reset session data (Redis)
+     * ===================================================== */
     const redisTransaction = redisClient.multi();
 
+    if (updatedUser.username) {
+      redisTransaction.del(getUserForgotKey(updatedUser.username));
+    }
+    if (updatedUser.email) {
+      redisTransaction.del(getUserForgotKey(updatedUser.email));
+    }
+    if (updatedUser.phoneNumber) {
+      redisTransaction.del(getUserForgotKey(updatedUser.phoneNumber));
+    }
+
+    redisTransaction.del(redisKey);
+
+    // A proven reset also lifts any failed-signin lock
+    redisTransaction.del(getAccountLockoutKey(String(updatedUser._id)));
+
+    await redisTransaction.exec();
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.PASSWORD_RESET,
+        userId: String(updatedUser._id),
+      },
+      client
+    );
+
     /* =====================================================
-     * 4️⃣ No active session → fallback to DB validation
+     * 8️⃣ Send password reset confirmation notification
      * ===================================================== */
-    let user: IUser | null = null;
+    if (updatedUser?.email) sendResetPasswordSuccessEmail(updatedUser.email);
 
-    if (!session) {
-      if (!input.identifier) {
-        throw new AppError(
-          "An email, username, or phone number is required.",
-          400 // Bad Request
-        );
-      }
+    return;
+  }
 
-      user = await UserModel.findOne({
-        $or: [
-          { email: input.identifier.toLowerCase() },
-          { username: input.identifier },
-          { phoneNumber: input.identifier },
-        ],
-      })
-        .select("+status +statusMeta")
-        .lean();
+  /**
+   * REQUEST PHONE VERIFICATION SERVICE - Sends an SMS OTP to verify the current or a new phone number
+   */
+  static async requestPhoneVerificationService(
+    input: PhoneVerificationRequestInput
+  ): Promise<{ sessionToken: string }> {
+    if (!appConfig.AUTH_FEATURES.ENABLE_SMS_OTP) {
+      throw new AppError("SMS verification is not available right now.", 400);
+    }
 
-      if (!user) {
+    /* =====================================================
+     * 1️⃣ Resolve user & target phone number
+     * ===================================================== */
+    const user = await UserModel.findById(input.userId).lean();
+
+    if (!user) throw new AppError("User not found.", 404);
+
+    const dialCode = input.dialCode || user.dialCode;
+    const phoneNumber = input.phoneNumber || user.phoneNumber;
+
+    if (!dialCode || !phoneNumber) {
+      throw new AppError(
+        "Please provide a phone number and dial code to verify.",
+        400 // Bad Request
+      );
+    }
+
+    const isCurrentPhone =
+      dialCode === user.dialCode && phoneNumber === user.phoneNumber;
+
+    if (isCurrentPhone && user.phoneIsVerified) {
+      throw new AppError(
+        "This phone number is already verified.",
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Ensure the phone number is not used by another account
+     * ===================================================== */
+    if (!isCurrentPhone) {
+      const phoneTaken = await UserModel.exists({
+        phoneE164: toE164(dialCode, phoneNumber),
+        _id: { $ne: user._id },
+      });
+
+      if (phoneTaken) {
         throw new AppError(
-          "No account found with the provided identifier.",
-          404 // Not Found
+          "This phone number is already linked to another account.",
+          409 // Conflict
         );
       }
+    }
+
+    /* =====================================================
+     * 3️⃣ Create phone verification session (Redis)
+     * ===================================================== */
+    const sessionId = uuidv4();
+    const otp = generateOtp();
+
+    const session: RedisAuthSession = {
+      type: SessionType.PHONE_VERIFY,
+
+      dialCode,
+      phoneNumber,
+      userId: input.userId,
+
+      channel: OtpChannel.SMS,
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
+      otpAttempts: 0,
+      otpResendCount: 0,
+
+      used: false,
+      verified: false,
+
+      createdAt: Date.now(),
+    };
+
+    await getRedisClient().setex(
+      getSessionKey(sessionId),
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      JSON.stringify(session)
+    );
+
+    /* =====================================================
+     * 4️⃣ Dispatch verification OTP (SMS)
+     * ===================================================== */
+    sendPhoneVerificationSms({ dialCode, phoneNumber, otp });
+
+    return { sessionToken: sessionId };
+  }
+
+  /**
+   * RESEND PHONE VERIFICATION SERVICE - Re-sends the SMS OTP for an active phone verification session
+   */
+  static async resendPhoneVerificationService(
+    input: PhoneVerificationResendInput
+  ): Promise<{ sessionToken: string }> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Resolve & validate existing session
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Verification session has expired. Please request a new code.",
+        410 // Gone
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (
+      session.type !== SessionType.PHONE_VERIFY ||
+      session.userId?.toString() !== input.userId ||
+      !session.dialCode ||
+      !session.phoneNumber
+    ) {
+      throw new AppError("Invalid verification session.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce resend limit
+     * ===================================================== */
+    enforceOtpResendLimit(session);
+
+    /* =====================================================
+     * 3️⃣ Rotate session with a fresh OTP
+     * ===================================================== */
+    const newSessionId = uuidv4();
+    const otp = generateOtp();
+
+    const updatedSession: RedisAuthSession = {
+      ...session,
+
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
+
+      createdAt: Date.now(),
+    };
+
+    const redisTransaction = redisClient.multi();
+    redisTransaction.del(redisKey);
+    redisTransaction.setex(
+      getSessionKey(newSessionId),
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      JSON.stringify(updatedSession)
+    );
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 4️⃣ Dispatch verification OTP (SMS)
+     * ===================================================== */
+    sendPhoneVerificationSms({
+      dialCode: session.dialCode,
+      phoneNumber: session.phoneNumber,
+      otp,
+    });
+
+    return { sessionToken: newSessionId };
+  }
+
+  /**
+   * CONFIRM PHONE VERIFICATION SERVICE - Verifies the SMS OTP and marks the phone number as verified
+   */
+  static async confirmPhoneVerificationService(
+    input: PhoneVerificationConfirmInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Retrieve phone verification session from Redis
+     * ===================================================== */
+    const redisKey = getSessionKey(input.sessionToken);
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Verification session has expired. Please request a new code.",
+        410 // Gone
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (
+      session.type !== SessionType.PHONE_VERIFY ||
+      session.userId?.toString() !== input.userId ||
+      !session.dialCode ||
+      !session.phoneNumber
+    ) {
+      throw new AppError("Invalid verification session.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce expiry & attempt limits, then validate OTP
+     * ===================================================== */
+    await registerOtpAttempt(redisKey, session);
+
+    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
+    if (!isValidOtp) throw new AppError("Invalid verification code.", 400);
+
+    /* =====================================================
+     * 3️⃣ Persist verified phone number
+     * ===================================================== */
+    const phoneE164 = toE164(session.dialCode, session.phoneNumber);
+
+    const phoneTaken = await UserModel.exists({
+      phoneE164,
+      _id: { $ne: input.userId },
+    });
+
+    if (phoneTaken) {
+      throw new AppError(
+        "This phone number is already linked to another account.",
+        409 // Conflict
+      );
+    }
+
+    const updatedUser = await UserModel.findByIdAndUpdate(
+      input.userId,
+      {
+        $set: {
+          dialCode: session.dialCode,
+          phoneNumber: session.phoneNumber,
+          phoneE164,
+          phoneIsVerified: true,
+        },
+      },
+      { new: true }
+    ).lean();
+
+    if (!updatedUser) throw new AppError("User not found.", 404);
+
+    /* =====================================================
+     * 4️⃣ Clean up verification session (Redis)
+     * ===================================================== */
+    await redisClient.del(redisKey);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.PHONE_VERIFIED,
+        userId: input.userId,
+        metadata: { dialCode: session.dialCode },
+      },
+      client
+    );
+  }
+
+  /**
+   * CHANGE PASSWORD SERVICE - Updates the password of an authenticated user
+   */
+  static async changePasswordService(
+    input: ChangePasswordInput,
+    client: ClientMeta = {}
+  ): Promise<{ revokedSessions: number }> {
+    /* =====================================================
+     * 1️⃣ Resolve user & ensure a password is set
+     * ===================================================== */
+    const user = await UserModel.findById(input.userId).select("+password");
+
+    if (!user) throw new AppError("User not found.", 404);
+
+    if (!user.password) {
+      throw new AppError(
+        "This account does not have a password yet. Use forgot password to set one.",
+        400 // Bad Request
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Verify current password (failures count towards a lock)
+     * ===================================================== */
+    await assertReauthenticated(
+      user,
+      { sessionId: input.sessionId, password: input.currentPassword },
+      "changing your password",
+      client
+    );
+
+    /* =====================================================
+     * 3️⃣ Persist new password hash
+     * ===================================================== */
+    const passwordHash = await hashPassword(input.newPassword);
+
+    await UserModel.updateOne(
+      { _id: user._id },
+      { $set: { password: passwordHash } }
+    );
+
+    /* =====================================================
+     * 4️⃣ Optionally sign out every other device
+     * ===================================================== */
+    const revokedSessions = input.revokeOtherSessions
+      ? await revokeUserSessions(input.userId, input.sessionId)
+      : 0;
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.PASSWORD_CHANGED,
+        userId: input.userId,
+        metadata: { revokedSessions },
+      },
+      client
+    );
+
+    /* =====================================================
+     * 5️⃣ Send password change confirmation
+     * ===================================================== */
+    sendResetPasswordSuccessEmail(user.email);
+
+    return { revokedSessions };
+  }
+
+  /**
+   * REQUEST EMAIL CHANGE SERVICE - Sends an OTP to the new address
+   */
+  static async requestEmailChangeService(
+    input: ChangeEmailRequestInput,
+    client: ClientMeta = {}
+  ): Promise<{ sessionToken: string }> {
+    /* =====================================================
+     * 1️⃣ Resolve user & re-authenticate
+     * Password when set, otherwise a recent signin on this session
+     * ===================================================== */
+    const user = await UserModel.findById(input.userId).select("+password");
 
-      if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
-        throw new AppError(
-          "Your account is not active. Please contact support.",
-          403 // Forbidden
-        );
-      }
-    }
+    if (!user) throw new AppError("User not found.", 404);
+
+    await assertReauthenticated(
+      user,
+      { sessionId: input.sessionId, password: input.currentPassword },
+      "changing your email address",
+      client
+    );
 
     /* =====================================================
-     * 5️⃣ Generate and update password reset OTP
+     * 2️⃣ Validate new address (different & unique)
      * ===================================================== */
-    if (sessionId) redisClient.del(getSessionKey(sessionId));
+    if (input.newEmail === user.email) {
+      throw new AppError(
+        "The new email address must be different from the current one.",
+        400 // Bad Request
+      );
+    }
 
-    // Create new session ID
-    const newSessionId: string = uuidv4();
+    const emailTaken = await UserModel.exists({ email: input.newEmail });
 
-    // Map identifiers → session for quick lookup
-    removeDuplicates([
-      input.identifier,
-      session?.email,
-      user?.email,
-      session?.phoneNumber,
-      user?.phoneNumber,
-      session?.username,
-      user?.username,
-    ]).map((x) => {
-      if (x) {
-        redisTransaction.setex(
-          getUserForgotKey(x),
-          appConfig.OTP.SESSION_TTL_SECONDS,
-          newSessionId
-        );
-      }
-    });
+    if (emailTaken) {
+      throw new AppError(
+        "This email address is already linked to another account.",
+        409 // Conflict
+      );
+    }
 
+    /* =====================================================
+     * 3️⃣ Create email change session (Redis)
+     * ===================================================== */
+    const sessionId = uuidv4();
     const otp = generateOtp();
-    const otpHash = hashOtp(otp);
 
-    const updatedSession: RedisAuthSession = {
-      type: session?.type || SessionType.RESET_PASSWORD,
+    const session: RedisAuthSession = {
+      type: SessionType.CHANGE_EMAIL,
 
-      email: session?.email || user?.email,
-      username: session?.username || user?.username,
-      phoneNumber: session?.phoneNumber || user?.phoneNumber,
-      userId: session?.userId || user?._id,
+      email: input.newEmail,
+      userId: input.userId,
 
-      otp,
-      otpHash,
+      channel: OtpChannel.EMAIL,
+      otpHash: hashOtp(otp),
       otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
-      otpAttempts: session?.otpAttempts || 0,
-      otpResendCount: session?.otpResendCount || 1,
+      otpAttempts: 0,
+      otpResendCount: 0,
 
       used: false,
       verified: false,
@@ -995,198 +2285,191 @@ export class AuthService {
       createdAt: Date.now(),
     };
 
-    /* =====================================================
-     * 6️⃣ Persist reset session (Redis)
-     * ===================================================== */
-    redisTransaction.setex(
-      getSessionKey(newSessionId),
+    await getRedisClient().setex(
+      getSessionKey(sessionId),
       appConfig.OTP.SESSION_TTL_SECONDS,
-      JSON.stringify(updatedSession)
+      JSON.stringify(session)
     );
 
-    await redisTransaction.exec();
-
     /* =====================================================
-     * 7️⃣ Dispatch password reset OTP
+     * 4️⃣ OTP to the new address, notice to the current one
      * ===================================================== */
-    if (updatedSession.email) {
-      sendForgotPasswordEmail({
-        email: updatedSession.email,
-        otp,
-        resetToken: newSessionId,
-      });
-    }
+    sendChangeEmailVerificationEmail({
+      email: input.newEmail,
+      otp,
+      otpExpiryMinutes: appConfig.OTP.EXPIRES_IN_SECONDS / 60,
+    });
+    sendEmailChangeRequestedEmail(user.email, input.newEmail);
 
-    return { sessionToken: newSessionId };
+    return { sessionToken: sessionId };
   }
 
   /**
-   * VALIDATE FORGOT PASSWORD SESSION SERVICE - Confirms whether a password reset session is active
+   * RESEND EMAIL CHANGE SERVICE - Re-sends the OTP for an active email change session
    */
-  static async validateForgotPasswordSessionService(
-    input: SignupValidateSessionInput
-  ): Promise<{
-    email?: string;
-    phoneNumber?: string;
-    username?: string;
-  }> {
+  static async resendEmailChangeService(
+    input: ChangeEmailResendInput
+  ): Promise<{ sessionToken: string }> {
+    const redisClient = getRedisClient();
+
     /* =====================================================
-     * 1️⃣ Retrieve password reset session from Redis
+     * 1️⃣ Resolve & validate existing session
      * ===================================================== */
     const redisKey = getSessionKey(input.sessionToken);
-    const sessionData = await getRedisClient().get(redisKey);
+    const sessionData = await redisClient.get(redisKey);
 
     if (!sessionData) {
       throw new AppError(
-        "Password reset session has expired. Please request a new code.",
+        "Email change session has expired. Please start again.",
         410 // Gone
       );
     }
 
-    /* =====================================================
-     * 2️⃣ Validate session type
-     * ===================================================== */
     const session: RedisAuthSession = JSON.parse(sessionData);
 
-    if (session.type !== SessionType.RESET_PASSWORD) {
-      throw new AppError("Invalid password reset session.", 400);
+    if (
+      session.type !== SessionType.CHANGE_EMAIL ||
+      session.userId?.toString() !== input.userId ||
+      !session.email
+    ) {
+      throw new AppError("Invalid email change session.", 400);
     }
 
     /* =====================================================
-     * 3️⃣ Validate OTP expiration window
+     * 2️⃣ Enforce resend limit
      * ===================================================== */
-    if (!session.otpExpiresAt || Date.now() > session.otpExpiresAt) {
-      throw new AppError(
-        "Password reset code has expired. Please request a new one.",
-        410
-      );
-    }
+    enforceOtpResendLimit(session);
 
-    const filteredData = cleanObject({
+    /* =====================================================
+     * 3️⃣ Rotate session with a fresh OTP
+     * ===================================================== */
+    const newSessionId = uuidv4();
+    const otp = generateOtp();
+
+    const updatedSession: RedisAuthSession = {
+      ...session,
+
+      otpHash: hashOtp(otp),
+      otpExpiresAt: Date.now() + appConfig.OTP.EXPIRES_IN_SECONDS * 1000,
+
+      createdAt: Date.now(),
+    };
+
+    const redisTransaction = redisClient.multi();
+    redisTransaction.del(redisKey);
+    redisTransaction.setex(
+      getSessionKey(newSessionId),
+      appConfig.OTP.SESSION_TTL_SECONDS,
+      JSON.stringify(updatedSession)
+    );
+    await redisTransaction.exec();
+
+    /* =====================================================
+     * 4️⃣ Dispatch OTP to the new address
+     * ===================================================== */
+    sendChangeEmailVerificationEmail({
       email: session.email,
-      phoneNumber: session.email ? undefined : session.phoneNumber,
-      username:
-        session.email || session.phoneNumber ? undefined : session.username,
+      otp,
+      otpExpiryMinutes: appConfig.OTP.EXPIRES_IN_SECONDS / 60,
     });
 
-    return filteredData;
+    return { sessionToken: newSessionId };
   }
 
   /**
-   * RESET PASSWORD SERVICE - Verifies reset OTP and updates user password
+   * CONFIRM EMAIL CHANGE SERVICE - Verifies the OTP and switches the account email
    */
-  static async resetPasswordService(input: ResetPasswordInput) {
+  static async confirmEmailChangeService(
+    input: ChangeEmailConfirmInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
     const redisClient = getRedisClient();
 
     /* =====================================================
-     * 1️⃣ Retrieve password reset session from Redis
+     * 1️⃣ Retrieve email change session from Redis
      * ===================================================== */
     const redisKey = getSessionKey(input.sessionToken);
     const sessionData = await redisClient.get(redisKey);
 
     if (!sessionData) {
       throw new AppError(
-        "Password reset session has expired. Please request a new code.",
+        "Email change session has expired. Please start again.",
         410 // Gone
       );
     }
 
     const session: RedisAuthSession = JSON.parse(sessionData);
 
-    /* =====================================================
-     * 2️⃣ Validate session type
-     * ===================================================== */
-    if (session.type !== SessionType.RESET_PASSWORD) {
-      throw new AppError("Invalid password reset session.", 400);
+    if (
+      session.type !== SessionType.CHANGE_EMAIL ||
+      session.userId?.toString() !== input.userId ||
+      !session.email
+    ) {
+      throw new AppError("Invalid email change session.", 400);
     }
 
-    // /* =====================================================
-    //  * 3️⃣ Validate OTP expiration
-    //  * ===================================================== */
-    // if (!session.otpExpiresAt || Date.now() > session.otpExpiresAt) {
-    //   throw new AppError(
-    //     "Password reset code has expired. Please request a new one.",
-    //     410 // Gone
-    //   );
-    // }
-
-    // /* =====================================================
-    //  * 3️⃣.1️⃣ Check and increment OTP attempt counter
-    //  * ===================================================== */
-    // session.otpAttempts = (session.otpAttempts || 0) + 1;
-
-    // if (session.otpAttempts > appConfig.OTP.MAX_ATTEMPTS) {
-    //   throw new AppError(
-    //     "Maximum OTP verification attempts exceeded. Please request a new code.",
-    //     429 // Too Many Requests
-    //   );
-    // }
-
-    // // Update session with incremented attempts
-    // await redisClient.setex(
-    //   redisKey,
-    //   appConfig.OTP.SESSION_TTL_SECONDS,
-    //   JSON.stringify(session)
-    // );
-
     /* =====================================================
-     * 4️⃣ Validate OTP value
+     * 2️⃣ Enforce expiry & attempt limits, then validate OTP
      * ===================================================== */
-    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
-    if (!isValidOtp) throw new AppError("Invalid password reset code.", 400);
+    await registerOtpAttempt(redisKey, session);
 
-    /* =====================================================
-     * 5️⃣ Securely hash new password
-     * ===================================================== */
-    const passwordHash = await hashPassword(input.newPassword);
+    const isValidOtp = verifyOtp(input.otp, session.otpHash || "");
+    if (!isValidOtp) throw new AppError("Invalid verification code.", 400);
 
     /* =====================================================
-     * 6️⃣ Update user password
+     * 3️⃣ Re-check uniqueness & persist new (verified) email
      * ===================================================== */
-    const updatedUser = await UserModel.findByIdAndUpdate(
-      session.userId,
-      { $set: { password: passwordHash } },
-      { new: true }
-    ).lean();
+    const emailTaken = await UserModel.exists({
+      email: session.email,
+      _id: { $ne: input.userId },
+    });
 
-    if (!updatedUser) {
+    if (emailTaken) {
       throw new AppError(
-        "Password reset session is no longer valid. Please request a new code.",
-        410 // Gone
+        "This email address is already linked to another account.",
+        409 // Conflict
       );
     }
 
+    // The OTP proves ownership of the new address
+    const previousUser = await UserModel.findByIdAndUpdate(input.userId, {
+      $set: { email: session.email, emailIsVerified: true },
+    }).lean();
+
+    if (!previousUser) throw new AppError("User not found.", 404);
+
     /* =====================================================
-     * 7️⃣ Clean up password reset session data (Redis)
+     * 4️⃣ Clean up sessions keyed by the old address
      * ===================================================== */
     const redisTransaction = redisClient.multi();
-
-    if (updatedUser.username) {
-      redisTransaction.del(getUserForgotKey(updatedUser.username));
-    }
-    if (updatedUser.email) {
-      redisTransaction.del(getUserForgotKey(updatedUser.email));
-    }
-    if (updatedUser.phoneNumber) {
-      redisTransaction.del(getUserForgotKey(updatedUser.phoneNumber));
-    }
-
     redisTransaction.del(redisKey);
-
+    redisTransaction.del(getUserAccountKey(previousUser.email));
+    redisTransaction.del(getUserForgotKey(previousUser.email));
     await redisTransaction.exec();
 
+    await recordAuditEvent(
+      {
+        type: AuditEventType.EMAIL_CHANGED,
+        userId: input.userId,
+        metadata: { previousEmail: previousUser.email, email: session.email },
+      },
+      client
+    );
+
     /* =====================================================
-     * 8️⃣ Send password reset confirmation notification
+     * 5️⃣ Notify the previous address
      * ===================================================== */
-    if (updatedUser?.email) sendResetPasswordSuccessEmail(updatedUser.email);
-
-    return;
+    sendEmailChangedEmail(previousUser.email, session.email);
   }
 
   /**
    * LOGOUT SERVICE - Invalidates a single session
+   * Only signing out another device is emailed (not every logout)
    */
-  static async logoutService(input: LogoutInput): Promise<void> {
+  static async logoutService(
+    input: LogoutInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
     const redisClient = getRedisClient();
     const redisKey = getSessionKey(input.sessionId);
 
@@ -1208,12 +2491,42 @@ export class AuthService {
     redisTransaction.del(redisKey);
     redisTransaction.srem(getUserSessionsKey(input.userId), input.sessionId);
     await redisTransaction.exec();
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.LOGOUT,
+        userId: input.userId,
+        metadata: { sessionId: input.sessionId },
+      },
+      client
+    );
+
+    // Notify user when another device was signed out (unless opted out)
+    if (
+      !input.currentSessionId ||
+      input.currentSessionId === input.sessionId
+    ) {
+      return;
+    }
+
+    const user = await UserModel.findById(input.userId);
+
+    if (user && user.notificationPreferences?.logoutAlerts !== false) {
+      await sendLogoutNotificationEmail({
+        email: user.email,
+        device: session.deviceName || session.device,
+        time: new Date().toUTCString(),
+      });
+    }
   }
 
   /**
    * LOGOUT ALL SESSIONS SERVICE - Invalidates all sessions for a user
    */
-  static async logoutAllSessionsService(input: LogoutAllInput): Promise<void> {
+  static async logoutAllSessionsService(
+    input: LogoutAllInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
     const redisClient = getRedisClient();
     const userSessionsKey = getUserSessionsKey(input.userId);
 
@@ -1234,5 +2547,70 @@ export class AuthService {
     redisTransaction.del(userSessionsKey);
 
     await redisTransaction.exec();
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.LOGOUT_ALL,
+        userId: input.userId,
+        metadata: { revokedSessions: sessionIds.length },
+      },
+      client
+    );
+
+    // Notify user (unless opted out)
+    const user = await UserModel.findById(input.userId);
+
+    if (user && user.notificationPreferences?.logoutAlerts !== false) {
+      await sendLogoutNotificationEmail({
+        email: user.email,
+        device: "all devices",
+        time: new Date().toUTCString(),
+      });
+    }
+  }
+
+  /**
+   * GET NOTIFICATION PREFERENCES SERVICE - Security email preferences
+   */
+  static async getNotificationPreferencesService(
+    userId: string
+  ): Promise<IUserNotificationPreferences> {
+    const user = await UserModel.findById(userId);
+
+    if (!user) throw new AppError("User not found.", 404);
+
+    return {
+      loginAlerts: user.notificationPreferences?.loginAlerts !== false,
+      logoutAlerts: user.notificationPreferences?.logoutAlerts !== false,
+    };
+  }
+
+  /**
+   * UPDATE NOTIFICATION PREFERENCES SERVICE - Opt in / out of security emails
+   */
+  static async updateNotificationPreferencesService(
+    input: NotificationPreferencesInput
+  ): Promise<IUserNotificationPreferences> {
+    const user = await UserModel.findByIdAndUpdate(
+      input.userId,
+      {
+        $set: {
+          ...(input.loginAlerts !== undefined && {
+            "notificationPreferences.loginAlerts": input.loginAlerts,
+          }),
+          ...(input.logoutAlerts !== undefined && {
+            "notificationPreferences.logoutAlerts": input.logoutAlerts,
+          }),
+        },
+      },
+      { new: true }
+    );
+
+    if (!user) throw new AppError("User not found.", 404);
+
+    return {
+      loginAlerts: user.notificationPreferences?.loginAlerts !== false,
+      logoutAlerts: user.notificationPreferences?.logoutAlerts !== false,
+    };
   }
 }
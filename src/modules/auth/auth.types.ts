@@ -7,7 +7,17 @@
  */
 
 import { DialCode } from "@constants/country.constants";
-import { Gender, SessionType } from "@constants/enum.constants";
+import {
+  AccountType,
+  ApiKeyScope,
+  Gender,
+  OtpChannel,
+  SessionType,
+  SigninMethod,
+  SigninRiskReason,
+  UsernameUnavailableReason,
+} from "@constants/enum.constants";
+import { IUser } from "@models/User.model";
 import { Types } from "mongoose";
 
 /* =====================================================
@@ -38,6 +48,38 @@ export interface SignupInput {
   bio?: string | undefined;
 
   password: string;
+
+  // Where the verification OTP is delivered (defaults to EMAIL)
+  verificationChannel?: OtpChannel | undefined;
+}
+
+/**
+ * Signup options for trusted callers (never taken from the request)
+ */
+export interface SignupOptions {
+  // Email ownership already proven (e.g. an invitation link): no OTP step
+  emailVerified?: boolean | undefined;
+}
+
+/**
+ * Signup outcome: a verification session, unless the email was pre-verified
+ */
+export interface SignupResult {
+  user: IUser;
+  sessionToken?: string | undefined;
+}
+
+/**
+ * Username availability check (public, before signup)
+ */
+export interface UsernameAvailabilityInput {
+  username: string;
+}
+
+export interface UsernameAvailabilityResult {
+  username: string; // normalized (lowercase)
+  available: boolean;
+  reason?: UsernameUnavailableReason | undefined;
 }
 
 /**
@@ -88,6 +130,7 @@ export interface RefreshTokenInput {
 export interface ForgotPasswordInput {
   sessionToken?: string;
   identifier?: string;
+  channel?: OtpChannel; // new sessions only (defaults to EMAIL)
 }
 
 /**
@@ -109,6 +152,33 @@ export interface ResetPasswordInput {
   confirmPassword: string;
 }
 
+/**
+ * Request Phone Verification
+ * Verifies the current phone number or a new one
+ */
+export interface PhoneVerificationRequestInput {
+  userId: string;
+  dialCode?: DialCode | undefined;
+  phoneNumber?: string | undefined;
+}
+
+/**
+ * Resend Phone Verification OTP
+ */
+export interface PhoneVerificationResendInput {
+  userId: string;
+  sessionToken: string;
+}
+
+/**
+ * Confirm Phone Verification
+ */
+export interface PhoneVerificationConfirmInput {
+  userId: string;
+  sessionToken: string;
+  otp: string;
+}
+
 /**
  * Logout Input
  * Logs out current session
@@ -116,6 +186,7 @@ export interface ResetPasswordInput {
 export interface LogoutInput {
   sessionId: string;
   userId: string;
+  currentSessionId?: string | undefined; // caller's session when signing out another device
 }
 
 /**
@@ -126,6 +197,100 @@ export interface LogoutAllInput {
   userId: string;
 }
 
+/**
+ * Change Password (authenticated)
+ */
+export interface ChangePasswordInput {
+  userId: string;
+  sessionId: string; // kept when revoking other sessions
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+  revokeOtherSessions?: boolean | undefined;
+}
+
+/**
+ * Request Email Change
+ * OTP is sent to the new address, a notice to the current one
+ */
+export interface ChangeEmailRequestInput {
+  userId: string;
+  sessionId: string; // passwordless accounts: must have signed in recently
+  newEmail: string;
+  currentPassword?: string | undefined; // required for accounts with a password
+}
+
+/**
+ * Resend Email Change OTP
+ */
+export interface ChangeEmailResendInput {
+  userId: string;
+  sessionToken: string;
+}
+
+/**
+ * Confirm Email Change
+ */
+export interface ChangeEmailConfirmInput {
+  userId: string;
+  sessionToken: string;
+  otp: string;
+}
+
+/**
+ * Unlock an account locked after failed signins (emailed OTP / link)
+ */
+export interface AccountUnlockInput {
+  sessionToken: string;
+  otp: string;
+}
+
+/**
+ * Complete a suspicious-signin step-up (OTP sent by email or SMS)
+ */
+export interface SigninStepUpVerifyInput {
+  sessionToken: string;
+  otp: string;
+}
+
+/**
+ * Re-send the step-up OTP
+ */
+export interface SigninStepUpResendInput {
+  sessionToken: string;
+}
+
+/**
+ * Request a passwordless sign-in link + OTP by email
+ */
+export interface MagicLinkRequestInput {
+  identifier: string; // email / username / phone
+}
+
+/**
+ * Exchange the emailed link / OTP for a signin
+ */
+export interface MagicLinkVerifyInput {
+  sessionToken: string;
+  otp: string;
+}
+
+/**
+ * Re-send the sign-in link + OTP
+ */
+export interface MagicLinkResendInput {
+  sessionToken: string;
+}
+
+/**
+ * Update security notification preferences
+ */
+export interface NotificationPreferencesInput {
+  userId: string;
+  loginAlerts?: boolean | undefined;
+  logoutAlerts?: boolean | undefined;
+}
+
 /* ----------------------------------
  * RESPONSE TYPES
  * ---------------------------------- */
@@ -135,6 +300,66 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+/**
+ * Second-step challenge
+ * Returned instead of tokens when the account has 2FA enabled
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  sessionToken: string;
+  expiresInSeconds: number;
+}
+
+/**
+ * OTP step-up challenge
+ * Returned instead of tokens when a password signin looks suspicious
+ */
+export interface SigninStepUpChallenge {
+  stepUpRequired: true;
+  sessionToken: string;
+  reasons: SigninRiskReason[];
+  channel: OtpChannel; // verified email, else verified phone
+  expiresInSeconds: number;
+}
+
+/**
+ * Result of the first signin step (any signin method)
+ */
+export type SigninResult =
+  | { user: IUser; tokens: AuthTokens }
+  | TwoFactorChallenge
+  | SigninStepUpChallenge;
+
+/**
+ * Authenticated request context
+ * Attached to `req.auth` by the authenticate middleware
+ */
+export interface AuthContext {
+  userId: string;
+  sessionId: string; // signin session id, or `api-key:<id>` for API keys
+  roles: AccountType[];
+  apiKey?: ApiKeyAuthContext | undefined; // API key requests only
+  impersonation?: ImpersonationAuthContext | undefined; // admin acting as the user
+}
+
+/**
+ * Support staff member behind an impersonation session
+ */
+export interface ImpersonationAuthContext {
+  actorId: string;
+  readOnly: boolean;
+}
+
+/**
+ * Credential details when a request is authenticated with an API key
+ */
+export interface ApiKeyAuthContext {
+  id: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  businessProfileId?: string | undefined; // organization-scoped keys only
+}
+
 /* ----------------------------------
  * REDIS SESSION TYPES
  * ---------------------------------- */
@@ -145,25 +370,66 @@ export interface AuthTokens {
  */
 export interface RedisAuthSession {
   type: SessionType;
+  method?: SigninMethod | undefined; // signin sessions only
 
   email?: string | undefined;
+  dialCode?: DialCode | undefined;
   phoneNumber?: string | undefined;
   username?: string | undefined;
   userId?: Types.ObjectId | string | undefined;
 
+  channel?: OtpChannel | undefined; // OTP delivery channel (defaults to EMAIL)
   otp?: string | undefined;
   otpHash?: string | undefined;
   otpExpiresAt?: number | undefined;
   otpAttempts?: number | undefined;
   otpResendCount?: number | undefined;
 
+  roles?: AccountType[] | undefined; // platform roles (signin sessions only)
+
+  challenge?: string | undefined; // WebAuthn ceremony challenge (passkey sessions only)
+
+  familyId?: string | undefined; // refresh token family (signin sessions only)
+
+  riskReasons?: SigninRiskReason[] | undefined; // step-up sessions only
+
+  impersonation?: RedisImpersonation | undefined; // impersonation sessions only
+
+  // Client metadata, captured at signin & rotation (signin sessions only)
+  deviceName?: string | undefined; // user-defined label
+  device?: string | undefined; // e.g. "Chrome on Windows"
+  userAgent?: string | undefined;
+  ip?: string | undefined;
+  location?: string | undefined; // approximate, from edge geo headers
+
   used: boolean;
   verified: boolean;
 
   lastActivityAt?: number; // for inactivity logout
+  authenticatedAt?: number; // when credentials were last presented (kept across rotation)
   createdAt: number;
 }
 
+/**
+ * Admin impersonation details stored on the subject's signin session
+ */
+export interface RedisImpersonation {
+  actorId: string;
+  reason: string;
+  readOnly: boolean;
+  expiresAt: number;
+}
+
+/**
+ * Marker left behind for every rotated refresh token
+ * Presenting a rotated token again revokes its whole family
+ */
+export interface RedisRotatedToken {
+  familyId: string;
+  userId: string;
+  rotatedAt: number;
+}
+
 /* ----------------------------------
  * JWT PAYLOAD TYPES
  * ---------------------------------- */
@@ -174,6 +440,7 @@ export interface RedisAuthSession {
  */
 export interface AccessTokenPayload {
   sub: string; // userId
+  act?: { sub: string } | undefined; // acting admin (impersonation only)
   sessionId: string;
   type: "ACCESS";
 }
@@ -10,9 +10,10 @@
  */
 
 import { DialCode } from "@constants/country.constants";
-import { Gender } from "@constants/enum.constants";
+import { Gender, OtpChannel } from "@constants/enum.constants";
 import {
   BIO_REGEX,
+  E164_REGEX,
   EMAIL_REGEX,
   NAME_REGEX,
   OTP_REGEX,
@@ -20,6 +21,8 @@ import {
   PHONE_NUMBER_REGEX,
   USERNAME_REGEX,
 } from "@constants/regex.constants";
+import { isReservedUsername } from "@constants/username.constants";
+import { normalizePhoneNumber } from "@utils/phone.util";
 import { z } from "zod";
 
 const imageMimeTypes = ["image/jpeg", "image/jpg", "image/png"];
@@ -48,6 +51,55 @@ const videoFileSchema = z
     message: "Invalid file type. Only MP4 or GIF allowed",
   });
 
+/* ----------------------------------
+ * SHARED FIELDS
+ * ---------------------------------- */
+
+// Usernames are case-insensitive: stored & compared lowercase
+export const usernameValidator = z
+  .string({ error: "Username is required." })
+  .trim()
+  .regex(
+    USERNAME_REGEX,
+    "Username must be 3-20 characters and can contain letters, numbers, dots, and underscores."
+  )
+  .transform((v) => v.toLowerCase())
+  .refine((v) => !isReservedUsername(v), {
+    message: "This username is reserved.",
+  });
+
+// Accepts common formatting ("98765 43210", "(987) 654-3210")
+const phoneNumberValidator = z
+  .string()
+  .trim()
+  .transform((v) => v.replace(/[\s().-]/g, ""))
+  .pipe(
+    z
+      .string()
+      .regex(
+        PHONE_NUMBER_REGEX,
+        "Phone number must be between 7 and 15 digits."
+      )
+  );
+
+/**
+ * Replaces a validated phone number with its national form
+ * (trunk prefix & repeated country code removed)
+ */
+const withNormalizedPhone = <
+  T extends {
+    dialCode?: DialCode | undefined;
+    phoneNumber?: string | undefined;
+  },
+>(
+  data: T
+): T => {
+  if (!data.dialCode || !data.phoneNumber) return data;
+
+  const phone = normalizePhoneNumber(data.dialCode, data.phoneNumber);
+  return phone ? { ...data, phoneNumber: phone.phoneNumber } : data;
+};
+
 /* ----------------------------------
  * SIGNUP
  * Validate user details
@@ -55,14 +107,7 @@ const videoFileSchema = z
 
 export const signupValidator = z
   .object({
-    username: z
-      .string()
-      .trim()
-      .regex(
-        USERNAME_REGEX,
-        "Username must be 3-20 characters and can contain letters, numbers, dots, and underscores."
-      )
-      .optional(),
+    username: usernameValidator.optional(),
 
     firstName: z
       .string()
@@ -84,13 +129,7 @@ export const signupValidator = z
 
     dialCode: z.enum(DialCode).optional(),
 
-    phoneNumber: z
-      .string()
-      .regex(
-        PHONE_NUMBER_REGEX,
-        "Phone number must be between 7 and 15 digits."
-      )
-      .optional(),
+    phoneNumber: phoneNumberValidator.optional(),
 
     // OPTIONAL MEDIA (INPUT ONLY)
     profilePicture: fileSchema.optional(),
@@ -117,6 +156,8 @@ export const signupValidator = z
         PASSWORD_REGEX,
         "Password must be 8-24 characters and include uppercase, lowercase, number, and special character."
       ),
+
+    verificationChannel: z.enum(OtpChannel).optional(),
   })
   .superRefine((data, ctx) => {
     if (data.phoneNumber && !data.dialCode) {
@@ -134,7 +175,42 @@ export const signupValidator = z
         code: "custom",
       });
     }
-  });
+
+    if (
+      data.dialCode &&
+      data.phoneNumber &&
+      !normalizePhoneNumber(data.dialCode, data.phoneNumber)
+    ) {
+      ctx.addIssue({
+        path: ["phoneNumber"],
+        message: "Phone number is not valid for the selected dial code",
+        code: "custom",
+      });
+    }
+
+    if (data.verificationChannel === OtpChannel.SMS && !data.phoneNumber) {
+      ctx.addIssue({
+        path: ["verificationChannel"],
+        message: "Phone number is required for SMS verification",
+        code: "custom",
+      });
+    }
+  })
+  .transform(withNormalizedPhone);
+
+/* ----------------------------------
+ * USERNAME AVAILABILITY
+ * Format & reserved names are reported by the service,
+ * not rejected here
+ * ---------------------------------- */
+
+export const usernameAvailabilityValidator = z.object({
+  username: z
+    .string({ error: "Username is required." })
+    .trim()
+    .min(1, "Username is required.")
+    .max(50, "Username is too long."),
+});
 
 /* =====================================================
  * SESSION TOKEN VALIDATOR
@@ -172,7 +248,7 @@ export const sessionTokenBodyOrQueryValidator = z
  * IDENTIFIER VALIDATOR
  * Accepts email, username, or phone number
  * ===================================================== */
-const _identifierRegex = `${USERNAME_REGEX.source}|${EMAIL_REGEX.source}|${PHONE_NUMBER_REGEX.source}`;
+const _identifierRegex = `${USERNAME_REGEX.source}|${EMAIL_REGEX.source}|${PHONE_NUMBER_REGEX.source}|${E164_REGEX.source}`;
 export const identifierValidator = z
   .string({
     error: "Identifier is required.",
@@ -207,7 +283,7 @@ export const signinValidator = z.object({
     .string({ error: "Identifier is required" })
     .regex(
       new RegExp(
-        `${USERNAME_REGEX.source}|${EMAIL_REGEX.source}|${PHONE_NUMBER_REGEX.source}`
+        `${USERNAME_REGEX.source}|${EMAIL_REGEX.source}|${PHONE_NUMBER_REGEX.source}|${E164_REGEX.source}`
       ),
       "Invalid identifier"
     ),
@@ -254,3 +330,103 @@ export const resetPasswordValidator = z
     path: ["confirmPassword"],
     message: "Passwords do not match",
   });
+
+/* =====================================================
+ * OTP CHANNEL VALIDATOR
+ * Email (default) or SMS delivery
+ * ===================================================== */
+
+export const otpChannelValidator = z.enum(OtpChannel, {
+  error: "Channel must be EMAIL or SMS.",
+});
+
+/* ----------------------------------
+ * PHONE VERIFICATION
+ * ---------------------------------- */
+
+export const phoneVerificationRequestValidator = z
+  .object({
+    dialCode: z.enum(DialCode).optional(),
+
+    phoneNumber: phoneNumberValidator.optional(),
+  })
+  .refine((data) => !!data.dialCode === !!data.phoneNumber, {
+    path: ["phoneNumber"],
+    message: "Phone number and dial code must be provided together",
+  })
+  .refine(
+    (data) =>
+      !data.dialCode ||
+      !data.phoneNumber ||
+      !!normalizePhoneNumber(data.dialCode, data.phoneNumber),
+    {
+      path: ["phoneNumber"],
+      message: "Phone number is not valid for the selected dial code",
+    }
+  )
+  .transform(withNormalizedPhone);
+
+/* ----------------------------------
+ * CHANGE PASSWORD
+ * ---------------------------------- */
+
+export const changePasswordValidator = z
+  .object({
+    currentPassword: z
+      .string({ error: "Current password is required" })
+      .min(1, "Current password is required"),
+
+    newPassword: z
+      .string({ error: "Password is required" })
+      .regex(
+        PASSWORD_REGEX,
+        "Password must be 8-24 characters and include uppercase, lowercase, number, and special character."
+      ),
+
+    confirmPassword: z.string(),
+
+    revokeOtherSessions: z.boolean().optional(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    path: ["confirmPassword"],
+    message: "Passwords do not match",
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    path: ["newPassword"],
+    message: "New password must be different from the current password",
+  });
+
+/* ----------------------------------
+ * CHANGE EMAIL
+ * ---------------------------------- */
+
+export const changeEmailRequestValidator = z.object({
+  newEmail: z
+    .string({ error: "New email address is required." })
+    .trim()
+    .regex(EMAIL_REGEX, "Invalid email address.")
+    .transform((v) => v.toLowerCase()),
+
+  currentPassword: z
+    .string({ error: "Current password must be a string." })
+    .min(1, "Current password is required")
+    .optional(),
+});
+
+/* ----------------------------------
+ * NOTIFICATION PREFERENCES
+ * ---------------------------------- */
+
+export const notificationPreferencesValidator = z
+  .object({
+    loginAlerts: z
+      .boolean({ error: "loginAlerts must be a boolean." })
+      .optional(),
+    logoutAlerts: z
+      .boolean({ error: "logoutAlerts must be a boolean." })
+      .optional(),
+  })
+  .refine(
+    (data) => data.loginAlerts !== undefined || data.logoutAlerts !== undefined,
+    { message: "Provide at least one preference to update." }
+  );
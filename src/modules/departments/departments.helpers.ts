@@ -0,0 +1,278 @@
+// ==========================================
+// FILE: src/rest/departments/departments.helpers.ts
+// ==========================================
+/**
+ * Department helpers
+ * - Department resolution & authorization (RBAC policy)
+ * - Tree maintenance (ancestors of a moved subtree)
+ * - Member assignments (shared with organizations & future routing)
+ */
+
+import { Types } from "mongoose";
+
+import { appConfig } from "@config/app.config";
+import { Permission } from "@constants/enum.constants";
+import { DepartmentModel, IDepartment } from "@models/Department.model";
+import {
+  IOrganizationMembership,
+  OrganizationMembershipModel,
+} from "@models/OrganizationMembership.model";
+import { CURRENT_MEMBERSHIP_STATUSES } from "@modules/organizations/organizations.helpers";
+import { OrganizationActorInput } from "@modules/organizations/organizations.types";
+import { authorize } from "@modules/roles/roles.helpers";
+import { AppError } from "@utils/AppError.util";
+import { DepartmentSummary } from "./departments.types";
+
+// Case-insensitive name comparison (matches the unique index)
+export const NAME_COLLATION = { locale: "en", strength: 2 };
+
+/* ----------------------------------
+ * RESOLUTION & RULES
+ * ---------------------------------- */
+
+/**
+ * Loads a department & requires `permission` on it
+ * (organization roles, or department roles on it or a parent department)
+ */
+export const getAuthorizedDepartment = async (
+  actor: OrganizationActorInput,
+  departmentId: string,
+  permission: Permission
+): Promise<IDepartment> => {
+  const department = await DepartmentModel.findById(departmentId);
+  if (!department) throw new AppError("Department not found.", 404);
+
+  await authorize(actor, permission, {
+    businessProfileId: String(department.businessProfileId),
+    departmentId,
+  });
+
+  return department;
+};
+
+/**
+ * Sibling department names are unique (case-insensitive)
+ */
+export const assertUniqueSiblingName = async (
+  businessProfileId: Types.ObjectId | string,
+  parentId: Types.ObjectId | string | undefined,
+  name: string,
+  excludeId?: Types.ObjectId
+): Promise<void> => {
+  const existing = await DepartmentModel.findOne({
+    businessProfileId,
+    parentId: parentId || { $exists: false },
+    name,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  })
+    .collation(NAME_COLLATION)
+    .select("_id")
+    .lean();
+
+  if (existing) {
+    throw new AppError(
+      `A department named "${name}" already exists at this level.`,
+      409 // Conflict
+    );
+  }
+};
+
+/* ----------------------------------
+ * TREE
+ * ---------------------------------- */
+
+/**
+ * Levels below a department (0 for a leaf)
+ */
+export const getSubtreeHeight = async (
+  department: IDepartment
+): Promise<number> => {
+  const descendants = await DepartmentModel.find({
+    ancestors: department._id,
+  })
+    .select("ancestors")
+    .lean();
+
+  return Math.max(
+    0,
+    ...descendants.map((d) => d.ancestors.length - department.ancestors.length)
+  );
+};
+
+/**
+ * Rejects a parent that would exceed `DEPARTMENTS.MAX_DEPTH`
+ */
+export const assertDepthAllowed = (
+  parent: IDepartment | null,
+  subtreeHeight = 0
+): void => {
+  const depth = (parent ? parent.ancestors.length + 2 : 1) + subtreeHeight;
+
+  if (depth > appConfig.DEPARTMENTS.MAX_DEPTH) {
+    throw new AppError(
+      `Departments can be nested at most ${appConfig.DEPARTMENTS.MAX_DEPTH} levels deep.`,
+      400
+    );
+  }
+};
+
+/**
+ * Re-parents a department and rewrites the ancestors of its subtree
+ */
+export const reparentDepartment = async (
+  department: IDepartment,
+  parent: IDepartment | null
+): Promise<void> => {
+  const ancestors = parent ? [...parent.ancestors, parent._id] : [];
+
+  const descendants = await DepartmentModel.find({
+    ancestors: department._id,
+  })
+    .select("ancestors")
+    .lean();
+
+  await DepartmentModel.bulkWrite([
+    {
+      updateOne: {
+        filter: { _id: department._id },
+        update: parent
+          ? { $set: { parentId: parent._id, ancestors } }
+          : { $set: { ancestors }, $unset: { parentId: "" } },
+      },
+    },
+    ...descendants.map((descendant) => {
+      // Keep the path below the moved department, replace the part above it
+      const index = descendant.ancestors.findIndex((id) =>
+        id.equals(department._id as Types.ObjectId)
+      );
+
+      return {
+        updateOne: {
+          filter: { _id: descendant._id },
+          update: {
+            $set: {
+              ancestors: [...ancestors, ...descendant.ancestors.slice(index)],
+            },
+          },
+        },
+      };
+    }),
+  ]);
+};
+
+/* ----------------------------------
+ * MEMBER ASSIGNMENTS
+ * ---------------------------------- */
+
+/**
+ * Resolves current memberships of an organization (all ids must match)
+ */
+export const getCurrentMemberships = async (
+  businessProfileId: Types.ObjectId | string,
+  membershipIds: string[]
+): Promise<IOrganizationMembership[]> => {
+  const memberships = await OrganizationMembershipModel.find({
+    _id: { $in: membershipIds },
+    businessProfileId,
+    status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+  });
+
+  if (memberships.length !== membershipIds.length) {
+    throw new AppError(
+      "Some memberships were not found in this organization.",
+      404
+    );
+  }
+
+  return memberships;
+};
+
+/**
+ * A department, plus its sub-departments when requested
+ */
+export const getDepartmentScopeIds = async (
+  departmentId: Types.ObjectId | string,
+  includeSubdepartments: boolean
+): Promise<Types.ObjectId[]> => {
+  const scopeIds = [new Types.ObjectId(String(departmentId))];
+
+  if (includeSubdepartments) {
+    const descendants = await DepartmentModel.find({ ancestors: departmentId })
+      .select("_id")
+      .lean();
+    scopeIds.push(...descendants.map((d) => d._id as Types.ObjectId));
+  }
+
+  return scopeIds;
+};
+
+/**
+ * User ids assigned to a department (optionally with its sub-departments).
+ * Used to route work to a department.
+ */
+export const getDepartmentMemberUserIds = async (
+  departmentId: string,
+  includeSubdepartments = false
+): Promise<string[]> => {
+  const memberships = await OrganizationMembershipModel.find({
+    departmentIds: {
+      $in: await getDepartmentScopeIds(departmentId, includeSubdepartments),
+    },
+    status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+  })
+    .select("userId")
+    .lean();
+
+  return memberships.map((m) => String(m.userId));
+};
+
+/**
+ * Drops a departed member's assignments, roles & head positions
+ */
+export const clearDepartmentAssignments = async (
+  userId: string,
+  businessProfileId: string
+): Promise<void> => {
+  await OrganizationMembershipModel.updateOne(
+    { businessProfileId, userId },
+    {
+      $set: { departmentIds: [], departmentRoles: [] },
+      $unset: { customRoleId: "" },
+    }
+  );
+
+  await DepartmentModel.updateMany(
+    { businessProfileId, headUserIds: userId },
+    { $pull: { headUserIds: userId } }
+  );
+};
+
+/* ----------------------------------
+ * MAPPING
+ * ---------------------------------- */
+
+export const toDepartmentSummary = (
+  department: Pick<
+    IDepartment,
+    | "_id"
+    | "businessProfileId"
+    | "name"
+    | "description"
+    | "parentId"
+    | "ancestors"
+    | "headUserIds"
+    | "createdAt"
+  >,
+  memberCount = 0
+): DepartmentSummary => ({
+  id: String(department._id),
+  businessProfileId: String(department.businessProfileId),
+  name: department.name,
+  description: department.description,
+  parentId: department.parentId ? String(department.parentId) : undefined,
+  ancestorIds: department.ancestors.map(String),
+  depth: department.ancestors.length + 1,
+  headUserIds: department.headUserIds.map(String),
+  memberCount,
+  createdAt: department.createdAt,
+});
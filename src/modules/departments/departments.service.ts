@@ -0,0 +1,604 @@
+// ==========================================
+// FILE: src/rest/departments/departments.service.ts
+// ==========================================
+/**
+ * Departments Service
+ * ------------------------------------------
+ * Department hierarchy inside an organization (business profile)
+ * - Parent / child departments (materialized ancestors)
+ * - Department heads & member assignments (on the membership)
+ * - Moves & merges keep member assignments
+ * - Authorized per department: organization roles or department roles
+ *   on the department or one of its parents
+ */
+
+import { Types } from "mongoose";
+
+import { appConfig } from "@config/app.config";
+import { Permission } from "@constants/enum.constants";
+import { DepartmentModel, IDepartment } from "@models/Department.model";
+import { OrganizationMembershipModel } from "@models/OrganizationMembership.model";
+import {
+  CURRENT_MEMBERSHIP_STATUSES,
+  loadMemberUsers,
+  toMemberSummary,
+} from "@modules/organizations/organizations.helpers";
+import {
+  OrganizationActorInput,
+  OrganizationMemberSummary,
+} from "@modules/organizations/organizations.types";
+import { authorize } from "@modules/roles/roles.helpers";
+import { AppError } from "@utils/AppError.util";
+import {
+  assertDepthAllowed,
+  assertUniqueSiblingName,
+  getAuthorizedDepartment,
+  getCurrentMemberships,
+  getDepartmentScopeIds,
+  getSubtreeHeight,
+  NAME_COLLATION,
+  reparentDepartment,
+  toDepartmentSummary,
+} from "./departments.helpers";
+import {
+  DepartmentCreateInput,
+  DepartmentIdInput,
+  DepartmentListInput,
+  DepartmentMembersInput,
+  DepartmentMembershipsInput,
+  DepartmentMergeInput,
+  DepartmentMoveInput,
+  DepartmentSummary,
+  DepartmentTreeNode,
+  DepartmentUpdateInput,
+} from "./departments.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+/**
+ * Current members directly assigned to each department of an organization
+ */
+const countMembersByDepartment = async (
+  businessProfileId: string
+): Promise<Map<string, number>> => {
+  const rows = await OrganizationMembershipModel.aggregate<{
+    _id: Types.ObjectId;
+    count: number;
+  }>([
+    {
+      $match: {
+        businessProfileId: new Types.ObjectId(businessProfileId),
+        status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+      },
+    },
+    { $unwind: "$departmentIds" },
+    { $group: { _id: "$departmentIds", count: { $sum: 1 } } },
+  ]);
+
+  return new Map(rows.map((row) => [String(row._id), row.count]));
+};
+
+const getDepartmentSummary = async (
+  departmentId: Types.ObjectId | string
+): Promise<DepartmentSummary> => {
+  const department = await DepartmentModel.findById(departmentId).lean();
+  if (!department) throw new AppError("Department not found.", 404);
+
+  const memberCount = await OrganizationMembershipModel.countDocuments({
+    departmentIds: department._id,
+    status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+  });
+
+  return toDepartmentSummary(department, memberCount);
+};
+
+/**
+ * Loads another department of the same organization the caller manages
+ */
+const getManagedSiblingDepartment = async (
+  actor: OrganizationActorInput,
+  department: IDepartment,
+  departmentId: string
+): Promise<IDepartment> => {
+  const other = await DepartmentModel.findOne({
+    _id: departmentId,
+    businessProfileId: department.businessProfileId,
+  });
+
+  if (!other) throw new AppError("Department not found.", 404);
+
+  await authorize(actor, Permission.DEPARTMENTS_MANAGE, {
+    businessProfileId: String(other.businessProfileId),
+    departmentId,
+  });
+
+  return other;
+};
+
+/**
+ * Drops department roles granted on a deleted department
+ */
+const clearDepartmentRoles = async (
+  departmentId: Types.ObjectId
+): Promise<void> => {
+  await OrganizationMembershipModel.updateMany(
+    { "departmentRoles.departmentId": departmentId },
+    { $pull: { departmentRoles: { departmentId } } }
+  );
+};
+
+/**
+ * Whether `candidate` is `root` or one of its sub-departments
+ */
+const isInSubtree = (candidate: IDepartment, root: IDepartment): boolean =>
+  String(candidate._id) === String(root._id) ||
+  candidate.ancestors.some((id) => String(id) === String(root._id));
+
+/* ----------------------------------
+ * DEPARTMENTS SERVICE
+ * ---------------------------------- */
+
+export class DepartmentsService {
+  /**
+   * LIST SERVICE - Every department of an organization (flat)
+   */
+  static async listDepartmentsService(
+    input: DepartmentListInput
+  ): Promise<DepartmentSummary[]> {
+    await authorize(input, Permission.DEPARTMENTS_READ, {
+      businessProfileId: input.businessProfileId,
+    });
+
+    const [departments, memberCounts] = await Promise.all([
+      DepartmentModel.find({ businessProfileId: input.businessProfileId })
+        .collation(NAME_COLLATION)
+        .sort({ name: 1 })
+        .lean(),
+      countMembersByDepartment(input.businessProfileId),
+    ]);
+
+    return departments.map((department) =>
+      toDepartmentSummary(
+        department,
+        memberCounts.get(String(department._id)) || 0
+      )
+    );
+  }
+
+  /**
+   * TREE SERVICE - Departments nested under their parents
+   */
+  static async getDepartmentTreeService(
+    input: DepartmentListInput
+  ): Promise<DepartmentTreeNode[]> {
+    const departments = await DepartmentsService.listDepartmentsService(input);
+
+    const nodes = new Map<string, DepartmentTreeNode>(
+      departments.map((department) => [
+        department.id,
+        { department, children: [] },
+      ])
+    );
+
+    const roots: DepartmentTreeNode[] = [];
+
+    for (const node of nodes.values()) {
+      const parent = node.department.parentId
+        ? nodes.get(node.department.parentId)
+        : undefined;
+
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    }
+
+    return roots;
+  }
+
+  /**
+   * GET SERVICE - A single department
+   */
+  static async getDepartmentService(
+    input: DepartmentIdInput
+  ): Promise<DepartmentSummary> {
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.DEPARTMENTS_READ
+    );
+
+    return getDepartmentSummary(department._id as Types.ObjectId);
+  }
+
+  /**
+   * MEMBERS SERVICE - Members assigned to a department (or its subtree)
+   */
+  static async listDepartmentMembersService(
+    input: DepartmentMembersInput
+  ): Promise<OrganizationMemberSummary[]> {
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.MEMBERS_READ
+    );
+
+    const memberships = await OrganizationMembershipModel.find({
+      businessProfileId: department.businessProfileId,
+      departmentIds: {
+        $in: await getDepartmentScopeIds(
+          department._id as Types.ObjectId,
+          input.includeSubdepartments
+        ),
+      },
+      status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+    })
+      .sort({ joinedAt: 1 })
+      .lean();
+
+    const users = await loadMemberUsers(
+      memberships.map((m) => String(m.userId))
+    );
+
+    return memberships.map((membership) =>
+      toMemberSummary(membership, {
+        user: users.get(String(membership.userId)),
+      })
+    );
+  }
+
+  /**
+   * CREATE SERVICE - Root department or sub-department
+   */
+  static async createDepartmentService(
+    input: DepartmentCreateInput
+  ): Promise<DepartmentSummary> {
+    /* =====================================================
+     * 1️⃣ Authorize (on the parent for sub-departments) & enforce the limit
+     * ===================================================== */
+    await authorize(input, Permission.DEPARTMENTS_MANAGE, {
+      businessProfileId: input.businessProfileId,
+      departmentId: input.parentId,
+    });
+
+    const departmentCount = await DepartmentModel.countDocuments({
+      businessProfileId: input.businessProfileId,
+    });
+
+    if (departmentCount >= appConfig.DEPARTMENTS.MAX_PER_ORGANIZATION) {
+      throw new AppError(
+        `An organization can have at most ${appConfig.DEPARTMENTS.MAX_PER_ORGANIZATION} departments.`,
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Resolve the parent & validate placement
+     * ===================================================== */
+    let parent: IDepartment | null = null;
+
+    if (input.parentId) {
+      parent = await DepartmentModel.findOne({
+        _id: input.parentId,
+        businessProfileId: input.businessProfileId,
+      });
+
+      if (!parent) throw new AppError("Parent department not found.", 404);
+    }
+
+    assertDepthAllowed(parent);
+    await assertUniqueSiblingName(
+      input.businessProfileId,
+      parent?._id as Types.ObjectId | undefined,
+      input.name
+    );
+
+    /* =====================================================
+     * 3️⃣ Create
+     * ===================================================== */
+    const department = await DepartmentModel.create({
+      businessProfileId: input.businessProfileId,
+      name: input.name,
+      ...(input.description && { description: input.description }),
+      ...(parent && {
+        parentId: parent._id,
+        ancestors: [...parent.ancestors, parent._id],
+      }),
+      createdBy: input.userId,
+    });
+
+    return toDepartmentSummary(department);
+  }
+
+  /**
+   * UPDATE SERVICE - Rename / describe a department
+   */
+  static async updateDepartmentService(
+    input: DepartmentUpdateInput
+  ): Promise<DepartmentSummary> {
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.DEPARTMENTS_MANAGE
+    );
+
+    if (input.name) {
+      await assertUniqueSiblingName(
+        department.businessProfileId,
+        department.parentId,
+        input.name,
+        department._id as Types.ObjectId
+      );
+    }
+
+    await DepartmentModel.updateOne(
+      { _id: department._id },
+      {
+        $set: {
+          ...(input.name && { name: input.name }),
+          ...(input.description !== undefined && {
+            description: input.description,
+          }),
+        },
+      }
+    );
+
+    return getDepartmentSummary(department._id as Types.ObjectId);
+  }
+
+  /**
+   * MOVE SERVICE - Moves a department & its subtree (assignments unchanged)
+   */
+  static async moveDepartmentService(
+    input: DepartmentMoveInput
+  ): Promise<DepartmentSummary> {
+    /* =====================================================
+     * 1️⃣ Resolve department & new parent
+     * ===================================================== */
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.DEPARTMENTS_MANAGE
+    );
+
+    const parent = input.parentId
+      ? await getManagedSiblingDepartment(input, department, input.parentId)
+      : null;
+
+    // Top-level departments are organization-wide
+    if (!parent) {
+      await authorize(input, Permission.DEPARTMENTS_MANAGE, {
+        businessProfileId: String(department.businessProfileId),
+      });
+    }
+
+    if (parent && isInSubtree(parent, department)) {
+      throw new AppError(
+        "A department cannot be moved under itself or one of its sub-departments.",
+        400
+      );
+    }
+
+    if (String(parent?._id ?? "") === String(department.parentId ?? "")) {
+      return getDepartmentSummary(department._id as Types.ObjectId);
+    }
+
+    /* =====================================================
+     * 2️⃣ Validate the new placement
+     * ===================================================== */
+    assertDepthAllowed(parent, await getSubtreeHeight(department));
+    await assertUniqueSiblingName(
+      department.businessProfileId,
+      parent?._id as Types.ObjectId | undefined,
+      department.name,
+      department._id as Types.ObjectId
+    );
+
+    /* =====================================================
+     * 3️⃣ Re-parent the subtree
+     * ===================================================== */
+    await reparentDepartment(department, parent);
+
+    return getDepartmentSummary(department._id as Types.ObjectId);
+  }
+
+  /**
+   * MERGE SERVICE - Moves members & sub-departments into another department,
+   * then deletes the source
+   */
+  static async mergeDepartmentsService(
+    input: DepartmentMergeInput
+  ): Promise<DepartmentSummary> {
+    /* =====================================================
+     * 1️⃣ Resolve source & target
+     * ===================================================== */
+    const source = await getAuthorizedDepartment(
+      input,
+      input.sourceDepartmentId,
+      Permission.DEPARTMENTS_MANAGE
+    );
+    const target = await getManagedSiblingDepartment(
+      input,
+      source,
+      input.targetDepartmentId
+    );
+
+    if (isInSubtree(target, source)) {
+      throw new AppError(
+        "A department cannot be merged into one of its sub-departments.",
+        400
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Validate where the sub-departments land
+     * ===================================================== */
+    const children = await DepartmentModel.find({ parentId: source._id });
+
+    if (children.length) {
+      assertDepthAllowed(target, (await getSubtreeHeight(source)) - 1);
+
+      for (const child of children) {
+        await assertUniqueSiblingName(
+          target.businessProfileId,
+          target._id as Types.ObjectId,
+          child.name
+        );
+      }
+    }
+
+    /* =====================================================
+     * 3️⃣ Move sub-departments & member assignments
+     * ===================================================== */
+    for (const child of children) {
+      await reparentDepartment(child, target);
+    }
+
+    await OrganizationMembershipModel.updateMany(
+      { departmentIds: source._id },
+      { $addToSet: { departmentIds: target._id } }
+    );
+    await OrganizationMembershipModel.updateMany(
+      { departmentIds: source._id },
+      { $pull: { departmentIds: source._id } }
+    );
+
+    /* =====================================================
+     * 4️⃣ Delete the source (its heads stay members of the target,
+     *    roles granted on it are not carried over)
+     * ===================================================== */
+    await DepartmentModel.deleteOne({ _id: source._id });
+    await clearDepartmentRoles(source._id as Types.ObjectId);
+
+    return getDepartmentSummary(target._id as Types.ObjectId);
+  }
+
+  /**
+   * DELETE SERVICE - Deletes an empty department
+   */
+  static async deleteDepartmentService(
+    input: DepartmentIdInput
+  ): Promise<void> {
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.DEPARTMENTS_MANAGE
+    );
+
+    const [hasChildren, hasMembers] = await Promise.all([
+      DepartmentModel.exists({ parentId: department._id }),
+      OrganizationMembershipModel.exists({
+        departmentIds: department._id,
+        status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+      }),
+    ]);
+
+    if (hasChildren || hasMembers) {
+      throw new AppError(
+        "Only empty departments can be deleted. Move or merge its sub-departments and members first.",
+        409 // Conflict
+      );
+    }
+
+    await DepartmentModel.deleteOne({ _id: department._id });
+
+    // Assignments of former members are no longer meaningful
+    await OrganizationMembershipModel.updateMany(
+      { departmentIds: department._id },
+      { $pull: { departmentIds: department._id } }
+    );
+    await clearDepartmentRoles(department._id as Types.ObjectId);
+  }
+
+  /**
+   * HEADS SERVICE - Replaces the department heads (heads are assigned too)
+   */
+  static async setDepartmentHeadsService(
+    input: DepartmentMembershipsInput
+  ): Promise<DepartmentSummary> {
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.DEPARTMENT_MEMBERS_MANAGE
+    );
+
+    if (input.membershipIds.length > appConfig.DEPARTMENTS.MAX_HEADS) {
+      throw new AppError(
+        `A department can have at most ${appConfig.DEPARTMENTS.MAX_HEADS} heads.`,
+        400
+      );
+    }
+
+    const memberships = await getCurrentMemberships(
+      department.businessProfileId,
+      input.membershipIds
+    );
+
+    await OrganizationMembershipModel.updateMany(
+      { _id: { $in: memberships.map((m) => m._id) } },
+      { $addToSet: { departmentIds: department._id } }
+    );
+
+    await DepartmentModel.updateOne(
+      { _id: department._id },
+      { $set: { headUserIds: memberships.map((m) => m.userId) } }
+    );
+
+    return getDepartmentSummary(department._id as Types.ObjectId);
+  }
+
+  /**
+   * ASSIGN SERVICE - Assigns members to a department
+   */
+  static async assignDepartmentMembersService(
+    input: DepartmentMembershipsInput
+  ): Promise<DepartmentSummary> {
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.DEPARTMENT_MEMBERS_MANAGE
+    );
+
+    const memberships = await getCurrentMemberships(
+      department.businessProfileId,
+      input.membershipIds
+    );
+
+    await OrganizationMembershipModel.updateMany(
+      { _id: { $in: memberships.map((m) => m._id) } },
+      { $addToSet: { departmentIds: department._id } }
+    );
+
+    return getDepartmentSummary(department._id as Types.ObjectId);
+  }
+
+  /**
+   * UNASSIGN SERVICE - Removes members from a department (and its heads)
+   */
+  static async unassignDepartmentMembersService(
+    input: DepartmentMembershipsInput
+  ): Promise<DepartmentSummary> {
+    const department = await getAuthorizedDepartment(
+      input,
+      input.departmentId,
+      Permission.DEPARTMENT_MEMBERS_MANAGE
+    );
+
+    const memberships = await getCurrentMemberships(
+      department.businessProfileId,
+      input.membershipIds
+    );
+
+    await OrganizationMembershipModel.updateMany(
+      { _id: { $in: memberships.map((m) => m._id) } },
+      { $pull: { departmentIds: department._id } }
+    );
+
+    await DepartmentModel.updateOne(
+      { _id: department._id },
+      { $pull: { headUserIds: { $in: memberships.map((m) => m.userId) } } }
+    );
+
+    return getDepartmentSummary(department._id as Types.ObjectId);
+  }
+}
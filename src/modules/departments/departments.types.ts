@@ -0,0 +1,97 @@
+// ==========================================
+// FILE: src/rest/departments/departments.types.ts
+// ==========================================
+/**
+ * Department types & contracts
+ * Used by service, helpers, validators & GraphQL resolvers
+ */
+
+import { OrganizationActorInput } from "@modules/organizations/organizations.types";
+
+/* =====================================================
+ * DEPARTMENTS – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Departments of one organization (flat list or tree)
+ */
+export interface DepartmentListInput extends OrganizationActorInput {
+  businessProfileId: string;
+}
+
+/**
+ * Any operation on a single department
+ */
+export interface DepartmentIdInput extends OrganizationActorInput {
+  departmentId: string;
+}
+
+/**
+ * Members assigned to a department
+ */
+export interface DepartmentMembersInput extends DepartmentIdInput {
+  includeSubdepartments: boolean;
+}
+
+/**
+ * Create a root department, or a sub-department of `parentId`
+ */
+export interface DepartmentCreateInput extends OrganizationActorInput {
+  businessProfileId: string;
+  name: string;
+  description?: string | undefined;
+  parentId?: string | undefined;
+}
+
+/**
+ * Rename / describe a department
+ */
+export interface DepartmentUpdateInput extends DepartmentIdInput {
+  name?: string | undefined;
+  description?: string | undefined;
+}
+
+/**
+ * Move a department (and its subtree) under another parent, or to the root
+ */
+export interface DepartmentMoveInput extends DepartmentIdInput {
+  parentId?: string | undefined; // root when omitted
+}
+
+/**
+ * Merge `sourceDepartmentId` into `targetDepartmentId`
+ * (members, heads & sub-departments move over, the source is deleted)
+ */
+export interface DepartmentMergeInput extends OrganizationActorInput {
+  sourceDepartmentId: string;
+  targetDepartmentId: string;
+}
+
+/**
+ * Assign / unassign members, or replace the department heads
+ */
+export interface DepartmentMembershipsInput extends DepartmentIdInput {
+  membershipIds: string[];
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface DepartmentSummary {
+  id: string;
+  businessProfileId: string;
+  name: string;
+  description?: string | undefined;
+  parentId?: string | undefined;
+  ancestorIds: string[]; // root → parent
+  depth: number; // 1 for root departments
+  headUserIds: string[];
+  memberCount: number; // direct assignments
+  createdAt: Date;
+}
+
+export interface DepartmentTreeNode {
+  department: DepartmentSummary;
+  children: DepartmentTreeNode[];
+}
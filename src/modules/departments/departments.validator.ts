@@ -0,0 +1,105 @@
+// ==========================================
+// FILE: src/rest/departments/departments.validator.ts
+// ==========================================
+/**
+ * Department validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB logic
+ */
+
+import { z } from "zod";
+
+import { businessProfileIdValidator } from "@modules/organizations/organizations.validator";
+
+const objectIdValidator = (label: string) =>
+  z
+    .string({ error: `${label} is required.` })
+    .regex(/^[a-f\d]{24}$/i, `Invalid ${label.toLowerCase()}.`);
+
+const nameValidator = z
+  .string({ error: "Department name is required." })
+  .trim()
+  .min(2, "Department name must be at least 2 characters.")
+  .max(60, "Department name must be at most 60 characters.");
+
+const descriptionValidator = z
+  .string()
+  .trim()
+  .max(300, "Description must be at most 300 characters.");
+
+/* ----------------------------------
+ * IDS
+ * ---------------------------------- */
+
+export const departmentIdValidator = objectIdValidator("Department id");
+
+/* ----------------------------------
+ * BROWSE
+ * ---------------------------------- */
+
+export const departmentListValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+});
+
+export const departmentMembersValidator = z.object({
+  departmentId: departmentIdValidator,
+  includeSubdepartments: z.boolean().default(false),
+});
+
+/* ----------------------------------
+ * CREATE / UPDATE
+ * ---------------------------------- */
+
+export const departmentCreateValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+  name: nameValidator,
+  description: descriptionValidator.optional(),
+  parentId: departmentIdValidator.optional(),
+});
+
+export const departmentUpdateValidator = z
+  .object({
+    departmentId: departmentIdValidator,
+    name: nameValidator.optional(),
+    description: descriptionValidator.optional(),
+  })
+  .refine((data) => data.name || data.description !== undefined, {
+    message: "Provide a name or a description to update.",
+  });
+
+/* ----------------------------------
+ * MOVE / MERGE
+ * ---------------------------------- */
+
+export const departmentMoveValidator = z.object({
+  departmentId: departmentIdValidator,
+  // Omitted or null → move to the root
+  parentId: departmentIdValidator
+    .nullish()
+    .transform((value) => value ?? undefined),
+});
+
+export const departmentMergeValidator = z
+  .object({
+    sourceDepartmentId: departmentIdValidator,
+    targetDepartmentId: departmentIdValidator,
+  })
+  .refine((data) => data.sourceDepartmentId !== data.targetDepartmentId, {
+    path: ["targetDepartmentId"],
+    message: "A department cannot be merged into itself.",
+  });
+
+/* ----------------------------------
+ * MEMBERS & HEADS
+ * ---------------------------------- */
+
+export const departmentMembershipsValidator = z.object({
+  departmentId: departmentIdValidator,
+  membershipIds: z
+    .array(objectIdValidator("Membership id"), {
+      error: "Membership ids are required.",
+    })
+    .max(100, "At most 100 members can be changed at once.")
+    .transform((ids) => [...new Set(ids)]),
+});
@@ -0,0 +1,235 @@
+// ==========================================
+// FILE: src/rest/invitations/invitations.controller.ts
+// ==========================================
+/**
+ * Invitations Controller
+ * ------------------------------------------
+ * - Invite / list / resend / revoke (organization members)
+ * - Preview / accept / decline (emailed link holders)
+ * - Join as the signed-in user
+ */
+
+import { OtpChannel } from "@constants/enum.constants";
+import { AuthContext } from "@modules/auth/auth.types";
+import { OrganizationActorInput } from "@modules/organizations/organizations.types";
+import { AppError } from "@utils/AppError.util";
+import { applyTokenTransport } from "@utils/authCookie.util";
+import { getClientMeta } from "@utils/device.util";
+import { Request, Response } from "express";
+import { InvitationsService } from "./invitations.service";
+import {
+  invitationAcceptValidator,
+  invitationCreateValidator,
+  invitationIdValidator,
+  invitationListValidator,
+  invitationTokenValidator,
+} from "./invitations.validator";
+
+const toActor = (auth: AuthContext): OrganizationActorInput => ({
+  userId: auth.userId,
+  apiKeyBusinessProfileId: auth.apiKey?.businessProfileId,
+});
+
+export class InvitationsController {
+  /**
+   * GET /organizations/:businessProfileId/invitations
+   */
+  static async listInvitationsController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = invitationListValidator.parse({
+      businessProfileId: req.params.businessProfileId,
+      status: req.query.status,
+    });
+
+    // 2. Call Service
+    const result = await InvitationsService.listInvitationsService({
+      ...toActor(req.auth),
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Invitations fetched successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /organizations/:businessProfileId/invitations
+   */
+  static async createInvitationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = invitationCreateValidator.parse({
+      ...(req.body || {}),
+      businessProfileId: req.params.businessProfileId,
+    });
+
+    // 2. Call Service
+    const result = await InvitationsService.createInvitationService(
+      { ...toActor(req.auth), ...parsedData },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(201).json({
+      success: true,
+      message: `An invitation has been sent to ${result.email}.`,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /organizations/:businessProfileId/invitations/:invitationId/resend
+   */
+  static async resendInvitationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const invitationId = invitationIdValidator.parse(req.params.invitationId);
+
+    // 2. Call Service
+    const result = await InvitationsService.resendInvitationService(
+      { ...toActor(req.auth), invitationId },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "The invitation has been resent. Previous links no longer work.",
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /organizations/:businessProfileId/invitations/:invitationId
+   */
+  static async revokeInvitationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const invitationId = invitationIdValidator.parse(req.params.invitationId);
+
+    // 2. Call Service
+    const result = await InvitationsService.revokeInvitationService(
+      { ...toActor(req.auth), invitationId },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Invitation revoked successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * GET /organizations/invitations/preview?token=
+   */
+  static async previewInvitationController(req: Request, res: Response) {
+    // 1. Validate request
+    const token = invitationTokenValidator.parse(
+      req.body?.token || req.query?.token
+    );
+
+    // 2. Call Service
+    const result = await InvitationsService.previewInvitationService({ token });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Invitation fetched successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /organizations/invitations/accept
+   */
+  static async acceptInvitationController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = invitationAcceptValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const { membership, signin } =
+      await InvitationsService.acceptInvitationService(
+        parsedData,
+        getClientMeta(req)
+      );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "twoFactorRequired" in signin
+          ? "Invitation accepted. Enter the code from your authenticator app to sign in."
+          : "stepUpRequired" in signin
+            ? `Invitation accepted. Enter the verification code sent to your ${
+                signin.channel === OtpChannel.SMS ? "phone" : "email"
+              } to sign in.`
+            : "Invitation accepted. Welcome aboard!",
+      data: { membership, ...applyTokenTransport(req, res, signin) },
+    });
+  }
+
+  /**
+   * POST /organizations/invitations/join
+   */
+  static async joinInvitationController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const token = invitationTokenValidator.parse(req.body?.token);
+
+    // 2. Call Service
+    const result = await InvitationsService.joinInvitationService(
+      { ...toActor(req.auth), token },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Invitation accepted. Welcome aboard!",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /organizations/invitations/decline
+   */
+  static async declineInvitationController(req: Request, res: Response) {
+    // 1. Validate request
+    const token = invitationTokenValidator.parse(
+      req.body?.token || req.query?.token
+    );
+
+    // 2. Call Service
+    await InvitationsService.declineInvitationService(
+      { token },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Invitation declined.",
+    });
+  }
+}
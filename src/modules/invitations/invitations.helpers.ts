@@ -0,0 +1,397 @@
+// ==========================================
+// FILE: src/rest/invitations/invitations.helpers.ts
+// ==========================================
+/**
+ * Invitation helpers
+ * - Single-use tokens (only an HMAC is stored)
+ * - Invitation resolution & authorization (RBAC policy)
+ * - Email delivery
+ * - Joining the organization on accept
+ */
+
+import crypto from "crypto";
+
+import { appConfig } from "@config/app.config";
+import {
+  AuditEventType,
+  InvitationStatus,
+  MembershipStatus,
+  OrganizationRole,
+  Permission,
+} from "@constants/enum.constants";
+import { BUILT_IN_ROLE_PERMISSIONS } from "@constants/permission.constants";
+import { DepartmentModel } from "@models/Department.model";
+import {
+  IOrganizationInvitation,
+  OrganizationInvitationModel,
+} from "@models/OrganizationInvitation.model";
+import { OrganizationMembershipModel } from "@models/OrganizationMembership.model";
+import { UserModel } from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import {
+  assertActiveOrganization,
+  CURRENT_MEMBERSHIP_STATUSES,
+  linkUserToOrganization,
+  loadMemberUsers,
+  toMemberSummary,
+} from "@modules/organizations/organizations.helpers";
+import {
+  OrganizationActorInput,
+  OrganizationMemberSummary,
+} from "@modules/organizations/organizations.types";
+import { assertCanGrant, authorize } from "@modules/roles/roles.helpers";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import { sendOrganizationInvitationEmail } from "helpers/email";
+import { InvitationSummary } from "./invitations.types";
+
+const TOKEN_BYTES = 32;
+
+/* ----------------------------------
+ * TOKENS
+ * ---------------------------------- */
+
+/**
+ * Hash an invitation token for storage / lookup
+ */
+export const hashInvitationToken = (token: string): string =>
+  crypto.createHmac("sha256", appConfig.OTP.SECRET).update(token).digest("hex");
+
+/**
+ * New emailed token (returned once, never stored) & its expiry
+ */
+export const generateInvitationToken = (): {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+} => {
+  const token = crypto.randomBytes(TOKEN_BYTES).toString("base64url");
+
+  return {
+    token,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(
+      Date.now() + appConfig.INVITATIONS.EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000
+    ),
+  };
+};
+
+/* ----------------------------------
+ * STATUS
+ * ---------------------------------- */
+
+/**
+ * PENDING invitations past their expiry read as EXPIRED
+ */
+export const getInvitationStatus = (
+  invitation: Pick<IOrganizationInvitation, "status" | "expiresAt">
+): InvitationStatus =>
+  invitation.status === InvitationStatus.PENDING &&
+  invitation.expiresAt.getTime() <= Date.now()
+    ? InvitationStatus.EXPIRED
+    : invitation.status;
+
+/**
+ * Stores EXPIRED on stale pending invitations (frees the email for a new one)
+ */
+export const expireStaleInvitations = async (
+  businessProfileId: string,
+  email: string
+): Promise<void> => {
+  await OrganizationInvitationModel.updateMany(
+    {
+      businessProfileId,
+      email,
+      status: InvitationStatus.PENDING,
+      expiresAt: { $lte: new Date() },
+    },
+    { $set: { status: InvitationStatus.EXPIRED } }
+  );
+};
+
+/* ----------------------------------
+ * RESOLUTION & RULES
+ * ---------------------------------- */
+
+/**
+ * Admins are only invited with `admins:manage`, and nobody invites
+ * into a role with permissions they do not hold
+ */
+export const assertCanInviteRole = (
+  permissions: ReadonlySet<Permission>,
+  role: OrganizationRole
+): void => {
+  if (
+    role === OrganizationRole.ADMIN &&
+    !permissions.has(Permission.ADMINS_MANAGE)
+  ) {
+    throw new AppError(
+      "You are not allowed to manage admins of this organization.",
+      403 // Forbidden
+    );
+  }
+
+  assertCanGrant(permissions, BUILT_IN_ROLE_PERMISSIONS[role]);
+};
+
+/**
+ * Loads an invitation managed by the caller (`members:manage`)
+ */
+export const getManagedInvitation = async (
+  actor: OrganizationActorInput,
+  invitationId: string
+): Promise<IOrganizationInvitation> => {
+  const invitation = await OrganizationInvitationModel.findById(invitationId);
+  if (!invitation) throw new AppError("Invitation not found.", 404);
+
+  const permissions = await authorize(actor, Permission.MEMBERS_MANAGE, {
+    businessProfileId: String(invitation.businessProfileId),
+  });
+  assertCanInviteRole(permissions, invitation.role);
+
+  return invitation;
+};
+
+/**
+ * Resolves the pending invitation behind an emailed token
+ */
+export const getPendingInvitationByToken = async (
+  token: string
+): Promise<IOrganizationInvitation> => {
+  const invitation = await OrganizationInvitationModel.findOne({
+    tokenHash: hashInvitationToken(token),
+  }).select("+tokenHash");
+
+  if (!invitation) {
+    throw new AppError(
+      "This invitation link is invalid or was replaced by a newer one.",
+      404
+    );
+  }
+
+  switch (getInvitationStatus(invitation)) {
+    case InvitationStatus.PENDING:
+      return invitation;
+    case InvitationStatus.EXPIRED:
+      throw new AppError(
+        "This invitation has expired. Ask the organization for a new one.",
+        410 // Gone
+      );
+    case InvitationStatus.REVOKED:
+      throw new AppError(
+        "This invitation was revoked.",
+        410 // Gone
+      );
+    default:
+      throw new AppError(
+        "This invitation was already answered.",
+        409 // Conflict
+      );
+  }
+};
+
+/**
+ * Rejects invitees who already belong to the organization
+ */
+export const assertNotMember = async (
+  userId: string,
+  businessProfileId: string
+): Promise<void> => {
+  const existing = await OrganizationMembershipModel.exists({
+    businessProfileId,
+    userId,
+    status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+  });
+
+  if (existing) {
+    throw new AppError(
+      "This user is already a member of the organization.",
+      409 // Conflict
+    );
+  }
+};
+
+/* ----------------------------------
+ * DELIVERY
+ * ---------------------------------- */
+
+/**
+ * Names shown to the invitee (email & preview)
+ */
+export const getInvitationDetails = async (
+  invitation: Pick<
+    IOrganizationInvitation,
+    "businessProfileId" | "departmentId" | "invitedBy"
+  >
+): Promise<{
+  businessName: string;
+  inviterName?: string | undefined;
+  departmentName?: string | undefined;
+}> => {
+  const [{ businessName }, inviter, department] = await Promise.all([
+    assertActiveOrganization(String(invitation.businessProfileId)),
+    UserModel.findById(invitation.invitedBy)
+      .select("firstName lastName")
+      .lean(),
+    invitation.departmentId
+      ? DepartmentModel.findById(invitation.departmentId).select("name").lean()
+      : null,
+  ]);
+
+  return {
+    businessName,
+    inviterName:
+      [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") ||
+      undefined,
+    departmentName: department?.name,
+  };
+};
+
+/**
+ * Emails the accept / decline links (not awaited, like other emails)
+ */
+export const deliverInvitation = async (
+  invitation: IOrganizationInvitation,
+  token: string
+): Promise<void> => {
+  const details = await getInvitationDetails(invitation);
+
+  sendOrganizationInvitationEmail({
+    email: invitation.email,
+    token,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt,
+    ...details,
+  });
+};
+
+/* ----------------------------------
+ * ACCEPT
+ * ---------------------------------- */
+
+/**
+ * Consumes the invitation (single use) and creates, or reactivates,
+ * the invitee's membership with the invited role & department.
+ * `invitation` comes from `getPendingInvitationByToken`.
+ */
+export const joinFromInvitation = async (
+  invitation: IOrganizationInvitation,
+  userId: string,
+  client: ClientMeta = {}
+): Promise<OrganizationMemberSummary> => {
+  const businessProfileId = String(invitation.businessProfileId);
+
+  /* =====================================================
+   * 1️⃣ Claim the invitation (fails if answered meanwhile)
+   * ===================================================== */
+  const claimed = await OrganizationInvitationModel.findOneAndUpdate(
+    {
+      _id: invitation._id,
+      tokenHash: invitation.tokenHash, // not replaced by a resend
+      status: InvitationStatus.PENDING,
+      expiresAt: { $gt: new Date() },
+    },
+    {
+      $set: {
+        status: InvitationStatus.ACCEPTED,
+        acceptedBy: userId,
+        respondedAt: new Date(),
+      },
+    },
+    { new: true }
+  ).lean();
+
+  if (!claimed) {
+    throw new AppError(
+      "This invitation is no longer available.",
+      410 // Gone
+    );
+  }
+
+  /* =====================================================
+   * 2️⃣ Create (or reactivate) the membership
+   * ===================================================== */
+  // The department may have been deleted since the invitation was sent
+  const department = claimed.departmentId
+    ? await DepartmentModel.exists({
+        _id: claimed.departmentId,
+        businessProfileId,
+      })
+    : null;
+
+  const membership = await OrganizationMembershipModel.findOneAndUpdate(
+    { businessProfileId, userId },
+    {
+      $set: {
+        role: claimed.role,
+        status: MembershipStatus.ACTIVE,
+        departmentIds: department ? [department._id] : [],
+        departmentRoles: [],
+        joinedAt: new Date(),
+        invitedBy: claimed.invitedBy,
+      },
+      $unset: { leftAt: "", customRoleId: "" },
+    },
+    { upsert: true, new: true }
+  ).lean();
+
+  await linkUserToOrganization(userId, businessProfileId);
+
+  await recordAuditEvent(
+    {
+      type: AuditEventType.INVITATION_ACCEPTED,
+      userId,
+      businessProfileId,
+      metadata: {
+        invitationId: String(claimed._id),
+        invitedBy: String(claimed.invitedBy),
+        role: claimed.role,
+        departmentId: department ? String(department._id) : undefined,
+      },
+    },
+    client
+  );
+
+  const users = await loadMemberUsers([userId]);
+
+  return toMemberSummary(membership, { user: users.get(userId) });
+};
+
+/* ----------------------------------
+ * MAPPING
+ * ---------------------------------- */
+
+export const toInvitationSummary = (
+  invitation: Pick<
+    IOrganizationInvitation,
+    | "_id"
+    | "businessProfileId"
+    | "email"
+    | "role"
+    | "departmentId"
+    | "status"
+    | "expiresAt"
+    | "invitedBy"
+    | "resendCount"
+    | "lastSentAt"
+    | "acceptedBy"
+    | "respondedAt"
+    | "createdAt"
+  >
+): InvitationSummary => ({
+  id: String(invitation._id),
+  businessProfileId: String(invitation.businessProfileId),
+  email: invitation.email,
+  role: invitation.role,
+  departmentId: invitation.departmentId
+    ? String(invitation.departmentId)
+    : undefined,
+  status: getInvitationStatus(invitation),
+  expiresAt: invitation.expiresAt,
+  invitedBy: String(invitation.invitedBy),
+  resendCount: invitation.resendCount,
+  lastSentAt: invitation.lastSentAt,
+  acceptedBy: invitation.acceptedBy ? String(invitation.acceptedBy) : undefined,
+  respondedAt: invitation.respondedAt,
+  createdAt: invitation.createdAt,
+});
@@ -0,0 +1,86 @@
+// ================================
+// FILE: src/rest/invitations/invitations.routes.ts
+// ================================
+/**
+ * Organization invitations REST routes
+ * - Mounted under /organizations
+ * - Managing: signin sessions or API keys with the organization scopes,
+ *   `members:manage` checked by `requirePermission` & the service
+ * - Answering: the emailed token is the credential (join needs a session)
+ */
+
+import { ApiKeyScope, Permission } from "@constants/enum.constants";
+import {
+  authenticate,
+  authenticateSession,
+  requireApiKeyScopes,
+  requirePermission,
+} from "@middlewares/auth.middleware";
+import {
+  invitationRateLimiter,
+  signinRateLimiter,
+} from "@middlewares/rateLimit.middleware";
+import { Router } from "express";
+import { InvitationsController } from "./invitations.controller";
+
+const router = Router();
+
+const read = requireApiKeyScopes(ApiKeyScope.ORGANIZATION_READ);
+const write = requireApiKeyScopes(ApiKeyScope.ORGANIZATION_WRITE);
+
+/**
+ * Answer an invitation (emailed link)
+ */
+router.get(
+  "/invitations/preview",
+  invitationRateLimiter,
+  InvitationsController.previewInvitationController
+);
+router.post(
+  "/invitations/accept",
+  invitationRateLimiter,
+  signinRateLimiter,
+  InvitationsController.acceptInvitationController
+);
+router.post(
+  "/invitations/decline",
+  invitationRateLimiter,
+  InvitationsController.declineInvitationController
+);
+router.post(
+  "/invitations/join",
+  authenticateSession,
+  InvitationsController.joinInvitationController
+);
+
+/**
+ * Manage an organization's invitations
+ */
+router.get(
+  "/:businessProfileId/invitations",
+  authenticate,
+  read,
+  requirePermission(Permission.MEMBERS_MANAGE),
+  InvitationsController.listInvitationsController
+);
+router.post(
+  "/:businessProfileId/invitations",
+  authenticate,
+  write,
+  requirePermission(Permission.MEMBERS_MANAGE),
+  InvitationsController.createInvitationController
+);
+router.post(
+  "/:businessProfileId/invitations/:invitationId/resend",
+  authenticate,
+  write,
+  InvitationsController.resendInvitationController
+);
+router.delete(
+  "/:businessProfileId/invitations/:invitationId",
+  authenticate,
+  write,
+  InvitationsController.revokeInvitationController
+);
+
+export default router;
@@ -0,0 +1,459 @@
+// ==========================================
+// FILE: src/rest/invitations/invitations.service.ts
+// ==========================================
+/**
+ * Invitations Service
+ * ------------------------------------------
+ * Organization invitations by email
+ * - Members with `members:manage` invite, resend, revoke & list (RBAC policy)
+ * - One pending invitation per email & organization, single-use token
+ * - Accept: sign in to the invited account, or sign up (email pre-verified)
+ * - Decline straight from the emailed link
+ */
+
+import { appConfig } from "@config/app.config";
+import {
+  AuditEventType,
+  InvitationStatus,
+  Permission,
+  SigninMethod,
+} from "@constants/enum.constants";
+import { DepartmentModel } from "@models/Department.model";
+import { OrganizationInvitationModel } from "@models/OrganizationInvitation.model";
+import { UserModel } from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import { completeSignin } from "@modules/auth/auth.helpers";
+import { AuthService } from "@modules/auth/auth.service";
+import { SigninResult } from "@modules/auth/auth.types";
+import { OrganizationMemberSummary } from "@modules/organizations/organizations.types";
+import { authorize } from "@modules/roles/roles.helpers";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import {
+  assertCanInviteRole,
+  assertNotMember,
+  deliverInvitation,
+  expireStaleInvitations,
+  generateInvitationToken,
+  getInvitationDetails,
+  getManagedInvitation,
+  getPendingInvitationByToken,
+  joinFromInvitation,
+  toInvitationSummary,
+} from "./invitations.helpers";
+import {
+  InvitationAcceptInput,
+  InvitationAcceptResult,
+  InvitationCreateInput,
+  InvitationJoinInput,
+  InvitationListInput,
+  InvitationManageInput,
+  InvitationPreview,
+  InvitationSummary,
+  InvitationTokenInput,
+} from "./invitations.types";
+
+/* ----------------------------------
+ * INVITATIONS SERVICE
+ * ---------------------------------- */
+
+export class InvitationsService {
+  /**
+   * CREATE INVITATION SERVICE - Invites an email address & sends the links
+   */
+  static async createInvitationService(
+    input: InvitationCreateInput,
+    client: ClientMeta = {}
+  ): Promise<InvitationSummary> {
+    /* =====================================================
+     * 1️⃣ Authorize the caller (no permission the caller lacks)
+     * ===================================================== */
+    const permissions = await authorize(input, Permission.MEMBERS_MANAGE, {
+      businessProfileId: input.businessProfileId,
+    });
+    assertCanInviteRole(permissions, input.role);
+
+    if (input.departmentId) {
+      const department = await DepartmentModel.exists({
+        _id: input.departmentId,
+        businessProfileId: input.businessProfileId,
+      });
+
+      if (!department) {
+        throw new AppError("Department not found in this organization.", 404);
+      }
+    }
+
+    /* =====================================================
+     * 2️⃣ Reject members & open invitations
+     * ===================================================== */
+    const user = await UserModel.findOne({ email: input.email })
+      .select("_id")
+      .lean();
+
+    if (user) await assertNotMember(String(user._id), input.businessProfileId);
+
+    await expireStaleInvitations(input.businessProfileId, input.email);
+
+    const pending = await OrganizationInvitationModel.exists({
+      businessProfileId: input.businessProfileId,
+      email: input.email,
+      status: InvitationStatus.PENDING,
+    });
+
+    if (pending) {
+      throw new AppError(
+        "This email already has a pending invitation. Resend it instead.",
+        409 // Conflict
+      );
+    }
+
+    const pendingCount = await OrganizationInvitationModel.countDocuments({
+      businessProfileId: input.businessProfileId,
+      status: InvitationStatus.PENDING,
+    });
+
+    if (pendingCount >= appConfig.INVITATIONS.MAX_PENDING_PER_ORGANIZATION) {
+      throw new AppError(
+        `An organization can have at most ${appConfig.INVITATIONS.MAX_PENDING_PER_ORGANIZATION} pending invitations.`,
+        400
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Create & email the single-use link
+     * ===================================================== */
+    const { token, tokenHash, expiresAt } = generateInvitationToken();
+
+    const invitation = await OrganizationInvitationModel.create({
+      businessProfileId: input.businessProfileId,
+      email: input.email,
+      role: input.role,
+      ...(input.departmentId && { departmentId: input.departmentId }),
+      tokenHash,
+      expiresAt,
+      invitedBy: input.userId,
+    });
+
+    await deliverInvitation(invitation, token);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.INVITATION_SENT,
+        actorId: input.userId,
+        businessProfileId: input.businessProfileId,
+        metadata: {
+          invitationId: String(invitation._id),
+          email: input.email,
+          role: input.role,
+          departmentId: input.departmentId,
+        },
+      },
+      client
+    );
+
+    return toInvitationSummary(invitation);
+  }
+
+  /**
+   * LIST INVITATIONS SERVICE - Invitations of an organization (pending by default)
+   */
+  static async listInvitationsService(
+    input: InvitationListInput
+  ): Promise<InvitationSummary[]> {
+    await authorize(input, Permission.MEMBERS_MANAGE, {
+      businessProfileId: input.businessProfileId,
+    });
+
+    const status = input.status || InvitationStatus.PENDING;
+    const now = new Date();
+
+    // Expiry is only stored lazily: PENDING & EXPIRED are split by `expiresAt`
+    const statusFilter =
+      status === InvitationStatus.PENDING
+        ? { status, expiresAt: { $gt: now } }
+        : status === InvitationStatus.EXPIRED
+          ? {
+              $or: [
+                { status },
+                { status: InvitationStatus.PENDING, expiresAt: { $lte: now } },
+              ],
+            }
+          : { status };
+
+    const invitations = await OrganizationInvitationModel.find({
+      businessProfileId: input.businessProfileId,
+      ...statusFilter,
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return invitations.map(toInvitationSummary);
+  }
+
+  /**
+   * RESEND INVITATION SERVICE - New link & expiry (the previous link stops working)
+   */
+  static async resendInvitationService(
+    input: InvitationManageInput,
+    client: ClientMeta = {}
+  ): Promise<InvitationSummary> {
+    /* =====================================================
+     * 1️⃣ Authorize & enforce resend limits
+     * ===================================================== */
+    const invitation = await getManagedInvitation(input, input.invitationId);
+
+    // Expired (but not yet superseded) invitations can be revived
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new AppError(
+        "Only pending invitations can be resent.",
+        409 // Conflict
+      );
+    }
+
+    if (invitation.resendCount >= appConfig.INVITATIONS.MAX_RESENDS) {
+      throw new AppError(
+        "This invitation was resent too many times. Revoke it and invite again.",
+        429 // Too Many Requests
+      );
+    }
+
+    const cooldownMs = appConfig.INVITATIONS.RESEND_COOLDOWN_SECONDS * 1000;
+
+    if (Date.now() - invitation.lastSentAt.getTime() < cooldownMs) {
+      throw new AppError(
+        "Please wait a moment before resending this invitation.",
+        429 // Too Many Requests
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Replace the token & email the new link
+     * ===================================================== */
+    const { token, tokenHash, expiresAt } = generateInvitationToken();
+
+    const updated = await OrganizationInvitationModel.findOneAndUpdate(
+      { _id: invitation._id, status: InvitationStatus.PENDING },
+      {
+        $set: { tokenHash, expiresAt, lastSentAt: new Date() },
+        $inc: { resendCount: 1 },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      throw new AppError(
+        "Only pending invitations can be resent.",
+        409 // Conflict
+      );
+    }
+
+    await deliverInvitation(updated, token);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.INVITATION_RESENT,
+        actorId: input.userId,
+        businessProfileId: String(updated.businessProfileId),
+        metadata: {
+          invitationId: String(updated._id),
+          email: updated.email,
+          resendCount: updated.resendCount,
+        },
+      },
+      client
+    );
+
+    return toInvitationSummary(updated);
+  }
+
+  /**
+   * REVOKE INVITATION SERVICE - Cancels a pending invitation
+   */
+  static async revokeInvitationService(
+    input: InvitationManageInput,
+    client: ClientMeta = {}
+  ): Promise<InvitationSummary> {
+    const invitation = await getManagedInvitation(input, input.invitationId);
+
+    const revoked = await OrganizationInvitationModel.findOneAndUpdate(
+      { _id: invitation._id, status: InvitationStatus.PENDING },
+      {
+        $set: { status: InvitationStatus.REVOKED, respondedAt: new Date() },
+      },
+      { new: true }
+    ).lean();
+
+    if (!revoked) {
+      throw new AppError(
+        "Only pending invitations can be revoked.",
+        409 // Conflict
+      );
+    }
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.INVITATION_REVOKED,
+        actorId: input.userId,
+        businessProfileId: String(revoked.businessProfileId),
+        metadata: { invitationId: String(revoked._id), email: revoked.email },
+      },
+      client
+    );
+
+    return toInvitationSummary(revoked);
+  }
+
+  /**
+   * PREVIEW INVITATION SERVICE - What the emailed link is for (token holders)
+   */
+  static async previewInvitationService(
+    input: InvitationTokenInput
+  ): Promise<InvitationPreview> {
+    const invitation = await getPendingInvitationByToken(input.token);
+
+    const [details, accountExists] = await Promise.all([
+      getInvitationDetails(invitation),
+      UserModel.exists({ email: invitation.email }),
+    ]);
+
+    return {
+      ...details,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      accountExists: !!accountExists,
+    };
+  }
+
+  /**
+   * ACCEPT INVITATION SERVICE - Signs in (or signs up) the invitee & joins
+   */
+  static async acceptInvitationService(
+    input: InvitationAcceptInput,
+    client: ClientMeta = {}
+  ): Promise<InvitationAcceptResult> {
+    /* =====================================================
+     * 1️⃣ Resolve the pending invitation
+     * ===================================================== */
+    const invitation = await getPendingInvitationByToken(input.token);
+    const businessProfileId = String(invitation.businessProfileId);
+
+    const existingUser = await UserModel.findOne({ email: invitation.email })
+      .select("_id")
+      .lean();
+
+    /* =====================================================
+     * 2️⃣ Authenticate the invited account
+     * ===================================================== */
+    let userId: string;
+    let signin: SigninResult;
+
+    if (existingUser) {
+      if (!input.password) {
+        throw new AppError(
+          "An account already exists for this email. Sign in to accept the invitation.",
+          409 // Conflict
+        );
+      }
+
+      userId = String(existingUser._id);
+      await assertNotMember(userId, businessProfileId);
+
+      // Same checks as a regular signin (lockout, risk step-up, 2FA).
+      // A challenge still proves the password: the invitee joins now
+      // and completes the challenge to get tokens.
+      signin = await AuthService.signinService(
+        { identifier: invitation.email, password: input.password },
+        client
+      );
+    } else {
+      if (!input.signup) {
+        throw new AppError(
+          "No account exists for this email yet. Sign up to accept the invitation.",
+          404
+        );
+      }
+
+      // The emailed link already proves ownership of the address
+      const { user } = await AuthService.signupService(
+        { ...input.signup, email: invitation.email },
+        { emailVerified: true },
+        client
+      );
+
+      userId = String(user._id);
+      signin = await completeSignin(user, SigninMethod.INVITATION, client);
+    }
+
+    /* =====================================================
+     * 3️⃣ Consume the invitation & join the organization
+     * ===================================================== */
+    const membership = await joinFromInvitation(invitation, userId, client);
+
+    return { membership, signin };
+  }
+
+  /**
+   * JOIN INVITATION SERVICE - Accepts as the signed-in user (invited email only)
+   */
+  static async joinInvitationService(
+    input: InvitationJoinInput,
+    client: ClientMeta = {}
+  ): Promise<OrganizationMemberSummary> {
+    const invitation = await getPendingInvitationByToken(input.token);
+
+    const user = await UserModel.findById(input.userId).select("email").lean();
+
+    if (!user || user.email !== invitation.email) {
+      throw new AppError(
+        "This invitation was sent to a different email address.",
+        403 // Forbidden
+      );
+    }
+
+    await assertNotMember(input.userId, String(invitation.businessProfileId));
+
+    return joinFromInvitation(invitation, input.userId, client);
+  }
+
+  /**
+   * DECLINE INVITATION SERVICE - Declines from the emailed link
+   */
+  static async declineInvitationService(
+    input: InvitationTokenInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
+    const invitation = await getPendingInvitationByToken(input.token);
+
+    const declined = await OrganizationInvitationModel.findOneAndUpdate(
+      {
+        _id: invitation._id,
+        tokenHash: invitation.tokenHash,
+        status: InvitationStatus.PENDING,
+      },
+      {
+        $set: { status: InvitationStatus.DECLINED, respondedAt: new Date() },
+      }
+    ).lean();
+
+    if (!declined) {
+      throw new AppError(
+        "This invitation is no longer available.",
+        410 // Gone
+      );
+    }
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.INVITATION_DECLINED,
+        businessProfileId: String(invitation.businessProfileId),
+        metadata: {
+          invitationId: String(invitation._id),
+          email: invitation.email,
+        },
+      },
+      client
+    );
+  }
+}
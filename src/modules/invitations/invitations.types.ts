@@ -0,0 +1,113 @@
+// ==========================================
+// FILE: src/rest/invitations/invitations.types.ts
+// ==========================================
+/**
+ * Organization invitation types & contracts
+ * Used by service, helpers, validators, controllers & GraphQL resolvers
+ */
+
+import { InvitationStatus, OrganizationRole } from "@constants/enum.constants";
+import { SigninResult } from "@modules/auth/auth.types";
+import {
+  OrganizationActorInput,
+  OrganizationMemberSummary,
+} from "@modules/organizations/organizations.types";
+
+/* =====================================================
+ * INVITATIONS – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Invite an email address to an organization
+ */
+export interface InvitationCreateInput extends OrganizationActorInput {
+  businessProfileId: string;
+  email: string;
+  role: OrganizationRole;
+  departmentId?: string | undefined;
+}
+
+/**
+ * List the invitations of an organization
+ */
+export interface InvitationListInput extends OrganizationActorInput {
+  businessProfileId: string;
+  status?: InvitationStatus | undefined; // PENDING when omitted
+}
+
+/**
+ * Resend or revoke a pending invitation
+ */
+export interface InvitationManageInput extends OrganizationActorInput {
+  invitationId: string;
+}
+
+/**
+ * The emailed (single-use) invitation token
+ */
+export interface InvitationTokenInput {
+  token: string;
+}
+
+/**
+ * New account created while accepting (the email comes from the invitation)
+ */
+export interface InvitationSignupInput {
+  username: string;
+  firstName?: string | undefined;
+  lastName?: string | undefined;
+  password: string;
+}
+
+/**
+ * Accept without a session: sign in with `password` (existing account)
+ * or create the account with `signup`
+ */
+export interface InvitationAcceptInput extends InvitationTokenInput {
+  password?: string | undefined;
+  signup?: InvitationSignupInput | undefined;
+}
+
+/**
+ * Accept as the signed-in user (must own the invited email)
+ */
+export interface InvitationJoinInput
+  extends OrganizationActorInput, InvitationTokenInput {}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface InvitationSummary {
+  id: string;
+  businessProfileId: string;
+  email: string;
+  role: OrganizationRole;
+  departmentId?: string | undefined;
+  status: InvitationStatus;
+  expiresAt: Date;
+  invitedBy: string;
+  resendCount: number;
+  lastSentAt: Date;
+  acceptedBy?: string | undefined;
+  respondedAt?: Date | undefined;
+  createdAt: Date;
+}
+
+/**
+ * What the invitee sees before answering (token holders only)
+ */
+export interface InvitationPreview {
+  businessName: string;
+  email: string;
+  role: OrganizationRole;
+  departmentName?: string | undefined;
+  inviterName?: string | undefined;
+  expiresAt: Date;
+  accountExists: boolean; // sign in to accept, or sign up
+}
+
+export interface InvitationAcceptResult {
+  membership: OrganizationMemberSummary;
+  signin: SigninResult; // tokens, or a 2FA / step-up challenge
+}
@@ -0,0 +1,91 @@
+// ==========================================
+// FILE: src/rest/invitations/invitations.validator.ts
+// ==========================================
+/**
+ * Organization invitation validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB logic
+ */
+
+import { z } from "zod";
+
+import { InvitationStatus, OrganizationRole } from "@constants/enum.constants";
+import {
+  EMAIL_REGEX,
+  NAME_REGEX,
+  PASSWORD_REGEX,
+} from "@constants/regex.constants";
+import { usernameValidator } from "@modules/auth/auth.validator";
+import { departmentIdValidator } from "@modules/departments/departments.validator";
+import {
+  assignableRoleValidator,
+  businessProfileIdValidator,
+} from "@modules/organizations/organizations.validator";
+
+export const invitationIdValidator = z
+  .string({ error: "Invitation id is required." })
+  .regex(/^[a-f\d]{24}$/i, "Invalid invitation id.");
+
+// 32 random bytes, base64url encoded
+export const invitationTokenValidator = z
+  .string({ error: "Invitation token is required." })
+  .regex(/^[A-Za-z0-9_-]{43}$/, "Invalid or malformed invitation token.");
+
+const passwordValidator = z
+  .string({ error: "Password is required" })
+  .regex(
+    PASSWORD_REGEX,
+    "Password must be 8-24 characters and include uppercase, lowercase, number, and special character."
+  );
+
+/* ----------------------------------
+ * MANAGE
+ * ---------------------------------- */
+
+export const invitationCreateValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+  email: z
+    .string({ error: "Email address is required." })
+    .trim()
+    .regex(EMAIL_REGEX, "Invalid email address.")
+    .transform((v) => v.toLowerCase()),
+  role: assignableRoleValidator.default(OrganizationRole.MEMBER),
+  departmentId: departmentIdValidator.optional(),
+});
+
+export const invitationListValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+  status: z.enum(InvitationStatus, { error: "Invalid status." }).optional(),
+});
+
+/* ----------------------------------
+ * ANSWER (token holders)
+ * ---------------------------------- */
+
+export const invitationAcceptValidator = z
+  .object({
+    token: invitationTokenValidator,
+    // Existing accounts: checked like a regular signin
+    password: z.string().min(1, "Password is required").optional(),
+    signup: z
+      .object({
+        username: usernameValidator,
+        firstName: z
+          .string()
+          .trim()
+          .regex(NAME_REGEX, "First name must be 3-20 characters.")
+          .optional(),
+        lastName: z
+          .string()
+          .trim()
+          .regex(NAME_REGEX, "Last name must be 3-20 characters.")
+          .optional(),
+        password: passwordValidator,
+      })
+      .optional(),
+  })
+  .refine((data) => !data.password !== !data.signup, {
+    message:
+      "Provide your password to sign in, or signup details to create your account.",
+  });
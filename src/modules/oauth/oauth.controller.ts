@@ -0,0 +1,59 @@
+// ==========================================
+// FILE: src/rest/oauth/oauth.controller.ts
+// ==========================================
+/**
+ * OAuth Controller
+ * ------------------------------------------
+ * - Google authorization URL
+ * - Google authorization-code callback
+ */
+
+import { applyTokenTransport } from "@utils/authCookie.util";
+import { getClientMeta } from "@utils/device.util";
+import { Request, Response } from "express";
+import { OAuthService } from "./oauth.service";
+import { oauthCallbackValidator } from "./oauth.validator";
+
+export class OAuthController {
+  /**
+   * GET /auth/oauth/google/authorize
+   */
+  static async googleAuthorizeController(_req: Request, res: Response) {
+    // 1. Call Service
+    const result = await OAuthService.googleAuthorizeService();
+
+    // 2. Respond
+    res.status(200).json({
+      success: true,
+      message: "Google authorization URL generated.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/oauth/google/callback
+   */
+  static async googleCallbackController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = oauthCallbackValidator.parse({
+      code: req.body?.code || req.query?.code,
+      state: req.body?.state || req.query?.state,
+    });
+
+    // 2. Call Service
+    const result = await OAuthService.googleCallbackService(
+      parsedData,
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(result.isNewUser ? 201 : 200).json({
+      success: true,
+      message:
+        "twoFactorRequired" in result
+          ? "Two-factor authentication required. Enter the code from your authenticator app."
+          : "Signed in with Google successfully.",
+      data: applyTokenTransport(req, res, result),
+    });
+  }
+}
@@ -0,0 +1,29 @@
+// ================================
+// FILE: src/rest/oauth/oauth.routes.ts
+// ================================
+/**
+ * OAuth REST routes
+ * - Social signin (authorization-code flow)
+ */
+
+import { signinRateLimiter } from "@middlewares/rateLimit.middleware";
+import { Router } from "express";
+import { OAuthController } from "./oauth.controller";
+
+const router = Router();
+
+/**
+ * Google
+ */
+router.get(
+  "/google/authorize",
+  signinRateLimiter,
+  OAuthController.googleAuthorizeController
+);
+router.post(
+  "/google/callback",
+  signinRateLimiter,
+  OAuthController.googleCallbackController
+);
+
+export default router;
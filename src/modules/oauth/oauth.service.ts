@@ -0,0 +1,329 @@
+// ==========================================
+// FILE: src/rest/oauth/oauth.service.ts
+// ==========================================
+/**
+ * OAuth Service
+ * ------------------------------------------
+ * Social signin using the OAuth2 / OIDC authorization-code flow
+ * - Google (PKCE + nonce + ID token verification via JWKS)
+ * - Creates or links users
+ * - Issues the same session & token pair (or 2FA challenge) as password signin
+ */
+
+import crypto from "crypto";
+
+import { appConfig } from "@config/app.config";
+import { env } from "@config/env.config";
+import {
+  AccountStatus,
+  AuthProvider,
+  SessionType,
+  SigninMethod,
+} from "@constants/enum.constants";
+import { NAME_REGEX } from "@constants/regex.constants";
+import { getRedisClient } from "@core/redis";
+import { logger } from "@logger/index";
+import { IUser, UserModel } from "@models/User.model";
+import { completeSignin } from "@modules/auth/auth.helpers";
+import { SigninResult } from "@modules/auth/auth.types";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import { verifyJwtWithJwks } from "@utils/jwks.util";
+import {
+  GoogleIdTokenClaims,
+  OAuthAuthorizeResult,
+  OAuthCallbackInput,
+  OAuthTokenResponse,
+  RedisOAuthState,
+} from "./oauth.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+const getOAuthStateKey = (state: string) => `auth:oauth:state:${state}`;
+
+const randomUrlSafe = (bytes = 32) =>
+  crypto.randomBytes(bytes).toString("base64url");
+
+const toCodeChallenge = (codeVerifier: string) =>
+  crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+/**
+ * Google config is optional; the feature is disabled when unset
+ */
+const getGoogleConfig = () => {
+  const { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI } = env;
+
+  if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET || !GOOGLE_REDIRECT_URI) {
+    throw new AppError(
+      "Google sign-in is not available right now.",
+      503 // Service Unavailable
+    );
+  }
+
+  return {
+    clientId: GOOGLE_CLIENT_ID,
+    clientSecret: GOOGLE_CLIENT_SECRET,
+    redirectUri: GOOGLE_REDIRECT_URI,
+  };
+};
+
+/**
+ * Google issues ID tokens with or without the URL scheme
+ */
+const getGoogleIssuers = (): [string, ...string[]] => {
+  const issuer = env.GOOGLE_ISSUER;
+  const bare = issuer.replace(/^https?:\/\//, "");
+
+  return bare === issuer ? [issuer] : [issuer, bare];
+};
+
+/* ----------------------------------
+ * OAUTH SERVICE
+ * ---------------------------------- */
+
+export class OAuthService {
+  /**
+   * GOOGLE AUTHORIZE SERVICE - Starts the authorization-code flow (PKCE)
+   */
+  static async googleAuthorizeService(): Promise<OAuthAuthorizeResult> {
+    const { clientId, redirectUri } = getGoogleConfig();
+
+    /* =====================================================
+     * 1️⃣ Generate state, nonce & PKCE verifier
+     * ===================================================== */
+    const state = randomUrlSafe();
+    const nonce = randomUrlSafe();
+    const codeVerifier = randomUrlSafe(48);
+
+    /* =====================================================
+     * 2️⃣ Persist pending authorization request (Redis)
+     * ===================================================== */
+    const pending: RedisOAuthState = {
+      type: SessionType.SOCIAL_LOGIN,
+      provider: AuthProvider.GOOGLE,
+
+      codeVerifier,
+      nonce,
+      redirectUri,
+
+      createdAt: Date.now(),
+    };
+
+    await getRedisClient().setex(
+      getOAuthStateKey(state),
+      appConfig.OAUTH.STATE_TTL_SECONDS,
+      JSON.stringify(pending)
+    );
+
+    /* =====================================================
+     * 3️⃣ Build provider authorization URL
+     * ===================================================== */
+    const url = new URL(env.GOOGLE_AUTHORIZATION_ENDPOINT);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", clientId);
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set("scope", appConfig.OAUTH.GOOGLE_SCOPES.join(" "));
+    url.searchParams.set("state", state);
+    url.searchParams.set("nonce", nonce);
+    url.searchParams.set("code_challenge", toCodeChallenge(codeVerifier));
+    url.searchParams.set("code_challenge_method", "S256");
+    url.searchParams.set("prompt", "select_account");
+
+    return { authorizationUrl: url.toString(), state };
+  }
+
+  /**
+   * GOOGLE CALLBACK SERVICE - Exchanges the code, verifies the ID token and signs the user in
+   */
+  static async googleCallbackService(
+    input: OAuthCallbackInput,
+    client: ClientMeta = {}
+  ): Promise<SigninResult & { isNewUser: boolean }> {
+    const { clientId, clientSecret } = getGoogleConfig();
+    const redisClient = getRedisClient();
+
+    /* =====================================================
+     * 1️⃣ Consume pending authorization request (single use)
+     * ===================================================== */
+    const stateKey = getOAuthStateKey(input.state);
+    const [[, stateData] = []] =
+      (await redisClient.multi().get(stateKey).del(stateKey).exec()) || [];
+
+    if (!stateData) {
+      throw new AppError(
+        "Sign-in request has expired. Please try again.",
+        410 // Gone
+      );
+    }
+
+    const pending: RedisOAuthState = JSON.parse(stateData as string);
+
+    if (
+      pending.type !== SessionType.SOCIAL_LOGIN ||
+      pending.provider !== AuthProvider.GOOGLE
+    ) {
+      throw new AppError("Invalid sign-in request.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Exchange authorization code for tokens
+     * ===================================================== */
+    let tokenResponse: OAuthTokenResponse;
+
+    try {
+      const response = await fetch(env.GOOGLE_TOKEN_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code: input.code,
+          redirect_uri: pending.redirectUri,
+          client_id: clientId,
+          client_secret: clientSecret,
+          code_verifier: pending.codeVerifier,
+        }),
+      });
+
+      tokenResponse = (await response.json()) as OAuthTokenResponse;
+    } catch (err) {
+      logger.error({ err }, "Google token exchange failed");
+      throw new AppError(
+        "Unable to reach Google. Please try again later.",
+        502 // Bad Gateway
+      );
+    }
+
+    if (!tokenResponse.id_token) {
+      logger.warn(
+        { error: tokenResponse.error },
+        "Google token exchange rejected"
+      );
+      throw new AppError(
+        "Google sign-in failed. Please try again.",
+        401 // Unauthorized
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Verify ID token (signature, issuer, audience, nonce)
+     * ===================================================== */
+    const claims = await verifyJwtWithJwks<GoogleIdTokenClaims>(
+      tokenResponse.id_token,
+      {
+        jwksUri: env.GOOGLE_JWKS_URI,
+        issuer: getGoogleIssuers(),
+        audience: clientId,
+      }
+    );
+
+    if (!claims.sub || claims.nonce !== pending.nonce) {
+      throw new AppError("Invalid Google identity token.", 401);
+    }
+
+    if (!claims.email || claims.email_verified !== true) {
+      throw new AppError(
+        "Your Google account email address is not verified.",
+        403 // Forbidden
+      );
+    }
+
+    const email = claims.email.toLowerCase();
+
+    /* =====================================================
+     * 4️⃣ Resolve user: provider identity → linked identity → email
+     * ===================================================== */
+    const userSelect =
+      "+provider +providerId +linkedProviders +accountType +status +statusMeta";
+
+    let isNewUser = false;
+
+    let user: IUser | null = await UserModel.findOne({
+      $or: [
+        { provider: AuthProvider.GOOGLE, providerId: claims.sub },
+        {
+          linkedProviders: {
+            $elemMatch: { provider: AuthProvider.GOOGLE, providerId: claims.sub },
+          },
+        },
+      ],
+    }).select(userSelect);
+
+    let linkByEmail = false;
+
+    if (!user) {
+      user = await UserModel.findOne({ email }).select(userSelect);
+      linkByEmail = !!user;
+    }
+
+    /* =====================================================
+     * 5️⃣ Enforce account status (before touching the account)
+     * ===================================================== */
+    if (
+      user &&
+      ((user.status && user.status !== AccountStatus.ACTIVE) || user.statusMeta)
+    ) {
+      throw new AppError(
+        "Your account is not active. Please contact support.",
+        403 // Forbidden
+      );
+    }
+
+    /* =====================================================
+     * 6️⃣ Link Google to the existing account, or create one
+     * ===================================================== */
+    if (user && linkByEmail) {
+      // An unverified address proves nothing about who set the password:
+      // the owner signs in & verifies it first, then Google links
+      if (!user.emailIsVerified) {
+        throw new AppError(
+          "An account with this email address already exists. Sign in with your password and verify your email address, then continue with Google.",
+          409 // Conflict
+        );
+      }
+
+      // Link Google identity to the existing account (email proven by both)
+      user.linkedProviders = [
+        ...(user.linkedProviders || []),
+        {
+          provider: AuthProvider.GOOGLE,
+          providerId: claims.sub,
+          linkedAt: new Date(),
+        },
+      ];
+
+      await user.save();
+    }
+
+    if (!user) {
+      // Only keep provider names that satisfy our profile rules
+      const firstName =
+        claims.given_name && NAME_REGEX.test(claims.given_name)
+          ? claims.given_name
+          : undefined;
+      const lastName =
+        claims.family_name && NAME_REGEX.test(claims.family_name)
+          ? claims.family_name
+          : undefined;
+
+      user = await UserModel.create({
+        email,
+        emailIsVerified: true,
+        ...(firstName && { firstName }),
+        ...(lastName && { lastName }),
+        provider: AuthProvider.GOOGLE,
+        providerId: claims.sub,
+      });
+
+      isNewUser = true;
+    }
+
+    /* =====================================================
+     * 7️⃣ Issue tokens, or a 2FA challenge when enabled
+     * ===================================================== */
+    const result = await completeSignin(user, SigninMethod.GOOGLE, client);
+
+    return { ...result, isNewUser };
+  }
+}
@@ -0,0 +1,79 @@
+// ==========================================
+// FILE: src/rest/oauth/oauth.types.ts
+// ==========================================
+/**
+ * OAuth / social signin types & contracts
+ * Used by controller, service, validators
+ */
+
+import { AuthProvider, SessionType } from "@constants/enum.constants";
+import { JwtPayload } from "jsonwebtoken";
+
+/* =====================================================
+ * OAUTH – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Authorization-code callback payload
+ * Sent by the client after the provider redirects back
+ */
+export interface OAuthCallbackInput {
+  code: string;
+  state: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface OAuthAuthorizeResult {
+  authorizationUrl: string;
+  state: string;
+}
+
+/* ----------------------------------
+ * REDIS SESSION TYPES
+ * ---------------------------------- */
+
+/**
+ * Pending authorization request (keyed by `state`)
+ * Stored as JSON in Redis until the callback consumes it
+ */
+export interface RedisOAuthState {
+  type: SessionType.SOCIAL_LOGIN;
+  provider: AuthProvider;
+
+  codeVerifier: string; // PKCE
+  nonce: string;
+  redirectUri: string;
+
+  createdAt: number;
+}
+
+/* ----------------------------------
+ * PROVIDER PAYLOADS
+ * ---------------------------------- */
+
+/**
+ * Token endpoint response (subset)
+ */
+export interface OAuthTokenResponse {
+  access_token?: string;
+  id_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Google ID token claims (subset)
+ */
+export interface GoogleIdTokenClaims extends JwtPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  nonce?: string;
+}
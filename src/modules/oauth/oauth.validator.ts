@@ -0,0 +1,27 @@
+// ==========================================
+// FILE: src/rest/oauth/oauth.validator.ts
+// ==========================================
+/**
+ * OAuth validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB / Redis / provider logic
+ */
+
+import { z } from "zod";
+
+/* ----------------------------------
+ * AUTHORIZATION CODE CALLBACK
+ * ---------------------------------- */
+
+export const oauthCallbackValidator = z.object({
+  code: z
+    .string({ error: "Authorization code is required." })
+    .trim()
+    .min(1, "Authorization code is required."),
+
+  state: z
+    .string({ error: "State is required." })
+    .trim()
+    .min(16, "Invalid or malformed state."),
+});
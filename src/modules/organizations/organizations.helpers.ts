@@ -0,0 +1,273 @@
+// ==========================================
+// FILE: src/rest/organizations/organizations.helpers.ts
+// ==========================================
+/**
+ * Organization helpers
+ * - Membership resolution (owners are backfilled lazily)
+ * - Member management rules
+ * - UserModel business profile references
+ */
+
+import {
+  AccountStatus,
+  MembershipStatus,
+  OrganizationRole,
+  Permission,
+} from "@constants/enum.constants";
+import { BusinessProfileModel } from "@models/BusinessProfile.model";
+import {
+  IOrganizationMembership,
+  OrganizationMembershipModel,
+} from "@models/OrganizationMembership.model";
+import { UserModel } from "@models/User.model";
+import { AppError } from "@utils/AppError.util";
+import {
+  OrganizationActorInput,
+  OrganizationMemberSummary,
+  OrganizationMemberUser,
+} from "./organizations.types";
+
+/* ----------------------------------
+ * STATUSES
+ * ---------------------------------- */
+
+// Memberships that still belong to the organization
+export const CURRENT_MEMBERSHIP_STATUSES = [
+  MembershipStatus.ACTIVE,
+  MembershipStatus.SUSPENDED,
+];
+
+/* ----------------------------------
+ * MEMBERSHIP RESOLUTION
+ * ---------------------------------- */
+
+/**
+ * Organization-scoped API keys only act on their own organization
+ */
+export const assertActorCanAccess = (
+  actor: OrganizationActorInput,
+  businessProfileId: string
+): void => {
+  if (
+    actor.apiKeyBusinessProfileId &&
+    actor.apiKeyBusinessProfileId !== businessProfileId
+  ) {
+    throw new AppError(
+      "This API key is not allowed to access this organization.",
+      403 // Forbidden
+    );
+  }
+};
+
+/**
+ * Rejects organizations that are missing or moderated
+ */
+export const assertActiveOrganization = async (
+  businessProfileId: string
+): Promise<{ ownerUserId: string; businessName: string }> => {
+  const businessProfile = await BusinessProfileModel.findById(businessProfileId)
+    .select("ownerUserId businessName +status +statusMeta")
+    .lean();
+
+  if (!businessProfile) {
+    throw new AppError("Organization not found.", 404);
+  }
+
+  if (
+    businessProfile.status !== AccountStatus.ACTIVE ||
+    businessProfile.statusMeta
+  ) {
+    throw new AppError(
+      "This organization is not active.",
+      403 // Forbidden
+    );
+  }
+
+  return {
+    ownerUserId: String(businessProfile.ownerUserId),
+    businessName: businessProfile.businessName,
+  };
+};
+
+/**
+ * Owners predate memberships: create their OWNER membership on first use
+ */
+export const ensureOwnerMembership = async (
+  userId: string,
+  businessProfileId: string
+): Promise<void> => {
+  await OrganizationMembershipModel.updateOne(
+    { businessProfileId, userId },
+    {
+      $setOnInsert: {
+        role: OrganizationRole.OWNER,
+        status: MembershipStatus.ACTIVE,
+        joinedAt: new Date(),
+      },
+    },
+    { upsert: true }
+  );
+};
+
+/**
+ * Resolves the caller's ACTIVE membership, or throws 403
+ */
+export const getActiveMembership = async (
+  userId: string,
+  businessProfileId: string
+): Promise<IOrganizationMembership> => {
+  const { ownerUserId } = await assertActiveOrganization(businessProfileId);
+
+  if (ownerUserId === userId) {
+    await ensureOwnerMembership(userId, businessProfileId);
+  }
+
+  const membership = await OrganizationMembershipModel.findOne({
+    businessProfileId,
+    userId,
+    status: MembershipStatus.ACTIVE,
+  });
+
+  if (!membership) {
+    throw new AppError(
+      "You are not a member of this organization.",
+      403 // Forbidden
+    );
+  }
+
+  return membership;
+};
+
+/* ----------------------------------
+ * RULES
+ * ---------------------------------- */
+
+/**
+ * Admins are managed with `admins:manage` only (the owner by default).
+ * The owner membership and the caller's own membership are never managed here.
+ * `members:manage` is checked by the caller (`authorize`).
+ */
+export const assertCanManageMember = (
+  actorUserId: string,
+  actorPermissions: ReadonlySet<Permission>,
+  target: IOrganizationMembership,
+  nextRole?: OrganizationRole
+): void => {
+  if (actorUserId === String(target.userId)) {
+    throw new AppError("You cannot change your own membership.", 400);
+  }
+
+  if (target.role === OrganizationRole.OWNER) {
+    throw new AppError(
+      "The organization owner cannot be changed.",
+      403 // Forbidden
+    );
+  }
+
+  const touchesAdmin =
+    target.role === OrganizationRole.ADMIN ||
+    nextRole === OrganizationRole.ADMIN;
+
+  if (touchesAdmin && !actorPermissions.has(Permission.ADMINS_MANAGE)) {
+    throw new AppError(
+      "You are not allowed to manage admins of this organization.",
+      403 // Forbidden
+    );
+  }
+};
+
+/* ----------------------------------
+ * USER REFERENCES
+ * ---------------------------------- */
+
+/**
+ * Keeps `otherBusinessProfileIds` in sync with memberships
+ * (`businessProfileId` stays the user's own business)
+ */
+export const linkUserToOrganization = async (
+  userId: string,
+  businessProfileId: string
+): Promise<void> => {
+  await UserModel.updateOne(
+    { _id: userId, businessProfileId: { $ne: businessProfileId } },
+    { $addToSet: { otherBusinessProfileIds: businessProfileId } }
+  );
+};
+
+export const unlinkUserFromOrganization = async (
+  userId: string,
+  businessProfileId: string
+): Promise<void> => {
+  await UserModel.updateOne(
+    { _id: userId },
+    { $pull: { otherBusinessProfileIds: businessProfileId } }
+  );
+};
+
+/* ----------------------------------
+ * MAPPING
+ * ---------------------------------- */
+
+export const loadMemberUsers = async (
+  userIds: string[]
+): Promise<Map<string, OrganizationMemberUser>> => {
+  const users = await UserModel.find({ _id: { $in: userIds } })
+    .select("username firstName lastName email")
+    .lean();
+
+  return new Map(
+    users.map((user) => [
+      String(user._id),
+      {
+        id: String(user._id),
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+      },
+    ])
+  );
+};
+
+export const toMemberSummary = (
+  membership: Pick<
+    IOrganizationMembership,
+    | "_id"
+    | "userId"
+    | "businessProfileId"
+    | "role"
+    | "status"
+    | "customRoleId"
+    | "departmentIds"
+    | "departmentRoles"
+    | "joinedAt"
+    | "invitedBy"
+    | "leftAt"
+  >,
+  extra: {
+    businessName?: string | undefined;
+    user?: OrganizationMemberUser | undefined;
+  } = {}
+): OrganizationMemberSummary => ({
+  id: String(membership._id),
+  userId: String(membership.userId),
+  businessProfileId: String(membership.businessProfileId),
+  businessName: extra.businessName,
+  role: membership.role,
+  status: membership.status,
+  customRoleId: membership.customRoleId
+    ? String(membership.customRoleId)
+    : undefined,
+  departmentIds: (membership.departmentIds || []).map(String),
+  departmentRoles: (membership.departmentRoles || []).map((assignment) => ({
+    departmentId: String(assignment.departmentId),
+    role: assignment.role,
+    customRoleId: assignment.customRoleId
+      ? String(assignment.customRoleId)
+      : undefined,
+  })),
+  joinedAt: membership.joinedAt,
+  invitedBy: membership.invitedBy ? String(membership.invitedBy) : undefined,
+  leftAt: membership.leftAt,
+  user: extra.user,
+});
@@ -0,0 +1,429 @@
+// ==========================================
+// FILE: src/rest/organizations/organizations.service.ts
+// ==========================================
+/**
+ * Organizations Service
+ * ------------------------------------------
+ * Organization (business profile) memberships
+ * - One membership per user & organization, with a role & status
+ * - Members with `members:manage` add, update & remove members (RBAC policy)
+ * - Members can leave; the owner cannot
+ * - Keeps `UserModel.otherBusinessProfileIds` & department assignments consistent
+ */
+
+import {
+  AccountStatus,
+  AuditEventType,
+  MembershipStatus,
+  OrganizationRole,
+  Permission,
+} from "@constants/enum.constants";
+import { BUILT_IN_ROLE_PERMISSIONS } from "@constants/permission.constants";
+import { BusinessProfileModel } from "@models/BusinessProfile.model";
+import {
+  IOrganizationMembership,
+  OrganizationMembershipModel,
+} from "@models/OrganizationMembership.model";
+import { UserModel } from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import { getIdentifierFilter } from "@modules/auth/auth.helpers";
+import { clearDepartmentAssignments } from "@modules/departments/departments.helpers";
+import {
+  assertCanGrant,
+  authorize,
+  getOrganizationCustomRole,
+} from "@modules/roles/roles.helpers";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import {
+  assertActorCanAccess,
+  assertCanManageMember,
+  CURRENT_MEMBERSHIP_STATUSES,
+  ensureOwnerMembership,
+  linkUserToOrganization,
+  loadMemberUsers,
+  toMemberSummary,
+  unlinkUserFromOrganization,
+} from "./organizations.helpers";
+import {
+  OrganizationActorInput,
+  OrganizationLeaveInput,
+  OrganizationMemberAddInput,
+  OrganizationMemberListInput,
+  OrganizationMemberRemoveInput,
+  OrganizationMemberSummary,
+  OrganizationMemberUpdateInput,
+} from "./organizations.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+/**
+ * Loads a current membership managed by the caller
+ * (with the caller's permissions for grant checks)
+ */
+const getManagedMembership = async (
+  actor: OrganizationActorInput,
+  membershipId: string,
+  nextRole?: OrganizationRole
+): Promise<{
+  target: IOrganizationMembership;
+  permissions: Set<Permission>;
+}> => {
+  const target = await OrganizationMembershipModel.findById(membershipId);
+
+  if (!target || !CURRENT_MEMBERSHIP_STATUSES.includes(target.status)) {
+    throw new AppError("Membership not found.", 404);
+  }
+
+  const permissions = await authorize(actor, Permission.MEMBERS_MANAGE, {
+    businessProfileId: String(target.businessProfileId),
+  });
+  assertCanManageMember(actor.userId, permissions, target, nextRole);
+
+  return { target, permissions };
+};
+
+/* ----------------------------------
+ * ORGANIZATIONS SERVICE
+ * ---------------------------------- */
+
+export class OrganizationsService {
+  /**
+   * MY ORGANIZATIONS SERVICE - Organizations the caller belongs to
+   */
+  static async listMyOrganizationsService(
+    actor: OrganizationActorInput
+  ): Promise<OrganizationMemberSummary[]> {
+    /* =====================================================
+     * 1️⃣ Backfill owner memberships
+     * ===================================================== */
+    const ownedProfiles = await BusinessProfileModel.find({
+      ownerUserId: actor.userId,
+    })
+      .select("_id")
+      .lean();
+
+    await Promise.all(
+      ownedProfiles.map((profile) =>
+        ensureOwnerMembership(actor.userId, String(profile._id))
+      )
+    );
+
+    /* =====================================================
+     * 2️⃣ Load current memberships & organization names
+     * ===================================================== */
+    const memberships = await OrganizationMembershipModel.find({
+      userId: actor.userId,
+      status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+      ...(actor.apiKeyBusinessProfileId && {
+        businessProfileId: actor.apiKeyBusinessProfileId,
+      }),
+    })
+      .sort({ joinedAt: 1 })
+      .lean();
+
+    const businessProfiles = await BusinessProfileModel.find({
+      _id: { $in: memberships.map((m) => m.businessProfileId) },
+    })
+      .select("businessName")
+      .lean();
+
+    const businessNames = new Map(
+      businessProfiles.map((profile) => [
+        String(profile._id),
+        profile.businessName,
+      ])
+    );
+
+    return memberships.map((membership) =>
+      toMemberSummary(membership, {
+        businessName: businessNames.get(String(membership.businessProfileId)),
+      })
+    );
+  }
+
+  /**
+   * LIST MEMBERS SERVICE - Members of an organization (`members:read`)
+   */
+  static async listMembersService(
+    input: OrganizationMemberListInput
+  ): Promise<OrganizationMemberSummary[]> {
+    await authorize(input, Permission.MEMBERS_READ, {
+      businessProfileId: input.businessProfileId,
+    });
+
+    const memberships = await OrganizationMembershipModel.find({
+      businessProfileId: input.businessProfileId,
+      status: input.status || { $in: CURRENT_MEMBERSHIP_STATUSES },
+    })
+      .sort({ joinedAt: 1 })
+      .lean();
+
+    const users = await loadMemberUsers(
+      memberships.map((m) => String(m.userId))
+    );
+
+    return memberships.map((membership) =>
+      toMemberSummary(membership, {
+        user: users.get(String(membership.userId)),
+      })
+    );
+  }
+
+  /**
+   * ADD MEMBER SERVICE - Adds an existing user to an organization
+   */
+  static async addMemberService(
+    input: OrganizationMemberAddInput,
+    client: ClientMeta = {}
+  ): Promise<OrganizationMemberSummary> {
+    /* =====================================================
+     * 1️⃣ Authorize the caller
+     * ===================================================== */
+    const permissions = await authorize(input, Permission.MEMBERS_MANAGE, {
+      businessProfileId: input.businessProfileId,
+    });
+
+    if (
+      input.role === OrganizationRole.ADMIN &&
+      !permissions.has(Permission.ADMINS_MANAGE)
+    ) {
+      throw new AppError(
+        "You are not allowed to manage admins of this organization.",
+        403 // Forbidden
+      );
+    }
+
+    assertCanGrant(permissions, BUILT_IN_ROLE_PERMISSIONS[input.role]);
+
+    /* =====================================================
+     * 2️⃣ Resolve the user to add
+     * ===================================================== */
+    const user = await UserModel.findOne({
+      ...getIdentifierFilter(input.identifier),
+      status: AccountStatus.ACTIVE,
+      statusMeta: { $exists: false },
+    })
+      .select("username firstName lastName email")
+      .lean();
+
+    if (!user) {
+      throw new AppError("No active account matches this identifier.", 404);
+    }
+
+    const userId = String(user._id);
+
+    const existing = await OrganizationMembershipModel.exists({
+      businessProfileId: input.businessProfileId,
+      userId,
+      status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+    });
+
+    if (existing) {
+      throw new AppError(
+        "This user is already a member of the organization.",
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 3️⃣ Create (or reactivate) the membership
+     * ===================================================== */
+    const membership = await OrganizationMembershipModel.findOneAndUpdate(
+      { businessProfileId: input.businessProfileId, userId },
+      {
+        $set: {
+          role: input.role,
+          status: MembershipStatus.ACTIVE,
+          departmentIds: [],
+          departmentRoles: [],
+          joinedAt: new Date(),
+          invitedBy: input.userId,
+        },
+        $unset: { leftAt: "", customRoleId: "" },
+      },
+      { upsert: true, new: true }
+    ).lean();
+
+    await linkUserToOrganization(userId, input.businessProfileId);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.MEMBER_ADDED,
+        actorId: input.userId,
+        userId,
+        businessProfileId: input.businessProfileId,
+        metadata: { role: input.role },
+      },
+      client
+    );
+
+    return toMemberSummary(membership, {
+      user: {
+        id: userId,
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+      },
+    });
+  }
+
+  /**
+   * UPDATE MEMBER SERVICE - Changes a member's roles or suspends / reactivates them
+   */
+  static async updateMemberService(
+    input: OrganizationMemberUpdateInput,
+    client: ClientMeta = {}
+  ): Promise<OrganizationMemberSummary> {
+    /* =====================================================
+     * 1️⃣ Authorize (no permission the caller lacks)
+     * ===================================================== */
+    const { target, permissions } = await getManagedMembership(
+      input,
+      input.membershipId,
+      input.role
+    );
+
+    if (input.role) {
+      assertCanGrant(permissions, BUILT_IN_ROLE_PERMISSIONS[input.role]);
+    }
+
+    if (input.customRoleId) {
+      const customRole = await getOrganizationCustomRole(
+        target.businessProfileId,
+        input.customRoleId
+      );
+      assertCanGrant(permissions, customRole.permissions);
+    }
+
+    /* =====================================================
+     * 2️⃣ Update
+     * ===================================================== */
+    const updated = await OrganizationMembershipModel.findOneAndUpdate(
+      { _id: target._id, status: { $in: CURRENT_MEMBERSHIP_STATUSES } },
+      {
+        $set: {
+          ...(input.role && { role: input.role }),
+          ...(input.status && { status: input.status }),
+          ...(input.customRoleId && { customRoleId: input.customRoleId }),
+        },
+        ...(input.customRoleId === null && { $unset: { customRoleId: "" } }),
+      },
+      { new: true }
+    ).lean();
+
+    if (!updated) throw new AppError("Membership not found.", 404);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.MEMBER_UPDATED,
+        actorId: input.userId,
+        userId: String(target.userId),
+        businessProfileId: String(target.businessProfileId),
+        metadata: {
+          previousRole: target.role,
+          previousStatus: target.status,
+          previousCustomRoleId: target.customRoleId
+            ? String(target.customRoleId)
+            : undefined,
+          role: updated.role,
+          status: updated.status,
+          customRoleId: updated.customRoleId
+            ? String(updated.customRoleId)
+            : undefined,
+        },
+      },
+      client
+    );
+
+    return toMemberSummary(updated);
+  }
+
+  /**
+   * REMOVE MEMBER SERVICE - Removes a member from an organization
+   */
+  static async removeMemberService(
+    input: OrganizationMemberRemoveInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
+    const { target } = await getManagedMembership(input, input.membershipId);
+
+    const result = await OrganizationMembershipModel.updateOne(
+      { _id: target._id, status: { $in: CURRENT_MEMBERSHIP_STATUSES } },
+      { $set: { status: MembershipStatus.REMOVED, leftAt: new Date() } }
+    );
+
+    if (!result.modifiedCount) return;
+
+    const userId = String(target.userId);
+    const businessProfileId = String(target.businessProfileId);
+
+    await unlinkUserFromOrganization(userId, businessProfileId);
+    await clearDepartmentAssignments(userId, businessProfileId);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.MEMBER_REMOVED,
+        actorId: input.userId,
+        userId,
+        businessProfileId,
+        metadata: { role: target.role },
+      },
+      client
+    );
+  }
+
+  /**
+   * LEAVE SERVICE - The caller leaves an organization
+   */
+  static async leaveOrganizationService(
+    input: OrganizationLeaveInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
+    assertActorCanAccess(input, input.businessProfileId);
+
+    const membership = await OrganizationMembershipModel.findOne({
+      businessProfileId: input.businessProfileId,
+      userId: input.userId,
+      status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+    }).lean();
+
+    // Owners may not have a membership yet (backfilled on first use)
+    const isOwner =
+      membership?.role === OrganizationRole.OWNER ||
+      (!membership &&
+        !!(await BusinessProfileModel.exists({
+          _id: input.businessProfileId,
+          ownerUserId: input.userId,
+        })));
+
+    if (isOwner) {
+      throw new AppError("The organization owner cannot leave it.", 400);
+    }
+
+    if (!membership) {
+      throw new AppError("You are not a member of this organization.", 404);
+    }
+
+    await OrganizationMembershipModel.updateOne(
+      { _id: membership._id },
+      { $set: { status: MembershipStatus.LEFT, leftAt: new Date() } }
+    );
+
+    await unlinkUserFromOrganization(input.userId, input.businessProfileId);
+    await clearDepartmentAssignments(input.userId, input.businessProfileId);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.MEMBER_LEFT,
+        userId: input.userId,
+        businessProfileId: input.businessProfileId,
+        metadata: { role: membership.role },
+      },
+      client
+    );
+  }
+}
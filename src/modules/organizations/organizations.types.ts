@@ -0,0 +1,100 @@
+// ==========================================
+// FILE: src/rest/organizations/organizations.types.ts
+// ==========================================
+/**
+ * Organization membership types & contracts
+ * Used by service, helpers, validators & GraphQL resolvers
+ */
+
+import { MembershipStatus, OrganizationRole } from "@constants/enum.constants";
+
+/* =====================================================
+ * ORGANIZATIONS – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Caller identity (from the GraphQL context)
+ */
+export interface OrganizationActorInput {
+  userId: string;
+  // Organization-scoped API keys may only act on their own organization
+  apiKeyBusinessProfileId?: string | undefined;
+}
+
+/**
+ * List the members of one organization
+ */
+export interface OrganizationMemberListInput extends OrganizationActorInput {
+  businessProfileId: string;
+  status?: MembershipStatus | undefined; // ACTIVE & SUSPENDED when omitted
+}
+
+/**
+ * Add an existing user to an organization
+ */
+export interface OrganizationMemberAddInput extends OrganizationActorInput {
+  businessProfileId: string;
+  identifier: string; // email | username | phone of the user to add
+  role: OrganizationRole;
+}
+
+/**
+ * Change a member's role and / or suspend / reactivate them
+ */
+export interface OrganizationMemberUpdateInput extends OrganizationActorInput {
+  membershipId: string;
+  role?: OrganizationRole | undefined;
+  customRoleId?: string | null | undefined; // null removes the custom role
+  status?: MembershipStatus.ACTIVE | MembershipStatus.SUSPENDED | undefined;
+}
+
+/**
+ * Remove a member (requires `members:manage`)
+ */
+export interface OrganizationMemberRemoveInput extends OrganizationActorInput {
+  membershipId: string;
+}
+
+/**
+ * Leave an organization (the member themselves)
+ */
+export interface OrganizationLeaveInput extends OrganizationActorInput {
+  businessProfileId: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface DepartmentRoleAssignmentSummary {
+  departmentId: string;
+  role?: OrganizationRole | undefined;
+  customRoleId?: string | undefined;
+}
+
+export interface OrganizationMemberUser {
+  id: string;
+  username?: string | undefined;
+  firstName?: string | undefined;
+  lastName?: string | undefined;
+  email: string;
+}
+
+export interface OrganizationMemberSummary {
+  id: string;
+  userId: string;
+  businessProfileId: string;
+  businessName?: string | undefined;
+
+  role: OrganizationRole;
+  status: MembershipStatus;
+  customRoleId?: string | undefined;
+  departmentIds: string[];
+  departmentRoles: DepartmentRoleAssignmentSummary[];
+
+  joinedAt: Date;
+  invitedBy?: string | undefined;
+  leftAt?: Date | undefined;
+
+  user?: OrganizationMemberUser | undefined;
+}
@@ -0,0 +1,75 @@
+// ==========================================
+// FILE: src/rest/organizations/organizations.validator.ts
+// ==========================================
+/**
+ * Organization membership validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB logic
+ */
+
+import { z } from "zod";
+
+import { MembershipStatus, OrganizationRole } from "@constants/enum.constants";
+import { identifierValidator } from "@modules/auth/auth.validator";
+
+const objectIdValidator = (label: string) =>
+  z
+    .string({ error: `${label} is required.` })
+    .regex(/^[a-f\d]{24}$/i, `Invalid ${label.toLowerCase()}.`);
+
+// Ownership is never granted through membership APIs
+export const assignableRoleValidator = z.enum(
+  [
+    OrganizationRole.ADMIN,
+    OrganizationRole.MANAGER,
+    OrganizationRole.MEMBER,
+    OrganizationRole.VIEWER,
+  ],
+  { error: "Role must be ADMIN, MANAGER, MEMBER or VIEWER." }
+);
+
+/* ----------------------------------
+ * IDS
+ * ---------------------------------- */
+
+export const businessProfileIdValidator = objectIdValidator(
+  "Business profile id"
+);
+
+export const membershipIdValidator = objectIdValidator("Membership id");
+
+/* ----------------------------------
+ * LIST
+ * ---------------------------------- */
+
+export const memberListValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+  status: z.enum(MembershipStatus, { error: "Invalid status." }).optional(),
+});
+
+/* ----------------------------------
+ * ADD / UPDATE
+ * ---------------------------------- */
+
+export const memberAddValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+  identifier: identifierValidator,
+  role: assignableRoleValidator.default(OrganizationRole.MEMBER),
+});
+
+export const memberUpdateValidator = z
+  .object({
+    membershipId: membershipIdValidator,
+    role: assignableRoleValidator.optional(),
+    customRoleId: objectIdValidator("Role id").nullable().optional(),
+    status: z
+      .enum([MembershipStatus.ACTIVE, MembershipStatus.SUSPENDED], {
+        error: "Status must be ACTIVE or SUSPENDED.",
+      })
+      .optional(),
+  })
+  .refine(
+    (data) => data.role || data.status || data.customRoleId !== undefined,
+    { message: "Provide a role, a custom role or a status to update." }
+  );
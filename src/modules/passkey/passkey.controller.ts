@@ -0,0 +1,171 @@
+// ==========================================
+// FILE: src/rest/passkey/passkey.controller.ts
+// ==========================================
+/**
+ * Passkey Controller
+ * ------------------------------------------
+ * - Registration ceremony (options → verify)
+ * - List / remove passkeys
+ * - Passwordless signin ceremony (options → verify)
+ */
+
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { AppError } from "@utils/AppError.util";
+import { applyTokenTransport } from "@utils/authCookie.util";
+import { getClientMeta } from "@utils/device.util";
+import { Request, Response } from "express";
+import { PasskeyService } from "./passkey.service";
+import {
+  passkeyIdValidator,
+  passkeyRegisterOptionsValidator,
+  passkeyRegisterVerifyValidator,
+  passkeySigninOptionsValidator,
+  passkeySigninVerifyValidator,
+} from "./passkey.validator";
+
+export class PasskeyController {
+  /**
+   * POST /auth/passkey/register/options
+   */
+  static async registerOptionsController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = passkeyRegisterOptionsValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await PasskeyService.registerOptionsService(
+      {
+        userId: req.auth.userId,
+        sessionId: req.auth.sessionId,
+        ...parsedData,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Passkey registration options generated.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/passkey/register/verify
+   */
+  static async registerVerifyController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = passkeyRegisterVerifyValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await PasskeyService.registerVerifyService(
+      {
+        userId: req.auth.userId,
+        sessionToken: parsedData.sessionToken,
+        response: parsedData.response as unknown as RegistrationResponseJSON,
+        name: parsedData.name,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(201).json({
+      success: true,
+      message: "Passkey registered successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * GET /auth/passkey
+   */
+  static async listController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Call Service
+    const result = await PasskeyService.listService(req.auth.userId);
+
+    // 2. Respond
+    res.status(200).json({
+      success: true,
+      message: "Passkeys fetched successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /auth/passkey/:passkeyId
+   */
+  static async deleteController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const passkeyId = passkeyIdValidator.parse(req.params.passkeyId);
+
+    // 2. Call Service
+    await PasskeyService.deleteService({ userId: req.auth.userId, passkeyId });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Passkey removed successfully.",
+      data: null,
+    });
+  }
+
+  /**
+   * POST /auth/passkey/signin/options
+   */
+  static async signinOptionsController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = passkeySigninOptionsValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await PasskeyService.signinOptionsService(parsedData);
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Passkey signin options generated.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/passkey/signin/verify
+   */
+  static async signinVerifyController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = passkeySigninVerifyValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await PasskeyService.signinVerifyService(
+      {
+        sessionToken: parsedData.sessionToken,
+        response: parsedData.response as unknown as AuthenticationResponseJSON,
+      },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Signed in successfully.",
+      data: applyTokenTransport(req, res, result),
+    });
+  }
+}
@@ -0,0 +1,51 @@
+// ================================
+// FILE: src/rest/passkey/passkey.routes.ts
+// ================================
+/**
+ * Passkey (WebAuthn) REST routes
+ * - Registration & management (authenticated)
+ * - Passwordless signin (public)
+ */
+
+import { authenticateSession } from "@middlewares/auth.middleware";
+import { signinRateLimiter } from "@middlewares/rateLimit.middleware";
+import { Router } from "express";
+import { PasskeyController } from "./passkey.controller";
+
+const router = Router();
+
+/**
+ * Registration & management
+ */
+router.get("/", authenticateSession, PasskeyController.listController);
+router.post(
+  "/register/options",
+  authenticateSession,
+  PasskeyController.registerOptionsController
+);
+router.post(
+  "/register/verify",
+  authenticateSession,
+  PasskeyController.registerVerifyController
+);
+router.delete(
+  "/:passkeyId",
+  authenticateSession,
+  PasskeyController.deleteController
+);
+
+/**
+ * Passwordless signin
+ */
+router.post(
+  "/signin/options",
+  signinRateLimiter,
+  PasskeyController.signinOptionsController
+);
+router.post(
+  "/signin/verify",
+  signinRateLimiter,
+  PasskeyController.signinVerifyController
+);
+
+export default router;
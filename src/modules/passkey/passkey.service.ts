@@ -0,0 +1,464 @@
+// ==========================================
+// FILE: src/rest/passkey/passkey.service.ts
+// ==========================================
+/**
+ * Passkey Service
+ * ------------------------------------------
+ * Passwordless authentication using WebAuthn
+ * - Registration ceremony (authenticated & re-authenticated user)
+ * - Authentication ceremony (passkey signin)
+ * - Challenges live in Redis like OTP sessions (single use, short TTL)
+ * - Issues the same session & token pair as password signin
+ */
+
+import {
+  AuthenticatorTransportFuture,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import { v4 as uuidv4 } from "uuid";
+
+import { appConfig } from "@config/app.config";
+import { env } from "@config/env.config";
+import {
+  AccountStatus,
+  AuditEventType,
+  SessionType,
+  SigninMethod,
+} from "@constants/enum.constants";
+import { getRedisClient } from "@core/redis";
+import { logger } from "@logger/index";
+import {
+  IPasskeyCredential,
+  PasskeyCredentialModel,
+} from "@models/PasskeyCredential.model";
+import { IUser, UserModel } from "@models/User.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import {
+  assertReauthenticated,
+  createSigninSession,
+  getIdentifierFilter,
+  getSessionKey,
+} from "@modules/auth/auth.helpers";
+import { AuthTokens, RedisAuthSession } from "@modules/auth/auth.types";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import { sendPasskeyAddedEmail } from "helpers/email";
+import {
+  PasskeyDeleteInput,
+  PasskeyRegisterOptionsInput,
+  PasskeyRegisterOptionsResult,
+  PasskeyRegisterVerifyInput,
+  PasskeySigninOptionsInput,
+  PasskeySigninOptionsResult,
+  PasskeySigninVerifyInput,
+  PasskeySummary,
+} from "./passkey.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+const getExpectedOrigins = (): string[] =>
+  (env.WEBAUTHN_ORIGINS || env.APP_CLIENT_BASE_URL)
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+const toPasskeySummary = (passkey: IPasskeyCredential): PasskeySummary => ({
+  id: String(passkey._id),
+  name: passkey.name,
+  transports: passkey.transports,
+  backedUp: passkey.backedUp,
+  lastUsedAt: passkey.lastUsedAt,
+  createdAt: passkey.createdAt,
+});
+
+/**
+ * Stores a ceremony challenge (Redis)
+ */
+const storeChallenge = async (
+  type: SessionType.PASSKEY_REGISTER | SessionType.PASSKEY_SIGNIN,
+  challenge: string,
+  userId?: string
+): Promise<string> => {
+  const sessionToken = uuidv4();
+
+  const session: RedisAuthSession = {
+    type,
+    challenge,
+    userId,
+
+    verified: false,
+    used: false,
+
+    createdAt: Date.now(),
+  };
+
+  await getRedisClient().setex(
+    getSessionKey(sessionToken),
+    appConfig.PASSKEY.CHALLENGE_TTL_SECONDS,
+    JSON.stringify(session)
+  );
+
+  return sessionToken;
+};
+
+/**
+ * Consumes a ceremony challenge (single use, read & delete atomically)
+ */
+const consumeChallenge = async (
+  sessionToken: string,
+  type: SessionType.PASSKEY_REGISTER | SessionType.PASSKEY_SIGNIN
+): Promise<RedisAuthSession & { challenge: string }> => {
+  const redisKey = getSessionKey(sessionToken);
+
+  const [[, sessionData] = []] =
+    (await getRedisClient().multi().get(redisKey).del(redisKey).exec()) || [];
+
+  if (!sessionData) {
+    throw new AppError(
+      "Passkey request has expired. Please try again.",
+      410 // Gone
+    );
+  }
+
+  const session: RedisAuthSession = JSON.parse(sessionData as string);
+
+  if (session.type !== type || !session.challenge) {
+    throw new AppError("Invalid passkey request.", 400);
+  }
+
+  return { ...session, challenge: session.challenge };
+};
+
+/* ----------------------------------
+ * PASSKEY SERVICE
+ * ---------------------------------- */
+
+export class PasskeyService {
+  /**
+   * REGISTER OPTIONS SERVICE - Starts a registration ceremony
+   * A passkey skips both password & 2FA, so the caller re-authenticates first
+   */
+  static async registerOptionsService(
+    input: PasskeyRegisterOptionsInput,
+    client: ClientMeta = {}
+  ): Promise<PasskeyRegisterOptionsResult> {
+    /* =====================================================
+     * 1️⃣ Resolve user, re-authenticate & load existing passkeys
+     * ===================================================== */
+    const user = await UserModel.findById(input.userId).select("+password");
+    if (!user) throw new AppError("User not found.", 404);
+
+    await assertReauthenticated(user, input, "adding a passkey", client);
+
+    const passkeys = await PasskeyCredentialModel.find({ userId: user._id });
+
+    if (passkeys.length >= appConfig.PASSKEY.MAX_PER_USER) {
+      throw new AppError(
+        `You can register up to ${appConfig.PASSKEY.MAX_PER_USER} passkeys.`,
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Generate creation options
+     * ===================================================== */
+    const options = await generateRegistrationOptions({
+      rpName: appConfig.APP_NAME,
+      rpID: env.WEBAUTHN_RP_ID,
+      userID: new TextEncoder().encode(String(user._id)),
+      userName: user.username || user.email,
+      userDisplayName:
+        [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+        user.email,
+      attestationType: "none",
+      excludeCredentials: passkeys.map((passkey) => ({
+        id: passkey.credentialId,
+        transports: passkey.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "required",
+      },
+      timeout: appConfig.PASSKEY.CHALLENGE_TTL_SECONDS * 1000,
+    });
+
+    /* =====================================================
+     * 3️⃣ Store challenge (Redis)
+     * ===================================================== */
+    const sessionToken = await storeChallenge(
+      SessionType.PASSKEY_REGISTER,
+      options.challenge,
+      String(user._id)
+    );
+
+    return { sessionToken, options };
+  }
+
+  /**
+   * REGISTER VERIFY SERVICE - Verifies attestation & stores the credential
+   */
+  static async registerVerifyService(
+    input: PasskeyRegisterVerifyInput,
+    client: ClientMeta = {}
+  ): Promise<PasskeySummary> {
+    /* =====================================================
+     * 1️⃣ Consume challenge & ensure it belongs to the user
+     * ===================================================== */
+    const session = await consumeChallenge(
+      input.sessionToken,
+      SessionType.PASSKEY_REGISTER
+    );
+
+    if (String(session.userId) !== input.userId) {
+      throw new AppError("Invalid passkey request.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Verify attestation
+     * ===================================================== */
+    let verification;
+
+    try {
+      verification = await verifyRegistrationResponse({
+        response: input.response,
+        expectedChallenge: session.challenge,
+        expectedOrigin: getExpectedOrigins(),
+        expectedRPID: env.WEBAUTHN_RP_ID,
+        requireUserVerification: true,
+      });
+    } catch (err) {
+      logger.warn({ err }, "Passkey registration verification failed");
+      throw new AppError("Passkey registration could not be verified.", 400);
+    }
+
+    if (!verification.verified) {
+      throw new AppError("Passkey registration could not be verified.", 400);
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    /* =====================================================
+     * 3️⃣ Store credential
+     * ===================================================== */
+    if (await PasskeyCredentialModel.exists({ credentialId: credential.id })) {
+      throw new AppError(
+        "This passkey is already registered.",
+        409 // Conflict
+      );
+    }
+
+    const passkey = await PasskeyCredentialModel.create({
+      userId: input.userId,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString("base64url"),
+      counter: credential.counter,
+      transports: credential.transports || [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      ...(input.name && { name: input.name }),
+    });
+
+    /* =====================================================
+     * 4️⃣ Audit & notify the account owner
+     * ===================================================== */
+    await recordAuditEvent(
+      {
+        type: AuditEventType.PASSKEY_REGISTERED,
+        userId: input.userId,
+        metadata: { passkeyId: String(passkey._id) },
+      },
+      client
+    );
+
+    const user = await UserModel.findById(input.userId);
+
+    if (user) {
+      sendPasskeyAddedEmail({
+        email: user.email,
+        device: client.device,
+        ip: client.ip,
+        location: client.location,
+        time: new Date().toUTCString(),
+      });
+    }
+
+    return toPasskeySummary(passkey);
+  }
+
+  /**
+   * LIST SERVICE - Passkeys registered by the user
+   */
+  static async listService(userId: string): Promise<PasskeySummary[]> {
+    const passkeys = await PasskeyCredentialModel.find({ userId }).sort({
+      createdAt: -1,
+    });
+
+    return passkeys.map(toPasskeySummary);
+  }
+
+  /**
+   * DELETE SERVICE - Removes a passkey
+   */
+  static async deleteService(input: PasskeyDeleteInput): Promise<void> {
+    const result = await PasskeyCredentialModel.deleteOne({
+      _id: input.passkeyId,
+      userId: input.userId,
+    });
+
+    if (!result.deletedCount) {
+      throw new AppError("Passkey not found.", 404);
+    }
+  }
+
+  /**
+   * SIGNIN OPTIONS SERVICE - Starts an authentication ceremony
+   */
+  static async signinOptionsService(
+    input: PasskeySigninOptionsInput
+  ): Promise<PasskeySigninOptionsResult> {
+    /* =====================================================
+     * 1️⃣ Resolve allowed credentials (identifier is optional)
+     * ===================================================== */
+    let allowCredentials: {
+      id: string;
+      transports: AuthenticatorTransportFuture[];
+    }[] = [];
+    let userId: string | undefined;
+
+    if (input.identifier) {
+      const user = await UserModel.findOne({
+        ...getIdentifierFilter(input.identifier),
+      });
+
+      // Do not reveal whether the account exists: fall back to discoverable flow
+      if (user) {
+        userId = String(user._id);
+
+        const passkeys = await PasskeyCredentialModel.find({
+          userId: user._id,
+        });
+
+        allowCredentials = passkeys.map((passkey) => ({
+          id: passkey.credentialId,
+          transports: passkey.transports,
+        }));
+      }
+    }
+
+    /* =====================================================
+     * 2️⃣ Generate request options
+     * ===================================================== */
+    const options = await generateAuthenticationOptions({
+      rpID: env.WEBAUTHN_RP_ID,
+      allowCredentials,
+      userVerification: "required",
+      timeout: appConfig.PASSKEY.CHALLENGE_TTL_SECONDS * 1000,
+    });
+
+    /* =====================================================
+     * 3️⃣ Store challenge (Redis)
+     * ===================================================== */
+    const sessionToken = await storeChallenge(
+      SessionType.PASSKEY_SIGNIN,
+      options.challenge,
+      userId
+    );
+
+    return { sessionToken, options };
+  }
+
+  /**
+   * SIGNIN VERIFY SERVICE - Verifies the assertion and signs the user in
+   */
+  static async signinVerifyService(
+    input: PasskeySigninVerifyInput,
+    client: ClientMeta = {}
+  ): Promise<{ user: IUser; tokens: AuthTokens }> {
+    /* =====================================================
+     * 1️⃣ Consume challenge (single use)
+     * ===================================================== */
+    const session = await consumeChallenge(
+      input.sessionToken,
+      SessionType.PASSKEY_SIGNIN
+    );
+
+    /* =====================================================
+     * 2️⃣ Resolve credential
+     * ===================================================== */
+    const passkey = await PasskeyCredentialModel.findOne({
+      credentialId: input.response.id,
+    }).select("+publicKey +counter");
+
+    if (!passkey) throw new AppError("Invalid credentials.", 401);
+
+    if (session.userId && String(session.userId) !== String(passkey.userId)) {
+      throw new AppError("Invalid credentials.", 401);
+    }
+
+    /* =====================================================
+     * 3️⃣ Verify assertion (signature, origin, RP ID, counter)
+     * ===================================================== */
+    let verification;
+
+    try {
+      verification = await verifyAuthenticationResponse({
+        response: input.response,
+        expectedChallenge: session.challenge,
+        expectedOrigin: getExpectedOrigins(),
+        expectedRPID: env.WEBAUTHN_RP_ID,
+        credential: {
+          id: passkey.credentialId,
+          publicKey: new Uint8Array(Buffer.from(passkey.publicKey, "base64url")),
+          counter: passkey.counter,
+          transports: passkey.transports,
+        },
+        requireUserVerification: true,
+      });
+    } catch (err) {
+      logger.warn({ err }, "Passkey authentication verification failed");
+      throw new AppError("Invalid credentials.", 401);
+    }
+
+    if (!verification.verified) {
+      throw new AppError("Invalid credentials.", 401);
+    }
+
+    passkey.counter = verification.authenticationInfo.newCounter;
+    passkey.lastUsedAt = new Date();
+    await passkey.save();
+
+    /* =====================================================
+     * 4️⃣ Resolve user & enforce account status
+     * ===================================================== */
+    const user = await UserModel.findById(passkey.userId).select(
+      "+accountType +status +statusMeta"
+    );
+
+    if (!user) throw new AppError("Invalid credentials.", 401);
+
+    if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
+      throw new AppError(
+        "Your account is not active. Please contact support.",
+        403 // Forbidden
+      );
+    }
+
+    /* =====================================================
+     * 5️⃣ Create auth session (Redis) & issue tokens
+     * A user-verified passkey is already multi-factor, so no 2FA challenge
+     * ===================================================== */
+    const { tokens } = await createSigninSession(
+      user,
+      SigninMethod.PASSKEY,
+      client
+    );
+
+    return { user, tokens };
+  }
+}
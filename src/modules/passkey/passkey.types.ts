@@ -0,0 +1,86 @@
+// ==========================================
+// FILE: src/rest/passkey/passkey.types.ts
+// ==========================================
+/**
+ * Passkey (WebAuthn) types & contracts
+ * Used by controller, service, validators
+ */
+
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+
+import { PasskeyTransport } from "@models/PasskeyCredential.model";
+
+/* =====================================================
+ * PASSKEY – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Start a registration ceremony (re-authenticates the caller)
+ */
+export interface PasskeyRegisterOptionsInput {
+  userId: string;
+  sessionId: string;
+  password?: string | undefined; // required when the account has one
+}
+
+/**
+ * Complete a registration ceremony
+ */
+export interface PasskeyRegisterVerifyInput {
+  userId: string;
+  sessionToken: string;
+  response: RegistrationResponseJSON;
+  name?: string | undefined;
+}
+
+/**
+ * Start a signin ceremony
+ * Without identifier → discoverable credentials (usernameless)
+ */
+export interface PasskeySigninOptionsInput {
+  identifier?: string | undefined;
+}
+
+/**
+ * Complete a signin ceremony
+ */
+export interface PasskeySigninVerifyInput {
+  sessionToken: string;
+  response: AuthenticationResponseJSON;
+}
+
+/**
+ * Remove a passkey
+ */
+export interface PasskeyDeleteInput {
+  userId: string;
+  passkeyId: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface PasskeyRegisterOptionsResult {
+  sessionToken: string;
+  options: PublicKeyCredentialCreationOptionsJSON;
+}
+
+export interface PasskeySigninOptionsResult {
+  sessionToken: string;
+  options: PublicKeyCredentialRequestOptionsJSON;
+}
+
+export interface PasskeySummary {
+  id: string;
+  name: string;
+  transports: PasskeyTransport[];
+  backedUp: boolean;
+  lastUsedAt?: Date | undefined;
+  createdAt: Date;
+}
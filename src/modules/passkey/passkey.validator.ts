@@ -0,0 +1,89 @@
+// ==========================================
+// FILE: src/rest/passkey/passkey.validator.ts
+// ==========================================
+/**
+ * Passkey validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - Cryptographic checks happen in the service (WebAuthn verification)
+ */
+
+import { z } from "zod";
+
+import {
+  identifierValidator,
+  sessionTokenValidator,
+} from "@modules/auth/auth.validator";
+
+/* =====================================================
+ * CREDENTIAL RESPONSE (browser → server)
+ * Shape only; attestation / assertion are verified by the service
+ * ===================================================== */
+
+const base64UrlValidator = z
+  .string({ error: "Invalid credential response." })
+  .regex(/^[A-Za-z0-9_-]+$/, "Invalid credential response.");
+
+const credentialResponseValidator = z.looseObject({
+  id: base64UrlValidator,
+  rawId: base64UrlValidator,
+  type: z.literal("public-key", { error: "Invalid credential type." }),
+  clientExtensionResults: z.looseObject({}).default({}),
+});
+
+/* ----------------------------------
+ * REGISTRATION
+ * ---------------------------------- */
+
+export const passkeyRegisterOptionsValidator = z.object({
+  password: z
+    .string({ error: "Password must be a string." })
+    .min(1, "Password is required.")
+    .optional(),
+});
+
+export const passkeyRegisterVerifyValidator = z.object({
+  sessionToken: sessionTokenValidator,
+
+  response: credentialResponseValidator.extend({
+    response: z.looseObject({
+      clientDataJSON: base64UrlValidator,
+      attestationObject: base64UrlValidator,
+    }),
+  }),
+
+  name: z
+    .string()
+    .trim()
+    .min(1, "Passkey name cannot be empty.")
+    .max(50, "Passkey name must be at most 50 characters.")
+    .optional(),
+});
+
+/* ----------------------------------
+ * SIGNIN
+ * ---------------------------------- */
+
+export const passkeySigninOptionsValidator = z.object({
+  identifier: identifierValidator.optional(),
+});
+
+export const passkeySigninVerifyValidator = z.object({
+  sessionToken: sessionTokenValidator,
+
+  response: credentialResponseValidator.extend({
+    response: z.looseObject({
+      clientDataJSON: base64UrlValidator,
+      authenticatorData: base64UrlValidator,
+      signature: base64UrlValidator,
+    }),
+  }),
+});
+
+/* ----------------------------------
+ * MANAGEMENT
+ * ---------------------------------- */
+
+export const passkeyIdValidator = z
+  .string({ error: "Passkey id is required." })
+  .regex(/^[a-f\d]{24}$/i, "Invalid passkey id.");
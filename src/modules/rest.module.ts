@@ -10,7 +10,20 @@
 
 import { Request, Response, Router } from "express";
 
+import { appConfig } from "@config/app.config";
+import { getPublicJwks } from "@utils/signingKey.util";
+
+import accountRoutes from "./account/account.routes";
+import adminRoutes from "./admin/admin.routes";
+import apiKeysRoutes from "./apiKeys/apiKeys.routes";
+import auditRoutes from "./audit/audit.routes";
 import authRoutes from "./auth/auth.routes";
+import invitationsRoutes from "./invitations/invitations.routes";
+import oauthRoutes from "./oauth/oauth.routes";
+import passkeyRoutes from "./passkey/passkey.routes";
+import rolesRoutes from "./roles/roles.routes";
+import sessionsRoutes from "./sessions/sessions.routes";
+import twoFactorRoutes from "./twoFactor/twoFactor.routes";
 
 // Route versioning
 const router = Router();
@@ -27,6 +40,28 @@ router.get("/health", (_req: Request, res: Response) => {
   });
 });
 
+/**
+ * JSON Web Key Set
+ * - Public keys for verifying our access tokens (by `kid`)
+ */
+router.get("/.well-known/jwks.json", (_req: Request, res: Response) => {
+  res.set(
+    "Cache-Control",
+    `public, max-age=${appConfig.SIGNING_KEYS.JWKS_MAX_AGE_SECONDS}`
+  );
+  res.status(200).json(getPublicJwks());
+});
+
+router.use("/auth/oauth", oauthRoutes);
+router.use("/auth/2fa", twoFactorRoutes);
+router.use("/auth/passkey", passkeyRoutes);
+router.use("/auth/sessions", sessionsRoutes);
+router.use("/auth/account", accountRoutes);
+router.use("/auth/api-keys", apiKeysRoutes);
 router.use("/auth", authRoutes);
+router.use("/organizations/:businessProfileId/roles", rolesRoutes);
+router.use("/organizations", invitationsRoutes);
+router.use("/admin/audit-events", auditRoutes);
+router.use("/admin", adminRoutes);
 
 export const restModule = router;
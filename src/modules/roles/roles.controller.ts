@@ -0,0 +1,222 @@
+// ==========================================
+// FILE: src/rest/roles/roles.controller.ts
+// ==========================================
+/**
+ * Roles Controller
+ * ------------------------------------------
+ * - Permission catalog & organization roles
+ * - The caller's effective permissions
+ * - Create / update / delete custom roles
+ * - Grant / revoke department roles
+ */
+
+import { AuthContext } from "@modules/auth/auth.types";
+import { OrganizationActorInput } from "@modules/organizations/organizations.types";
+import { AppError } from "@utils/AppError.util";
+import { getClientMeta } from "@utils/device.util";
+import { Request, Response } from "express";
+import { getPermissionCatalog } from "./roles.helpers";
+import { RolesService } from "./roles.service";
+import {
+  customRoleCreateValidator,
+  customRoleIdValidator,
+  customRoleUpdateValidator,
+  departmentRoleAssignValidator,
+  departmentRoleRevokeValidator,
+  myPermissionsValidator,
+  roleListValidator,
+} from "./roles.validator";
+
+const toActor = (auth: AuthContext): OrganizationActorInput => ({
+  userId: auth.userId,
+  apiKeyBusinessProfileId: auth.apiKey?.businessProfileId,
+});
+
+export class RolesController {
+  /**
+   * GET /organizations/:businessProfileId/roles
+   */
+  static async listRolesController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = roleListValidator.parse(req.params);
+
+    // 2. Call Service
+    const roles = await RolesService.listRolesService({
+      ...toActor(req.auth),
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Roles fetched successfully.",
+      data: { permissions: getPermissionCatalog(), roles },
+    });
+  }
+
+  /**
+   * GET /organizations/:businessProfileId/roles/me
+   */
+  static async myPermissionsController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = myPermissionsValidator.parse({
+      businessProfileId: req.params.businessProfileId,
+      departmentId: req.query.departmentId,
+    });
+
+    // 2. Call Service
+    const result = await RolesService.getMyPermissionsService({
+      ...toActor(req.auth),
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Permissions fetched successfully.",
+      data: { permissions: result },
+    });
+  }
+
+  /**
+   * POST /organizations/:businessProfileId/roles
+   */
+  static async createRoleController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = customRoleCreateValidator.parse({
+      ...(req.body || {}),
+      businessProfileId: req.params.businessProfileId,
+    });
+
+    // 2. Call Service
+    const result = await RolesService.createCustomRoleService(
+      { ...toActor(req.auth), ...parsedData },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(201).json({
+      success: true,
+      message: "Role created successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * PATCH /organizations/:businessProfileId/roles/:roleId
+   */
+  static async updateRoleController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = customRoleUpdateValidator.parse({
+      ...(req.body || {}),
+      roleId: req.params.roleId,
+    });
+
+    // 2. Call Service
+    const result = await RolesService.updateCustomRoleService(
+      { ...toActor(req.auth), ...parsedData },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Role updated successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /organizations/:businessProfileId/roles/:roleId
+   */
+  static async deleteRoleController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const roleId = customRoleIdValidator.parse(req.params.roleId);
+
+    // 2. Call Service
+    await RolesService.deleteCustomRoleService(
+      { ...toActor(req.auth), roleId },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Role deleted successfully.",
+    });
+  }
+
+  /**
+   * PUT /organizations/:businessProfileId/roles/departments/:departmentId/members/:membershipId
+   */
+  static async assignDepartmentRoleController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = departmentRoleAssignValidator.parse({
+      ...(req.body || {}),
+      departmentId: req.params.departmentId,
+      membershipId: req.params.membershipId,
+    });
+
+    // 2. Call Service
+    const result = await RolesService.assignDepartmentRoleService(
+      { ...toActor(req.auth), ...parsedData },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Department role assigned successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /organizations/:businessProfileId/roles/departments/:departmentId/members/:membershipId
+   */
+  static async revokeDepartmentRoleController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = departmentRoleRevokeValidator.parse(req.params);
+
+    // 2. Call Service
+    const result = await RolesService.revokeDepartmentRoleService(
+      { ...toActor(req.auth), ...parsedData },
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Department role revoked successfully.",
+      data: result,
+    });
+  }
+}
@@ -0,0 +1,249 @@
+// ==========================================
+// FILE: src/rest/roles/roles.helpers.ts
+// ==========================================
+/**
+ * Organization RBAC policy
+ * - `can` / `authorize`: the single permission check (REST, GraphQL & services)
+ * - Effective permissions: built-in role + custom role + department roles
+ * - Escalation guard: nobody grants a permission they do not hold
+ */
+
+import { Types } from "mongoose";
+
+import { OrganizationRole, Permission } from "@constants/enum.constants";
+import {
+  BUILT_IN_ROLE_PERMISSIONS,
+  DEPARTMENT_SCOPED_PERMISSIONS,
+  PERMISSION_DESCRIPTIONS,
+} from "@constants/permission.constants";
+import { CustomRoleModel, ICustomRole } from "@models/CustomRole.model";
+import { DepartmentModel } from "@models/Department.model";
+import {
+  IDepartmentRoleAssignment,
+  IOrganizationMembership,
+} from "@models/OrganizationMembership.model";
+import {
+  assertActorCanAccess,
+  getActiveMembership,
+} from "@modules/organizations/organizations.helpers";
+import { OrganizationActorInput } from "@modules/organizations/organizations.types";
+import { AppError } from "@utils/AppError.util";
+import {
+  PermissionDefinition,
+  PolicyResource,
+  RoleSummary,
+} from "./roles.types";
+
+/* ----------------------------------
+ * EFFECTIVE PERMISSIONS
+ * ---------------------------------- */
+
+/**
+ * Department roles granted on a department or one of its ancestors
+ */
+const getApplicableDepartmentRoles = async (
+  membership: Pick<
+    IOrganizationMembership,
+    "businessProfileId" | "departmentRoles"
+  >,
+  departmentId: string | undefined
+): Promise<IDepartmentRoleAssignment[]> => {
+  if (!departmentId || !membership.departmentRoles?.length) return [];
+
+  const department = await DepartmentModel.findOne({
+    _id: departmentId,
+    businessProfileId: membership.businessProfileId,
+  })
+    .select("ancestors")
+    .lean();
+
+  if (!department) return [];
+
+  const scope = new Set([
+    String(department._id),
+    ...department.ancestors.map(String),
+  ]);
+
+  return membership.departmentRoles.filter((assignment) =>
+    scope.has(String(assignment.departmentId))
+  );
+};
+
+/**
+ * Permissions of a membership in its organization, or inside one department.
+ * Department roles only add department-scoped permissions.
+ */
+export const getEffectivePermissions = async (
+  membership: Pick<
+    IOrganizationMembership,
+    "businessProfileId" | "role" | "customRoleId" | "departmentRoles"
+  >,
+  departmentId?: string
+): Promise<Set<Permission>> => {
+  const permissions = new Set(BUILT_IN_ROLE_PERMISSIONS[membership.role]);
+  const departmentRoles = await getApplicableDepartmentRoles(
+    membership,
+    departmentId
+  );
+
+  const customRoleIds = [
+    membership.customRoleId,
+    ...departmentRoles.map((assignment) => assignment.customRoleId),
+  ].filter((id): id is Types.ObjectId => !!id);
+
+  const customRoles = customRoleIds.length
+    ? await CustomRoleModel.find({
+        _id: { $in: customRoleIds },
+        businessProfileId: membership.businessProfileId,
+      })
+        .select("permissions")
+        .lean()
+    : [];
+
+  const customPermissions = new Map(
+    customRoles.map((role) => [String(role._id), role.permissions])
+  );
+
+  if (membership.customRoleId) {
+    for (const permission of customPermissions.get(
+      String(membership.customRoleId)
+    ) || []) {
+      permissions.add(permission);
+    }
+  }
+
+  for (const assignment of departmentRoles) {
+    const granted = assignment.role
+      ? BUILT_IN_ROLE_PERMISSIONS[assignment.role]
+      : customPermissions.get(String(assignment.customRoleId)) || [];
+
+    for (const permission of granted) {
+      if (DEPARTMENT_SCOPED_PERMISSIONS.has(permission)) {
+        permissions.add(permission);
+      }
+    }
+  }
+
+  return permissions;
+};
+
+/* ----------------------------------
+ * POLICY
+ * ---------------------------------- */
+
+/**
+ * Requires `action` on `resource`, otherwise throws 403.
+ * Returns the caller's effective permissions for follow-up checks.
+ */
+export const authorize = async (
+  actor: OrganizationActorInput,
+  action: Permission,
+  resource: PolicyResource
+): Promise<Set<Permission>> => {
+  assertActorCanAccess(actor, resource.businessProfileId);
+
+  const membership = await getActiveMembership(
+    actor.userId,
+    resource.businessProfileId
+  );
+  const permissions = await getEffectivePermissions(
+    membership,
+    resource.departmentId
+  );
+
+  if (!permissions.has(action)) {
+    throw new AppError(
+      `You do not have the "${action}" permission ${
+        resource.departmentId ? "for this department" : "in this organization"
+      }.`,
+      403 // Forbidden
+    );
+  }
+
+  return permissions;
+};
+
+/**
+ * Whether the actor may perform `action` on `resource`
+ */
+export const can = async (
+  actor: OrganizationActorInput,
+  action: Permission,
+  resource: PolicyResource
+): Promise<boolean> => {
+  try {
+    await authorize(actor, action, resource);
+    return true;
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 403) return false;
+    throw error;
+  }
+};
+
+/**
+ * Rejects grants of permissions the caller does not hold
+ */
+export const assertCanGrant = (
+  actorPermissions: ReadonlySet<Permission>,
+  granted: readonly Permission[]
+): void => {
+  const missing = granted.filter(
+    (permission) => !actorPermissions.has(permission)
+  );
+
+  if (missing.length) {
+    throw new AppError(
+      `You cannot grant permissions you do not have: ${missing.join(", ")}.`,
+      403 // Forbidden
+    );
+  }
+};
+
+/**
+ * Loads a custom role of the organization
+ */
+export const getOrganizationCustomRole = async (
+  businessProfileId: Types.ObjectId | string,
+  customRoleId: string
+): Promise<ICustomRole> => {
+  const role = await CustomRoleModel.findOne({
+    _id: customRoleId,
+    businessProfileId,
+  });
+
+  if (!role) throw new AppError("Role not found.", 404);
+
+  return role;
+};
+
+/* ----------------------------------
+ * MAPPING
+ * ---------------------------------- */
+
+export const getPermissionCatalog = (): PermissionDefinition[] =>
+  Object.values(Permission).map((key) => ({
+    key,
+    description: PERMISSION_DESCRIPTIONS[key],
+    departmentScoped: DEPARTMENT_SCOPED_PERMISSIONS.has(key),
+  }));
+
+export const toBuiltInRoleSummary = (role: OrganizationRole): RoleSummary => ({
+  id: role,
+  name: role,
+  builtIn: true,
+  permissions: BUILT_IN_ROLE_PERMISSIONS[role],
+});
+
+export const toCustomRoleSummary = (
+  role: Pick<
+    ICustomRole,
+    "_id" | "name" | "description" | "permissions" | "createdAt"
+  >
+): RoleSummary => ({
+  id: String(role._id),
+  name: role.name,
+  description: role.description,
+  builtIn: false,
+  permissions: role.permissions,
+  createdAt: role.createdAt,
+});
@@ -0,0 +1,65 @@
+// ================================
+// FILE: src/rest/roles/roles.routes.ts
+// ================================
+/**
+ * Organization roles REST routes
+ * - Mounted under /organizations/:businessProfileId/roles
+ * - Signin sessions or API keys with the organization scopes
+ * - Organization permissions are checked by `requirePermission`;
+ *   department roles are checked per department by the service
+ */
+
+import { ApiKeyScope, Permission } from "@constants/enum.constants";
+import {
+  authenticate,
+  requireApiKeyScopes,
+  requirePermission,
+} from "@middlewares/auth.middleware";
+import { Router } from "express";
+import { RolesController } from "./roles.controller";
+
+const router = Router({ mergeParams: true });
+
+const read = requireApiKeyScopes(ApiKeyScope.ORGANIZATION_READ);
+const write = requireApiKeyScopes(ApiKeyScope.ORGANIZATION_WRITE);
+
+router.use(authenticate);
+
+router.get(
+  "/",
+  read,
+  requirePermission(Permission.ROLES_READ),
+  RolesController.listRolesController
+);
+router.get("/me", read, RolesController.myPermissionsController);
+router.post(
+  "/",
+  write,
+  requirePermission(Permission.ROLES_MANAGE),
+  RolesController.createRoleController
+);
+router.patch(
+  "/:roleId",
+  write,
+  requirePermission(Permission.ROLES_MANAGE),
+  RolesController.updateRoleController
+);
+router.delete(
+  "/:roleId",
+  write,
+  requirePermission(Permission.ROLES_MANAGE),
+  RolesController.deleteRoleController
+);
+
+router.put(
+  "/departments/:departmentId/members/:membershipId",
+  write,
+  RolesController.assignDepartmentRoleController
+);
+router.delete(
+  "/departments/:departmentId/members/:membershipId",
+  write,
+  RolesController.revokeDepartmentRoleController
+);
+
+export default router;
@@ -0,0 +1,447 @@
+// ==========================================
+// FILE: src/rest/roles/roles.service.ts
+// ==========================================
+/**
+ * Roles Service
+ * ------------------------------------------
+ * Organization RBAC
+ * - Built-in roles (owner, admin, manager, member, viewer) & custom roles
+ * - Custom roles compose permissions from the catalog
+ * - Department roles grant department-scoped permissions on a subtree
+ * - Nobody grants a permission they do not hold
+ */
+
+import { appConfig } from "@config/app.config";
+import {
+  AuditEventType,
+  OrganizationRole,
+  Permission,
+} from "@constants/enum.constants";
+import {
+  BUILT_IN_ROLE_PERMISSIONS,
+  DEPARTMENT_SCOPED_PERMISSIONS,
+} from "@constants/permission.constants";
+import { CustomRoleModel } from "@models/CustomRole.model";
+import { DepartmentModel } from "@models/Department.model";
+import { OrganizationMembershipModel } from "@models/OrganizationMembership.model";
+import { recordAuditEvent } from "@modules/audit/audit.helpers";
+import { getCurrentMemberships } from "@modules/departments/departments.helpers";
+import {
+  assertActorCanAccess,
+  CURRENT_MEMBERSHIP_STATUSES,
+  getActiveMembership,
+  toMemberSummary,
+} from "@modules/organizations/organizations.helpers";
+import {
+  OrganizationActorInput,
+  OrganizationMemberSummary,
+} from "@modules/organizations/organizations.types";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import {
+  assertCanGrant,
+  authorize,
+  getEffectivePermissions,
+  getOrganizationCustomRole,
+  toBuiltInRoleSummary,
+  toCustomRoleSummary,
+} from "./roles.helpers";
+import {
+  CustomRoleCreateInput,
+  CustomRoleDeleteInput,
+  CustomRoleUpdateInput,
+  DepartmentRoleAssignInput,
+  DepartmentRoleRevokeInput,
+  MyPermissionsInput,
+  RoleListInput,
+  RoleSummary,
+} from "./roles.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+const NAME_COLLATION = { locale: "en", strength: 2 };
+
+/**
+ * Custom role names are unique per organization (case-insensitive)
+ */
+const assertUniqueRoleName = async (
+  businessProfileId: string,
+  name: string,
+  excludeId?: string
+): Promise<void> => {
+  const existing = await CustomRoleModel.findOne({
+    businessProfileId,
+    name,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  })
+    .collation(NAME_COLLATION)
+    .select("_id")
+    .lean();
+
+  const isBuiltInName = Object.values(OrganizationRole).some(
+    (role) => role.toLowerCase() === name.toLowerCase()
+  );
+
+  if (existing || isBuiltInName) {
+    throw new AppError(
+      `A role named "${name}" already exists.`,
+      409 // Conflict
+    );
+  }
+};
+
+/**
+ * Loads a department & authorizes role management on it
+ */
+const getRoleManagedDepartment = async (
+  actor: OrganizationActorInput,
+  departmentId: string
+): Promise<{ businessProfileId: string; permissions: Set<Permission> }> => {
+  const department = await DepartmentModel.findById(departmentId)
+    .select("businessProfileId")
+    .lean();
+
+  if (!department) throw new AppError("Department not found.", 404);
+
+  const businessProfileId = String(department.businessProfileId);
+  const permissions = await authorize(
+    actor,
+    Permission.DEPARTMENT_MEMBERS_MANAGE,
+    { businessProfileId, departmentId }
+  );
+
+  return { businessProfileId, permissions };
+};
+
+/* ----------------------------------
+ * ROLES SERVICE
+ * ---------------------------------- */
+
+export class RolesService {
+  /**
+   * LIST SERVICE - Built-in & custom roles of an organization
+   */
+  static async listRolesService(input: RoleListInput): Promise<RoleSummary[]> {
+    await authorize(input, Permission.ROLES_READ, {
+      businessProfileId: input.businessProfileId,
+    });
+
+    const customRoles = await CustomRoleModel.find({
+      businessProfileId: input.businessProfileId,
+    })
+      .collation(NAME_COLLATION)
+      .sort({ name: 1 })
+      .lean();
+
+    return [
+      ...Object.values(OrganizationRole).map(toBuiltInRoleSummary),
+      ...customRoles.map(toCustomRoleSummary),
+    ];
+  }
+
+  /**
+   * MY PERMISSIONS SERVICE - The caller's effective permissions
+   */
+  static async getMyPermissionsService(
+    input: MyPermissionsInput
+  ): Promise<Permission[]> {
+    assertActorCanAccess(input, input.businessProfileId);
+
+    const membership = await getActiveMembership(
+      input.userId,
+      input.businessProfileId
+    );
+    const permissions = await getEffectivePermissions(
+      membership,
+      input.departmentId
+    );
+
+    // Catalog order
+    return Object.values(Permission).filter((permission) =>
+      permissions.has(permission)
+    );
+  }
+
+  /**
+   * CREATE SERVICE - Custom role from catalog permissions
+   */
+  static async createCustomRoleService(
+    input: CustomRoleCreateInput,
+    client: ClientMeta = {}
+  ): Promise<RoleSummary> {
+    /* =====================================================
+     * 1️⃣ Authorize (no permission the caller lacks)
+     * ===================================================== */
+    const permissions = await authorize(input, Permission.ROLES_MANAGE, {
+      businessProfileId: input.businessProfileId,
+    });
+    assertCanGrant(permissions, input.permissions);
+
+    /* =====================================================
+     * 2️⃣ Enforce limit & unique name
+     * ===================================================== */
+    const roleCount = await CustomRoleModel.countDocuments({
+      businessProfileId: input.businessProfileId,
+    });
+
+    if (roleCount >= appConfig.ROLES.MAX_CUSTOM_PER_ORGANIZATION) {
+      throw new AppError(
+        `An organization can have at most ${appConfig.ROLES.MAX_CUSTOM_PER_ORGANIZATION} custom roles.`,
+        409 // Conflict
+      );
+    }
+
+    await assertUniqueRoleName(input.businessProfileId, input.name);
+
+    /* =====================================================
+     * 3️⃣ Create
+     * ===================================================== */
+    const role = await CustomRoleModel.create({
+      businessProfileId: input.businessProfileId,
+      name: input.name,
+      ...(input.description && { description: input.description }),
+      permissions: input.permissions,
+      createdBy: input.userId,
+    });
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.ROLE_CREATED,
+        actorId: input.userId,
+        businessProfileId: input.businessProfileId,
+        metadata: {
+          roleId: String(role._id),
+          name: role.name,
+          permissions: role.permissions,
+        },
+      },
+      client
+    );
+
+    return toCustomRoleSummary(role);
+  }
+
+  /**
+   * UPDATE SERVICE - Rename or change the permissions of a custom role
+   */
+  static async updateCustomRoleService(
+    input: CustomRoleUpdateInput,
+    client: ClientMeta = {}
+  ): Promise<RoleSummary> {
+    const role = await CustomRoleModel.findById(input.roleId);
+    if (!role) throw new AppError("Role not found.", 404);
+
+    const businessProfileId = String(role.businessProfileId);
+    const permissions = await authorize(input, Permission.ROLES_MANAGE, {
+      businessProfileId,
+    });
+
+    if (input.permissions) assertCanGrant(permissions, input.permissions);
+    if (input.name) {
+      await assertUniqueRoleName(businessProfileId, input.name, input.roleId);
+    }
+
+    const updated = await CustomRoleModel.findByIdAndUpdate(
+      role._id,
+      {
+        $set: {
+          ...(input.name && { name: input.name }),
+          ...(input.description !== undefined && {
+            description: input.description,
+          }),
+          ...(input.permissions && { permissions: input.permissions }),
+        },
+      },
+      { new: true }
+    ).lean();
+
+    if (!updated) throw new AppError("Role not found.", 404);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.ROLE_UPDATED,
+        actorId: input.userId,
+        businessProfileId,
+        metadata: {
+          roleId: input.roleId,
+          previousPermissions: role.permissions,
+          permissions: updated.permissions,
+        },
+      },
+      client
+    );
+
+    return toCustomRoleSummary(updated);
+  }
+
+  /**
+   * DELETE SERVICE - Deletes an unassigned custom role
+   */
+  static async deleteCustomRoleService(
+    input: CustomRoleDeleteInput,
+    client: ClientMeta = {}
+  ): Promise<void> {
+    const role = await CustomRoleModel.findById(input.roleId);
+    if (!role) throw new AppError("Role not found.", 404);
+
+    const businessProfileId = String(role.businessProfileId);
+    await authorize(input, Permission.ROLES_MANAGE, { businessProfileId });
+
+    const inUse = await OrganizationMembershipModel.exists({
+      businessProfileId,
+      status: { $in: CURRENT_MEMBERSHIP_STATUSES },
+      $or: [
+        { customRoleId: role._id },
+        { "departmentRoles.customRoleId": role._id },
+      ],
+    });
+
+    if (inUse) {
+      throw new AppError(
+        "This role is still assigned. Unassign it from every member first.",
+        409 // Conflict
+      );
+    }
+
+    await CustomRoleModel.deleteOne({ _id: role._id });
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.ROLE_DELETED,
+        actorId: input.userId,
+        businessProfileId,
+        metadata: { roleId: input.roleId, name: role.name },
+      },
+      client
+    );
+  }
+
+  /**
+   * ASSIGN DEPARTMENT ROLE SERVICE - Grants a role on a department & its subtree
+   * (replaces the member's previous role on that department)
+   */
+  static async assignDepartmentRoleService(
+    input: DepartmentRoleAssignInput,
+    client: ClientMeta = {}
+  ): Promise<OrganizationMemberSummary> {
+    /* =====================================================
+     * 1️⃣ Authorize on the department & resolve the member
+     * ===================================================== */
+    const { businessProfileId, permissions } = await getRoleManagedDepartment(
+      input,
+      input.departmentId
+    );
+
+    const [membership] = await getCurrentMemberships(businessProfileId, [
+      input.membershipId,
+    ]);
+
+    if (!membership) throw new AppError("Membership not found.", 404);
+
+    if (String(membership.userId) === input.userId) {
+      throw new AppError("You cannot change your own roles.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ No permission the caller lacks on this department
+     * ===================================================== */
+    const granted = input.role
+      ? BUILT_IN_ROLE_PERMISSIONS[input.role]
+      : (
+          await getOrganizationCustomRole(
+            businessProfileId,
+            input.customRoleId as string
+          )
+        ).permissions;
+
+    assertCanGrant(
+      permissions,
+      granted.filter((permission) =>
+        DEPARTMENT_SCOPED_PERMISSIONS.has(permission)
+      )
+    );
+
+    /* =====================================================
+     * 3️⃣ Replace the department role
+     * ===================================================== */
+    await OrganizationMembershipModel.updateOne(
+      { _id: membership._id },
+      { $pull: { departmentRoles: { departmentId: input.departmentId } } }
+    );
+
+    const updated = await OrganizationMembershipModel.findByIdAndUpdate(
+      membership._id,
+      {
+        $push: {
+          departmentRoles: {
+            departmentId: input.departmentId,
+            ...(input.role && { role: input.role }),
+            ...(input.customRoleId && { customRoleId: input.customRoleId }),
+          },
+        },
+      },
+      { new: true }
+    ).lean();
+
+    if (!updated) throw new AppError("Membership not found.", 404);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.ROLE_ASSIGNED,
+        actorId: input.userId,
+        userId: String(membership.userId),
+        businessProfileId,
+        metadata: {
+          departmentId: input.departmentId,
+          ...(input.role && { role: input.role }),
+          ...(input.customRoleId && { customRoleId: input.customRoleId }),
+        },
+      },
+      client
+    );
+
+    return toMemberSummary(updated);
+  }
+
+  /**
+   * REVOKE DEPARTMENT ROLE SERVICE - Removes a member's role on a department
+   */
+  static async revokeDepartmentRoleService(
+    input: DepartmentRoleRevokeInput,
+    client: ClientMeta = {}
+  ): Promise<OrganizationMemberSummary> {
+    const { businessProfileId } = await getRoleManagedDepartment(
+      input,
+      input.departmentId
+    );
+
+    const [membership] = await getCurrentMemberships(businessProfileId, [
+      input.membershipId,
+    ]);
+
+    if (!membership) throw new AppError("Membership not found.", 404);
+
+    const updated = await OrganizationMembershipModel.findByIdAndUpdate(
+      membership._id,
+      { $pull: { departmentRoles: { departmentId: input.departmentId } } },
+      { new: true }
+    ).lean();
+
+    if (!updated) throw new AppError("Membership not found.", 404);
+
+    await recordAuditEvent(
+      {
+        type: AuditEventType.ROLE_REVOKED,
+        actorId: input.userId,
+        userId: String(membership.userId),
+        businessProfileId,
+        metadata: { departmentId: input.departmentId },
+      },
+      client
+    );
+
+    return toMemberSummary(updated);
+  }
+}
@@ -0,0 +1,103 @@
+// ==========================================
+// FILE: src/rest/roles/roles.types.ts
+// ==========================================
+/**
+ * Organization RBAC types & contracts
+ * Used by service, helpers, validators, controllers & GraphQL resolvers
+ */
+
+import { OrganizationRole, Permission } from "@constants/enum.constants";
+import { OrganizationActorInput } from "@modules/organizations/organizations.types";
+
+/* =====================================================
+ * ROLES – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * What a permission check applies to: an organization,
+ * or one department (and, through ancestors, its parents' grants)
+ */
+export interface PolicyResource {
+  businessProfileId: string;
+  departmentId?: string | undefined;
+}
+
+/**
+ * List the roles of an organization
+ */
+export interface RoleListInput extends OrganizationActorInput {
+  businessProfileId: string;
+}
+
+/**
+ * The caller's effective permissions
+ */
+export interface MyPermissionsInput
+  extends OrganizationActorInput, PolicyResource {}
+
+/**
+ * Create a custom role
+ */
+export interface CustomRoleCreateInput extends OrganizationActorInput {
+  businessProfileId: string;
+  name: string;
+  description?: string | undefined;
+  permissions: Permission[];
+}
+
+/**
+ * Update a custom role
+ */
+export interface CustomRoleUpdateInput extends OrganizationActorInput {
+  roleId: string;
+  name?: string | undefined;
+  description?: string | undefined;
+  permissions?: Permission[] | undefined;
+}
+
+/**
+ * Delete a custom role (unassigned only)
+ */
+export interface CustomRoleDeleteInput extends OrganizationActorInput {
+  roleId: string;
+}
+
+/**
+ * Grant a built-in or custom role on one department
+ */
+export interface DepartmentRoleAssignInput extends OrganizationActorInput {
+  departmentId: string;
+  membershipId: string;
+  role?: OrganizationRole | undefined;
+  customRoleId?: string | undefined;
+}
+
+/**
+ * Revoke a member's role on one department
+ */
+export interface DepartmentRoleRevokeInput extends OrganizationActorInput {
+  departmentId: string;
+  membershipId: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface PermissionDefinition {
+  key: Permission;
+  description: string;
+  departmentScoped: boolean; // still granted by department roles
+}
+
+/**
+ * Built-in roles use their name as id
+ */
+export interface RoleSummary {
+  id: string;
+  name: string;
+  description?: string | undefined;
+  builtIn: boolean;
+  permissions: Permission[];
+  createdAt?: Date | undefined;
+}
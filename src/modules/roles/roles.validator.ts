@@ -0,0 +1,102 @@
+// ==========================================
+// FILE: src/rest/roles/roles.validator.ts
+// ==========================================
+/**
+ * Organization RBAC validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB logic
+ */
+
+import { z } from "zod";
+
+import { Permission } from "@constants/enum.constants";
+import { DEPARTMENT_ROLES } from "@constants/permission.constants";
+import { departmentIdValidator } from "@modules/departments/departments.validator";
+import {
+  businessProfileIdValidator,
+  membershipIdValidator,
+} from "@modules/organizations/organizations.validator";
+
+export const customRoleIdValidator = z
+  .string({ error: "Role id is required." })
+  .regex(/^[a-f\d]{24}$/i, "Invalid role id.");
+
+const nameValidator = z
+  .string({ error: "Role name is required." })
+  .trim()
+  .min(1, "Role name is required.")
+  .max(40, "Role name must be at most 40 characters.");
+
+const descriptionValidator = z
+  .string()
+  .trim()
+  .max(200, "Description must be at most 200 characters.");
+
+const permissionsValidator = z
+  .array(z.enum(Permission, { error: "Unknown permission." }))
+  .min(1, "Select at least one permission.")
+  .transform((permissions) => [...new Set(permissions)]);
+
+/* ----------------------------------
+ * LIST / MY PERMISSIONS
+ * ---------------------------------- */
+
+export const roleListValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+});
+
+export const myPermissionsValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+  departmentId: departmentIdValidator.optional(),
+});
+
+/* ----------------------------------
+ * CUSTOM ROLES
+ * ---------------------------------- */
+
+export const customRoleCreateValidator = z.object({
+  businessProfileId: businessProfileIdValidator,
+  name: nameValidator,
+  description: descriptionValidator.optional(),
+  permissions: permissionsValidator,
+});
+
+export const customRoleUpdateValidator = z
+  .object({
+    roleId: customRoleIdValidator,
+    name: nameValidator.optional(),
+    description: descriptionValidator.optional(),
+    permissions: permissionsValidator.optional(),
+  })
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.description !== undefined ||
+      data.permissions !== undefined,
+    { message: "Provide a name, description or permissions to update." }
+  );
+
+/* ----------------------------------
+ * DEPARTMENT ROLES
+ * ---------------------------------- */
+
+export const departmentRoleAssignValidator = z
+  .object({
+    departmentId: departmentIdValidator,
+    membershipId: membershipIdValidator,
+    role: z
+      .enum(DEPARTMENT_ROLES, {
+        error: "Department role must be MANAGER, MEMBER or VIEWER.",
+      })
+      .optional(),
+    customRoleId: customRoleIdValidator.optional(),
+  })
+  .refine((data) => !data.role !== !data.customRoleId, {
+    message: "Provide either a role or a custom role id.",
+  });
+
+export const departmentRoleRevokeValidator = z.object({
+  departmentId: departmentIdValidator,
+  membershipId: membershipIdValidator,
+});
@@ -0,0 +1,112 @@
+// ==========================================
+// FILE: src/rest/sessions/sessions.controller.ts
+// ==========================================
+/**
+ * Sessions Controller
+ * ------------------------------------------
+ * - List active sessions
+ * - Rename a device
+ * - Revoke a session / all other sessions
+ */
+
+import { AppError } from "@utils/AppError.util";
+import { Request, Response } from "express";
+import { SessionsService } from "./sessions.service";
+import {
+  sessionIdValidator,
+  sessionRenameValidator,
+} from "./sessions.validator";
+
+export class SessionsController {
+  /**
+   * GET /auth/sessions
+   */
+  static async listSessionsController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Call Service
+    const result = await SessionsService.listSessionsService(req.auth);
+
+    // 2. Respond
+    res.status(200).json({
+      success: true,
+      message: "Active sessions fetched successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * PATCH /auth/sessions/:sessionId
+   */
+  static async renameSessionController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const targetSessionId = sessionIdValidator.parse(req.params.sessionId);
+    const { name } = sessionRenameValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await SessionsService.renameSessionService({
+      userId: req.auth.userId,
+      sessionId: req.auth.sessionId,
+      targetSessionId,
+      name,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Device renamed successfully.",
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /auth/sessions/:sessionId
+   */
+  static async revokeSessionController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const targetSessionId = sessionIdValidator.parse(req.params.sessionId);
+
+    // 2. Call Service
+    await SessionsService.revokeSessionService({
+      userId: req.auth.userId,
+      sessionId: req.auth.sessionId,
+      targetSessionId,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Session revoked successfully.",
+      data: null,
+    });
+  }
+
+  /**
+   * POST /auth/sessions/revoke-others
+   */
+  static async revokeOtherSessionsController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Call Service
+    const result = await SessionsService.revokeOtherSessionsService(req.auth);
+
+    // 2. Respond
+    res.status(200).json({
+      success: true,
+      message: "Signed out from all other devices.",
+      data: result,
+    });
+  }
+}
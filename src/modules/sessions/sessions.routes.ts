@@ -0,0 +1,22 @@
+// ================================
+// FILE: src/rest/sessions/sessions.routes.ts
+// ================================
+/**
+ * Session management REST routes
+ * - All routes require an authenticated session
+ */
+
+import { authenticateSession } from "@middlewares/auth.middleware";
+import { Router } from "express";
+import { SessionsController } from "./sessions.controller";
+
+const router = Router();
+
+router.use(authenticateSession);
+
+router.get("/", SessionsController.listSessionsController);
+router.post("/revoke-others", SessionsController.revokeOtherSessionsController);
+router.patch("/:sessionId", SessionsController.renameSessionController);
+router.delete("/:sessionId", SessionsController.revokeSessionController);
+
+export default router;
@@ -0,0 +1,189 @@
+// ==========================================
+// FILE: src/rest/sessions/sessions.service.ts
+// ==========================================
+/**
+ * Sessions Service
+ * ------------------------------------------
+ * Device / session management for the signed-in user
+ * - List active signin sessions (current one flagged)
+ * - Rename a device
+ * - Revoke a single session or every other session
+ * Shared by REST controllers and GraphQL resolvers
+ */
+
+import { SessionType } from "@constants/enum.constants";
+import { getRedisClient } from "@core/redis";
+import {
+  getSessionKey,
+  getUserSessionsKey,
+  isSessionInactive,
+  revokeUserSessions,
+} from "@modules/auth/auth.helpers";
+import { AuthService } from "@modules/auth/auth.service";
+import { RedisAuthSession } from "@modules/auth/auth.types";
+import { AppError } from "@utils/AppError.util";
+import {
+  ActiveSessionSummary,
+  SessionOwnerInput,
+  SessionRenameInput,
+  SessionRevokeInput,
+} from "./sessions.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+/**
+ * Loads every live signin session of a user.
+ * IDs whose Redis session has expired are pruned from the user's set.
+ */
+const loadUserSessions = async (
+  userId: string
+): Promise<{ sessionId: string; session: RedisAuthSession }[]> => {
+  const redisClient = getRedisClient();
+  const userSessionsKey = getUserSessionsKey(userId);
+
+  const sessionIds = await redisClient.smembers(userSessionsKey);
+  if (!sessionIds.length) return [];
+
+  const sessionsData = await redisClient.mget(sessionIds.map(getSessionKey));
+
+  const active: { sessionId: string; session: RedisAuthSession }[] = [];
+  const stale: string[] = [];
+
+  sessionIds.forEach((sessionId, index) => {
+    const sessionData = sessionsData[index];
+
+    if (!sessionData) {
+      stale.push(sessionId);
+      return;
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (
+      session.type !== SessionType.SIGNIN ||
+      session.userId?.toString() !== userId ||
+      isSessionInactive(session)
+    ) {
+      return;
+    }
+
+    active.push({ sessionId, session });
+  });
+
+  if (stale.length) await redisClient.srem(userSessionsKey, ...stale);
+
+  return active;
+};
+
+const toSessionSummary = (
+  sessionId: string,
+  session: RedisAuthSession,
+  currentSessionId: string
+): ActiveSessionSummary => ({
+  sessionId,
+  current: sessionId === currentSessionId,
+
+  method: session.method,
+  impersonatedBy: session.impersonation?.actorId,
+
+  name: session.deviceName,
+  device: session.device,
+  userAgent: session.userAgent,
+  ip: session.ip,
+  location: session.location,
+
+  createdAt: new Date(session.createdAt),
+  lastActivityAt: session.lastActivityAt
+    ? new Date(session.lastActivityAt)
+    : undefined,
+});
+
+/* ----------------------------------
+ * SESSIONS SERVICE
+ * ---------------------------------- */
+
+export class SessionsService {
+  /**
+   * LIST SESSIONS SERVICE - Active sessions, current first, then most recent
+   */
+  static async listSessionsService(
+    input: SessionOwnerInput
+  ): Promise<ActiveSessionSummary[]> {
+    const sessions = await loadUserSessions(input.userId);
+
+    return sessions
+      .map(({ sessionId, session }) =>
+        toSessionSummary(sessionId, session, input.sessionId)
+      )
+      .sort(
+        (a, b) =>
+          Number(b.current) - Number(a.current) ||
+          (b.lastActivityAt ?? b.createdAt).getTime() -
+            (a.lastActivityAt ?? a.createdAt).getTime()
+      );
+  }
+
+  /**
+   * RENAME SESSION SERVICE - Sets a user-defined device name
+   */
+  static async renameSessionService(
+    input: SessionRenameInput
+  ): Promise<ActiveSessionSummary> {
+    /* =====================================================
+     * 1️⃣ Resolve session & verify ownership
+     * ===================================================== */
+    const redisClient = getRedisClient();
+    const redisKey = getSessionKey(input.targetSessionId);
+
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError("Session not found or already expired.", 404);
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (
+      session.type !== SessionType.SIGNIN ||
+      session.userId?.toString() !== input.userId
+    ) {
+      throw new AppError("Session not found or already expired.", 404);
+    }
+
+    /* =====================================================
+     * 2️⃣ Persist name (keep remaining TTL)
+     * ===================================================== */
+    session.deviceName = input.name;
+
+    await redisClient.set(redisKey, JSON.stringify(session), "KEEPTTL");
+
+    return toSessionSummary(input.targetSessionId, session, input.sessionId);
+  }
+
+  /**
+   * REVOKE SESSION SERVICE - Signs out a single session (any device)
+   */
+  static async revokeSessionService(input: SessionRevokeInput): Promise<void> {
+    await AuthService.logoutService({
+      userId: input.userId,
+      sessionId: input.targetSessionId,
+      currentSessionId: input.sessionId,
+    });
+  }
+
+  /**
+   * REVOKE OTHER SESSIONS SERVICE - Signs out every session except the current one
+   */
+  static async revokeOtherSessionsService(
+    input: SessionOwnerInput
+  ): Promise<{ revokedCount: number }> {
+    const revokedCount = await revokeUserSessions(
+      input.userId,
+      input.sessionId
+    );
+
+    return { revokedCount };
+  }
+}
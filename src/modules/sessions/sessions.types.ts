@@ -0,0 +1,57 @@
+// ==========================================
+// FILE: src/rest/sessions/sessions.types.ts
+// ==========================================
+/**
+ * Session management types & contracts
+ * Used by controller, service, validators & GraphQL resolvers
+ */
+
+import { SigninMethod } from "@constants/enum.constants";
+
+/* =====================================================
+ * SESSIONS – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Caller identity (from req.auth / GraphQL context)
+ */
+export interface SessionOwnerInput {
+  userId: string;
+  sessionId: string; // current session
+}
+
+/**
+ * Rename a device / session
+ */
+export interface SessionRenameInput extends SessionOwnerInput {
+  targetSessionId: string;
+  name: string;
+}
+
+/**
+ * Revoke a single session
+ */
+export interface SessionRevokeInput extends SessionOwnerInput {
+  targetSessionId: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface ActiveSessionSummary {
+  sessionId: string;
+  current: boolean;
+
+  method?: SigninMethod | undefined;
+  impersonatedBy?: string | undefined; // admin id (impersonation sessions only)
+
+  name?: string | undefined; // user-defined device name
+  device?: string | undefined;
+  userAgent?: string | undefined;
+  ip?: string | undefined;
+  location?: string | undefined;
+
+  createdAt: Date;
+  lastActivityAt?: Date | undefined;
+}
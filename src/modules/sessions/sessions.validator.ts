@@ -0,0 +1,31 @@
+// ==========================================
+// FILE: src/rest/sessions/sessions.validator.ts
+// ==========================================
+/**
+ * Session management validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No Redis logic
+ */
+
+import { z } from "zod";
+
+/* ----------------------------------
+ * SESSION ID
+ * ---------------------------------- */
+
+export const sessionIdValidator = z
+  .string({ error: "Session id is required." })
+  .uuid("Invalid session id.");
+
+/* ----------------------------------
+ * RENAME
+ * ---------------------------------- */
+
+export const sessionRenameValidator = z.object({
+  name: z
+    .string({ error: "Device name is required." })
+    .trim()
+    .min(1, "Device name cannot be empty.")
+    .max(50, "Device name must be at most 50 characters."),
+});
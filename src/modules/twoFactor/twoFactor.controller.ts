@@ -0,0 +1,163 @@
+// ==========================================
+// FILE: src/rest/twoFactor/twoFactor.controller.ts
+// ==========================================
+/**
+ * Two-Factor Controller
+ * ------------------------------------------
+ * - Status
+ * - Setup & confirm enrollment
+ * - Disable
+ * - Regenerate recovery codes
+ * - Signin second step
+ */
+
+import { AppError } from "@utils/AppError.util";
+import { applyTokenTransport } from "@utils/authCookie.util";
+import { getClientMeta } from "@utils/device.util";
+import { Request, Response } from "express";
+import { TwoFactorService } from "./twoFactor.service";
+import {
+  twoFactorConfirmValidator,
+  twoFactorDisableValidator,
+  twoFactorRegenerateValidator,
+  twoFactorSigninValidator,
+} from "./twoFactor.validator";
+
+export class TwoFactorController {
+  /**
+   * GET /auth/2fa
+   */
+  static async statusController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Call Service
+    const result = await TwoFactorService.statusService(req.auth.userId);
+
+    // 2. Respond
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication status fetched.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/2fa/setup
+   */
+  static async setupController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Call Service
+    const result = await TwoFactorService.setupService(req.auth.userId);
+
+    // 2. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "Scan the QR code with your authenticator app, then confirm with a code.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/2fa/confirm
+   */
+  static async confirmController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = twoFactorConfirmValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await TwoFactorService.confirmService({
+      userId: req.auth.userId,
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "Two-factor authentication enabled. Store your recovery codes somewhere safe.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/2fa/disable
+   */
+  static async disableController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = twoFactorDisableValidator.parse(req.body || {});
+
+    // 2. Call Service
+    await TwoFactorService.disableService({
+      userId: req.auth.userId,
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled.",
+      data: null,
+    });
+  }
+
+  /**
+   * POST /auth/2fa/recovery-codes
+   */
+  static async regenerateRecoveryCodesController(req: Request, res: Response) {
+    if (!req.auth) {
+      throw new AppError("Authentication required.", 401);
+    }
+
+    // 1. Validate request
+    const parsedData = twoFactorRegenerateValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await TwoFactorService.regenerateRecoveryCodesService({
+      userId: req.auth.userId,
+      ...parsedData,
+    });
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message:
+        "New recovery codes generated. Your previous codes no longer work.",
+      data: result,
+    });
+  }
+
+  /**
+   * POST /auth/2fa/signin/verify
+   */
+  static async signinVerifyController(req: Request, res: Response) {
+    // 1. Validate request
+    const parsedData = twoFactorSigninValidator.parse(req.body || {});
+
+    // 2. Call Service
+    const result = await TwoFactorService.signinVerifyService(
+      parsedData,
+      getClientMeta(req)
+    );
+
+    // 3. Respond
+    res.status(200).json({
+      success: true,
+      message: "Signed in successfully.",
+      data: applyTokenTransport(req, res, result),
+    });
+  }
+}
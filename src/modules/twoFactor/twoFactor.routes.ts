@@ -0,0 +1,54 @@
+// ================================
+// FILE: src/rest/twoFactor/twoFactor.routes.ts
+// ================================
+/**
+ * Two-factor authentication REST routes
+ * - Enrollment & management (authenticated)
+ * - Signin second step (public, challenge token)
+ */
+
+import { authenticateSession } from "@middlewares/auth.middleware";
+import {
+  otpVerificationRateLimiter,
+  signinRateLimiter,
+} from "@middlewares/rateLimit.middleware";
+import { Router } from "express";
+import { TwoFactorController } from "./twoFactor.controller";
+
+const router = Router();
+
+/**
+ * Enrollment & management
+ */
+router.get("/", authenticateSession, TwoFactorController.statusController);
+router.post("/setup", authenticateSession, TwoFactorController.setupController);
+router.post(
+  "/confirm",
+  authenticateSession,
+  otpVerificationRateLimiter,
+  TwoFactorController.confirmController
+);
+router.post(
+  "/disable",
+  authenticateSession,
+  otpVerificationRateLimiter,
+  TwoFactorController.disableController
+);
+router.post(
+  "/recovery-codes",
+  authenticateSession,
+  otpVerificationRateLimiter,
+  TwoFactorController.regenerateRecoveryCodesController
+);
+
+/**
+ * Signin second step
+ */
+router.post(
+  "/signin/verify",
+  signinRateLimiter,
+  otpVerificationRateLimiter,
+  TwoFactorController.signinVerifyController
+);
+
+export default router;
@@ -0,0 +1,404 @@
+// ==========================================
+// FILE: src/rest/twoFactor/twoFactor.service.ts
+// ==========================================
+/**
+ * Two-Factor Service
+ * ------------------------------------------
+ * TOTP two-factor authentication
+ * - Enrollment (setup → confirm)
+ * - Hashed, single-use recovery codes
+ * - Disable & regenerate flows (confirmation emails)
+ * - Second signin step (challenge → tokens)
+ */
+
+import {
+  AccountStatus,
+  SessionType,
+  SigninMethod,
+} from "@constants/enum.constants";
+import { getRedisClient } from "@core/redis";
+import { IUser, UserModel } from "@models/User.model";
+import {
+  createSigninSession,
+  getSessionKey,
+  registerOtpAttempt,
+} from "@modules/auth/auth.helpers";
+import { AuthTokens, RedisAuthSession } from "@modules/auth/auth.types";
+import { AppError } from "@utils/AppError.util";
+import { ClientMeta } from "@utils/device.util";
+import { decryptValue, encryptValue } from "@utils/encryption.util";
+import { verifyPassword } from "@utils/password.util";
+import {
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "@utils/totp.util";
+import {
+  sendRecoveryCodesRegeneratedEmail,
+  sendTwoFactorDisabledEmail,
+  sendTwoFactorEnabledEmail,
+} from "helpers/email";
+import {
+  TwoFactorConfirmInput,
+  TwoFactorDisableInput,
+  TwoFactorRecoveryCodesResult,
+  TwoFactorRegenerateInput,
+  TwoFactorSetupResult,
+  TwoFactorSigninInput,
+  TwoFactorStatusResult,
+} from "./twoFactor.types";
+
+/* ----------------------------------
+ * INTERNAL HELPERS
+ * ---------------------------------- */
+
+const TOTP_CODE_REGEX = /^\d{6}$/;
+
+/**
+ * Resolve user with 2FA data (secret is never selected by default)
+ */
+const findUserWithTwoFactor = async (userId: string): Promise<IUser> => {
+  const user = await UserModel.findById(userId).select(
+    "+password +provider +accountType +status +statusMeta +twoFactor"
+  );
+
+  if (!user) throw new AppError("User not found.", 404);
+
+  return user;
+};
+
+/**
+ * Verifies a TOTP code against the active secret.
+ * The matched time step is persisted atomically so a code cannot be replayed.
+ */
+const consumeTotpCode = async (user: IUser, code: string): Promise<boolean> => {
+  if (!user.twoFactor?.secret) return false;
+
+  const step = verifyTotp(decryptValue(user.twoFactor.secret), code);
+  if (step === null) return false;
+
+  const result = await UserModel.updateOne(
+    {
+      _id: user._id,
+      $or: [
+        { "twoFactor.lastUsedStep": { $exists: false } },
+        { "twoFactor.lastUsedStep": { $lt: step } },
+      ],
+    },
+    { $set: { "twoFactor.lastUsedStep": step } }
+  );
+
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Consumes a recovery code (single use, removed atomically)
+ */
+const consumeRecoveryCode = async (
+  user: IUser,
+  code: string
+): Promise<boolean> => {
+  const codeHash = hashRecoveryCode(code);
+
+  const result = await UserModel.updateOne(
+    { _id: user._id, "twoFactor.recoveryCodes": codeHash },
+    { $pull: { "twoFactor.recoveryCodes": codeHash } }
+  );
+
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Accepts either an authenticator code or a recovery code
+ */
+const consumeSecondFactor = (user: IUser, code: string): Promise<boolean> =>
+  TOTP_CODE_REGEX.test(code)
+    ? consumeTotpCode(user, code)
+    : consumeRecoveryCode(user, code);
+
+/* ----------------------------------
+ * TWO-FACTOR SERVICE
+ * ---------------------------------- */
+
+export class TwoFactorService {
+  /**
+   * STATUS SERVICE - Current 2FA state for the authenticated user
+   */
+  static async statusService(userId: string): Promise<TwoFactorStatusResult> {
+    const user = await findUserWithTwoFactor(userId);
+
+    return {
+      enabled: !!user.twoFactor?.enabled,
+      enabledAt: user.twoFactor?.enabledAt,
+      recoveryCodesRemaining: user.twoFactor?.enabled
+        ? user.twoFactor.recoveryCodes.length
+        : 0,
+    };
+  }
+
+  /**
+   * SETUP SERVICE - Generates a pending secret & otpauth URI
+   */
+  static async setupService(userId: string): Promise<TwoFactorSetupResult> {
+    /* =====================================================
+     * 1️⃣ Resolve user & ensure 2FA is not already enabled
+     * ===================================================== */
+    const user = await findUserWithTwoFactor(userId);
+
+    if (user.twoFactor?.enabled) {
+      throw new AppError(
+        "Two-factor authentication is already enabled.",
+        409 // Conflict
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Generate & store pending secret (encrypted)
+     * ===================================================== */
+    const secret = generateTotpSecret();
+
+    await UserModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactor: {
+            enabled: false,
+            pendingSecret: encryptValue(secret),
+            recoveryCodes: [],
+          },
+        },
+      }
+    );
+
+    /* =====================================================
+     * 3️⃣ Return provisioning data
+     * ===================================================== */
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri({
+        secret,
+        accountName: user.email,
+      }),
+    };
+  }
+
+  /**
+   * CONFIRM SERVICE - Verifies the first code and enables 2FA
+   */
+  static async confirmService(
+    input: TwoFactorConfirmInput
+  ): Promise<TwoFactorRecoveryCodesResult> {
+    /* =====================================================
+     * 1️⃣ Resolve user & pending secret
+     * ===================================================== */
+    const user = await findUserWithTwoFactor(input.userId);
+
+    if (user.twoFactor?.enabled) {
+      throw new AppError(
+        "Two-factor authentication is already enabled.",
+        409 // Conflict
+      );
+    }
+
+    if (!user.twoFactor?.pendingSecret) {
+      throw new AppError(
+        "No two-factor setup in progress. Please start the setup again.",
+        400 // Bad Request
+      );
+    }
+
+    /* =====================================================
+     * 2️⃣ Verify authenticator code
+     * ===================================================== */
+    const secret = decryptValue(user.twoFactor.pendingSecret);
+    const step = verifyTotp(secret, input.code);
+
+    if (step === null) {
+      throw new AppError("Invalid authentication code.", 400);
+    }
+
+    /* =====================================================
+     * 3️⃣ Enable 2FA & store hashed recovery codes
+     * ===================================================== */
+    const recoveryCodes = generateRecoveryCodes();
+
+    await UserModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactor: {
+            enabled: true,
+            secret: user.twoFactor.pendingSecret,
+            recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+            lastUsedStep: step,
+            enabledAt: new Date(),
+          },
+        },
+      }
+    );
+
+    /* =====================================================
+     * 4️⃣ Notify user
+     * ===================================================== */
+    await sendTwoFactorEnabledEmail(user.email);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * DISABLE SERVICE - Turns 2FA off (password + second factor)
+   */
+  static async disableService(input: TwoFactorDisableInput): Promise<void> {
+    /* =====================================================
+     * 1️⃣ Resolve user & ensure 2FA is enabled
+     * ===================================================== */
+    const user = await findUserWithTwoFactor(input.userId);
+
+    if (!user.twoFactor?.enabled) {
+      throw new AppError("Two-factor authentication is not enabled.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Re-authenticate (password for local accounts)
+     * ===================================================== */
+    if (user.password) {
+      if (
+        !input.password ||
+        !(await verifyPassword(input.password, user.password))
+      ) {
+        throw new AppError("Invalid password.", 401);
+      }
+    }
+
+    /* =====================================================
+     * 3️⃣ Verify second factor
+     * ===================================================== */
+    if (!(await consumeSecondFactor(user, input.code))) {
+      throw new AppError("Invalid authentication or recovery code.", 401);
+    }
+
+    /* =====================================================
+     * 4️⃣ Remove 2FA data & notify user
+     * ===================================================== */
+    await UserModel.updateOne({ _id: user._id }, { $unset: { twoFactor: 1 } });
+
+    await sendTwoFactorDisabledEmail(user.email);
+  }
+
+  /**
+   * REGENERATE RECOVERY CODES SERVICE - Replaces all recovery codes
+   */
+  static async regenerateRecoveryCodesService(
+    input: TwoFactorRegenerateInput
+  ): Promise<TwoFactorRecoveryCodesResult> {
+    /* =====================================================
+     * 1️⃣ Resolve user & ensure 2FA is enabled
+     * ===================================================== */
+    const user = await findUserWithTwoFactor(input.userId);
+
+    if (!user.twoFactor?.enabled) {
+      throw new AppError("Two-factor authentication is not enabled.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Verify authenticator code (recovery codes not accepted)
+     * ===================================================== */
+    if (!(await consumeTotpCode(user, input.code))) {
+      throw new AppError("Invalid authentication code.", 401);
+    }
+
+    /* =====================================================
+     * 3️⃣ Replace recovery codes & notify user
+     * ===================================================== */
+    const recoveryCodes = generateRecoveryCodes();
+
+    await UserModel.updateOne(
+      { _id: user._id },
+      { $set: { "twoFactor.recoveryCodes": recoveryCodes.map(hashRecoveryCode) } }
+    );
+
+    await sendRecoveryCodesRegeneratedEmail(user.email);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * SIGNIN VERIFY SERVICE - Completes a 2FA signin challenge
+   */
+  static async signinVerifyService(
+    input: TwoFactorSigninInput,
+    client: ClientMeta = {}
+  ): Promise<{ user: IUser; tokens: AuthTokens }> {
+    /* =====================================================
+     * 1️⃣ Resolve challenge session from Redis
+     * ===================================================== */
+    const redisClient = getRedisClient();
+    const redisKey = getSessionKey(input.sessionToken);
+
+    const sessionData = await redisClient.get(redisKey);
+
+    if (!sessionData) {
+      throw new AppError(
+        "Sign-in session has expired. Please sign in again.",
+        410 // Gone
+      );
+    }
+
+    const session: RedisAuthSession = JSON.parse(sessionData);
+
+    if (
+      session.type !== SessionType.SIGNIN_2FA ||
+      session.used ||
+      !session.userId
+    ) {
+      throw new AppError("Invalid sign-in session.", 400);
+    }
+
+    /* =====================================================
+     * 2️⃣ Enforce attempt limits (counted before comparison)
+     * ===================================================== */
+    await registerOtpAttempt(redisKey, session);
+
+    /* =====================================================
+     * 3️⃣ Resolve user & enforce account status
+     * ===================================================== */
+    const user = await findUserWithTwoFactor(String(session.userId));
+
+    if (!user.twoFactor?.enabled) {
+      await redisClient.del(redisKey);
+      throw new AppError("Invalid sign-in session.", 400);
+    }
+
+    if (user.status !== AccountStatus.ACTIVE || user.statusMeta) {
+      throw new AppError(
+        "Your account is not active. Please contact support.",
+        403 // Forbidden
+      );
+    }
+
+    /* =====================================================
+     * 4️⃣ Verify second factor
+     * ===================================================== */
+    if (!(await consumeSecondFactor(user, input.code))) {
+      throw new AppError("Invalid authentication or recovery code.", 401);
+    }
+
+    /* =====================================================
+     * 5️⃣ Consume challenge, create auth session & issue tokens
+     * ===================================================== */
+    await redisClient.del(redisKey);
+
+    const { tokens } = await createSigninSession(
+      user,
+      session.method || SigninMethod.PASSWORD,
+      client
+    );
+
+    // Never expose password / 2FA data in the response
+    user.set({ password: undefined, twoFactor: undefined });
+
+    return { user, tokens };
+  }
+}
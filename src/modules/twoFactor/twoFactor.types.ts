@@ -0,0 +1,63 @@
+// ==========================================
+// FILE: src/rest/twoFactor/twoFactor.types.ts
+// ==========================================
+/**
+ * Two-factor authentication types & contracts
+ * Used by controller, service, validators
+ */
+
+/* =====================================================
+ * TWO-FACTOR – DATA TRANSFER OBJECTS (DTOs)
+ * ===================================================== */
+
+/**
+ * Confirm enrollment with the first authenticator code
+ */
+export interface TwoFactorConfirmInput {
+  userId: string;
+  code: string;
+}
+
+/**
+ * Disable 2FA (password for local accounts + TOTP or recovery code)
+ */
+export interface TwoFactorDisableInput {
+  userId: string;
+  password?: string | undefined;
+  code: string;
+}
+
+/**
+ * Regenerate recovery codes (requires a current TOTP code)
+ */
+export interface TwoFactorRegenerateInput {
+  userId: string;
+  code: string;
+}
+
+/**
+ * Complete a signin challenge (TOTP or recovery code)
+ */
+export interface TwoFactorSigninInput {
+  sessionToken: string;
+  code: string;
+}
+
+/* ----------------------------------
+ * RESPONSE TYPES
+ * ---------------------------------- */
+
+export interface TwoFactorSetupResult {
+  secret: string; // base32, for manual entry
+  otpauthUri: string; // QR code content
+}
+
+export interface TwoFactorStatusResult {
+  enabled: boolean;
+  enabledAt?: Date | undefined;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorRecoveryCodesResult {
+  recoveryCodes: string[]; // shown once, only hashes are stored
+}
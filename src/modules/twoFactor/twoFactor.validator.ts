@@ -0,0 +1,58 @@
+// ==========================================
+// FILE: src/rest/twoFactor/twoFactor.validator.ts
+// ==========================================
+/**
+ * Two-factor authentication validators
+ * ------------------------------------------
+ * - Request-level validation only
+ * - No DB / Redis logic
+ */
+
+import { z } from "zod";
+
+import { sessionTokenValidator } from "@modules/auth/auth.validator";
+
+/* =====================================================
+ * CODE VALIDATORS
+ * ===================================================== */
+
+// 6-digit authenticator code
+export const totpCodeValidator = z
+  .string({ error: "Authentication code is required." })
+  .trim()
+  .regex(/^\d{6}$/, "Authentication code must be 6 digits.");
+
+// Authenticator code or recovery code (XXXXX-XXXXX)
+export const secondFactorCodeValidator = z
+  .string({ error: "Authentication or recovery code is required." })
+  .trim()
+  .regex(
+    /^(\d{6}|[A-Za-z2-7]{5}-?[A-Za-z2-7]{5})$/,
+    "Invalid authentication or recovery code."
+  );
+
+/* ----------------------------------
+ * ENROLLMENT
+ * ---------------------------------- */
+
+export const twoFactorConfirmValidator = z.object({
+  code: totpCodeValidator,
+});
+
+export const twoFactorDisableValidator = z.object({
+  password: z.string().min(1, "Password is required.").optional(),
+  code: secondFactorCodeValidator,
+});
+
+export const twoFactorRegenerateValidator = z.object({
+  code: totpCodeValidator,
+});
+
+/* ----------------------------------
+ * SIGNIN (SECOND STEP)
+ * ---------------------------------- */
+
+export const twoFactorSigninValidator = z.object({
+  sessionToken: sessionTokenValidator,
+  code: secondFactorCodeValidator,
+});
@@ -0,0 +1,102 @@
+// ================================
+// FILE: src/scripts/normalizeIdentifiers.ts
+// ================================
+/**
+ * Identifier backfill command (case-insensitive usernames & E.164 phones)
+ *
+ *   npm run identifiers:normalize               # apply
+ *   npm run identifiers:normalize -- --dry-run  # report only
+ *
+ * Lowercases usernames and fills `phoneE164` for existing users.
+ * Accounts whose normalized identifier collides with another account
+ * are reported and left untouched for manual review.
+ */
+
+import mongoose from "mongoose";
+
+import { connectDatabase } from "@core/database";
+import { logger } from "@logger/index";
+import { UserModel } from "@models/User.model";
+import { normalizePhoneNumber, toE164 } from "@utils/phone.util";
+
+const run = async (): Promise<void> => {
+  const dryRun = process.argv.slice(2).includes("--dry-run");
+
+  await connectDatabase();
+
+  let updated = 0;
+  const conflicts: string[] = [];
+
+  const cursor = UserModel.find({
+    $or: [
+      { username: { $regex: /[A-Z]/ } },
+      { phoneNumber: { $exists: true }, phoneE164: { $exists: false } },
+    ],
+  })
+    .select("username dialCode phoneNumber phoneE164")
+    .lean()
+    .cursor();
+
+  for await (const user of cursor) {
+    const $set: Record<string, string> = {};
+
+    /* =====================================================
+     * 1️⃣ Username → lowercase
+     * ===================================================== */
+    const username = user.username?.toLowerCase();
+
+    if (username && username !== user.username) {
+      const taken = await UserModel.exists({
+        username,
+        _id: { $ne: user._id },
+      });
+
+      if (taken) conflicts.push(`${String(user._id)}: username "${username}"`);
+      else $set.username = username;
+    }
+
+    /* =====================================================
+     * 2️⃣ Phone → national number + E.164
+     * ===================================================== */
+    if (user.dialCode && user.phoneNumber && !user.phoneE164) {
+      const phone = normalizePhoneNumber(user.dialCode, user.phoneNumber);
+      const phoneNumber = phone?.phoneNumber || user.phoneNumber;
+      const phoneE164 = phone?.e164 || toE164(user.dialCode, phoneNumber);
+
+      const taken = await UserModel.exists({
+        phoneE164,
+        _id: { $ne: user._id },
+      });
+
+      if (taken) {
+        conflicts.push(`${String(user._id)}: phone "${phoneE164}"`);
+      } else {
+        $set.phoneNumber = phoneNumber;
+        $set.phoneE164 = phoneE164;
+      }
+    }
+
+    if (!Object.keys($set).length) continue;
+
+    if (!dryRun) await UserModel.updateOne({ _id: user._id }, { $set });
+    updated += 1;
+  }
+
+  logger.info(
+    `✅ ${updated} user(s) ${dryRun ? "would be normalized" : "normalized"}`
+  );
+
+  if (conflicts.length) {
+    logger.warn(
+      { conflicts },
+      `⚠️ ${conflicts.length} identifier conflict(s) need manual review`
+    );
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch((error) => {
+  logger.fatal({ error }, "❌ Identifier normalization failed");
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+// ================================
+// FILE: src/scripts/rotateSigningKeys.ts
+// ================================
+/**
+ * JWT signing key rotation command
+ *
+ *   npm run keys:rotate                      # scheduled (published first)
+ *   npm run keys:rotate -- --immediate       # sign right away & revoke old keys
+ *                                            # (key compromise: everyone signs in again)
+ *   npm run keys:rotate -- --algorithm=EdDSA
+ *
+ * Running instances pick the new key up on their next key ring reload.
+ */
+
+import mongoose from "mongoose";
+
+import { SigningAlgorithm } from "@constants/enum.constants";
+import { connectDatabase } from "@core/database";
+import { rotateSigningKeys } from "@core/keys";
+import { logger } from "@logger/index";
+
+const parseArgs = (args: string[]) => {
+  const algorithmArg = args
+    .find((arg) => arg.startsWith("--algorithm="))
+    ?.split("=")[1];
+
+  const algorithm = Object.values(SigningAlgorithm).find(
+    (value) => value === algorithmArg
+  );
+
+  if (algorithmArg && !algorithm) {
+    throw new Error(
+      `❌ Unsupported algorithm "${algorithmArg}". Use one of: ${Object.values(
+        SigningAlgorithm
+      ).join(", ")}.`
+    );
+  }
+
+  return {
+    immediate: args.includes("--immediate"),
+    ...(algorithm && { algorithm }),
+  };
+};
+
+const run = async (): Promise<void> => {
+  const options = parseArgs(process.argv.slice(2));
+
+  await connectDatabase();
+
+  const { kid, activatesAt, revokedKeys } = await rotateSigningKeys(options);
+
+  logger.info(
+    `✅ New signing key ${kid} activates at ${activatesAt.toISOString()}`
+  );
+
+  if (revokedKeys) {
+    logger.warn(
+      `⚠️ Revoked ${revokedKeys} previous signing key(s): every access & refresh token they signed is now rejected, so all users must sign in again. Running instances apply this on their next key ring reload.`
+    );
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch((error) => {
+  logger.fatal({ error }, "❌ Signing key rotation failed");
+  process.exit(1);
+});
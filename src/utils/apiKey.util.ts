@@ -0,0 +1,62 @@
+// ==========================================
+// FILE: src/utils/apiKey.util.ts
+// ==========================================
+/**
+ * API key utilities
+ * - Key generation: `<prefix>_<publicId>_<secret>`
+ * - The `<prefix>_<publicId>` part identifies a key (stored & displayed)
+ * - Only an HMAC of the full key is stored at rest
+ */
+
+import crypto from "crypto";
+
+import { appConfig } from "@config/app.config";
+
+const PUBLIC_ID_BYTES = 6; // 12 hex chars
+const SECRET_BYTES = 32;
+
+const getKeyRegex = () =>
+  new RegExp(`^(${appConfig.API_KEYS.PREFIX}_[a-f0-9]{12})_[A-Za-z0-9_-]{43}$`);
+
+/**
+ * Generate a new API key (returned to the user exactly once)
+ */
+export const generateApiKey = (): { key: string; prefix: string } => {
+  const prefix = `${appConfig.API_KEYS.PREFIX}_${crypto
+    .randomBytes(PUBLIC_ID_BYTES)
+    .toString("hex")}`;
+  const secret = crypto.randomBytes(SECRET_BYTES).toString("base64url");
+
+  return { key: `${prefix}_${secret}`, prefix };
+};
+
+/**
+ * Whether a bearer token looks like an API key (vs a JWT access token)
+ */
+export const isApiKey = (token: string): boolean =>
+  token.startsWith(`${appConfig.API_KEYS.PREFIX}_`);
+
+/**
+ * Public, identifiable part of a key (null when malformed)
+ */
+export const getApiKeyPrefix = (key: string): string | null =>
+  getKeyRegex().exec(key)?.[1] ?? null;
+
+/**
+ * Hash an API key for storage / lookup comparison
+ */
+export const hashApiKey = (key: string): string =>
+  crypto.createHmac("sha256", appConfig.OTP.SECRET).update(key).digest("hex");
+
+/**
+ * Constant-time comparison of a presented key against its stored hash
+ */
+export const verifyApiKey = (key: string, keyHash: string): boolean => {
+  const presented = Buffer.from(hashApiKey(key), "hex");
+  const stored = Buffer.from(keyHash, "hex");
+
+  return (
+    presented.length === stored.length &&
+    crypto.timingSafeEqual(presented, stored)
+  );
+};
@@ -0,0 +1,123 @@
+// ==========================================
+// FILE: src/utils/authCookie.util.ts
+// ==========================================
+/**
+ * Refresh token cookie utilities (opt-in web transport)
+ * - Refresh token in a Secure, HttpOnly, SameSite, path-scoped cookie
+ * - Double-submit CSRF token (readable cookie + request header)
+ * - Clients opt in with `X-Token-Transport: cookie`
+ */
+
+import crypto from "crypto";
+import { CookieOptions, Request, Response } from "express";
+
+import { appConfig } from "@config/app.config";
+import { env } from "@config/env.config";
+
+const { AUTH_COOKIES } = appConfig;
+
+const baseCookieOptions = (): CookieOptions => ({
+  secure: env.NODE_ENV === "production",
+  sameSite: AUTH_COOKIES.SAME_SITE,
+  ...(env.AUTH_COOKIE_DOMAIN && { domain: env.AUTH_COOKIE_DOMAIN }),
+});
+
+/**
+ * Whether the client asked for the cookie transport
+ */
+export const isCookieTransportRequested = (req: Request): boolean =>
+  req.get(AUTH_COOKIES.TRANSPORT_HEADER)?.toLowerCase() === "cookie";
+
+/**
+ * Refresh token sent by the browser (cookie transport only)
+ */
+export const getRefreshTokenCookie = (req: Request): string | undefined => {
+  const value = req.cookies?.[AUTH_COOKIES.REFRESH_TOKEN_NAME];
+  return typeof value === "string" && value ? value : undefined;
+};
+
+/**
+ * CSRF token pair (cookie + header) of the request
+ */
+export const getCsrfTokens = (
+  req: Request
+): { cookieToken?: string | undefined; headerToken?: string | undefined } => {
+  const cookieToken = req.cookies?.[AUTH_COOKIES.CSRF_TOKEN_NAME];
+
+  return {
+    cookieToken: typeof cookieToken === "string" ? cookieToken : undefined,
+    headerToken: req.get(AUTH_COOKIES.CSRF_HEADER),
+  };
+};
+
+/**
+ * Set the refresh token cookie and a fresh CSRF token
+ * Returns the CSRF token (also sent in the body for cross-origin clients)
+ */
+export const setAuthCookies = (res: Response, refreshToken: string): string => {
+  const csrfToken = crypto.randomBytes(32).toString("base64url");
+  const maxAge = appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS * 1000;
+
+  res.cookie(AUTH_COOKIES.REFRESH_TOKEN_NAME, refreshToken, {
+    ...baseCookieOptions(),
+    httpOnly: true,
+    path: AUTH_COOKIES.REFRESH_TOKEN_PATH,
+    maxAge,
+  });
+
+  res.cookie(AUTH_COOKIES.CSRF_TOKEN_NAME, csrfToken, {
+    ...baseCookieOptions(),
+    httpOnly: false,
+    path: "/",
+    maxAge,
+  });
+
+  return csrfToken;
+};
+
+/**
+ * Remove auth cookies (logout)
+ */
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie(AUTH_COOKIES.REFRESH_TOKEN_NAME, {
+    ...baseCookieOptions(),
+    httpOnly: true,
+    path: AUTH_COOKIES.REFRESH_TOKEN_PATH,
+  });
+
+  res.clearCookie(AUTH_COOKIES.CSRF_TOKEN_NAME, {
+    ...baseCookieOptions(),
+    path: "/",
+  });
+};
+
+/**
+ * Moves the refresh token of a signin result into cookies when requested
+ * (challenges without tokens, and JSON transport, are returned untouched)
+ */
+export const applyTokenTransport = <T extends object>(
+  req: Request,
+  res: Response,
+  result: T
+):
+  | T
+  | (Omit<T, "tokens"> & {
+      tokens: { accessToken: string };
+      csrfToken: string;
+    }) => {
+  if (!isCookieTransportRequested(req) || !("tokens" in result)) {
+    return result;
+  }
+
+  const { tokens, ...rest } = result as T & {
+    tokens: { accessToken: string; refreshToken: string };
+  };
+
+  const csrfToken = setAuthCookies(res, tokens.refreshToken);
+
+  return {
+    ...(rest as Omit<T, "tokens">),
+    tokens: { accessToken: tokens.accessToken },
+    csrfToken,
+  };
+};
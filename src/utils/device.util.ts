@@ -0,0 +1,194 @@
+// ==========================================
+// FILE: src/utils/device.util.ts
+// ==========================================
+/**
+ * Client / device utilities
+ * - Extracts IP, user agent & approximate location from a request
+ *   (geo headers of the trusted edge only, see TRUSTED_EDGE)
+ * - Builds a short human-readable device label ("Chrome on macOS")
+ * - Stable device fingerprint for known-device checks (survives browser updates)
+ * - Great-circle distance for impossible-travel checks
+ */
+
+import { env } from "@config/env.config";
+import crypto from "crypto";
+import { Request } from "express";
+
+export interface ClientMeta {
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  device?: string | undefined; // e.g. "Chrome on Windows"
+  location?: string | undefined; // e.g. "Pune, IN" (trusted edge headers only)
+  country?: string | undefined; // ISO 3166-1 alpha-2
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  requestId?: string | undefined; // for audit events
+}
+
+export const UNKNOWN_DEVICE = "Unknown device";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/PostmanRuntime\//, "Postman"],
+  [/okhttp\//, "Android app"],
+  [/CFNetwork\//, "iOS app"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Windows NT/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Short device label from a user agent string
+ */
+export const describeUserAgent = (userAgent?: string): string | undefined => {
+  if (!userAgent) return undefined;
+
+  const browser = BROWSERS.find(([regex]) => regex.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([regex]) => regex.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || UNKNOWN_DEVICE;
+};
+
+const readHeader = (req: Request, name: string): string | undefined => {
+  const value = req.headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+};
+
+const readCoordinate = (req: Request, name: string): number | undefined => {
+  const raw = readHeader(req, name);
+  return raw && Number.isFinite(Number(raw)) ? Number(raw) : undefined;
+};
+
+/**
+ * Geo headers set by each supported edge / CDN
+ */
+const EDGE_GEO_HEADERS: Record<
+  NonNullable<typeof env.TRUSTED_EDGE>,
+  { city: string; country: string; latitude: string; longitude: string }
+> = {
+  cloudflare: {
+    city: "cf-ipcity",
+    country: "cf-ipcountry",
+    latitude: "cf-iplatitude",
+    longitude: "cf-iplongitude",
+  },
+  vercel: {
+    city: "x-vercel-ip-city",
+    country: "x-vercel-ip-country",
+    latitude: "x-vercel-ip-latitude",
+    longitude: "x-vercel-ip-longitude",
+  },
+  cloudfront: {
+    city: "cloudfront-viewer-city",
+    country: "cloudfront-viewer-country",
+    latitude: "cloudfront-viewer-latitude",
+    longitude: "cloudfront-viewer-longitude",
+  },
+};
+
+/**
+ * Percent-decodes a header value, falling back to the raw value when malformed
+ */
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Approximate location from the trusted edge's geo headers (no IP lookups).
+ * Unknown without a trusted edge: anyone could send these headers.
+ */
+const resolveLocation = (
+  req: Request
+): Pick<ClientMeta, "location" | "country" | "latitude" | "longitude"> => {
+  if (!env.TRUSTED_EDGE) return {};
+
+  const headers = EDGE_GEO_HEADERS[env.TRUSTED_EDGE];
+
+  const city = readHeader(req, headers.city);
+  const country = readHeader(req, headers.country)?.toUpperCase();
+
+  // Cloudflare uses "XX" / "T1" for unknown & Tor traffic
+  const isKnownCountry =
+    !!country && /^[A-Z]{2}$/.test(country) && !["XX", "T1"].includes(country);
+
+  const parts = [city && safeDecode(city), country].filter(Boolean);
+
+  return {
+    location: parts.length ? parts.join(", ") : undefined,
+    country: isKnownCountry ? country : undefined,
+    latitude: readCoordinate(req, headers.latitude),
+    longitude: readCoordinate(req, headers.longitude),
+  };
+};
+
+/**
+ * Client metadata captured when a session is created or rotated
+ */
+export const getClientMeta = (req: Request): ClientMeta => {
+  const userAgent = readHeader(req, "user-agent")?.slice(0, 512);
+
+  return {
+    ip: req.ip,
+    userAgent,
+    device: describeUserAgent(userAgent),
+    ...resolveLocation(req),
+    requestId: req.requestId,
+  };
+};
+
+/**
+ * Device fingerprint: browser family & platform, so browser updates keep the
+ * device known (IP is excluded as it changes often). Unrecognized user agents
+ * fall back to the user agent without its version numbers.
+ */
+export const getDeviceFingerprint = (
+  client: ClientMeta
+): string | undefined => {
+  if (!client.userAgent) return undefined;
+
+  const device = describeUserAgent(client.userAgent);
+  const stable =
+    device && device !== UNKNOWN_DEVICE
+      ? device
+      : client.userAgent.replace(/\d+/g, "");
+
+  return crypto.createHash("sha256").update(stable).digest("hex");
+};
+
+/**
+ * Great-circle distance between two coordinates (haversine), in kilometres
+ */
+export const getDistanceKm = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
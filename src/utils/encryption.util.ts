@@ -0,0 +1,56 @@
+// ==========================================
+// FILE: src/utils/encryption.util.ts
+// ==========================================
+/**
+ * Symmetric encryption utilities
+ * - AES-256-GCM for secrets that must be readable again (e.g. TOTP seeds)
+ * - Output format: iv.authTag.cipherText (base64url)
+ */
+
+import crypto from "crypto";
+
+import { env } from "@config/env.config";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+// Derive a fixed-length key from the configured secret
+const getKey = () =>
+  crypto.createHash("sha256").update(env.DATA_ENCRYPTION_KEY).digest();
+
+/**
+ * Encrypt plain text
+ */
+export const encryptValue = (plainText: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+
+  const encrypted = Buffer.concat([
+    cipher.update(plainText, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+};
+
+/**
+ * Decrypt value produced by encryptValue
+ */
+export const decryptValue = (payload: string): string => {
+  const [iv, authTag, encrypted] = payload
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+
+  if (!iv || !authTag || !encrypted) {
+    throw new Error("Malformed encrypted payload.");
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+};
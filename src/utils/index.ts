@@ -24,3 +24,10 @@ export const formatRemainingTime = (ms: number): string => {
 export const removeDuplicates = <T>(arr: T[]): T[] => {
   return [...new Set(arr)];
 };
+
+export const maskEmail = (email: string): string => {
+  const [local = "", domain = ""] = email.split("@");
+  const visible = local.slice(0, Math.min(2, local.length));
+  const hidden = "*".repeat(Math.max(local.length - visible.length, 1));
+  return `${visible}${hidden}@${domain}`;
+};
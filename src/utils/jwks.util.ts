@@ -0,0 +1,104 @@
+// ==========================================
+// FILE: src/utils/jwks.util.ts
+// ==========================================
+/**
+ * JWKS utilities
+ * - Fetch & cache remote JSON Web Key Sets
+ * - Verify third-party JWTs (e.g. OIDC ID tokens) by `kid`
+ */
+
+import crypto, { KeyObject, webcrypto } from "crypto";
+import jwt, { Algorithm, JwtPayload } from "jsonwebtoken";
+
+import { appConfig } from "@config/app.config";
+import { AppError } from "@utils/AppError.util";
+
+type Jwk = webcrypto.JsonWebKey & { kid?: string };
+
+type JwksCacheEntry = {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+};
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+
+/**
+ * Fetch a JWKS document and index its keys by `kid`
+ */
+const fetchJwks = async (jwksUri: string): Promise<JwksCacheEntry> => {
+  const response = await fetch(jwksUri);
+
+  if (!response.ok) {
+    throw new AppError(
+      `Unable to fetch signing keys (${response.status}).`,
+      502 // Bad Gateway
+    );
+  }
+
+  const body = (await response.json()) as { keys?: Jwk[] };
+  const keys = new Map<string, KeyObject>();
+
+  for (const jwk of body.keys || []) {
+    if (!jwk.kid || (jwk.use && jwk.use !== "sig")) continue;
+    keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: "jwk" }));
+  }
+
+  const entry: JwksCacheEntry = { keys, fetchedAt: Date.now() };
+  jwksCache.set(jwksUri, entry);
+
+  return entry;
+};
+
+/**
+ * Resolve a signing key by `kid` (refetches once on cache miss for key rotation)
+ */
+const getSigningKey = async (
+  jwksUri: string,
+  kid: string
+): Promise<KeyObject> => {
+  let entry = jwksCache.get(jwksUri);
+
+  const isStale =
+    !entry ||
+    Date.now() - entry.fetchedAt > appConfig.OAUTH.JWKS_CACHE_TTL_SECONDS * 1000;
+
+  if (isStale || !entry?.keys.has(kid)) {
+    entry = await fetchJwks(jwksUri);
+  }
+
+  const key = entry.keys.get(kid);
+  if (!key) throw new AppError("Unknown token signing key.", 401);
+
+  return key;
+};
+
+/**
+ * Verify a JWT against a remote JWKS
+ */
+export const verifyJwtWithJwks = async <T extends JwtPayload>(
+  token: string,
+  options: {
+    jwksUri: string;
+    issuer: string | [string, ...string[]];
+    audience: string;
+    algorithms?: Algorithm[];
+  }
+): Promise<T> => {
+  const decoded = jwt.decode(token, { complete: true });
+
+  if (!decoded || typeof decoded.payload === "string" || !decoded.header.kid) {
+    throw new AppError("Invalid token.", 401);
+  }
+
+  const key = await getSigningKey(options.jwksUri, decoded.header.kid);
+
+  try {
+    return jwt.verify(token, key, {
+      issuer: options.issuer,
+      audience: options.audience,
+      algorithms: options.algorithms || ["RS256"],
+    }) as T;
+  } catch {
+    throw new AppError("Invalid or expired token.", 401);
+  }
+};
@@ -0,0 +1,100 @@
+// ==========================================
+// FILE: src/utils/phone.util.ts
+// ==========================================
+/**
+ * Phone number utilities (E.164)
+ * - Normalizes user input ("098765 43210", "+91 98765-43210") to digits
+ * - Validates the national number length against `country.constants.ts`
+ * - Builds / parses the E.164 form used for uniqueness & lookups
+ */
+
+import {
+  COUNTRY_BY_DIAL_CODE,
+  DialCode,
+  getCountriesByDialCode,
+} from "@constants/country.constants";
+
+export interface NormalizedPhone {
+  dialCode: DialCode;
+  phoneNumber: string; // national significant number, digits only
+  e164: string; // e.g. "+919876543210"
+}
+
+// E.164: "+" followed by at most 15 digits
+const E164_MAX_DIGITS = 15;
+
+// Longest dial codes first, so "+971" wins over "+97"-like prefixes
+const DIAL_CODES_BY_LENGTH = Object.keys(COUNTRY_BY_DIAL_CODE).sort(
+  (a, b) => b.length - a.length
+) as DialCode[];
+
+/**
+ * Joins a dial code and a national number
+ */
+export const toE164 = (dialCode: string, phoneNumber: string): string =>
+  `${dialCode}${phoneNumber.replace(/\D/g, "")}`;
+
+/**
+ * Validates & normalizes a national number for a dial code.
+ * Accepts common formatting, a repeated country code and a trunk prefix ("0").
+ * Returns null when no country with this dial code accepts the number.
+ */
+export const normalizePhoneNumber = (
+  dialCode: DialCode,
+  phoneNumber: string
+): NormalizedPhone | null => {
+  const countries = getCountriesByDialCode(dialCode);
+  if (!countries.length) return null;
+
+  const dialDigits = dialCode.slice(1);
+  const maxLength = Math.max(...countries.map((c) => c.maxPhoneLength));
+
+  let digits = phoneNumber.trim().replace(/[\s().-]/g, "");
+
+  if (digits.startsWith("+")) {
+    if (!digits.startsWith(dialCode)) return null;
+    digits = digits.slice(dialCode.length);
+  } else if (digits.startsWith(dialDigits) && digits.length > maxLength) {
+    digits = digits.slice(dialDigits.length);
+  }
+
+  if (!/^\d+$/.test(digits)) return null;
+
+  const isValidLength = (candidate: string) =>
+    dialDigits.length + candidate.length <= E164_MAX_DIGITS &&
+    countries.some(
+      (country) =>
+        candidate.length >= country.minPhoneLength &&
+        candidate.length <= country.maxPhoneLength
+    );
+
+  // Prefer the number without its trunk prefix when both lengths are valid
+  const national = [digits.replace(/^0+/, ""), digits].find(isValidLength);
+  if (!national) return null;
+
+  return {
+    dialCode,
+    phoneNumber: national,
+    e164: toE164(dialCode, national),
+  };
+};
+
+/**
+ * Parses a full international number ("+91 98765 43210")
+ */
+export const parseE164 = (value: string): NormalizedPhone | null => {
+  const compact = value.trim().replace(/[\s().-]/g, "");
+  if (!/^\+\d+$/.test(compact)) return null;
+
+  for (const dialCode of DIAL_CODES_BY_LENGTH) {
+    if (!compact.startsWith(dialCode)) continue;
+
+    const normalized = normalizePhoneNumber(
+      dialCode,
+      compact.slice(dialCode.length)
+    );
+    if (normalized) return normalized;
+  }
+
+  return null;
+};
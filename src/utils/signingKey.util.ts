@@ -0,0 +1,114 @@
+// ==========================================
+// FILE: src/utils/signingKey.util.ts
+// ==========================================
+/**
+ * JWT signing key utilities
+ * - Asymmetric key pair generation (RS256 / EdDSA)
+ * - In-memory key ring (loaded & refreshed by core/keys)
+ * - Public JWKS export for `/.well-known/jwks.json`
+ */
+
+import crypto, { KeyObject, webcrypto } from "crypto";
+
+import { appConfig } from "@config/app.config";
+import { SigningAlgorithm } from "@constants/enum.constants";
+
+export type SigningKey = {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: KeyObject;
+  privateKey: KeyObject;
+  activatesAt: Date;
+  expiresAt?: Date | undefined;
+};
+
+export type PublicJwk = webcrypto.JsonWebKey & {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: "sig";
+};
+
+let keyRing: SigningKey[] = [];
+
+/* ----------------------------------
+ * KEY GENERATION
+ * ---------------------------------- */
+
+/**
+ * Generate a new key pair as PEM strings (stored by core/keys)
+ */
+export const generateSigningKeyPair = (
+  algorithm: SigningAlgorithm = appConfig.SIGNING_KEYS.ALGORITHM
+): { kid: string; publicKey: string; privateKey: string } => {
+  const encoding = {
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  } as const;
+
+  const { publicKey, privateKey } =
+    algorithm === SigningAlgorithm.EDDSA
+      ? crypto.generateKeyPairSync("ed25519", encoding)
+      : crypto.generateKeyPairSync("rsa", {
+          modulusLength: appConfig.SIGNING_KEYS.RSA_MODULUS_LENGTH,
+          ...encoding,
+        });
+
+  return {
+    kid: crypto.randomBytes(12).toString("base64url"),
+    publicKey,
+    privateKey,
+  };
+};
+
+/* ----------------------------------
+ * KEY RING
+ * ---------------------------------- */
+
+/**
+ * Replace the in-memory key ring
+ */
+export const setSigningKeys = (keys: SigningKey[]): void => {
+  keyRing = [...keys].sort(
+    (a, b) => b.activatesAt.getTime() - a.activatesAt.getTime()
+  );
+};
+
+const isExpired = (key: SigningKey, now = Date.now()) =>
+  !!key.expiresAt && key.expiresAt.getTime() <= now;
+
+/**
+ * Newest activated key; used to sign every new token
+ */
+export const getCurrentSigningKey = (): SigningKey => {
+  const now = Date.now();
+
+  const key = keyRing.find(
+    (k) => k.activatesAt.getTime() <= now && !isExpired(k, now)
+  );
+
+  if (!key) {
+    throw new Error("❌ No active JWT signing key is loaded.");
+  }
+
+  return key;
+};
+
+/**
+ * Key for verifying a token by its `kid` (pending keys included)
+ */
+export const getVerificationKey = (kid: string): SigningKey | undefined =>
+  keyRing.find((k) => k.kid === kid && !isExpired(k));
+
+/**
+ * Public keys of every non-expired key (pending, current & superseded)
+ */
+export const getPublicJwks = (): { keys: PublicJwk[] } => ({
+  keys: keyRing
+    .filter((k) => !isExpired(k))
+    .map((k) => ({
+      ...k.publicKey.export({ format: "jwk" }),
+      kid: k.kid,
+      alg: k.algorithm,
+      use: "sig",
+    })),
+});
@@ -4,32 +4,124 @@
 /**
  * JWT token utilities
  * - Access & Refresh token handling
+ * - Signed with the current asymmetric key (RS256 / EdDSA, `kid` header)
+ * - Verified against every published key, so rotation keeps sessions alive
  */
 
-import jwt, { SignOptions } from "jsonwebtoken";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
 
 import { appConfig } from "@config/app.config";
 import { env } from "@config/env.config";
+import { SigningAlgorithm } from "@constants/enum.constants";
+import { AppError } from "@utils/AppError.util";
+import {
+  getCurrentSigningKey,
+  getVerificationKey,
+} from "@utils/signingKey.util";
+
+/* ----------------------------------
+ * SIGN / VERIFY (compact JWS)
+ * ---------------------------------- */
+
+// Ed25519 signs the message itself (no separate digest)
+const getDigest = (algorithm: SigningAlgorithm) =>
+  algorithm === SigningAlgorithm.EDDSA ? null : "sha256";
+
+const encodeSegment = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const decodeSegment = (segment: string): Record<string, any> => {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new AppError("Invalid token.", 401);
+  }
+};
+
+const signJwt = (payload: object, expiresInSeconds: number): string => {
+  const key = getCurrentSigningKey();
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  const signingInput = [
+    encodeSegment({ alg: key.algorithm, typ: "JWT", kid: key.kid }),
+    encodeSegment({
+      ...payload,
+      iat: issuedAt,
+      exp: issuedAt + expiresInSeconds,
+    }),
+  ].join(".");
+
+  const signature = crypto.sign(
+    getDigest(key.algorithm),
+    Buffer.from(signingInput),
+    key.privateKey
+  );
+
+  return `${signingInput}.${signature.toString("base64url")}`;
+};
+
+const verifyJwt = (token: string, legacySecret?: string): any => {
+  const [encodedHeader, encodedPayload, encodedSignature, ...rest] =
+    token.split(".");
+
+  if (!encodedHeader || !encodedPayload || !encodedSignature || rest.length) {
+    throw new AppError("Invalid token.", 401);
+  }
+
+  const header = decodeSegment(encodedHeader);
+
+  // Tokens issued before asymmetric signing (HMAC, no `kid`)
+  if (!header.kid) {
+    if (!legacySecret || header.alg !== "HS256") {
+      throw new AppError("Invalid token.", 401);
+    }
+
+    try {
+      return jwt.verify(token, legacySecret, { algorithms: ["HS256"] });
+    } catch {
+      throw new AppError("Invalid or expired token.", 401);
+    }
+  }
+
+  const key = getVerificationKey(header.kid);
+
+  // `alg` must match the key (prevents algorithm confusion)
+  if (!key || header.alg !== key.algorithm) {
+    throw new AppError("Invalid token.", 401);
+  }
+
+  const isValid = crypto.verify(
+    getDigest(key.algorithm),
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key.publicKey,
+    Buffer.from(encodedSignature, "base64url")
+  );
+
+  if (!isValid) throw new AppError("Invalid token.", 401);
+
+  const payload = decodeSegment(encodedPayload);
+
+  if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+    throw new AppError("Invalid or expired token.", 401);
+  }
+
+  return payload;
+};
 
 /* ----------------------------------
  * ACCESS TOKEN
  * ---------------------------------- */
 
 export const generateAccessToken = (
-  payload: any,
-  expiresIn: string | number = appConfig.TOKEN_EXPIRY.ACCESS,
-  options: SignOptions = {}
+  payload: object,
+  expiresInSeconds: number = appConfig.TOKEN_EXPIRY.EXPIRES_IN_SECONDS
 ): string => {
-  const signOptions: SignOptions = {
-    ...options,
-    expiresIn: expiresIn as any, // 👈 Explicitly cast fixes overload error
-  };
-
-  return jwt.sign(payload, env.JWT_ACCESS_SECRET, signOptions);
+  return signJwt(payload, expiresInSeconds);
 };
 
 export const verifyAccessToken = (token: string): any => {
-  return jwt.verify(token, env.JWT_ACCESS_SECRET) as any;
+  return verifyJwt(token, env.JWT_ACCESS_SECRET);
 };
 
 /* ----------------------------------
@@ -37,18 +129,28 @@ export const verifyAccessToken = (token: string): any => {
  * ---------------------------------- */
 
 export const generateRefreshToken = (
-  payload: any,
-  expiresIn: string | number = appConfig.TOKEN_EXPIRY.REFRESH,
-  options: SignOptions = {}
+  payload: object,
+  expiresInSeconds: number = appConfig.TOKEN_EXPIRY.SESSION_TTL_SECONDS // matches the session lifetime
 ): string => {
-  const signOptions: SignOptions = {
-    ...options,
-    expiresIn: expiresIn as any, // 👈 Explicitly cast fixes overload error
-  };
-
-  return jwt.sign(payload, env.JWT_REFRESH_SECRET, signOptions);
+  return signJwt(payload, expiresInSeconds);
 };
 
 export const verifyRefreshToken = (token: string): any => {
-  return jwt.verify(token, env.JWT_REFRESH_SECRET) as any;
+  return verifyJwt(token, env.JWT_REFRESH_SECRET);
+};
+
+/* ----------------------------------
+ * HEADER HELPERS
+ * ---------------------------------- */
+
+/**
+ * Extract token from an `Authorization: Bearer <token>` header
+ */
+export const extractBearerToken = (header?: string): string | null => {
+  if (!header) return null;
+
+  const [scheme, token] = header.trim().split(/\s+/);
+  if (scheme?.toLowerCase() !== "bearer" || !token) return null;
+
+  return token;
 };